@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+type ProjectRole = "owner" | "editor" | "guest";
+
+type PaletteProject = { id: string; title: string; role: ProjectRole };
+
+type PaletteGroup = { id: string; title: string; project_id: string; project_title: string };
+
+type ProjectRowLite = { id: string; title: string; owner_user_id: string };
+
+type MembershipRow = { project_id: string; role: ProjectRole | null };
+
+// la paleta filtra en el cliente: índice acotado
+const MAX_PROJECTS = 200;
+const MAX_GROUPS = 1000;
+const ID_CHUNK = 200; // .in() va en la URL
+
+function isProjectRole(v: unknown): v is ProjectRole {
+  return v === "owner" || v === "editor" || v === "guest";
+}
+
+function chunks<T>(list: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out;
+}
+
+/**
+ * GET /api/palette
+ * Índice para la paleta de comandos (Ctrl/Cmd+K): mis proyectos (dueño +
+ * miembro) y sus grupos de flashcards. La comunidad se busca en /api/search.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data: userRes, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userRes.user) {
+      return NextResponse.json({ error: "No autenticado." }, { status: 401 });
+    }
+
+    const userId = userRes.user.id;
+
+    const [{ data: owned, error: ownedErr }, { data: mem, error: memErr }] = await Promise.all([
+      supabase
+        .from("projects")
+        .select("id,title,owner_user_id")
+        .eq("owner_user_id", userId)
+        .order("updated_at", { ascending: false })
+        .limit(MAX_PROJECTS)
+        .returns<ProjectRowLite[]>(),
+      supabase
+        .from("project_members")
+        .select("project_id,role")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(MAX_PROJECTS)
+        .returns<MembershipRow[]>(),
+    ]);
+
+    if (ownedErr) return NextResponse.json({ error: ownedErr.message }, { status: 400 });
+    if (memErr) return NextResponse.json({ error: memErr.message }, { status: 400 });
+
+    const projects = new Map<string, PaletteProject>();
+    for (const p of owned ?? []) projects.set(p.id, { id: p.id, title: p.title, role: "owner" });
+
+    const roleById = new Map<string, ProjectRole>();
+    for (const m of mem ?? []) {
+      if (!projects.has(m.project_id)) roleById.set(m.project_id, isProjectRole(m.role) ? m.role : "guest");
+    }
+
+    for (const ids of chunks([...roleById.keys()], ID_CHUNK)) {
+      const { data, error } = await supabase
+        .from("projects")
+        .select("id,title,owner_user_id")
+        .in("id", ids)
+        .eq("is_hidden", false)
+        .returns<ProjectRowLite[]>();
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+      for (const p of data ?? []) projects.set(p.id, { id: p.id, title: p.title, role: roleById.get(p.id) ?? "guest" });
+    }
+
+    // grupos: bloques de flashcards -> flashcard_groups
+    const blockProject = new Map<string, string>();
+    for (const ids of chunks([...projects.keys()], ID_CHUNK)) {
+      const { data, error } = await supabase
+        .from("project_blocks")
+        .select("id,project_id")
+        .in("project_id", ids)
+        .eq("type", "flashcards")
+        .limit(MAX_GROUPS)
+        .returns<{ id: string; project_id: string }[]>();
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+      for (const b of data ?? []) blockProject.set(b.id, String(b.project_id));
+    }
+
+    const groups: PaletteGroup[] = [];
+    for (const ids of chunks([...blockProject.keys()], ID_CHUNK)) {
+      if (groups.length >= MAX_GROUPS) break;
+
+      const { data, error } = await supabase
+        .from("flashcard_groups")
+        .select("id,block_id,title")
+        .in("block_id", ids)
+        .order("order_index", { ascending: true })
+        .limit(MAX_GROUPS - groups.length)
+        .returns<{ id: string; block_id: string; title: string }[]>();
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+      for (const g of data ?? []) {
+        const projectId = blockProject.get(g.block_id);
+        const project = projectId ? projects.get(projectId) : null;
+        if (!project) continue;
+        groups.push({ id: g.id, title: g.title, project_id: project.id, project_title: project.title });
+      }
+    }
+
+    return NextResponse.json({ projects: [...projects.values()], groups });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Error." },
+      { status: 500 }
+    );
+  }
+}
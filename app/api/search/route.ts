@@ -1,67 +1,59 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { parseTagFilters } from "@/lib/project-tags";
+import {
+  loadProjectHits,
+  MAX_SEARCH_PAGE,
+  searchContent,
+  searchProjects,
+  type ProjectSearchHit,
+  type ProjectSearchScope,
+} from "@/lib/search";
 
-type ProjectRole = "owner" | "editor" | "guest";
-
-type ProjectVisibility = "private" | "unlisted" | "public" | string;
-
-type ProjectHit = {
-  id: string;
-  title: string;
-  visibility: ProjectVisibility;
-  is_hidden: boolean;
-  updated_at: string;
-  role?: ProjectRole;
-};
-
-type OwnedRow = {
-  id: string;
-  title: string;
-  visibility: ProjectVisibility | null;
-  is_hidden: boolean | null;
-  updated_at: string;
-};
-
-type MembershipRow = {
-  project_id: string;
-  role: ProjectRole | null;
-};
-
-type ProjectRowLite = {
-  id: string;
-  title: string;
-  visibility: ProjectVisibility | null;
-  is_hidden: boolean | null;
-  updated_at: string;
-};
-
-type CommunityProjectRow = {
-  id: string;
-  title: string;
-  visibility: ProjectVisibility | null;
-  is_hidden: boolean | null;
-  updated_at: string;
-};
+type Scope = "my" | "community";
+
+type ScopePage = { items: ProjectSearchHit[]; next_cursor: string | null };
+
+// "community" excluye lo que ya aparece en "my"
+const RPC_SCOPE: Record<Scope, ProjectSearchScope> = { my: "mine", community: "others" };
+
+const DEFAULT_LIMIT = 8;
 
 function normQ(q: string | null): string {
   return String(q ?? "").trim().slice(0, 120);
 }
 
-function safeLike(raw: string): string {
-  return raw.replace(/[,()*]/g, " ").trim();
+function normScope(v: string | null): Scope | null {
+  return v === "my" || v === "community" ? v : null;
 }
 
-function isProjectRole(v: unknown): v is ProjectRole {
-  return v === "owner" || v === "editor" || v === "guest";
+function normLimit(v: string | null): number {
+  const n = Math.floor(Number(v ?? DEFAULT_LIMIT));
+  if (!Number.isFinite(n)) return DEFAULT_LIMIT;
+  return Math.min(Math.max(1, n), MAX_SEARCH_PAGE);
 }
 
+/**
+ * GET /api/search?q=...&tag=subject:fisica&tag=lang:es
+ * q (mín. 2 caracteres) y/o tags (todas deben estar en projects.tags).
+ * q compara por trigramas sin tildes (tolera errores) y ordena por relevancia.
+ * Sin scope: primera página de "my" y "community" (+ contenido si hay q;
+ * si esa búsqueda falla, content: [] y content_error).
+ * Con scope=my|community (&cursor=...&limit=...): { items, next_cursor }.
+ */
 export async function GET(req: Request) {
   try {
     const url = new URL(req.url);
-    const q = safeLike(normQ(url.searchParams.get("q")));
-
-    if (!q || q.length < 2) {
-      return NextResponse.json({ my: [], community: [] });
+    const rawQ = normQ(url.searchParams.get("q"));
+    const q = rawQ.length >= 2 ? rawQ : "";
+    const tags = parseTagFilters(url.searchParams.getAll("tag"));
+    const scope = normScope(url.searchParams.get("scope"));
+    const limit = normLimit(url.searchParams.get("limit"));
+    const cursor = url.searchParams.get("cursor");
+
+    if (!q && tags.length === 0) {
+      if (scope) return NextResponse.json({ items: [], next_cursor: null });
+      return NextResponse.json({ my: [], community: [], content: [], next: { my: null, community: null } });
     }
 
     const supabase = await createClient();
@@ -73,111 +65,42 @@ export async function GET(req: Request) {
 
     const userId = userRes.user.id;
 
-    const like = `*${q}*`;
-    const orClause = `title.ilike.${like},description_md.ilike.${like}`;
-
-    const ownedPromise = supabase
-      .from("projects")
-      .select("id,title,visibility,is_hidden,updated_at")
-      .eq("owner_user_id", userId)
-      .or(orClause)
-      .order("updated_at", { ascending: false })
-      .limit(6)
-      .returns<OwnedRow[]>();
-
-    const membershipsPromise = supabase
-      .from("project_members")
-      .select("project_id,role")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false })
-      .limit(40)
-      .returns<MembershipRow[]>();
-
-    const communityPromise = supabase
-      .from("projects")
-      .select("id,title,visibility,is_hidden,updated_at")
-      .eq("is_hidden", false)
-      .not("published_at", "is", null)
-      .in("visibility", ["public", "unlisted"])
-      .or(orClause)
-      .order("updated_at", { ascending: false })
-      .limit(8)
-      .returns<CommunityProjectRow[]>();
-
-    const [
-      { data: owned, error: ownedErr },
-      { data: memberships, error: memErr },
-      { data: comm, error: commErr },
-    ] = await Promise.all([ownedPromise, membershipsPromise, communityPromise]);
-
-    if (ownedErr) return NextResponse.json({ error: ownedErr.message }, { status: 400 });
-    if (memErr) return NextResponse.json({ error: memErr.message }, { status: 400 });
-    if (commErr) return NextResponse.json({ error: commErr.message }, { status: 400 });
-
-    const myMap = new Map<string, ProjectHit>();
-
-    for (const p of owned ?? []) {
-      myMap.set(p.id, {
-        id: p.id,
-        title: p.title,
-        visibility: p.visibility ?? "private",
-        is_hidden: Boolean(p.is_hidden),
-        updated_at: p.updated_at,
-        role: "owner",
-      });
-    }
-
-    const memberIds: string[] = [];
-    const roleById = new Map<string, ProjectRole>();
+    const scopePage = async (
+      s: Scope,
+      pageCursor: string | null
+    ): Promise<{ ok: true; data: ScopePage } | { ok: false; error: string }> => {
+      const res = await searchProjects(supabase, { query: q, scope: RPC_SCOPE[s], tags, limit, cursor: pageCursor });
+      if (!res.ok) return res;
 
-    for (const m of memberships ?? []) {
-      if (myMap.has(m.project_id)) continue;
-      memberIds.push(m.project_id);
-      roleById.set(m.project_id, isProjectRole(m.role) ? m.role : "guest");
-    }
+      const hits = await loadProjectHits(supabase, userId, res.data.matches);
+      if (!hits.ok) return hits;
 
-    let imported: ProjectRowLite[] = [];
-    if (memberIds.length) {
-      const { data: imp, error: impErr } = await supabase
-        .from("projects")
-        .select("id,title,visibility,is_hidden,updated_at")
-        .in("id", memberIds)
-        .or(orClause)
-        .order("updated_at", { ascending: false })
-        .limit(8)
-        .returns<ProjectRowLite[]>();
-
-      if (impErr) return NextResponse.json({ error: impErr.message }, { status: 400 });
-      imported = imp ?? [];
-    }
+      return { ok: true, data: { items: hits.data, next_cursor: res.data.next_cursor } };
+    };
 
-    for (const p of imported) {
-      if (myMap.has(p.id)) continue;
-      myMap.set(p.id, {
-        id: p.id,
-        title: p.title,
-        visibility: p.visibility ?? "private",
-        is_hidden: Boolean(p.is_hidden),
-        updated_at: p.updated_at,
-        role: roleById.get(p.id) ?? "guest",
-      });
+    if (scope) {
+      const res = await scopePage(scope, cursor);
+      if (!res.ok) return NextResponse.json({ error: res.error }, { status: 400 });
+      return NextResponse.json(res.data);
     }
 
-    const my = Array.from(myMap.values())
-      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
-      .slice(0, 8);
-
-    const community: ProjectHit[] = (comm ?? [])
-      .filter((p) => !myMap.has(p.id))
-      .map((p) => ({
-        id: p.id,
-        title: p.title,
-        visibility: p.visibility ?? "public",
-        is_hidden: Boolean(p.is_hidden),
-        updated_at: p.updated_at,
-      }));
-
-    return NextResponse.json({ my, community });
+    const [my, community, content] = await Promise.all([
+      scopePage("my", null),
+      scopePage("community", null),
+      q ? searchContent(supabase, q, 8) : Promise.resolve({ ok: true as const, data: [] }),
+    ]);
+
+    if (!my.ok) return NextResponse.json({ error: my.error }, { status: 400 });
+    if (!community.ok) return NextResponse.json({ error: community.error }, { status: 400 });
+
+    // el contenido es secundario: si su RPC falla se devuelven igual los proyectos
+    return NextResponse.json({
+      my: my.data.items,
+      community: community.data.items,
+      content: content.ok ? content.data : [],
+      ...(content.ok ? {} : { content_error: content.error }),
+      next: { my: my.data.next_cursor, community: community.data.next_cursor },
+    });
   } catch (e) {
     return NextResponse.json(
       { error: e instanceof Error ? e.message : "Error." },
@@ -91,6 +91,23 @@ export async function adminSetProjectHiddenAction(args: {
   }
 }
 
+/** Eliminar una reseña reportada (moderación) */
+export async function adminDeleteReviewAction(args: {
+  review_id: string;
+}): Promise<{ ok: true } | { ok: false; error: string }> {
+  try {
+    const { supabase } = await requireAdmin();
+    const reviewId = assertUuid(args.review_id);
+
+    const { error } = await supabase.from("project_reviews").delete().eq("id", reviewId);
+    if (error) return { ok: false, error: error.message };
+
+    return { ok: true };
+  } catch (e: unknown) {
+    return { ok: false, error: e instanceof Error ? e.message : "Error." };
+  }
+}
+
 /** Eliminar proyecto (moderación) */
 export async function adminDeleteProjectAction(args: {
   project_id: string;
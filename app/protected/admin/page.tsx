@@ -13,6 +13,7 @@ type ReportStatus = "open" | "resolved" | "dismissed";
 type ReportRow = {
   id: string;
   project_id: string;
+  review_id: string | null;
   reporter_user_id: string;
   description: string;
   status: ReportStatus;
@@ -38,16 +39,25 @@ type ProfileMin = {
   email: string | null;
 };
 
+type ReviewMin = {
+  id: string;
+  user_id: string;
+  rating: number;
+  body: string;
+};
+
 type GlobalRoleRow = { global_role: string | null };
 
 type ReportJoined = ReportRow & {
   project?: (ProjectMin & { owner?: ProfileMin | null }) | null;
   reporter?: ProfileMin | null;
+  review?: ReviewMin | null;
 };
 
 export type AdminRow = {
   report: ReportRow;
   project: ProjectMin | null;
+  review: ReviewMin | null; // solo si el reporte es de una reseña
   reporter: ProfileMin | null;
   owner: ProfileMin | null;
 };
@@ -118,6 +128,7 @@ async function AdminReportsLoader() {
       [
         "id",
         "project_id",
+        "review_id",
         "reporter_user_id",
         "description",
         "status",
@@ -126,6 +137,7 @@ async function AdminReportsLoader() {
         "updated_at",
         "project:projects!reports_project_id_fkey(id,title,owner_user_id,is_hidden,visibility,moderation_note,moderated_at,owner:profiles!projects_owner_user_id_fkey(id,username,avatar_url,email))",
         "reporter:profiles!reports_reporter_user_id_fkey(id,username,avatar_url,email)",
+        "review:project_reviews!reports_review_id_fkey(id,user_id,rating,body)",
       ].join(",")
     )
     .order("created_at", { ascending: false })
@@ -150,6 +162,7 @@ async function AdminReportsLoader() {
     const report: ReportRow = {
       id: r.id,
       project_id: r.project_id,
+      review_id: r.review_id ?? null,
       reporter_user_id: r.reporter_user_id,
       description: r.description,
       status: r.status,
@@ -158,7 +171,7 @@ async function AdminReportsLoader() {
       updated_at: r.updated_at,
     };
 
-    return { report, project, reporter, owner };
+    return { report, project, reporter, owner, review: r.review ?? null };
   });
 
   return <AdminReportsClient rows={rows} />;
@@ -31,6 +31,7 @@ import {
 
 import {
   adminDeleteProjectAction,
+  adminDeleteReviewAction,
   adminSetProjectHiddenAction,
   adminSetReportStatusAction,
 } from "./admin-actions";
@@ -56,9 +57,17 @@ type ProjectMin = {
   moderated_at?: string | null;
 };
 
+type ReviewMin = {
+  id: string;
+  user_id: string;
+  rating: number;
+  body: string;
+};
+
 type ReportRow = {
   id: string;
   project_id: string;
+  review_id: string | null;
   reporter_user_id: string;
   description: string;
   status: "open" | "resolved" | "dismissed";
@@ -72,6 +81,7 @@ type Row = {
   project: ProjectMin | null;
   reporter: ProfileMin | null;
   owner: ProfileMin | null;
+  review: ReviewMin | null;
 };
 
 type StatusFilter = "all" | ReportRow["status"];
@@ -152,6 +162,7 @@ export default function AdminReportsClient(props: { rows: Row[] }) {
           x.owner?.username ?? "",
           x.owner?.email ?? "",
           x.report.admin_note ?? "",
+          x.review?.body ?? "",
           x.project?.moderation_note ?? "",
         ]
           .join(" ")
@@ -240,6 +251,21 @@ export default function AdminReportsClient(props: { rows: Row[] }) {
     );
   }
 
+  async function deleteReview(reviewId: string) {
+    const ok = confirm("¿Eliminar esta reseña? Esto es permanente.");
+    if (!ok) return;
+
+    setErr(null);
+    setBusy(`review:${reviewId}`);
+
+    const res = await adminDeleteReviewAction({ review_id: reviewId });
+
+    setBusy(null);
+    if (!res.ok) return setErr(res.error);
+
+    setItems((cur) => cur.map((x) => (x.review?.id === reviewId ? { ...x, review: null } : x)));
+  }
+
   async function deleteProject(projectId: string) {
     const ok = confirm("¿Eliminar este proyecto? Esto es permanente.");
     if (!ok) return;
@@ -362,6 +388,12 @@ export default function AdminReportsClient(props: { rows: Row[] }) {
                           </span>
                         )}
 
+                        {r.review_id ? (
+                          <span className="inline-flex items-center rounded-full border px-2 py-0.5 text-[11px] font-medium text-muted-foreground">
+                            {x.review ? "Reseña" : "Reseña eliminada"}
+                          </span>
+                        ) : null}
+
                         <span className="text-xs text-muted-foreground">
                           {formatDateTimeCL(r.created_at)}
                         </span>
@@ -478,6 +510,36 @@ export default function AdminReportsClient(props: { rows: Row[] }) {
                     </p>
                   </div>
 
+                  {/* Reseña reportada */}
+                  {openRow.report.review_id ? (
+                    <div className="rounded-xl border p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-sm font-medium">Reseña reportada</p>
+                        {openRow.review ? (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="destructive"
+                            disabled={busy === `review:${openRow.review.id}`}
+                            onClick={() => openRow.review && deleteReview(openRow.review.id)}
+                          >
+                            Eliminar reseña
+                          </Button>
+                        ) : null}
+                      </div>
+                      {openRow.review ? (
+                        <div className="mt-1 space-y-1">
+                          <p className="text-xs text-muted-foreground">{openRow.review.rating} / 5 estrellas</p>
+                          <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                            {openRow.review.body || "(sin texto)"}
+                          </p>
+                        </div>
+                      ) : (
+                        <p className="mt-1 text-sm text-muted-foreground">La reseña ya fue eliminada.</p>
+                      )}
+                    </div>
+                  ) : null}
+
                   {/* Personas */}
                   <div className="grid gap-2 md:grid-cols-2">
                     <div className="rounded-xl border p-3">
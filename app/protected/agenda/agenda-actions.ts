@@ -6,6 +6,9 @@ import { redirect } from "next/navigation";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/server";
 import { parseProjectIdValue } from "@/lib/project-id";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/streaks";
+import { loadDailyLimits, type DailyLimits } from "@/lib/srs/daily-limits";
+import type { ForecastDay } from "@/lib/srs/forecast";
 import type {
   FlashcardGroupRow,
   FlashcardRow,
@@ -42,6 +45,7 @@ export type AgendaRecentReviewRow = {
   rating: string; // "again" | "hard" | "good" | "easy"
   group_title: string | null;
   card_id: string; // uuid
+  log_id: string | null; // flashcard_review_log.id (para deshacer)
 };
 
 function toInt(v: unknown): number {
@@ -94,6 +98,7 @@ function normalizeRecent(rows: unknown): AgendaRecentReviewRow[] {
       rating: toStr(r.rating),
       group_title: r.group_title === null ? null : toStr(r.group_title),
       card_id: toStr(r.card_id),
+      log_id: r.log_id == null ? null : toStr(r.log_id),
     });
   }
 
@@ -102,13 +107,34 @@ function normalizeRecent(rows: unknown): AgendaRecentReviewRow[] {
   return out;
 }
 
+function normalizeForecast(rows: unknown): ForecastDay[] {
+  if (!Array.isArray(rows)) return [];
+  const out: ForecastDay[] = [];
+
+  for (const r of rows) {
+    if (!isObj(r)) continue;
+    out.push({
+      day: toStr(r.day).slice(0, 10),
+      due_learning: toInt(r.due_learning),
+      due_review: toInt(r.due_review),
+    });
+  }
+
+  out.sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+  return out;
+}
+
 /**
  * Historial de respuestas (últimos N días)
- * Requiere RPC SQL: public.agenda_history(p_user_id uuid, p_project_id uuid, p_days int)
+ * Requiere RPC SQL: public.agenda_history(p_user_id uuid, p_project_id uuid, p_days int, p_tz text)
+ * p_project_id null = todos los proyectos; p_tz: zona IANA con la que se
+ * agrupa por día (default 'America/Santiago').
+ * El RPC debe excluir respuestas deshechas (flashcard_review_log.reverted_at is not null).
  */
 export async function getAgendaHistory(args: {
-  project_id: string;
+  project_id: string | null;
   days: number;
+  tz?: string;
 }): Promise<ActionResult<{ days: AgendaHistoryDay[] }>> {
   const supabase = await createClient();
 
@@ -116,13 +142,15 @@ export async function getAgendaHistory(args: {
   if (userErr || !userRes.user) return err("No autenticado.");
 
   const p_user_id = userRes.user.id;
-  const p_project_id = args.project_id;
+  const p_project_id = args.project_id || null;
   const p_days = Math.max(1, Math.min(args.days ?? 30, 365));
+  const p_tz = args.tz && isValidTimeZone(args.tz) ? args.tz : DEFAULT_TIME_ZONE;
 
   const { data, error } = await supabase.rpc("agenda_history", {
     p_user_id,
     p_project_id,
     p_days,
+    p_tz,
   });
 
   if (error) return err(error.message);
@@ -133,6 +161,8 @@ export async function getAgendaHistory(args: {
 /**
  * Últimas respuestas del usuario (actividad reciente)
  * Requiere RPC SQL: public.agenda_recent_reviews(p_user_id uuid, p_project_id uuid, p_limit int)
+ *   returns table(created_at timestamptz, rating text, group_title text, card_id uuid, log_id uuid)
+ * El RPC debe excluir respuestas deshechas (flashcard_review_log.reverted_at is not null).
  */
 export async function getAgendaRecentReviews(args: {
   project_id: string;
@@ -158,6 +188,42 @@ export async function getAgendaRecentReviews(args: {
   return ok({ rows: normalizeRecent(data) });
 }
 
+/**
+ * Pronóstico de carga (vencimientos por día, próximos N días)
+ * Requiere RPC SQL: public.agenda_forecast(p_user_id uuid, p_project_id uuid, p_days int, p_tz text)
+ *   returns table(day date, due_learning int, due_review int)
+ * Requiere RPC SQL: public.agenda_new_count(p_user_id uuid, p_project_id uuid) returns int
+ * p_project_id null = todos los proyectos; lo atrasado cuenta en el día de hoy
+ * (según p_tz). Ambas excluyen cartas suspendidas o enterradas (flashcard_user_flags).
+ * Los límites diarios se devuelven aparte para la simulación.
+ */
+export async function getAgendaForecast(args: {
+  project_id: string | null;
+  days: number;
+  tz?: string;
+}): Promise<ActionResult<{ days: ForecastDay[]; new_pool: number; limits: DailyLimits }>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+
+  const p_user_id = userRes.user.id;
+  const p_project_id = args.project_id || null;
+  const p_days = Math.max(1, Math.min(args.days ?? 30, 90));
+  const p_tz = args.tz && isValidTimeZone(args.tz) ? args.tz : DEFAULT_TIME_ZONE;
+
+  const [fRes, nRes, limits] = await Promise.all([
+    supabase.rpc("agenda_forecast", { p_user_id, p_project_id, p_days, p_tz }),
+    supabase.rpc("agenda_new_count", { p_user_id, p_project_id }),
+    loadDailyLimits(supabase, p_user_id),
+  ]);
+
+  if (fRes.error) return err(fRes.error.message);
+  if (nRes.error) return err(nRes.error.message);
+
+  return ok({ days: normalizeForecast(fRes.data), new_pool: toInt(nRes.data), limits });
+}
+
 function enc(v: string): string {
   return encodeURIComponent(v);
 }
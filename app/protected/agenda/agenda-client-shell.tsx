@@ -6,7 +6,8 @@ import { useRouter, useSearchParams } from "next/navigation";
 
 import { Button } from "@/components/ui/button";
 import { PracticeOverlay } from "@/components/practice/PracticeOverlay";
-import { StudyAgendaClient } from "@/components/agenda/StudyAgendaClient";
+import { StudyAgendaClient, type PracticeMode } from "@/components/agenda/StudyAgendaClient";
+import type { DailyLimits } from "@/lib/srs/daily-limits";
 
 type ProjectPick = { id: string; title: string };
 
@@ -31,6 +32,7 @@ export function AgendaClientShell(props: {
   selectedProjectId: string;
   groups: AgendaGroupRow[];
   week: AgendaDayRow[];
+  limits: DailyLimits;
 }) {
   const router = useRouter();
   const sp = useSearchParams();
@@ -38,6 +40,7 @@ export function AgendaClientShell(props: {
   const [practiceOpen, setPracticeOpen] = useState(false);
   const [practiceGroupId, setPracticeGroupId] = useState<string | null>(null);
   const [practiceGroupTitle, setPracticeGroupTitle] = useState<string | undefined>(undefined);
+  const [practiceMode, setPracticeMode] = useState<PracticeMode>("due");
 
   const selectedTitle = useMemo(() => {
     return props.projects.find((p) => p.id === props.selectedProjectId)?.title ?? "Proyecto";
@@ -50,9 +53,10 @@ export function AgendaClientShell(props: {
     router.refresh();
   }
 
-  function openPractice(groupId: string, title?: string) {
+  function openPractice(groupId: string, title?: string, mode?: PracticeMode) {
     setPracticeGroupId(groupId);
     setPracticeGroupTitle(title);
+    setPracticeMode(mode ?? "due");
     setPracticeOpen(true);
   }
 
@@ -71,6 +75,7 @@ export function AgendaClientShell(props: {
           projectId={props.selectedProjectId}
           groupId={practiceGroupId}
           groupTitle={practiceGroupTitle}
+          mode={practiceMode}
         />
       ) : null}
 
@@ -105,6 +110,7 @@ export function AgendaClientShell(props: {
         projectId={props.selectedProjectId}
         groups={props.groups}
         week={props.week}
+        limits={props.limits}
         onPracticeGroup={openPractice}
       />
     </div>
@@ -3,6 +3,7 @@ import Link from "next/link";
 import { redirect } from "next/navigation";
 import { Suspense } from "react";
 import { createClient } from "@/lib/supabase/server";
+import { capDueByDay, loadDailyLimits } from "@/lib/srs/daily-limits";
 
 import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -155,6 +156,7 @@ async function AgendaPageInner(props: { searchParams?: SearchParams | Promise<Se
   const selected = projects.find((p) => p.id === selectedProjectId) ?? projects[0];
 
   // 3) Datos de agenda (por grupo + por día)
+  // Las RPC excluyen cartas suspendidas o enterradas (flashcard_user_flags, ver lib/leeches)
   const groupsPromise = supabase.rpc("agenda_group_counts", {
     p_user_id: userId,
     p_project_id: selected.id,
@@ -166,16 +168,22 @@ async function AgendaPageInner(props: { searchParams?: SearchParams | Promise<Se
     p_days: 7,
   });
 
-  const [{ data: gData, error: gErr }, { data: wData, error: wErr }] = await Promise.all([
+  const [{ data: gData, error: gErr }, { data: wData, error: wErr }, daily] = await Promise.all([
     groupsPromise,
     weekPromise,
+    loadDailyLimits(supabase, userId),
   ]);
 
   if (gErr) return <ErrorCard title="Error" message={gErr.message} />;
   if (wErr) return <ErrorCard title="Error" message={wErr.message} />;
 
-  const groups = (gData ?? []) as AgendaGroupRow[];
-  const week = (wData ?? []) as AgendaDayRow[];
+  // Conteos limitados por el cupo diario (nuevas / repasos)
+  const groups = ((gData ?? []) as AgendaGroupRow[]).map((g) => ({
+    ...g,
+    new_count: Math.min(g.new_count ?? 0, daily.newLeft),
+    due_review: Math.min(g.due_review ?? 0, daily.reviewsLeft),
+  }));
+  const week = capDueByDay((wData ?? []) as AgendaDayRow[], daily);
 
   return (
     <div className="space-y-4">
@@ -210,6 +218,7 @@ async function AgendaPageInner(props: { searchParams?: SearchParams | Promise<Se
         selectedProjectId={selected.id}
         groups={groups}
         week={week}
+        limits={daily}
       />
     </div>
   );
@@ -0,0 +1,120 @@
+// app/protected/cohorts/[cohortId]/assignment-form-client.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ASSIGNMENT_TARGET_LABEL } from "@/lib/cohorts";
+import type { CohortAssignmentTarget } from "@/lib/types/study";
+import { createAssignmentAction } from "../actions";
+
+export type AssignableProject = {
+  id: string;
+  title: string;
+  groups: Array<{ id: string; title: string }>;
+};
+
+const SELECT_CLASS = "h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm";
+
+const TARGETS = Object.keys(ASSIGNMENT_TARGET_LABEL) as CohortAssignmentTarget[];
+
+function inDays(days: number): string {
+  const d = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+/** Formulario de nueva tarea (proyectos propios del profesor). */
+export function AssignmentForm(props: { cohortId: string; projects: AssignableProject[] }) {
+  const [projectId, setProjectId] = useState(props.projects[0]?.id ?? "");
+  const [wholeProject, setWholeProject] = useState(true);
+
+  const groups = useMemo(
+    () => props.projects.find((p) => p.id === projectId)?.groups ?? [],
+    [props.projects, projectId]
+  );
+
+  if (props.projects.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Solo puedes asignar proyectos propios. Crea uno en Proyectos para empezar.
+      </p>
+    );
+  }
+
+  return (
+    <form action={createAssignmentAction} className="space-y-3">
+      <input type="hidden" name="cohort_id" value={props.cohortId} />
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">Proyecto</label>
+          <select
+            name="project_id"
+            value={projectId}
+            onChange={(e) => {
+              setProjectId(e.target.value);
+              setWholeProject(true);
+            }}
+            className={SELECT_CLASS}
+          >
+            {props.projects.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.title}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">Título (opcional)</label>
+          <Input name="title" maxLength={120} placeholder="p. ej. Unidad 2: células" />
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">Meta</label>
+          <select name="target" defaultValue="reviewed_once" className={SELECT_CLASS}>
+            {TARGETS.map((t) => (
+              <option key={t} value={t}>
+                {ASSIGNMENT_TARGET_LABEL[t]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">Entrega (hasta el fin del día)</label>
+          <Input type="date" name="due_day" required min={inDays(0)} defaultValue={inDays(7)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={wholeProject} onChange={(e) => setWholeProject(e.target.checked)} />
+          Todo el proyecto
+        </label>
+
+        {!wholeProject ? (
+          groups.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Este proyecto no tiene grupos de flashcards.</p>
+          ) : (
+            <div className="grid max-h-48 gap-1 overflow-y-auto rounded-lg border p-2 sm:grid-cols-2">
+              {groups.map((g) => (
+                <label key={g.id} className="flex min-w-0 items-center gap-2 text-sm">
+                  <input type="checkbox" name="group_ids" value={g.id} />
+                  <span className="truncate">{g.title || "Sin título"}</span>
+                </label>
+              ))}
+            </div>
+          )
+        ) : null}
+      </div>
+
+      <Button type="submit">Asignar</Button>
+      <p className="text-[11px] text-muted-foreground">
+        Los alumnos que aún no tengan acceso al proyecto se agregan como invitados.
+      </p>
+    </form>
+  );
+}
@@ -0,0 +1,417 @@
+// app/protected/cohorts/[cohortId]/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { createClient } from "@/lib/supabase/server";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDateTimeCL } from "@/lib/datetime";
+import { ASSIGNMENT_TARGET_LABEL, loadMyAssignments, type AssignmentProgress } from "@/lib/cohorts";
+import type { CohortAssignmentRow, CohortRow } from "@/lib/types/study";
+import {
+  deleteAssignmentAction,
+  deleteCohortAction,
+  leaveCohortAction,
+  regenerateCohortCodeAction,
+  removeCohortMemberAction,
+} from "../actions";
+import { AssignmentForm, type AssignableProject } from "./assignment-form-client";
+
+type SearchParams = { error?: string };
+
+// hidden = el alumno no comparte su progreso en ese proyecto (project_members.hide_progress)
+type StudentProgress = { user_id: string; hidden: boolean; done: number; total: number; last_review_at: string | null };
+
+const MAX_ASSIGNMENTS = 50;
+const MAX_STUDENTS = 500;
+const MAX_ASSIGNABLE = 100;
+const ID_CHUNK = 200; // .in() va en la URL
+
+function isUuid(v: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+function pct(done: number, total: number): number {
+  return total > 0 ? Math.round((done / total) * 100) : 0;
+}
+
+export default async function CohortPage(props: {
+  params: { cohortId: string } | Promise<{ cohortId: string }>;
+  searchParams?: SearchParams | Promise<SearchParams>;
+}) {
+  const { cohortId: raw } = await Promise.resolve(props.params);
+  const sp = await Promise.resolve(props.searchParams);
+  const cohortId = decodeURIComponent(raw);
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) redirect("/auth/login");
+  const userId = userRes.user.id;
+
+  const { data: cohort } = isUuid(cohortId)
+    ? await supabase
+        .from("cohorts")
+        .select("id,owner_user_id,name,description,join_code,created_at,updated_at")
+        .eq("id", cohortId)
+        .maybeSingle<CohortRow>()
+    : { data: null };
+
+  if (!cohort) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Clase no encontrada</CardTitle>
+          <CardDescription>No existe o no eres parte de ella.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="secondary">
+            <Link href="/protected/cohorts">Volver a clases</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isTeacher = cohort.owner_user_id === userId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h1 className="truncate text-2xl font-semibold">{cohort.name}</h1>
+          {cohort.description ? <p className="text-sm text-muted-foreground">{cohort.description}</p> : null}
+          <p className="mt-1 text-xs text-muted-foreground">{isTeacher ? "Profesor" : "Alumno"}</p>
+        </div>
+        <Button asChild variant="ghost">
+          <Link href="/protected/cohorts">Volver</Link>
+        </Button>
+      </div>
+
+      {sp?.error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{sp.error}</div>
+      ) : null}
+
+      {isTeacher ? <TeacherView supabase={supabase} cohort={cohort} userId={userId} /> : <StudentView supabase={supabase} cohort={cohort} userId={userId} />}
+    </div>
+  );
+}
+
+/* ---------------------------------------
+   ALUMNO
+----------------------------------------*/
+
+async function StudentView(props: { supabase: SupabaseClient; cohort: CohortRow; userId: string }) {
+  const res = await loadMyAssignments(props.supabase, props.userId, { cohortId: props.cohort.id });
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Tareas</CardTitle>
+          <CardDescription>Tu avance se calcula con tus repasos en cada proyecto.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {!res.ok ? <p className="text-sm text-destructive">{res.error}</p> : null}
+          {res.ok && res.data.length === 0 ? <p className="text-sm text-muted-foreground">Aún no hay tareas.</p> : null}
+          {res.ok ? res.data.map((a) => <MyAssignmentRow key={a.assignment_id} a={a} />) : null}
+        </CardContent>
+      </Card>
+
+      <form action={leaveCohortAction}>
+        <input type="hidden" name="cohort_id" value={props.cohort.id} />
+        <Button type="submit" variant="ghost" size="sm">
+          Salir de la clase
+        </Button>
+      </form>
+    </>
+  );
+}
+
+function MyAssignmentRow(props: { a: AssignmentProgress }) {
+  const a = props.a;
+  const complete = a.total > 0 && a.done >= a.total;
+  const overdue = !complete && Date.parse(a.due_at) < Date.now();
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">{a.title || a.project_title}</p>
+          <p className="text-[11px] text-muted-foreground">
+            {a.title ? `${a.project_title} · ` : ""}
+            {a.group_count == null ? "Todo el proyecto" : `${a.group_count} grupo(s)`} · {ASSIGNMENT_TARGET_LABEL[a.target]}
+          </p>
+          <p className={overdue ? "text-[11px] text-destructive" : "text-[11px] text-muted-foreground"}>
+            Entrega: {formatDateTimeCL(a.due_at)}
+            {complete ? " · Completada" : overdue ? " · Atrasada" : ""}
+          </p>
+        </div>
+        <Button asChild size="sm" variant="secondary">
+          <Link href={`/protected/projects/${encodeURIComponent(a.project_id)}?tab=view`}>Estudiar</Link>
+        </Button>
+      </div>
+      <ProgressBar done={a.done} total={a.total} />
+    </div>
+  );
+}
+
+function ProgressBar(props: { done: number; total: number }) {
+  const p = pct(props.done, props.total);
+  return (
+    <div className="flex items-center gap-2">
+      <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+        <div className="h-full rounded-full bg-primary" style={{ width: `${p}%` }} />
+      </div>
+      <span className="w-20 text-right text-[11px] tabular-nums text-muted-foreground">
+        {props.done}/{props.total}
+      </span>
+    </div>
+  );
+}
+
+/* ---------------------------------------
+   PROFESOR
+----------------------------------------*/
+
+async function loadAssignableProjects(supabase: SupabaseClient, userId: string): Promise<AssignableProject[]> {
+  const { data: projects } = await supabase
+    .from("projects")
+    .select("id,title")
+    .eq("owner_user_id", userId)
+    .order("updated_at", { ascending: false })
+    .limit(MAX_ASSIGNABLE)
+    .returns<{ id: string | number; title: string }[]>();
+
+  const list = projects ?? [];
+  const projectIds = list.map((p) => String(p.id));
+  const blockProject = new Map<string, string>();
+  for (let i = 0; i < projectIds.length; i += ID_CHUNK) {
+    const { data: blocks } = await supabase
+      .from("project_blocks")
+      .select("id,project_id")
+      .in("project_id", projectIds.slice(i, i + ID_CHUNK))
+      .eq("type", "flashcards")
+      .limit(1000)
+      .returns<{ id: string; project_id: string | number }[]>();
+    for (const b of blocks ?? []) blockProject.set(b.id, String(b.project_id));
+  }
+
+  const groupsByProject = new Map<string, Array<{ id: string; title: string }>>();
+  const blockIds = [...blockProject.keys()];
+  for (let i = 0; i < blockIds.length; i += ID_CHUNK) {
+    const { data: groups } = await supabase
+      .from("flashcard_groups")
+      .select("id,block_id,title,order_index")
+      .in("block_id", blockIds.slice(i, i + ID_CHUNK))
+      .order("order_index", { ascending: true })
+      .limit(1000)
+      .returns<{ id: string; block_id: string; title: string }[]>();
+    for (const g of groups ?? []) {
+      const pid = blockProject.get(g.block_id);
+      if (!pid) continue;
+      const arr = groupsByProject.get(pid) ?? [];
+      arr.push({ id: g.id, title: g.title });
+      groupsByProject.set(pid, arr);
+    }
+  }
+
+  return list.map((p) => ({ id: String(p.id), title: p.title, groups: groupsByProject.get(String(p.id)) ?? [] }));
+}
+
+async function TeacherView(props: { supabase: SupabaseClient; cohort: CohortRow; userId: string }) {
+  const { supabase, cohort } = props;
+
+  const [{ data: members }, { data: assignments, error: aErr }, assignable] = await Promise.all([
+    supabase
+      .from("cohort_members")
+      .select("user_id,joined_at")
+      .eq("cohort_id", cohort.id)
+      .order("joined_at", { ascending: true })
+      .limit(MAX_STUDENTS)
+      .returns<{ user_id: string; joined_at: string }[]>(),
+    supabase
+      .from("cohort_assignments")
+      .select("id,cohort_id,project_id,group_ids,title,target,due_at,created_by,created_at")
+      .eq("cohort_id", cohort.id)
+      .order("due_at", { ascending: true })
+      .limit(MAX_ASSIGNMENTS)
+      .returns<CohortAssignmentRow[]>(),
+    loadAssignableProjects(supabase, props.userId),
+  ]);
+
+  const students = members ?? [];
+  const studentIds = students.map((s) => s.user_id);
+  const usernames = new Map<string, string | null>();
+  for (let i = 0; i < studentIds.length; i += ID_CHUNK) {
+    const { data: profs } = await supabase
+      .from("profiles")
+      .select("id,username")
+      .in("id", studentIds.slice(i, i + ID_CHUNK))
+      .returns<{ id: string; username: string | null }[]>();
+    for (const p of profs ?? []) usernames.set(p.id, p.username);
+  }
+
+  const assignedIds = [...new Set((assignments ?? []).map((a) => String(a.project_id)))];
+  const { data: assignedProjects } = assignedIds.length
+    ? await supabase
+        .from("projects")
+        .select("id,title")
+        .in("id", assignedIds)
+        .returns<{ id: string | number; title: string }[]>()
+    : { data: [] as { id: string | number; title: string }[] };
+  const projectTitle = new Map((assignedProjects ?? []).map((p) => [String(p.id), p.title]));
+
+  const progress = await Promise.all(
+    (assignments ?? []).map(async (a) => {
+      const { data, error } = await supabase.rpc("cohort_assignment_progress", { p_assignment_id: a.id });
+      const rows = (Array.isArray(data) ? data : []) as Array<Record<string, unknown>>;
+      return {
+        error: error?.message ?? null,
+        rows: rows.map(
+          (r): StudentProgress => ({
+            user_id: String(r.user_id),
+            hidden: r.hidden === true,
+            done: Number(r.done ?? 0) || 0,
+            total: Number(r.total ?? 0) || 0,
+            last_review_at: r.last_review_at == null ? null : String(r.last_review_at),
+          })
+        ),
+      };
+    })
+  );
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Código de la clase</CardTitle>
+          <CardDescription>Tus alumnos lo usan en Clases → Unirme a una clase.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-3">
+          <span className="rounded-lg border bg-muted/30 px-3 py-1.5 font-mono text-lg tracking-widest">{cohort.join_code}</span>
+          <form action={regenerateCohortCodeAction}>
+            <input type="hidden" name="cohort_id" value={cohort.id} />
+            <Button type="submit" size="sm" variant="ghost">
+              Generar otro código
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Nueva tarea</CardTitle>
+          <CardDescription>Asigna un proyecto o algunos de sus grupos con fecha de entrega y meta.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AssignmentForm cohortId={cohort.id} projects={assignable} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Tareas</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {aErr ? <p className="text-sm text-destructive">{aErr.message}</p> : null}
+          {(assignments ?? []).length === 0 ? <p className="text-sm text-muted-foreground">Aún no hay tareas.</p> : null}
+
+          {(assignments ?? []).map((a, i) => {
+            const prog = progress[i];
+            const byUser = new Map(prog.rows.map((r) => [r.user_id, r]));
+            const completed = prog.rows.filter((r) => !r.hidden && r.total > 0 && r.done >= r.total).length;
+            const title = projectTitle.get(String(a.project_id)) ?? "Proyecto";
+
+            return (
+              <div key={a.id} className="space-y-2 rounded-lg border p-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{a.title || title}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {a.title ? `${title} · ` : ""}
+                      {a.group_ids?.length ? `${a.group_ids.length} grupo(s)` : "Todo el proyecto"} ·{" "}
+                      {ASSIGNMENT_TARGET_LABEL[a.target]}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground">
+                      Entrega: {formatDateTimeCL(a.due_at)} · {completed}/{students.length} completaron
+                    </p>
+                  </div>
+                  <form action={deleteAssignmentAction}>
+                    <input type="hidden" name="cohort_id" value={cohort.id} />
+                    <input type="hidden" name="assignment_id" value={a.id} />
+                    <Button type="submit" size="sm" variant="ghost">
+                      Eliminar
+                    </Button>
+                  </form>
+                </div>
+
+                {prog.error ? <p className="text-xs text-destructive">{prog.error}</p> : null}
+
+                {students.length ? (
+                  <details>
+                    <summary className="cursor-pointer text-xs text-muted-foreground">Avance por alumno</summary>
+                    <div className="mt-2 space-y-1">
+                      {students.map((s) => {
+                        const r = byUser.get(s.user_id);
+                        return (
+                          <div key={s.user_id} className="grid grid-cols-[minmax(0,10rem)_1fr] items-center gap-2">
+                            <span className="truncate text-xs">{usernames.get(s.user_id) ?? "Sin nombre"}</span>
+                            {r?.hidden ? (
+                              <span className="text-xs text-muted-foreground">Prefiere no compartir su progreso.</span>
+                            ) : (
+                              <ProgressBar done={r?.done ?? 0} total={r?.total ?? 0} />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </details>
+                ) : null}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Alumnos ({students.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {students.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Comparte el código para que se unan.</p>
+          ) : null}
+          {students.map((s) => (
+            <div key={s.user_id} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate">{usernames.get(s.user_id) ?? "Sin nombre"}</p>
+                <p className="text-[11px] text-muted-foreground">Se unió {formatDateTimeCL(s.joined_at)}</p>
+              </div>
+              <form action={removeCohortMemberAction}>
+                <input type="hidden" name="cohort_id" value={cohort.id} />
+                <input type="hidden" name="user_id" value={s.user_id} />
+                <Button type="submit" size="sm" variant="ghost">
+                  Quitar
+                </Button>
+              </form>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <form action={deleteCohortAction}>
+        <input type="hidden" name="cohort_id" value={cohort.id} />
+        <Button type="submit" size="sm" variant="ghost" className="text-destructive">
+          Eliminar clase
+        </Button>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,328 @@
+// app/protected/cohorts/actions.ts
+"use server";
+
+import { randomBytes } from "node:crypto";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { parseProjectIdValue } from "@/lib/project-id";
+import { isAssignmentTarget } from "@/lib/cohorts";
+import { endOfDayCL } from "@/lib/datetime";
+import type { ProjectId } from "@/lib/types/study";
+
+/* ---------------------------------------
+   CLASES (ver lib/cohorts.ts para tablas y RLS)
+   Unirse va por RPC porque el alumno aún no puede leer la clase:
+   Requiere RPC SQL (security definer): public.join_cohort(p_code text)
+     returns uuid (cohort_id); inserta en cohort_members (sin duplicar) y
+     agrega al alumno como 'guest' en los proyectos de las tareas de la
+     clase donde aún no es miembro.
+   Al crear una tarea el profesor (dueño del proyecto) agrega como
+   'guest' a los alumnos que aún no son miembros del proyecto.
+----------------------------------------*/
+
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const MAX_NAME = 80;
+const MAX_DESCRIPTION = 500;
+const MAX_TITLE = 120;
+const MAX_ASSIGNMENT_GROUPS = 100;
+const ID_CHUNK = 200; // .in() va en la URL
+const INSERT_CHUNK = 500;
+
+function isUuid(v: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+function newJoinCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  let out = "";
+  for (let i = 0; i < CODE_LENGTH; i++) out += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+  return out;
+}
+
+function normalizeCode(raw: string): string {
+  return raw.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function cohortHref(cohortId: string, err?: string): string {
+  const base = `/protected/cohorts/${encodeURIComponent(cohortId)}`;
+  return err ? `${base}?error=${encodeURIComponent(err)}` : base;
+}
+
+function listHref(err?: string): string {
+  return err ? `/protected/cohorts?error=${encodeURIComponent(err)}` : "/protected/cohorts";
+}
+
+async function requireUser(): Promise<{ supabase: SupabaseClient; userId: string }> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) redirect("/auth/login");
+  return { supabase, userId: userRes.user.id };
+}
+
+/** Redirige con error si el usuario no es el profesor de la clase. */
+async function requireTeacher(supabase: SupabaseClient, cohortId: string, userId: string): Promise<void> {
+  if (!isUuid(cohortId)) redirect(listHref("Clase inválida"));
+
+  const { data, error } = await supabase
+    .from("cohorts")
+    .select("owner_user_id")
+    .eq("id", cohortId)
+    .maybeSingle<{ owner_user_id: string }>();
+
+  if (error) redirect(cohortHref(cohortId, error.message));
+  if (!data) redirect(listHref("Clase no encontrada"));
+  if (data.owner_user_id !== userId) redirect(cohortHref(cohortId, "Solo el profesor puede hacer esto"));
+}
+
+function rev(cohortId?: string): void {
+  revalidatePath("/protected/cohorts");
+  if (cohortId) revalidatePath(`/protected/cohorts/${cohortId}`);
+  revalidatePath("/protected");
+}
+
+/* ---------------------------------------
+   CLASE
+----------------------------------------*/
+
+export async function createCohortAction(formData: FormData): Promise<void> {
+  const name = String(formData.get("name") ?? "").trim().slice(0, MAX_NAME);
+  const descriptionRaw = String(formData.get("description") ?? "").trim().slice(0, MAX_DESCRIPTION);
+  if (!name) redirect(listHref("El nombre es obligatorio"));
+
+  const { supabase, userId } = await requireUser();
+
+  // el código es unique: reintenta si choca
+  let cohortId: string | null = null;
+  let lastError = "No se pudo crear la clase";
+  for (let attempt = 0; attempt < 3 && !cohortId; attempt++) {
+    const { data, error } = await supabase
+      .from("cohorts")
+      .insert({
+        owner_user_id: userId,
+        name,
+        description: descriptionRaw || null,
+        join_code: newJoinCode(),
+      })
+      .select("id")
+      .single<{ id: string }>();
+
+    if (data?.id) cohortId = data.id;
+    else if (error) {
+      lastError = error.message;
+      if (error.code !== "23505") break;
+    }
+  }
+
+  if (!cohortId) redirect(listHref(lastError));
+
+  rev();
+  redirect(cohortHref(cohortId));
+}
+
+export async function joinCohortAction(formData: FormData): Promise<void> {
+  const code = normalizeCode(String(formData.get("code") ?? ""));
+  if (code.length !== CODE_LENGTH) redirect(listHref("Código inválido"));
+
+  const { supabase } = await requireUser();
+
+  const { data, error } = await supabase.rpc("join_cohort", { p_code: code });
+  if (error) redirect(listHref(error.message));
+  if (!data) redirect(listHref("No existe una clase con ese código"));
+
+  rev(String(data));
+  revalidatePath("/protected/projects");
+  redirect(cohortHref(String(data)));
+}
+
+export async function leaveCohortAction(formData: FormData): Promise<void> {
+  const cohortId = String(formData.get("cohort_id") ?? "").trim();
+  if (!isUuid(cohortId)) redirect(listHref("Clase inválida"));
+
+  const { supabase, userId } = await requireUser();
+
+  // el acceso a los proyectos se mantiene: se puede retirar desde cada proyecto
+  const { error } = await supabase.from("cohort_members").delete().eq("cohort_id", cohortId).eq("user_id", userId);
+  if (error) redirect(cohortHref(cohortId, error.message));
+
+  rev(cohortId);
+  redirect(listHref());
+}
+
+export async function regenerateCohortCodeAction(formData: FormData): Promise<void> {
+  const cohortId = String(formData.get("cohort_id") ?? "").trim();
+  const { supabase, userId } = await requireUser();
+  await requireTeacher(supabase, cohortId, userId);
+
+  const { error } = await supabase
+    .from("cohorts")
+    .update({ join_code: newJoinCode(), updated_at: new Date().toISOString() })
+    .eq("id", cohortId);
+  if (error) redirect(cohortHref(cohortId, error.message));
+
+  rev(cohortId);
+  redirect(cohortHref(cohortId));
+}
+
+export async function deleteCohortAction(formData: FormData): Promise<void> {
+  const cohortId = String(formData.get("cohort_id") ?? "").trim();
+  const { supabase, userId } = await requireUser();
+  await requireTeacher(supabase, cohortId, userId);
+
+  const { error } = await supabase.from("cohorts").delete().eq("id", cohortId);
+  if (error) redirect(cohortHref(cohortId, error.message));
+
+  rev();
+  redirect(listHref());
+}
+
+export async function removeCohortMemberAction(formData: FormData): Promise<void> {
+  const cohortId = String(formData.get("cohort_id") ?? "").trim();
+  const memberId = String(formData.get("user_id") ?? "").trim();
+  const { supabase, userId } = await requireUser();
+  await requireTeacher(supabase, cohortId, userId);
+  if (!isUuid(memberId)) redirect(cohortHref(cohortId, "Alumno inválido"));
+
+  const { error } = await supabase.from("cohort_members").delete().eq("cohort_id", cohortId).eq("user_id", memberId);
+  if (error) redirect(cohortHref(cohortId, error.message));
+
+  rev(cohortId);
+  redirect(cohortHref(cohortId));
+}
+
+/* ---------------------------------------
+   TAREAS
+----------------------------------------*/
+
+/** Agrega como 'guest' a los alumnos que aún no son miembros del proyecto. */
+async function grantProjectAccess(
+  supabase: SupabaseClient,
+  cohortId: string,
+  projectId: ProjectId,
+  ownerId: string
+): Promise<string | null> {
+  const { data: students, error: sErr } = await supabase
+    .from("cohort_members")
+    .select("user_id")
+    .eq("cohort_id", cohortId)
+    .limit(1000)
+    .returns<{ user_id: string }[]>();
+  if (sErr) return sErr.message;
+
+  const studentIds = (students ?? []).map((s) => s.user_id).filter((id) => id !== ownerId);
+  const existing = new Set<string>();
+  for (let i = 0; i < studentIds.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("project_members")
+      .select("user_id")
+      .eq("project_id", projectId)
+      .in("user_id", studentIds.slice(i, i + ID_CHUNK))
+      .returns<{ user_id: string }[]>();
+    if (error) return error.message;
+    for (const m of data ?? []) existing.add(m.user_id);
+  }
+
+  const rows = studentIds
+    .filter((id) => !existing.has(id))
+    .map((id) => ({ project_id: projectId, user_id: id, role: "guest" }));
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    const { error } = await supabase.from("project_members").insert(rows.slice(i, i + INSERT_CHUNK));
+    if (error) return error.message;
+  }
+  return null;
+}
+
+export async function createAssignmentAction(formData: FormData): Promise<void> {
+  const cohortId = String(formData.get("cohort_id") ?? "").trim();
+  const projectIdStr = String(formData.get("project_id") ?? "").trim();
+  const title = String(formData.get("title") ?? "").trim().slice(0, MAX_TITLE);
+  const target = String(formData.get("target") ?? "").trim();
+  const dueDay = String(formData.get("due_day") ?? "").trim();
+  const groupIds = [
+    ...new Set(
+      formData
+        .getAll("group_ids")
+        .map((v) => String(v).trim())
+        .filter(isUuid)
+    ),
+  ];
+
+  const { supabase, userId } = await requireUser();
+  await requireTeacher(supabase, cohortId, userId);
+
+  const projectId = parseProjectIdValue(projectIdStr);
+  if (!projectId) redirect(cohortHref(cohortId, "Elige un proyecto"));
+  if (!isAssignmentTarget(target)) redirect(cohortHref(cohortId, "Meta inválida"));
+  if (groupIds.length > MAX_ASSIGNMENT_GROUPS) {
+    redirect(cohortHref(cohortId, `Máximo ${MAX_ASSIGNMENT_GROUPS} grupos por tarea`));
+  }
+
+  const dueAt = endOfDayCL(dueDay);
+  if (!dueAt) redirect(cohortHref(cohortId, "Fecha de entrega inválida"));
+  if (dueAt.getTime() < Date.now()) redirect(cohortHref(cohortId, "La fecha de entrega ya pasó"));
+
+  // solo el dueño puede dar acceso a sus alumnos
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_user_id")
+    .eq("id", projectId)
+    .maybeSingle<{ owner_user_id: string }>();
+  if (!project || project.owner_user_id !== userId) {
+    redirect(cohortHref(cohortId, "Solo puedes asignar proyectos propios"));
+  }
+
+  if (groupIds.length) {
+    const { data: blocks } = await supabase
+      .from("project_blocks")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("type", "flashcards")
+      .returns<{ id: string }[]>();
+    const blockIds = (blocks ?? []).map((b) => b.id);
+
+    const { data: groups } = blockIds.length
+      ? await supabase.from("flashcard_groups").select("id").in("id", groupIds).in("block_id", blockIds)
+      : { data: [] };
+    if ((groups ?? []).length !== groupIds.length) {
+      redirect(cohortHref(cohortId, "Hay grupos que no son del proyecto"));
+    }
+  }
+
+  const { error } = await supabase.from("cohort_assignments").insert({
+    cohort_id: cohortId,
+    project_id: projectId,
+    group_ids: groupIds.length ? groupIds : null,
+    title: title || null,
+    target,
+    due_at: dueAt.toISOString(),
+    created_by: userId,
+  });
+  if (error) redirect(cohortHref(cohortId, error.message));
+
+  const grantErr = await grantProjectAccess(supabase, cohortId, projectId, userId);
+  if (grantErr) redirect(cohortHref(cohortId, `Tarea creada, pero falló el acceso al proyecto: ${grantErr}`));
+
+  rev(cohortId);
+  revalidatePath(`/protected/projects/${projectIdStr}`);
+  redirect(cohortHref(cohortId));
+}
+
+export async function deleteAssignmentAction(formData: FormData): Promise<void> {
+  const cohortId = String(formData.get("cohort_id") ?? "").trim();
+  const assignmentId = String(formData.get("assignment_id") ?? "").trim();
+  const { supabase, userId } = await requireUser();
+  await requireTeacher(supabase, cohortId, userId);
+  if (!isUuid(assignmentId)) redirect(cohortHref(cohortId, "Tarea inválida"));
+
+  const { error } = await supabase
+    .from("cohort_assignments")
+    .delete()
+    .eq("id", assignmentId)
+    .eq("cohort_id", cohortId);
+  if (error) redirect(cohortHref(cohortId, error.message));
+
+  rev(cohortId);
+  redirect(cohortHref(cohortId));
+}
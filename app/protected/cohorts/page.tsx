@@ -0,0 +1,172 @@
+// app/protected/cohorts/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { GraduationCap } from "lucide-react";
+
+import { createClient } from "@/lib/supabase/server";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { CohortRow } from "@/lib/types/study";
+import { createCohortAction, joinCohortAction } from "./actions";
+
+type SearchParams = { error?: string };
+
+type CohortLite = Pick<CohortRow, "id" | "name" | "description" | "join_code" | "created_at">;
+
+const MAX_COHORTS = 100;
+
+export default async function CohortsPage(props: {
+  searchParams?: SearchParams | Promise<SearchParams>;
+}) {
+  const sp = await Promise.resolve(props.searchParams);
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) redirect("/auth/login");
+  const userId = userRes.user.id;
+
+  const [{ data: teaching, error: tErr }, { data: mems, error: mErr }] = await Promise.all([
+    supabase
+      .from("cohorts")
+      .select("id,name,description,join_code,created_at")
+      .eq("owner_user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(MAX_COHORTS)
+      .returns<CohortLite[]>(),
+    supabase
+      .from("cohort_members")
+      .select("cohort_id")
+      .eq("user_id", userId)
+      .limit(MAX_COHORTS)
+      .returns<{ cohort_id: string }[]>(),
+  ]);
+
+  const enrolledIds = (mems ?? []).map((m) => m.cohort_id);
+  const { data: enrolled } = enrolledIds.length
+    ? await supabase
+        .from("cohorts")
+        .select("id,name,description,join_code,created_at")
+        .in("id", enrolledIds)
+        .order("name", { ascending: true })
+        .returns<CohortLite[]>()
+    : { data: [] as CohortLite[] };
+
+  // alumnos por clase (profesor)
+  const studentCount = new Map<string, number>();
+  const teachingIds = (teaching ?? []).map((c) => c.id);
+  if (teachingIds.length) {
+    const { data: rows } = await supabase
+      .from("cohort_members")
+      .select("cohort_id")
+      .in("cohort_id", teachingIds)
+      .limit(1000)
+      .returns<{ cohort_id: string }[]>();
+    for (const r of rows ?? []) studentCount.set(r.cohort_id, (studentCount.get(r.cohort_id) ?? 0) + 1);
+  }
+
+  const loadError = tErr?.message ?? mErr?.message ?? null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <span className="inline-flex h-9 w-9 items-center justify-center rounded-lg border bg-muted/30">
+            <GraduationCap className="h-5 w-5 text-muted-foreground" />
+          </span>
+          <h1 className="text-xl font-semibold">Clases</h1>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Agrupa alumnos con un código y asígnales proyectos con fecha de entrega.
+        </p>
+      </div>
+
+      {sp?.error || loadError ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+          {sp?.error ?? loadError}
+        </div>
+      ) : null}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Unirme a una clase</CardTitle>
+            <CardDescription>Escribe el código que te dio tu profesor.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form action={joinCohortAction} className="flex gap-2">
+              <Input name="code" required placeholder="ABCD2345" className="max-w-[12rem] font-mono uppercase" />
+              <Button type="submit">Unirme</Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Crear clase</CardTitle>
+            <CardDescription>Serás el profesor; comparte el código con tus alumnos.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form action={createCohortAction} className="space-y-2">
+              <Input name="name" required maxLength={80} placeholder="Nombre (p. ej. Biología 3°B)" />
+              <Input name="description" maxLength={500} placeholder="Descripción (opcional)" />
+              <Button type="submit" variant="secondary">
+                Crear
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <CohortList
+        title="Mis clases como profesor"
+        empty="Aún no creas clases."
+        items={(teaching ?? []).map((c) => ({
+          ...c,
+          meta: `${studentCount.get(c.id) ?? 0} alumno(s) · código ${c.join_code}`,
+        }))}
+      />
+
+      <CohortList
+        title="Clases en las que participo"
+        empty="Aún no te unes a ninguna clase."
+        items={(enrolled ?? []).map((c) => ({ ...c, meta: null }))}
+      />
+    </div>
+  );
+}
+
+function CohortList(props: {
+  title: string;
+  empty: string;
+  items: Array<CohortLite & { meta: string | null }>;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{props.title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {props.items.length === 0 ? <p className="text-sm text-muted-foreground">{props.empty}</p> : null}
+
+        {props.items.map((c) => (
+          <Link
+            key={c.id}
+            href={`/protected/cohorts/${encodeURIComponent(c.id)}`}
+            className="block rounded-lg border p-3 transition-colors hover:bg-muted/40"
+          >
+            <p className="truncate text-sm font-medium">{c.name}</p>
+            {c.description ? <p className="truncate text-xs text-muted-foreground">{c.description}</p> : null}
+            {c.meta ? <p className="mt-1 text-[11px] text-muted-foreground">{c.meta}</p> : null}
+          </Link>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,8 +7,9 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { getProjectPreviewAction } from "@/app/protected/community/preview-actions";
-import { importProjectAction } from "@/app/protected/community/actions";
+import { forkProjectAction, importProjectAction } from "@/app/protected/community/actions";
 import { ProjectView } from "@/app/protected/projects/[projectId]/project-view";
+import { ProjectReviews } from "@/app/protected/community/ProjectReviews";
 import type { PreviewPayload } from "@/app/protected/community/preview-actions";
 
 export function ProjectPreviewButton(props: {
@@ -74,6 +75,15 @@ export function ProjectPreviewButton(props: {
                     </form>
                   )}
 
+                  {!props.isOwner ? (
+                    <form action={forkProjectAction}>
+                      <input type="hidden" name="project_id" value={props.projectId} />
+                      <Button type="submit" variant="outline" title="Copia editable en tus proyectos">
+                        Fork
+                      </Button>
+                    </form>
+                  ) : null}
+
                   <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
                     Cerrar
                   </Button>
@@ -86,18 +96,23 @@ export function ProjectPreviewButton(props: {
                 ) : err ? (
                   <p className="text-sm text-destructive">{err}</p>
                 ) : payload ? (
-                  <ProjectView
-                    mode="preview"
-                    projectId={String(payload.project.id)}
-                    title={payload.project.title}
-                    description_md={payload.project.description_md}
-                    visibility={payload.project.visibility}
-                    published_at={payload.project.published_at}
-                    updated_at={payload.project.updated_at}
-                    blocks={payload.blocks}
-                    groups={payload.groups}
-                    cards={payload.cards}
-                  />
+                  <div className="space-y-6">
+                    <ProjectView
+                      mode="preview"
+                      projectId={String(payload.project.id)}
+                      title={payload.project.title}
+                      description_md={payload.project.description_md}
+                      visibility={payload.project.visibility}
+                      published_at={payload.project.published_at}
+                      updated_at={payload.project.updated_at}
+                      blocks={payload.blocks}
+                      groups={payload.groups}
+                      cards={payload.cards}
+                    />
+                    <div className="border-t pt-4">
+                      <ProjectReviews projectId={props.projectId} projectTitle={props.title} />
+                    </div>
+                  </div>
                 ) : null}
               </div>
             </Card>
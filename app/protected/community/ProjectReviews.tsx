@@ -0,0 +1,190 @@
+// app/protected/community/ProjectReviews.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { ReportButton } from "@/components/reports/ReportButton";
+import {
+  deleteProjectReviewAction,
+  getProjectReviewsAction,
+  saveProjectReviewAction,
+  type ProjectReviewsPayload,
+} from "@/app/protected/community/review-actions";
+import { formatDateTimeCL } from "@/lib/datetime";
+
+const MAX_REVIEW_CHARS = 1000;
+
+function Stars(props: { value: number; className?: string }) {
+  const full = Math.round(props.value);
+  return (
+    <span className={props.className} aria-label={`${props.value.toFixed(1)} de 5`}>
+      {"★".repeat(full)}
+      <span className="opacity-30">{"★".repeat(5 - full)}</span>
+    </span>
+  );
+}
+
+export function ProjectReviews(props: { projectId: string; projectTitle: string }) {
+  const [data, setData] = useState<ProjectReviewsPayload | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState("");
+  const [editing, setEditing] = useState(false);
+
+  async function load() {
+    const res = await getProjectReviewsAction(props.projectId);
+    if (!res.ok) {
+      setErr(res.error);
+      return;
+    }
+    setData(res.data);
+    setRating(res.data.mine?.rating ?? 0);
+    setBody(res.data.mine?.body ?? "");
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.projectId]);
+
+  async function save() {
+    setErr(null);
+    setBusy(true);
+    const res = await saveProjectReviewAction({ project_id: props.projectId, rating, body });
+    setBusy(false);
+
+    if (!res.ok) {
+      setErr(res.error);
+      return;
+    }
+    setEditing(false);
+    await load();
+  }
+
+  async function remove() {
+    setErr(null);
+    setBusy(true);
+    const res = await deleteProjectReviewAction(props.projectId);
+    setBusy(false);
+
+    if (!res.ok) {
+      setErr(res.error);
+      return;
+    }
+    setEditing(false);
+    await load();
+  }
+
+  if (!data) {
+    return err ? <p className="text-sm text-destructive">{err}</p> : <p className="text-xs text-muted-foreground">Cargando reseñas…</p>;
+  }
+
+  const others = data.reviews.filter((r) => r.user_id !== data.mine?.user_id);
+  const showForm = data.can_review && (editing || !data.mine);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <p className="text-sm font-medium">Reseñas</p>
+        {data.count > 0 && data.avg != null ? (
+          <span className="text-xs text-muted-foreground">
+            <Stars value={data.avg} className="text-amber-500" /> {data.avg.toFixed(1)} · {data.count}{" "}
+            {data.count === 1 ? "calificación" : "calificaciones"}
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground">Sin calificaciones todavía</span>
+        )}
+      </div>
+
+      {err ? <p className="text-sm text-destructive">{err}</p> : null}
+
+      {data.mine && !editing ? (
+        <div className="rounded-lg border p-3 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Tu reseña · <Stars value={data.mine.rating} className="text-amber-500" />
+            </p>
+            <div className="flex gap-1">
+              {data.can_review ? (
+                <Button type="button" variant="ghost" size="sm" disabled={busy} onClick={() => setEditing(true)}>
+                  Editar
+                </Button>
+              ) : null}
+              <Button type="button" variant="ghost" size="sm" disabled={busy} onClick={remove}>
+                Eliminar
+              </Button>
+            </div>
+          </div>
+          {data.mine.body ? <p className="text-sm whitespace-pre-wrap">{data.mine.body}</p> : null}
+        </div>
+      ) : null}
+
+      {showForm ? (
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center gap-1" role="radiogroup" aria-label="Calificación">
+            {[1, 2, 3, 4, 5].map((n) => (
+              <button
+                key={n}
+                type="button"
+                role="radio"
+                aria-checked={rating === n}
+                aria-label={`${n} estrellas`}
+                className={["text-xl leading-none", n <= rating ? "text-amber-500" : "text-muted-foreground/40"].join(" ")}
+                onClick={() => setRating(n)}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={MAX_REVIEW_CHARS}
+            rows={3}
+            placeholder="¿Qué te pareció? (opcional)"
+            className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+          />
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[11px] text-muted-foreground">
+              {body.length}/{MAX_REVIEW_CHARS}
+            </p>
+            <div className="flex gap-2">
+              {editing ? (
+                <Button type="button" variant="ghost" size="sm" disabled={busy} onClick={() => setEditing(false)}>
+                  Cancelar
+                </Button>
+              ) : null}
+              <Button type="button" size="sm" disabled={busy || rating < 1} onClick={save}>
+                {data.mine ? "Guardar" : "Publicar reseña"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : !data.mine && data.reason ? (
+        <p className="text-xs text-muted-foreground">{data.reason}</p>
+      ) : null}
+
+      {others.length ? (
+        <div className="space-y-2">
+          {others.map((r) => (
+            <div key={r.id} className="rounded-lg border p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{r.username ?? "Usuario"}</span> ·{" "}
+                  <Stars value={r.rating} className="text-amber-500" /> · {formatDateTimeCL(r.updated_at)}
+                </p>
+                <ReportButton projectId={props.projectId} projectTitle={props.projectTitle} reviewId={r.id} size="sm" />
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{r.body}</p>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 "use server";
 
 import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
 import { parseProjectIdValue } from "@/lib/project-id";
+import { createProjectFromArchive, loadProjectArchive } from "@/lib/project-copy";
 import type { ProjectId, ProjectRole, ProjectVisibility } from "@/lib/types/study";
 
 type ProjectMin = {
@@ -58,3 +60,50 @@ export async function importProjectAction(formData: FormData): Promise<void> {
 
   redirect(`/protected/projects/${String(project.id)}`);
 }
+
+/**
+ * Fork: copia bloques, grupos y cartas a un proyecto PRIVADO nuevo del usuario.
+ * El nuevo proyecto guarda el origen y su autor (crédito en la página del proyecto).
+ * La solución de los quiz solo se copia si el usuario ya podía editar el original.
+ */
+export async function forkProjectAction(formData: FormData): Promise<void> {
+  const raw = String(formData.get("project_id") ?? "").trim();
+  const projectIdValue = parseProjectIdValue(raw);
+
+  if (!projectIdValue) {
+    redirect("/protected/community?error=ID%20de%20proyecto%20inv%C3%A1lido");
+  }
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) redirect("/auth/login");
+
+  const { data: project, error: pErr } = await supabase
+    .from("projects")
+    .select("id, owner_user_id, visibility, is_hidden, updated_at")
+    .eq("id", projectIdValue)
+    .single<ProjectMin & { updated_at: string }>();
+
+  if (pErr || !project || project.is_hidden || project.visibility !== "public") {
+    redirect("/protected/community?error=Proyecto%20no%20disponible%20para%20fork");
+  }
+
+  const { data: mem } = await supabase
+    .from("project_members")
+    .select("role")
+    .eq("project_id", project.id)
+    .eq("user_id", userRes.user.id)
+    .maybeSingle<{ role: ProjectRole }>();
+  const canEdit = project.owner_user_id === userRes.user.id || mem?.role === "editor";
+
+  const loaded = await loadProjectArchive(supabase, project.id, { answerKeys: canEdit });
+  if (!loaded.ok) redirect(`/protected/community?error=${encodeURIComponent(loaded.error)}`);
+
+  const created = await createProjectFromArchive(supabase, userRes.user.id, loaded.data, {
+    forkedFrom: { projectId: project.id, ownerUserId: project.owner_user_id, revision: project.updated_at },
+  });
+  if (!created.ok) redirect(`/protected/community?error=${encodeURIComponent(created.error)}`);
+
+  revalidatePath("/protected/projects");
+  redirect(`/protected/projects/${created.data.id}?tab=edit`);
+}
@@ -3,6 +3,7 @@ import Link from "next/link";
 import { redirect } from "next/navigation";
 import { Suspense } from "react";
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/server";
 import { ProjectPreviewButton } from "./ProjectPreviewButton";
 
@@ -25,23 +26,36 @@ import {
   User,
   X,
   BookOpen,
+  Tag,
 } from "lucide-react";
 
-import { importProjectAction } from "./actions";
+import { forkProjectAction, importProjectAction } from "./actions";
 import type { ProjectRow, ProjectId } from "@/lib/types/study";
 import { formatDateTimeCL } from "@/lib/datetime";
+import {
+  FACET_LABELS,
+  countFacets,
+  parseTagFilters,
+  tagLabel,
+  type TagFacet,
+} from "@/lib/project-tags";
+import { MAX_RANKED, searchProjects } from "@/lib/search";
 
 type SearchParams = {
   error?: string;
   q?: string;
   show?: "all" | "not_imported" | "imported" | "mine";
-  sort?: "updated_desc" | "updated_asc" | "published_desc" | "title_asc";
+  sort?: "relevance" | "updated_desc" | "updated_asc" | "published_desc" | "title_asc" | "rating_desc";
   author?: string;
+  tag?: string | string[];
   filters?: "1";
   page?: string;
 };
 
 const PAGE_SIZE = 24;
+// tope de filas leídas para contar facetas
+const FACET_SCAN_LIMIT = 2000;
+const FACET_ORDER: TagFacet[] = ["subject", "level", "lang", "tag"];
 
 function idToString(id: ProjectId): string {
   return String(id);
@@ -56,9 +70,30 @@ function normalizeShow(v: unknown): SearchParams["show"] {
   return v === "not_imported" || v === "imported" || v === "mine" ? v : "all";
 }
 
-function normalizeSort(v: unknown): NonNullable<SearchParams["sort"]> {
-  if (v === "updated_asc" || v === "published_desc" || v === "title_asc") return v;
-  return "updated_desc";
+/** Con búsqueda el orden por defecto es relevancia; sin ella no aplica. */
+function defaultSort(hasQuery: boolean): NonNullable<SearchParams["sort"]> {
+  return hasQuery ? "relevance" : "updated_desc";
+}
+
+function normalizeSort(v: unknown, hasQuery: boolean): NonNullable<SearchParams["sort"]> {
+  if (v === "updated_asc" || v === "published_desc" || v === "title_asc" || v === "rating_desc") return v;
+  if (v === "updated_desc") return v;
+  return defaultSort(hasQuery);
+}
+
+/**
+ * Ids de la búsqueda por trigramas (tolera tildes y errores), de más a
+ * menos relevante. Tope MAX_RANKED: más allá conviene afinar la búsqueda.
+ */
+async function rankedProjectIds(
+  supabase: SupabaseClient,
+  q: string,
+  tags: string[],
+  authorIds: string[] | null
+): Promise<{ ok: true; data: string[] } | { ok: false; error: string }> {
+  const res = await searchProjects(supabase, { query: q, scope: "community", tags, ownerIds: authorIds, limit: MAX_RANKED });
+  if (!res.ok) return res;
+  return { ok: true, data: res.data.matches.map((m) => m.id) };
 }
 
 function normalizePage(v: unknown): number {
@@ -105,6 +140,10 @@ type PublicProfile = {
 
 type ProjectWithOwner = ProjectRow & {
   owner?: PublicProfile | null;
+  // mantenidos por trigger sobre project_reviews (ver review-actions.ts)
+  rating_avg: number | null;
+  rating_count: number | null;
+  tags: string[] | null;
 };
 
 export default async function CommunityPage({
@@ -133,11 +172,13 @@ async function CommunityResults(props: { sp: SearchParams }) {
   const q = safeLike(qRaw);
 
   const show = normalizeShow(sp.show);
-  const sort = normalizeSort(sp.sort);
+  const sort = normalizeSort(sp.sort, !!q);
 
   const authorRaw = typeof sp.author === "string" ? sp.author : "";
   const author = safeLike(authorRaw);
 
+  const tags = parseTagFilters(sp.tag);
+
   const page = normalizePage(sp.page);
   const from = (page - 1) * PAGE_SIZE;
   const to = from + PAGE_SIZE - 1;
@@ -207,28 +248,60 @@ async function CommunityResults(props: { sp: SearchParams }) {
         "is_hidden",
         "updated_at",
         "published_at",
+        "rating_avg",
+        "rating_count",
+        "tags",
         "owner:profiles!projects_owner_user_id_fkey(id,username,avatar_url)",
       ].join(",")
     )
     .eq("visibility", "public")
-    .eq("is_hidden", false)
-    .range(from, to);
+    .eq("is_hidden", false);
 
-  if (q.trim()) {
-    const like = `%${q.trim()}%`;
-    query = query.or(`title.ilike.${like},description_md.ilike.${like}`);
+  // con búsqueda: ids rankeados; "relevance" pagina sobre esa lista
+  let rankedIds: string[] | null = null;
+  if (q) {
+    const ranked = await rankedProjectIds(supabase, q, tags, authorIds);
+    if (!ranked.ok) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>Error</CardTitle>
+            <CardDescription>{ranked.error}</CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+    rankedIds = ranked.data;
+  }
+
+  if (rankedIds && sort === "relevance") {
+    query = query.in("id", rankedIds.slice(from, to + 1));
+  } else {
+    if (rankedIds) query = query.in("id", rankedIds);
+    query = query.range(from, to);
   }
 
   if (authorIds && authorIds.length) {
     query = query.in("owner_user_id", authorIds);
   }
 
+  if (tags.length) query = query.contains("tags", tags);
+
   if (sort === "updated_desc") query = query.order("updated_at", { ascending: false });
   if (sort === "updated_asc") query = query.order("updated_at", { ascending: true });
   if (sort === "published_desc") {
     query = query.order("published_at", { ascending: false, nullsFirst: false });
   }
   if (sort === "title_asc") query = query.order("title", { ascending: true });
+  if (sort === "rating_desc") {
+    query = query
+      // promedio bayesiano (ver review-actions): una sola reseña de 5 no supera a muchas de 4.8
+      .order("rating_score", { ascending: false, nullsFirst: false })
+      .order("rating_count", { ascending: false })
+      .order("updated_at", { ascending: false });
+  }
+  // desempate único: sin él .range() puede repetir o saltar filas entre páginas
+  query = query.order("id", { ascending: true });
 
   const { data: projectsRaw, error } = await query.returns<ProjectWithOwner[]>();
 
@@ -243,7 +316,11 @@ async function CommunityResults(props: { sp: SearchParams }) {
     );
   }
 
-  const projects = projectsRaw ?? [];
+  const rank = new Map((rankedIds ?? []).map((id, i) => [id, i]));
+  const projects =
+    rankedIds && sort === "relevance"
+      ? (projectsRaw ?? []).sort((a, b) => (rank.get(idToString(a.id)) ?? 0) - (rank.get(idToString(b.id)) ?? 0))
+      : projectsRaw ?? [];
   const ids: ProjectId[] = projects.map((p) => p.id);
 
   const importedSet = new Set<string>();
@@ -269,7 +346,8 @@ async function CommunityResults(props: { sp: SearchParams }) {
     return true;
   });
 
-  const hasNextPage = projects.length === PAGE_SIZE;
+  const hasNextPage =
+    rankedIds && sort === "relevance" ? rankedIds.length > to + 1 : projects.length === PAGE_SIZE;
   const hasPrevPage = page > 1;
 
   return (
@@ -300,12 +378,34 @@ async function CommunityResults(props: { sp: SearchParams }) {
                 <CardDescription className="line-clamp-2">
                   {p.description_md ?? ""}
                 </CardDescription>
+
+                {p.tags?.length ? (
+                  <div className="flex flex-wrap gap-1">
+                    {p.tags.slice(0, 6).map((t) => (
+                      <Link
+                        key={t}
+                        href={buildHref(sp, { tag: tags.includes(t) ? tags : [...tags, t], page: "1" })}
+                        className="rounded bg-muted px-1.5 py-0.5 text-[11px] text-muted-foreground hover:text-foreground"
+                      >
+                        {tagLabel(t)}
+                      </Link>
+                    ))}
+                  </div>
+                ) : null}
               </CardHeader>
 
               <CardContent className="flex items-center justify-between gap-2">
-                <p className="text-xs text-muted-foreground">
-                  Actualizado: {formatDateTimeCL(p.updated_at)}
-                </p>
+                <div className="space-y-0.5 text-xs text-muted-foreground">
+                  {p.rating_count ? (
+                    <p>
+                      <span className="text-amber-500">★</span> {Number(p.rating_avg ?? 0).toFixed(1)} ·{" "}
+                      {p.rating_count} {p.rating_count === 1 ? "calificación" : "calificaciones"}
+                    </p>
+                  ) : (
+                    <p>Sin calificaciones</p>
+                  )}
+                  <p>Actualizado: {formatDateTimeCL(p.updated_at)}</p>
+                </div>
 
                 <div className="flex items-center gap-2">
                   <ProjectPreviewButton
@@ -325,6 +425,15 @@ async function CommunityResults(props: { sp: SearchParams }) {
                       <Button type="submit">Importar</Button>
                     </form>
                   )}
+
+                  {!isOwner ? (
+                    <form action={forkProjectAction}>
+                      <input type="hidden" name="project_id" value={pid} />
+                      <Button type="submit" variant="outline" title="Copia editable en tus proyectos">
+                        Fork
+                      </Button>
+                    </form>
+                  ) : null}
                 </div>
               </CardContent>
             </Card>
@@ -372,8 +481,10 @@ function buildHref(sp: SearchParams, overrides: Partial<SearchParams>): string {
 
   if (typeof next.q === "string" && next.q.trim()) params.set("q", next.q);
   if (typeof next.show === "string" && next.show !== "all") params.set("show", next.show);
-  if (typeof next.sort === "string" && next.sort !== "updated_desc") params.set("sort", next.sort);
+  const hasQuery = typeof next.q === "string" && !!next.q.trim();
+  if (typeof next.sort === "string" && next.sort !== defaultSort(hasQuery)) params.set("sort", next.sort);
   if (typeof next.author === "string" && next.author.trim()) params.set("author", next.author);
+  for (const t of parseTagFilters(next.tag)) params.append("tag", t);
   if (next.filters === "1") params.set("filters", "1");
 
   const page = normalizePage(next.page);
@@ -440,12 +551,13 @@ function Filters(props: { sp: SearchParams }) {
   const q = typeof props.sp.q === "string" ? props.sp.q : "";
   const author = typeof props.sp.author === "string" ? props.sp.author : "";
   const show = (props.sp.show ?? "all") as SearchParams["show"];
-  const sort = (props.sp.sort ?? "updated_desc") as NonNullable<SearchParams["sort"]>;
 
   const hasQ = q.trim().length > 0;
+  const sort = normalizeSort(props.sp.sort, hasQ);
   const hasAuthor = author.trim().length > 0;
   const hasShow = (show ?? "all") !== "all";
-  const hasSort = (sort ?? "updated_desc") !== "updated_desc";
+  const hasSort = sort !== defaultSort(hasQ);
+  const tags = parseTagFilters(props.sp.tag);
 
   const open = props.sp.filters === "1" || hasAuthor || hasShow || hasSort;
 
@@ -471,7 +583,11 @@ function Filters(props: { sp: SearchParams }) {
           ? "Publicación: recientes"
           : sort === "title_asc"
             ? "Título: A → Z"
-            : "Actualización: recientes";
+            : sort === "rating_desc"
+              ? "Mejor valorados"
+              : sort === "relevance"
+                ? "Relevancia"
+                : "Actualización: recientes";
     chips.push(<Chip key="sort" icon={<ArrowUpDown className="h-3.5 w-3.5" />} text={label} />);
   }
 
@@ -481,6 +597,14 @@ function Filters(props: { sp: SearchParams }) {
     );
   }
 
+  for (const t of tags) {
+    chips.push(
+      <Link key={t} href={buildHref(props.sp, { tag: tags.filter((x) => x !== t), page: "1" })} title="Quitar filtro">
+        <Chip icon={<Tag className="h-3.5 w-3.5" />} text={`${tagLabel(t)} ✕`} />
+      </Link>
+    );
+  }
+
   return (
     <Card className="overflow-hidden">
       <CardHeader className="pb-2">
@@ -506,6 +630,9 @@ function Filters(props: { sp: SearchParams }) {
 
             <div className="flex gap-2">
               <input type="hidden" name="page" value="1" />
+              {tags.map((t) => (
+                <input key={t} type="hidden" name="tag" value={t} />
+              ))}
 
               <Button type="submit" className="h-11 px-4">
                 <Search className="mr-2 h-4 w-4" />
@@ -563,13 +690,15 @@ function Filters(props: { sp: SearchParams }) {
                 <select
                   id="sort"
                   name="sort"
-                  defaultValue={sort ?? "updated_desc"}
+                  defaultValue={sort}
                   className="h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm"
                 >
+                  {hasQ ? <option value="relevance">Relevancia</option> : null}
                   <option value="updated_desc">Actualización (recientes primero)</option>
                   <option value="updated_asc">Actualización (antiguos primero)</option>
                   <option value="published_desc">Publicación (recientes primero)</option>
                   <option value="title_asc">Título (A → Z)</option>
+                  <option value="rating_desc">Mejor valorados</option>
                 </select>
               </div>
 
@@ -594,7 +723,97 @@ function Filters(props: { sp: SearchParams }) {
             </div>
           </details>
         </form>
+
+        <Suspense fallback={null}>
+          <Facets sp={props.sp} />
+        </Suspense>
       </CardContent>
     </Card>
   );
 }
+
+/**
+ * Facetas (materia, nivel, idioma, etiquetas) con conteos sobre los
+ * proyectos que calzan con la búsqueda y los filtros actuales.
+ */
+async function Facets(props: { sp: SearchParams }) {
+  const q = safeLike(typeof props.sp.q === "string" ? props.sp.q : "");
+  const author = safeLike(typeof props.sp.author === "string" ? props.sp.author : "");
+  const tags = parseTagFilters(props.sp.tag);
+
+  const supabase = await createClient();
+
+  let authorIds: string[] | null = null;
+  if (author) {
+    const { data } = await supabase
+      .from("profiles")
+      .select("id")
+      .ilike("username", `%${author}%`)
+      .limit(50)
+      .returns<{ id: string }[]>();
+    authorIds = (data ?? []).map((x) => x.id);
+    if (authorIds.length === 0) return null;
+  }
+
+  let rankedIds: string[] | null = null;
+  if (q) {
+    const ranked = await rankedProjectIds(supabase, q, tags, authorIds);
+    if (!ranked.ok) return null;
+    rankedIds = ranked.data;
+  }
+
+  const rows: Array<{ tags: string[] | null }> = [];
+  for (let from = 0; from < FACET_SCAN_LIMIT; from += 1000) {
+    let query = supabase
+      .from("projects")
+      .select("tags")
+      .eq("visibility", "public")
+      .eq("is_hidden", false)
+      .order("id", { ascending: true })
+      .range(from, from + 999);
+
+    if (rankedIds) query = query.in("id", rankedIds);
+    if (authorIds) query = query.in("owner_user_id", authorIds);
+    if (tags.length) query = query.contains("tags", tags);
+
+    const { data, error } = await query.returns<{ tags: string[] | null }[]>();
+    if (error) return null;
+
+    rows.push(...(data ?? []));
+    if ((data?.length ?? 0) < 1000) break;
+  }
+
+  const facets = countFacets(rows);
+  if (FACET_ORDER.every((f) => facets[f].length === 0)) return null;
+
+  return (
+    <div className="grid gap-3 border-t pt-3 sm:grid-cols-2 lg:grid-cols-4">
+      {FACET_ORDER.map((facet) =>
+        facets[facet].length ? (
+          <div key={facet} className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{FACET_LABELS[facet]}</p>
+            <div className="flex flex-wrap gap-1">
+              {facets[facet].map((f) => {
+                const active = tags.includes(f.tag);
+                const next = active ? tags.filter((t) => t !== f.tag) : [...tags, f.tag];
+                return (
+                  <Link
+                    key={f.tag}
+                    href={buildHref(props.sp, { tag: next, page: "1" })}
+                    className={[
+                      "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+                      active ? "border-foreground bg-foreground text-background" : "text-muted-foreground hover:text-foreground",
+                    ].join(" ")}
+                  >
+                    {f.label}
+                    <span className="opacity-70">{f.count}</span>
+                  </Link>
+                );
+              })}
+            </div>
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+}
@@ -64,7 +64,7 @@ export async function getProjectPreviewAction(projectId: string): Promise<
   if (blockIds.length) {
     const { data: g, error: gErr } = await supabase
       .from("flashcard_groups")
-      .select("id,block_id,title,order_index,created_at")
+      .select("id,block_id,title,bidirectional,order_index,created_at")
       .in("block_id", blockIds)
       .order("order_index", { ascending: true })
       .returns<FlashcardGroupRow[]>();
@@ -75,7 +75,7 @@ export async function getProjectPreviewAction(projectId: string): Promise<
 
   const { data: cards, error: cErr } = await supabase
     .from("flashcards")
-    .select("id,project_id,group_id,front,back,order_index,created_at,updated_at")
+    .select("id,project_id,group_id,kind,front,back,order_index,created_at,updated_at")
     .eq("project_id", typedProject.id)
     .order("order_index", { ascending: true })
     .returns<FlashcardRow[]>();
@@ -0,0 +1,193 @@
+// app/protected/community/review-actions.ts
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { parseProjectIdValue } from "@/lib/project-id";
+import type { ProjectId, ProjectReviewRow } from "@/lib/types/study";
+
+/* ---------------------------------------
+   RESEÑAS DE COMUNIDAD
+   Requiere tabla: public.project_reviews (
+     id uuid PK, project_id, user_id uuid, rating smallint (1..5),
+     body text, created_at, updated_at, unique (project_id, user_id)
+   ) con FK on delete cascade a projects.
+   Requiere projects.rating_avg numeric null, projects.rating_count int y
+   projects.rating_score numeric null mantenidos por trigger sobre
+   project_reviews (el autor de la reseña no puede escribir en projects).
+   rating_score = promedio bayesiano para ordenar "Mejor valorados":
+     (rating_count * rating_avg + 5 * 3.0) / (rating_count + 5), null sin reseñas
+   (pocas reseñas quedan cerca de 3; muchas, cerca de su promedio real).
+   Puede reseñar quien importó (project_members), hizo fork o practicó
+   el proyecto; nunca el dueño.
+----------------------------------------*/
+
+type ActionResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+const MAX_REVIEW_CHARS = 1000;
+const MAX_REVIEWS_LISTED = 50;
+
+export type ProjectReviewItem = Pick<ProjectReviewRow, "id" | "user_id" | "rating" | "body" | "created_at" | "updated_at"> & {
+  username: string | null;
+};
+
+export type ProjectReviewsPayload = {
+  avg: number | null;
+  count: number;
+  reviews: ProjectReviewItem[];
+  mine: ProjectReviewItem | null;
+  can_review: boolean;
+  // motivo si no puede reseñar
+  reason: string | null;
+};
+
+type CommunityProject = { id: ProjectId; owner_user_id: string; rating_avg: number | null; rating_count: number | null };
+
+async function loadCommunityProject(
+  supabase: SupabaseClient,
+  projectId: ProjectId
+): Promise<ActionResult<CommunityProject>> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("id,owner_user_id,rating_avg,rating_count")
+    .eq("id", projectId)
+    .eq("visibility", "public")
+    .eq("is_hidden", false)
+    .maybeSingle<CommunityProject>();
+
+  if (error) return { ok: false, error: error.message };
+  if (!data) return { ok: false, error: "Proyecto no disponible." };
+  return { ok: true, data };
+}
+
+/** null si puede reseñar; si no, el motivo. */
+async function reviewBlockedReason(supabase: SupabaseClient, project: CommunityProject, userId: string): Promise<string | null> {
+  if (project.owner_user_id === userId) return "No puedes reseñar tu propio proyecto.";
+
+  const [{ data: mem }, { data: fork }, { data: session }] = await Promise.all([
+    supabase.from("project_members").select("project_id").eq("project_id", project.id).eq("user_id", userId).limit(1),
+    supabase.from("projects").select("id").eq("owner_user_id", userId).eq("forked_from_project_id", project.id).limit(1),
+    supabase.from("practice_sessions").select("id").eq("project_id", project.id).eq("user_id", userId).limit(1),
+  ]);
+
+  if (mem?.length || fork?.length || session?.length) return null;
+  return "Importa, haz fork o practica el proyecto para reseñarlo.";
+}
+
+export async function getProjectReviewsAction(projectId: string): Promise<ActionResult<ProjectReviewsPayload>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+  const userId = userRes.user.id;
+
+  const pid = parseProjectIdValue(projectId);
+  if (!pid) return { ok: false, error: "ID inválido." };
+
+  const project = await loadCommunityProject(supabase, pid);
+  if (!project.ok) return project;
+
+  const [{ data: rows, error: rErr }, { data: own }, reason] = await Promise.all([
+    supabase
+      .from("project_reviews")
+      .select("id,user_id,rating,body,created_at,updated_at")
+      .eq("project_id", pid)
+      .neq("body", "")
+      .order("updated_at", { ascending: false })
+      .limit(MAX_REVIEWS_LISTED)
+      .returns<ProjectReviewRow[]>(),
+    supabase
+      .from("project_reviews")
+      .select("id,user_id,rating,body,created_at,updated_at")
+      .eq("project_id", pid)
+      .eq("user_id", userId)
+      .maybeSingle<ProjectReviewRow>(),
+    reviewBlockedReason(supabase, project.data, userId),
+  ]);
+
+  if (rErr) return { ok: false, error: rErr.message };
+
+  const userIds = [...new Set([...(rows ?? []).map((r) => r.user_id), ...(own ? [own.user_id] : [])])];
+  const names = new Map<string, string | null>();
+  if (userIds.length) {
+    const { data: profs } = await supabase
+      .from("profiles")
+      .select("id,username")
+      .in("id", userIds)
+      .returns<{ id: string; username: string | null }[]>();
+    for (const p of profs ?? []) names.set(p.id, p.username);
+  }
+
+  const item = (r: ProjectReviewRow): ProjectReviewItem => ({
+    id: r.id,
+    user_id: r.user_id,
+    rating: r.rating,
+    body: r.body,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+    username: names.get(r.user_id) ?? null,
+  });
+
+  return {
+    ok: true,
+    data: {
+      avg: project.data.rating_avg == null ? null : Number(project.data.rating_avg),
+      count: project.data.rating_count ?? 0,
+      reviews: (rows ?? []).map(item),
+      mine: own ? item(own) : null,
+      can_review: reason === null,
+      reason,
+    },
+  };
+}
+
+export async function saveProjectReviewAction(args: {
+  project_id: string;
+  rating: number;
+  body: string;
+}): Promise<ActionResult<true>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+  const userId = userRes.user.id;
+
+  const pid = parseProjectIdValue(args.project_id);
+  if (!pid) return { ok: false, error: "ID inválido." };
+
+  const rating = Math.round(Number(args.rating));
+  if (!Number.isFinite(rating) || rating < 1 || rating > 5) return { ok: false, error: "Elige de 1 a 5 estrellas." };
+
+  const body = String(args.body ?? "").trim();
+  if (body.length > MAX_REVIEW_CHARS) return { ok: false, error: `Reseña demasiado larga (máx. ${MAX_REVIEW_CHARS}).` };
+
+  const project = await loadCommunityProject(supabase, pid);
+  if (!project.ok) return project;
+
+  const reason = await reviewBlockedReason(supabase, project.data, userId);
+  if (reason) return { ok: false, error: reason };
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("project_reviews")
+    .upsert({ project_id: pid, user_id: userId, rating, body, updated_at: now }, { onConflict: "project_id,user_id" });
+
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/protected/community");
+  return { ok: true, data: true };
+}
+
+export async function deleteProjectReviewAction(projectId: string): Promise<ActionResult<true>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const pid = parseProjectIdValue(projectId);
+  if (!pid) return { ok: false, error: "ID inválido." };
+
+  const { error } = await supabase.from("project_reviews").delete().eq("project_id", pid).eq("user_id", userRes.user.id);
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/protected/community");
+  return { ok: true, data: true };
+}
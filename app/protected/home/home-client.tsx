@@ -13,6 +13,7 @@ import {
   CalendarClock,
   Compass,
   FolderKanban,
+  GraduationCap,
   History,
   LayoutDashboard,
   ListTodo,
@@ -25,6 +26,7 @@ import {
 
 import { formatDateTimeCL } from "@/lib/datetime";
 import { HelpTip } from "@/components/help/HelpTip";
+import { ReviewHeatmap } from "@/components/agenda/ReviewHeatmap";
 
 export type HomeDashboardData = {
   stats: {
@@ -37,6 +39,15 @@ export type HomeDashboardData = {
     due_total: number;
     next_due_at: string | null;
   }>;
+  classAssignments: Array<{
+    assignment_id: string;
+    cohort_name: string;
+    project_id: string;
+    title: string;
+    due_at: string;
+    done: number;
+    total: number;
+  }>;
   recentProjects: Array<{
     project_id: string;
     title: string;
@@ -405,6 +416,35 @@ export function HomeClient(props: { data: HomeDashboardData }) {
             />
           </div>
 
+          {d.classAssignments.length ? (
+            <div className="space-y-2 rounded-2xl border bg-muted/5 p-3">
+              <p className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                <GraduationCap className="h-4 w-4" />
+                Tareas de clase
+              </p>
+              {d.classAssignments.map((a) => {
+                const overdue = Date.parse(a.due_at) < Date.now();
+                return (
+                  <Link
+                    key={a.assignment_id}
+                    href={`/protected/projects/${encodeURIComponent(a.project_id)}?tab=view`}
+                    className="flex items-center justify-between gap-3 rounded-xl px-2 py-1.5 transition-colors hover:bg-muted/20"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{a.title}</p>
+                      <p className={cx("truncate text-[11px]", overdue ? "text-destructive" : "text-muted-foreground")}>
+                        {a.cohort_name} · {overdue ? "Atrasada" : "Entrega"} {formatDateTimeCL(a.due_at)}
+                      </p>
+                    </div>
+                    <Chip subtle>
+                      {a.done}/{a.total}
+                    </Chip>
+                  </Link>
+                );
+              })}
+            </div>
+          ) : null}
+
           <div className="flex flex-wrap gap-2">
             <FancyButton asChild variant="secondary" className="gap-2">
               <Link href="/protected/agenda">
@@ -422,6 +462,17 @@ export function HomeClient(props: { data: HomeDashboardData }) {
         </CardContent>
       </FancyCard>
 
+      {/* Constancia (heatmap anual, todos los proyectos) */}
+      <FancyCard>
+        <CardHeader className="space-y-1">
+          <CardTitle>Constancia</CardTitle>
+          <CardDescription>Repasos por día en todos tus proyectos.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReviewHeatmap />
+        </CardContent>
+      </FancyCard>
+
       {/* Overlay de ayuda (tabs) */}
       <HelpOverlay
         open={helpOpen}
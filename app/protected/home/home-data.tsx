@@ -1,5 +1,7 @@
 // app/protected/home/home-data.tsx
 import { createClient } from "@/lib/supabase/server";
+import { loadDailyLimits } from "@/lib/srs/daily-limits";
+import { loadMyAssignments } from "@/lib/cohorts";
 
 export type HomeDashboardData = {
   stats: {
@@ -12,6 +14,15 @@ export type HomeDashboardData = {
     due_total: number;
     next_due_at: string | null;
   }>;
+  classAssignments: Array<{
+    assignment_id: string;
+    cohort_name: string;
+    project_id: string;
+    title: string;
+    due_at: string;
+    done: number;
+    total: number;
+  }>;
   recentProjects: Array<{
     project_id: string;
     title: string;
@@ -155,10 +166,46 @@ export async function loadHomeDashboardData(args: {
     agendaToday = [];
   }
 
-  const dueToday = agendaToday.reduce((acc, x) => acc + safeNum(x.due_total), 0);
+  // Cupo diario (nuevas + repasos, todos los proyectos): la vista no distingue
+  // learning/review, así que limitamos al cupo restante.
+  let budget = Infinity;
+  try {
+    const daily = await loadDailyLimits(supabase, userId);
+    budget = daily.newLeft + daily.reviewsLeft;
+    agendaToday = agendaToday.map((a) => ({ ...a, due_total: Math.min(a.due_total, budget) }));
+  } catch {
+    // sin límites: mostramos lo que trae la vista
+  }
+
+  const dueToday = Math.min(
+    agendaToday.reduce((acc, x) => acc + safeNum(x.due_total), 0),
+    budget
+  );
+
+  /**
+   * 3) Tareas de clase pendientes (vencidas hace menos de una semana o futuras)
+   */
+  let classAssignments: HomeDashboardData["classAssignments"] = [];
+  const aRes = await loadMyAssignments(supabase, userId, {
+    sinceIso: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  if (aRes.ok) {
+    classAssignments = aRes.data
+      .filter((a) => a.total === 0 || a.done < a.total)
+      .slice(0, 5)
+      .map((a) => ({
+        assignment_id: a.assignment_id,
+        cohort_name: a.cohort_name,
+        project_id: a.project_id,
+        title: a.title || a.project_title,
+        due_at: a.due_at,
+        done: a.done,
+        total: a.total,
+      }));
+  }
 
   /**
-   * 3) Actividad reciente (flashcard_reviews)
+   * 4) Actividad reciente (flashcard_reviews)
    */
   let recentActivity: HomeDashboardData["recentActivity"] = [];
   try {
@@ -197,6 +244,7 @@ export async function loadHomeDashboardData(args: {
       activeProjects,
     },
     agendaToday,
+    classAssignments,
     recentProjects,
     recentActivity,
   };
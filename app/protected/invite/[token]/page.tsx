@@ -0,0 +1,92 @@
+// app/protected/invite/[token]/page.tsx
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDateTimeCL } from "@/lib/datetime";
+import {
+  acceptInviteLinkAction,
+  getInviteLinkAction,
+  type InviteLinkStatus,
+} from "@/app/protected/projects/invite-actions";
+
+type SearchParams = { error?: string };
+
+const STATUS_MESSAGE: Record<Exclude<InviteLinkStatus, "ok">, string> = {
+  expired: "Este link de invitación venció.",
+  used_up: "Este link ya alcanzó su límite de usos.",
+  revoked: "El dueño revocó este link.",
+  member: "Ya eres miembro de este proyecto.",
+  owner: "Eres el dueño de este proyecto.",
+};
+
+export default async function InviteLinkPage(props: {
+  params: { token: string } | Promise<{ token: string }>;
+  searchParams?: SearchParams | Promise<SearchParams>;
+}) {
+  const { token } = await Promise.resolve(props.params);
+  const sp = await Promise.resolve(props.searchParams);
+
+  const res = await getInviteLinkAction(decodeURIComponent(token));
+
+  if (!res.ok) {
+    return (
+      <Card className="mx-auto max-w-lg">
+        <CardHeader>
+          <CardTitle>Invitación</CardTitle>
+          <CardDescription>{res.error}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="secondary">
+            <Link href="/protected/projects">Ir a proyectos</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const inv = res.data;
+  const roleLabel = inv.role === "editor" ? "editor" : "invitado";
+  const projectHref = `/protected/projects/${encodeURIComponent(inv.project_id)}`;
+
+  return (
+    <Card className="mx-auto max-w-lg">
+      <CardHeader>
+        <CardTitle>Te invitaron a “{inv.project_title}”</CardTitle>
+        <CardDescription>
+          {inv.inviter_username ? `${inv.inviter_username} te invita` : "Te invitan"} como {roleLabel}
+          {inv.expires_at ? ` · vence ${formatDateTimeCL(inv.expires_at)}` : ""}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {sp?.error ? <p className="text-sm text-destructive">{sp.error}</p> : null}
+
+        {inv.status === "ok" ? (
+          <form action={acceptInviteLinkAction} className="flex gap-2">
+            <input type="hidden" name="token" value={decodeURIComponent(token)} />
+            <Button type="submit">Aceptar invitación</Button>
+            <Button asChild variant="ghost">
+              <Link href="/protected/projects">Ahora no</Link>
+            </Button>
+          </form>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">{STATUS_MESSAGE[inv.status]}</p>
+            <Button asChild variant="secondary">
+              <Link href={inv.status === "member" || inv.status === "owner" ? projectHref : "/protected/projects"}>
+                {inv.status === "member" || inv.status === "owner" ? "Abrir proyecto" : "Ir a proyectos"}
+              </Link>
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
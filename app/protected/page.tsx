@@ -39,6 +39,7 @@ async function ProtectedHomeInner() {
         activeProjects: 0,
       },
       agendaToday: [],
+      classAssignments: [],
       recentProjects: [],
       recentActivity: [],
     };
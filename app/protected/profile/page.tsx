@@ -2,6 +2,10 @@ import { redirect } from "next/navigation";
 import { Suspense } from "react";
 import { unstable_noStore as noStore } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
+import type { SchedulerPresetRow } from "@/lib/types/study";
+import { srsAlgorithmFrom } from "@/lib/srs/scheduler";
+import { DEFAULT_NEW_PER_DAY, DEFAULT_REVIEWS_PER_DAY } from "@/lib/srs/daily-limits";
+import { leechSettingsFrom } from "@/lib/leeches";
 import { ProfileClient, type ProfileData } from "./profile-client";
 
 type ProfileRow = {
@@ -10,6 +14,11 @@ type ProfileRow = {
   bio: string | null;
   global_role: string | null;
   email: string | null;
+  srs_algorithm: string | null;
+  daily_new_limit: number | null;
+  daily_review_limit: number | null;
+  leech_threshold: number | null;
+  leech_action: string | null;
 };
 
 function PageSkeleton() {
@@ -35,12 +44,32 @@ async function ProfileInner() {
 
   const { data: profileRow, error: profErr } = await supabase
     .from("profiles")
-    .select("username, avatar_url, bio, global_role, email")
+    .select("username, avatar_url, bio, global_role, email, srs_algorithm, daily_new_limit, daily_review_limit, leech_threshold, leech_action")
     .eq("id", user.id)
     .maybeSingle<ProfileRow>();
 
+  const { data: presets } = await supabase
+    .from("scheduler_presets")
+    .select(
+      "id,owner_user_id,name,learning_steps,relearning_steps,graduating_interval_days,easy_interval_days,easy_bonus,max_interval_days,starting_ease,created_at,updated_at"
+    )
+    .eq("owner_user_id", user.id)
+    .order("created_at", { ascending: true })
+    .returns<SchedulerPresetRow[]>();
+
   const safe: ProfileRow = profErr || !profileRow
-    ? { username: null, avatar_url: null, bio: null, global_role: null, email: null }
+    ? {
+        username: null,
+        avatar_url: null,
+        bio: null,
+        global_role: null,
+        email: null,
+        srs_algorithm: null,
+        daily_new_limit: null,
+        daily_review_limit: null,
+        leech_threshold: null,
+        leech_action: null,
+      }
     : profileRow;
 
   const data: ProfileData = {
@@ -52,6 +81,13 @@ async function ProfileInner() {
       global_role: safe.global_role,
       email: safe.email,
     },
+    study: {
+      srs_algorithm: srsAlgorithmFrom(safe.srs_algorithm),
+      presets: presets ?? [],
+      daily_new_limit: safe.daily_new_limit ?? DEFAULT_NEW_PER_DAY,
+      daily_review_limit: safe.daily_review_limit ?? DEFAULT_REVIEWS_PER_DAY,
+      leech: leechSettingsFrom(safe),
+    },
   };
 
   return <ProfileClient data={data} />;
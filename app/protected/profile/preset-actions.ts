@@ -0,0 +1,150 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { isUuid } from "@/lib/project-id";
+import { MAX_EASE, MIN_EASE, parseSteps } from "@/lib/srs/presets";
+
+export type SaveSchedulerPresetInput = {
+  id: string | null; // null => crear
+  name: string;
+  learning_steps: string; // "10m 1h"
+  relearning_steps: string;
+  graduating_interval_days: number;
+  easy_interval_days: number;
+  easy_bonus: number;
+  max_interval_days: number;
+  starting_ease: number;
+};
+
+type PresetField = "name" | "learning_steps" | "relearning_steps" | "intervals" | "easy_bonus" | "starting_ease";
+
+export type SchedulerPresetResult =
+  | { ok: true; id: string }
+  | { ok: false; message: string; field?: PresetField };
+
+function isIntIn(n: number, min: number, max: number) {
+  return Number.isInteger(n) && n >= min && n <= max;
+}
+
+/**
+ * Crea o actualiza un preset de repaso del usuario.
+ * Requiere:
+ * - Tabla: public.scheduler_presets (id uuid PK, owner_user_id uuid, name text,
+ *   learning_steps int[], relearning_steps int[], graduating_interval_days int,
+ *   easy_interval_days int, easy_bonus numeric, max_interval_days int, starting_ease numeric, ...)
+ */
+export async function saveSchedulerPresetAction(input: SaveSchedulerPresetInput): Promise<SchedulerPresetResult> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, message: "No autenticado." };
+  const userId = userRes.user.id;
+
+  const name = input.name.trim();
+  if (name.length < 2 || name.length > 60) {
+    return { ok: false, field: "name", message: "El nombre debe tener entre 2 y 60 caracteres." };
+  }
+
+  const learning_steps = parseSteps(input.learning_steps);
+  if (!learning_steps) {
+    return { ok: false, field: "learning_steps", message: "Pasos inválidos. Ejemplo: 1m 10m 1h (máx. 10, hasta 7d)." };
+  }
+
+  const relearning_steps = parseSteps(input.relearning_steps);
+  if (!relearning_steps) {
+    return { ok: false, field: "relearning_steps", message: "Pasos inválidos. Ejemplo: 10m (máx. 10, hasta 7d)." };
+  }
+
+  const graduating = Number(input.graduating_interval_days);
+  const easy = Number(input.easy_interval_days);
+  const maxInterval = Number(input.max_interval_days);
+
+  if (!isIntIn(graduating, 1, 365) || !isIntIn(easy, graduating, 3650) || !isIntIn(maxInterval, easy, 36500)) {
+    return {
+      ok: false,
+      field: "intervals",
+      message: "Intervalos inválidos: graduación (1–365) ≤ fácil (≤ 3650) ≤ máximo (≤ 36500).",
+    };
+  }
+
+  const easy_bonus = Number(input.easy_bonus);
+  if (!Number.isFinite(easy_bonus) || easy_bonus < 1 || easy_bonus > 3) {
+    return { ok: false, field: "easy_bonus", message: "El bonus de fácil debe estar entre 1.0 y 3.0." };
+  }
+
+  const starting_ease = Number(input.starting_ease);
+  if (!Number.isFinite(starting_ease) || starting_ease < MIN_EASE || starting_ease > MAX_EASE) {
+    return {
+      ok: false,
+      field: "starting_ease",
+      message: `La facilidad inicial debe estar entre ${MIN_EASE} y ${MAX_EASE}.`,
+    };
+  }
+
+  const payload = {
+    name,
+    learning_steps,
+    relearning_steps,
+    graduating_interval_days: graduating,
+    easy_interval_days: easy,
+    easy_bonus,
+    max_interval_days: maxInterval,
+    starting_ease,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (input.id) {
+    if (!isUuid(input.id)) return { ok: false, message: "Preset inválido." };
+
+    const { data: upd, error: updErr } = await supabase
+      .from("scheduler_presets")
+      .update(payload)
+      .eq("id", input.id)
+      .eq("owner_user_id", userId)
+      .select("id")
+      .maybeSingle<{ id: string }>();
+
+    if (updErr) return { ok: false, message: "No se pudo guardar el preset." };
+    if (!upd) return { ok: false, message: "Preset no encontrado." };
+
+    revalidatePath("/protected/profile");
+    return { ok: true, id: upd.id };
+  }
+
+  const { data: ins, error: insErr } = await supabase
+    .from("scheduler_presets")
+    .insert({ ...payload, owner_user_id: userId })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (insErr || !ins) return { ok: false, message: "No se pudo crear el preset." };
+
+  revalidatePath("/protected/profile");
+  return { ok: true, id: ins.id };
+}
+
+/**
+ * Elimina un preset propio.
+ * Los proyectos/usuarios que lo usaban vuelven al predeterminado
+ * (FK on delete set null).
+ */
+export async function deleteSchedulerPresetAction(id: string): Promise<SchedulerPresetResult> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, message: "No autenticado." };
+
+  if (!isUuid(id)) return { ok: false, message: "Preset inválido." };
+
+  const { error } = await supabase
+    .from("scheduler_presets")
+    .delete()
+    .eq("id", id)
+    .eq("owner_user_id", userRes.user.id);
+
+  if (error) return { ok: false, message: "No se pudo eliminar el preset." };
+
+  revalidatePath("/protected/profile");
+  return { ok: true, id };
+}
@@ -1,6 +1,10 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
+import { isSrsAlgorithm } from "@/lib/srs/scheduler";
+import { MAX_DAILY_LIMIT } from "@/lib/srs/daily-limits";
+import { MAX_LEECH_THRESHOLD, isLeechAction } from "@/lib/leeches";
+import type { LeechAction, SrsAlgorithm } from "@/lib/types/study";
 
 export type UpdateProfileInput = {
   username: string;
@@ -149,3 +153,68 @@ export async function updateProfileAction(input: UpdateProfileInput): Promise<Up
 
   return { ok: true };
 }
+
+export type UpdateStudyPreferencesInput = {
+  srs_algorithm: SrsAlgorithm;
+  daily_new_limit: number;
+  daily_review_limit: number;
+  leech_threshold: number;
+  leech_action: LeechAction;
+};
+
+/**
+ * Guarda preferencias de estudio del usuario.
+ * Requiere columnas en public.profiles:
+ * - srs_algorithm text default 'sm2'
+ * - daily_new_limit int default 20, daily_review_limit int default 200
+ * - leech_threshold int default 8 (0 = sin detección), leech_action text default 'tag'
+ */
+export async function updateStudyPreferencesAction(
+  input: UpdateStudyPreferencesInput
+): Promise<UpdateProfileResult> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, message: "No autenticado." };
+
+  if (!isSrsAlgorithm(input.srs_algorithm)) {
+    return { ok: false, message: "Algoritmo de repaso inválido." };
+  }
+
+  const newLimit = Number(input.daily_new_limit);
+  const reviewLimit = Number(input.daily_review_limit);
+  if (
+    !Number.isInteger(newLimit) ||
+    !Number.isInteger(reviewLimit) ||
+    newLimit < 0 ||
+    reviewLimit < 0 ||
+    newLimit > MAX_DAILY_LIMIT ||
+    reviewLimit > MAX_DAILY_LIMIT
+  ) {
+    return { ok: false, message: `Los límites diarios deben ser enteros entre 0 y ${MAX_DAILY_LIMIT}.` };
+  }
+
+  const leechThreshold = Number(input.leech_threshold);
+  if (!Number.isInteger(leechThreshold) || leechThreshold < 0 || leechThreshold > MAX_LEECH_THRESHOLD) {
+    return { ok: false, message: `El umbral de sanguijuela debe ser un entero entre 0 y ${MAX_LEECH_THRESHOLD}.` };
+  }
+  if (!isLeechAction(input.leech_action)) {
+    return { ok: false, message: "Acción de sanguijuela inválida." };
+  }
+
+  const { error: updErr } = await supabase
+    .from("profiles")
+    .update({
+      srs_algorithm: input.srs_algorithm,
+      daily_new_limit: newLimit,
+      daily_review_limit: reviewLimit,
+      leech_threshold: leechThreshold,
+      leech_action: input.leech_action,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", userRes.user.id);
+
+  if (updErr) return { ok: false, message: "No se pudieron guardar las preferencias." };
+
+  return { ok: true };
+}
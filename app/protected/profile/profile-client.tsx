@@ -15,8 +15,11 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { updateProfileAction } from "./profile-actions";
+import { updateProfileAction, updateStudyPreferencesAction } from "./profile-actions";
 import { UserIcon } from "lucide-react";
+import type { LeechAction, SchedulerPresetRow, SrsAlgorithm } from "@/lib/types/study";
+import type { LeechSettings } from "@/lib/leeches";
+import { SchedulerPresetsClient } from "./scheduler-presets-client";
 export type ProfileData = {
   auth: {
     id: string;
@@ -29,6 +32,13 @@ export type ProfileData = {
     global_role: string | null;
     email: string | null;
   };
+  study: {
+    srs_algorithm: SrsAlgorithm;
+    presets: SchedulerPresetRow[];
+    daily_new_limit: number;
+    daily_review_limit: number;
+    leech: LeechSettings;
+  };
 };
 
 type DraftProfile = {
@@ -122,6 +132,178 @@ function ReadOnlyField(props: { label: string; value: string }) {
   );
 }
 
+const SRS_OPTIONS: Array<{ value: SrsAlgorithm; title: string; desc: string }> = [
+  {
+    value: "sm2",
+    title: "Clásico (SM-2)",
+    desc: "Pasos fijos (10 min, 1 h) y luego intervalo × facilidad. Simple y predecible.",
+  },
+  {
+    value: "fsrs",
+    title: "FSRS",
+    desc: "Modela estabilidad y dificultad de cada tarjeta para apuntar a ~90% de retención.",
+  },
+];
+
+type StudyPrefs = {
+  algorithm: SrsAlgorithm;
+  newLimit: string;
+  reviewLimit: string;
+  leechThreshold: string;
+  leechAction: LeechAction;
+};
+
+function StudyPreferencesCard(props: { initial: ProfileData["study"] }) {
+  const router = useRouter();
+
+  const [base, setBase] = useState<StudyPrefs>(() => ({
+    algorithm: props.initial.srs_algorithm,
+    newLimit: String(props.initial.daily_new_limit),
+    reviewLimit: String(props.initial.daily_review_limit),
+    leechThreshold: String(props.initial.leech.threshold),
+    leechAction: props.initial.leech.action,
+  }));
+  const [prefs, setPrefs] = useState<StudyPrefs>(base);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const algorithm = prefs.algorithm;
+  const dirty =
+    prefs.algorithm !== base.algorithm ||
+    prefs.newLimit !== base.newLimit ||
+    prefs.reviewLimit !== base.reviewLimit ||
+    prefs.leechThreshold !== base.leechThreshold ||
+    prefs.leechAction !== base.leechAction;
+
+  async function onSave() {
+    setSaving(true);
+    setErr(null);
+    setMsg(null);
+
+    const res = await updateStudyPreferencesAction({
+      srs_algorithm: prefs.algorithm,
+      daily_new_limit: Number(prefs.newLimit),
+      daily_review_limit: Number(prefs.reviewLimit),
+      leech_threshold: Number(prefs.leechThreshold),
+      leech_action: prefs.leechAction,
+    });
+
+    if (!res.ok) {
+      setErr(res.message);
+      setSaving(false);
+      return;
+    }
+
+    setBase(prefs);
+    setMsg("Preferencias guardadas.");
+    setSaving(false);
+    router.refresh();
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preferencias de estudio</CardTitle>
+        <CardDescription>Algoritmo que programa tus próximos repasos y cuánto estudias al día.</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 sm:grid-cols-2">
+          {SRS_OPTIONS.map((o) => {
+            const active = o.value === algorithm;
+            return (
+              <button
+                key={o.value}
+                type="button"
+                disabled={saving}
+                onClick={() => setPrefs((cur) => ({ ...cur, algorithm: o.value }))}
+                className={[
+                  "rounded-2xl border p-4 text-left transition",
+                  active ? "border-primary bg-primary/5" : "hover:bg-muted/40",
+                ].join(" ")}
+                aria-pressed={active}
+              >
+                <p className="text-sm font-medium">{o.title}</p>
+                <p className="mt-1 text-xs text-muted-foreground">{o.desc}</p>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="daily-new-limit">Nuevas por día</Label>
+            <Input
+              id="daily-new-limit"
+              inputMode="numeric"
+              value={prefs.newLimit}
+              onChange={(e) => setPrefs((cur) => ({ ...cur, newLimit: e.target.value }))}
+              disabled={saving}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="daily-review-limit">Repasos por día</Label>
+            <Input
+              id="daily-review-limit"
+              inputMode="numeric"
+              value={prefs.reviewLimit}
+              onChange={(e) => setPrefs((cur) => ({ ...cur, reviewLimit: e.target.value }))}
+              disabled={saving}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground sm:col-span-2">
+            Los límites cuentan todos tus proyectos juntos. Las tarjetas en aprendizaje no consumen cupo.
+          </p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="leech-threshold">Umbral de sanguijuela (lapsos)</Label>
+            <Input
+              id="leech-threshold"
+              inputMode="numeric"
+              value={prefs.leechThreshold}
+              onChange={(e) => setPrefs((cur) => ({ ...cur, leechThreshold: e.target.value }))}
+              disabled={saving}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="leech-action">Al detectarla</Label>
+            <select
+              id="leech-action"
+              value={prefs.leechAction}
+              onChange={(e) => setPrefs((cur) => ({ ...cur, leechAction: e.target.value === "suspend" ? "suspend" : "tag" }))}
+              disabled={saving}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+            >
+              <option value="tag">Solo marcarla</option>
+              <option value="suspend">Marcarla y suspenderla</option>
+            </select>
+          </div>
+          <p className="text-xs text-muted-foreground sm:col-span-2">
+            Una tarjeta que olvidas tantas veces se marca como sanguijuela (y vuelve a avisar cada medio umbral). 0
+            desactiva la detección. Revísalas en Agenda → Sanguijuelas.
+          </p>
+        </div>
+
+        {err ? <p className="text-sm text-red-500">{err}</p> : null}
+        {msg ? <p className="text-sm text-green-600">{msg}</p> : null}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" disabled={saving || !dirty} onClick={() => void onSave()}>
+            {saving ? "Guardando..." : "Guardar preferencias"}
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Cambiar de algoritmo no reinicia tu progreso: los intervalos actuales se usan como punto de partida.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
 export function ProfileClient(props: { data: ProfileData }) {
   const router = useRouter();
   const d = props.data;
@@ -488,7 +670,11 @@ export function ProfileClient(props: { data: ProfileData }) {
         </CardContent>
       </Card>
 
-      {/* 2) Datos de cuenta (abajo, “inaccesible pero legible”) */}
+      {/* 2) Preferencias de estudio */}
+      <StudyPreferencesCard key={d.auth.id} initial={d.study} />
+      <SchedulerPresetsClient presets={d.study.presets} />
+
+      {/* 3) Datos de cuenta (abajo, “inaccesible pero legible”) */}
       <Card>
         <CardHeader>
           <CardTitle>Tu cuenta</CardTitle>
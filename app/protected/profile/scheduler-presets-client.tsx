@@ -0,0 +1,287 @@
+// app/protected/profile/scheduler-presets-client.tsx
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { SchedulerPresetRow } from "@/lib/types/study";
+import { DEFAULT_PRESET, formatSteps } from "@/lib/srs/presets";
+import { deleteSchedulerPresetAction, saveSchedulerPresetAction } from "./preset-actions";
+
+type DraftPreset = {
+  id: string | null;
+  name: string;
+  learning_steps: string;
+  relearning_steps: string;
+  graduating_interval_days: string;
+  easy_interval_days: string;
+  easy_bonus: string;
+  max_interval_days: string;
+  starting_ease: string;
+};
+
+function draftFrom(p: SchedulerPresetRow | null): DraftPreset {
+  const src = p ?? DEFAULT_PRESET;
+  return {
+    id: p?.id ?? null,
+    name: p?.name ?? "",
+    learning_steps: formatSteps(src.learning_steps),
+    relearning_steps: formatSteps(src.relearning_steps),
+    graduating_interval_days: String(src.graduating_interval_days),
+    easy_interval_days: String(src.easy_interval_days),
+    easy_bonus: String(src.easy_bonus),
+    max_interval_days: String(src.max_interval_days),
+    starting_ease: String(src.starting_ease),
+  };
+}
+
+function summary(p: SchedulerPresetRow): string {
+  const steps = p.learning_steps.length ? formatSteps(p.learning_steps) : "sin pasos";
+  return `Pasos ${steps} · graduación ${p.graduating_interval_days}d · fácil ${p.easy_interval_days}d · máx. ${p.max_interval_days}d`;
+}
+
+function Field(props: {
+  id: string;
+  label: string;
+  hint?: string;
+  value: string;
+  onChange: (v: string) => void;
+  disabled?: boolean;
+  inputMode?: "numeric" | "decimal" | "text";
+}) {
+  return (
+    <div className="grid gap-1.5">
+      <Label htmlFor={props.id}>{props.label}</Label>
+      <Input
+        id={props.id}
+        value={props.value}
+        inputMode={props.inputMode}
+        onChange={(e) => props.onChange(e.target.value)}
+        disabled={props.disabled}
+      />
+      {props.hint ? <p className="text-[11px] text-muted-foreground">{props.hint}</p> : null}
+    </div>
+  );
+}
+
+export function SchedulerPresetsClient(props: { presets: SchedulerPresetRow[] }) {
+  const router = useRouter();
+
+  const [draft, setDraft] = useState<DraftPreset | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  function set<K extends keyof DraftPreset>(key: K, value: DraftPreset[K]) {
+    setDraft((cur) => (cur ? { ...cur, [key]: value } : cur));
+  }
+
+  function open(p: SchedulerPresetRow | null) {
+    setErr(null);
+    setMsg(null);
+    setDraft(draftFrom(p));
+  }
+
+  async function onSave(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    setErr(null);
+    setMsg(null);
+
+    const res = await saveSchedulerPresetAction({
+      id: draft.id,
+      name: draft.name,
+      learning_steps: draft.learning_steps,
+      relearning_steps: draft.relearning_steps,
+      graduating_interval_days: Number(draft.graduating_interval_days),
+      easy_interval_days: Number(draft.easy_interval_days),
+      easy_bonus: Number(draft.easy_bonus.replace(",", ".")),
+      max_interval_days: Number(draft.max_interval_days),
+      starting_ease: Number(draft.starting_ease.replace(",", ".")),
+    });
+
+    setSaving(false);
+
+    if (!res.ok) {
+      setErr(res.message);
+      return;
+    }
+
+    setDraft(null);
+    setMsg("Preset guardado.");
+    router.refresh();
+  }
+
+  async function onDelete(p: SchedulerPresetRow) {
+    const ok = window.confirm(
+      `¿Eliminar el preset “${p.name}”? Los proyectos que lo usen volverán al predeterminado.`
+    );
+    if (!ok) return;
+
+    setSaving(true);
+    setErr(null);
+    setMsg(null);
+
+    const res = await deleteSchedulerPresetAction(p.id);
+    setSaving(false);
+
+    if (!res.ok) {
+      setErr(res.message);
+      return;
+    }
+
+    if (draft?.id === p.id) setDraft(null);
+    setMsg("Preset eliminado.");
+    router.refresh();
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div className="min-w-0">
+          <CardTitle>Presets de repaso</CardTitle>
+          <CardDescription>
+            Pasos de aprendizaje e intervalos. Puedes adjuntarlos a tus proyectos o usarlos en proyectos ajenos.
+          </CardDescription>
+        </div>
+
+        {!draft ? (
+          <Button type="button" variant="secondary" onClick={() => open(null)} disabled={saving}>
+            Nuevo preset
+          </Button>
+        ) : null}
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {props.presets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aún no tienes presets. Sin preset se usa el predeterminado: pasos{" "}
+            {formatSteps(DEFAULT_PRESET.learning_steps)}, graduación {DEFAULT_PRESET.graduating_interval_days}d, fácil{" "}
+            {DEFAULT_PRESET.easy_interval_days}d.
+          </p>
+        ) : (
+          <div className="grid gap-2">
+            {props.presets.map((p) => (
+              <div key={p.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{p.name}</p>
+                  <p className="text-xs text-muted-foreground">{summary(p)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button type="button" size="sm" variant="ghost" disabled={saving} onClick={() => open(p)}>
+                    Editar
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    disabled={saving}
+                    onClick={() => void onDelete(p)}
+                  >
+                    Eliminar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {draft ? (
+          <form onSubmit={onSave} className="space-y-4 rounded-2xl border p-4">
+            <p className="text-sm font-medium">{draft.id ? "Editar preset" : "Nuevo preset"}</p>
+
+            <Field
+              id="preset-name"
+              label="Nombre"
+              value={draft.name}
+              onChange={(v) => set("name", v)}
+              disabled={saving}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Field
+                id="preset-learning"
+                label="Pasos de aprendizaje"
+                hint="Separados por espacio: 1m 10m 1h. Vacío = gradúa de inmediato."
+                value={draft.learning_steps}
+                onChange={(v) => set("learning_steps", v)}
+                disabled={saving}
+              />
+              <Field
+                id="preset-relearning"
+                label="Pasos de reaprendizaje"
+                hint="Tras fallar una tarjeta en repaso."
+                value={draft.relearning_steps}
+                onChange={(v) => set("relearning_steps", v)}
+                disabled={saving}
+              />
+              <Field
+                id="preset-graduating"
+                label="Intervalo de graduación (días)"
+                value={draft.graduating_interval_days}
+                inputMode="numeric"
+                onChange={(v) => set("graduating_interval_days", v)}
+                disabled={saving}
+              />
+              <Field
+                id="preset-easy-interval"
+                label="Intervalo fácil (días)"
+                value={draft.easy_interval_days}
+                inputMode="numeric"
+                onChange={(v) => set("easy_interval_days", v)}
+                disabled={saving}
+              />
+              <Field
+                id="preset-easy-bonus"
+                label="Bonus de fácil"
+                hint="Multiplicador extra al responder Fácil en repaso (SM-2)."
+                value={draft.easy_bonus}
+                inputMode="decimal"
+                onChange={(v) => set("easy_bonus", v)}
+                disabled={saving}
+              />
+              <Field
+                id="preset-max"
+                label="Intervalo máximo (días)"
+                value={draft.max_interval_days}
+                inputMode="numeric"
+                onChange={(v) => set("max_interval_days", v)}
+                disabled={saving}
+              />
+              <Field
+                id="preset-ease"
+                label="Facilidad inicial"
+                hint="Solo SM-2. Entre 1.3 y 3.0."
+                value={draft.starting_ease}
+                inputMode="decimal"
+                onChange={(v) => set("starting_ease", v)}
+                disabled={saving}
+              />
+            </div>
+
+            {err ? <p className="text-sm text-red-500">{err}</p> : null}
+
+            <div className="flex flex-wrap gap-2">
+              <Button type="submit" disabled={saving}>
+                {saving ? "Guardando..." : "Guardar preset"}
+              </Button>
+              <Button type="button" variant="ghost" disabled={saving} onClick={() => setDraft(null)}>
+                Cancelar
+              </Button>
+            </div>
+          </form>
+        ) : null}
+
+        {!draft && err ? <p className="text-sm text-red-500">{err}</p> : null}
+        {msg ? <p className="text-sm text-green-600">{msg}</p> : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+// app/protected/projects/[projectId]/access-requests-client.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDateTimeCL } from "@/lib/datetime";
+import {
+  decideAccessRequestRpc,
+  listAccessRequestsRpc,
+  type AccessRequestItem,
+} from "./actions";
+
+const SELECT_CLASS = "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm";
+
+/** Solicitudes de acceso pendientes (solo dueño). */
+export function AccessRequestsPanel(props: { projectId: string }) {
+  const router = useRouter();
+  const [requests, setRequests] = useState<AccessRequestItem[]>([]);
+  const [roles, setRoles] = useState<Record<string, string>>({});
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    startTransition(async () => {
+      const res = await listAccessRequestsRpc({ project_id: props.projectId });
+      setLoaded(true);
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setRequests(res.data);
+    });
+  }, [props.projectId]);
+
+  function decide(req: AccessRequestItem, approve: boolean) {
+    setError(null);
+    startTransition(async () => {
+      const res = await decideAccessRequestRpc({
+        project_id: props.projectId,
+        request_id: req.id,
+        approve,
+        role: roles[req.id] ?? "guest",
+      });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setRequests((prev) => prev.filter((r) => r.id !== req.id));
+      // la lista de miembros viene del servidor
+      if (approve) router.refresh();
+    });
+  }
+
+  if (loaded && !error && requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Solicitudes de acceso</CardTitle>
+        <CardDescription>
+          Personas que abrieron el link del proyecto y pidieron unirse. Se les avisa de tu decisión.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-2">
+        {error ? (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+        ) : null}
+
+        {!loaded ? <p className="text-xs text-muted-foreground">Cargando…</p> : null}
+
+        {requests.map((r) => (
+          <div key={r.id} className="space-y-2 rounded-lg border p-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex min-w-0 items-center gap-2">
+                {r.avatar_url ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={r.avatar_url} alt="" className="h-6 w-6 rounded-full object-cover" />
+                ) : null}
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{r.username ?? "Usuario sin nombre"}</p>
+                  <p className="text-[11px] text-muted-foreground">{formatDateTimeCL(r.created_at)}</p>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={roles[r.id] ?? "guest"}
+                  onChange={(e) => setRoles((prev) => ({ ...prev, [r.id]: e.target.value }))}
+                  className={SELECT_CLASS}
+                  disabled={isPending}
+                >
+                  <option value="guest">Invitado</option>
+                  <option value="editor">Editor</option>
+                </select>
+                <Button type="button" size="sm" disabled={isPending} onClick={() => decide(r, true)}>
+                  Aprobar
+                </Button>
+                <Button type="button" size="sm" variant="ghost" disabled={isPending} onClick={() => decide(r, false)}>
+                  Rechazar
+                </Button>
+              </div>
+            </div>
+
+            {r.message ? (
+              <p className="whitespace-pre-wrap rounded-md bg-muted/40 p-2 text-xs text-muted-foreground">{r.message}</p>
+            ) : null}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
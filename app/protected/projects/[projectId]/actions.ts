@@ -1,24 +1,58 @@
 // app/protected/projects/[projectId]/actions.ts
 "use server";
 
+import { randomBytes } from "node:crypto";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/server";
 import { parseProjectIdValue } from "@/lib/project-id";
+import { clozeOrdinals } from "@/lib/cloze";
+import { buildProjectTags } from "@/lib/project-tags";
+import { quizError, quizFromBlockData, type QuizData } from "@/lib/quiz";
+import { saveQuizBlock } from "@/lib/quiz-keys";
+import {
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_CARDS,
+  deckFormatFromName,
+  duplicateKey,
+  recordsToItems,
+  type DeckImportFormat,
+  type DeckImportItem,
+  type RawDeck,
+} from "@/lib/deck-import/common";
+import { parseDelimited } from "@/lib/deck-import/delimited";
+import { parseApkg } from "@/lib/deck-import/apkg";
+import { blockRowData, type ProjectArchive } from "@/lib/project-archive";
+import { loadLocalCopy, loadProjectArchive } from "@/lib/project-copy";
+import {
+  diffUpstream,
+  mergedBase,
+  withRequired,
+  type LocalCopy,
+  type UpstreamBase,
+  type UpstreamChange,
+} from "@/lib/project-upstream";
+import { loadProjectProgress, type ProjectProgress } from "@/lib/member-progress";
 import type {
   FlashcardGroupRow,
+  FlashcardKind,
   FlashcardRow,
   ProjectBlockRow,
+  ProjectAccessRequestRow,
   ProjectId,
+  ProjectInviteRow,
   ProjectRole,
 } from "@/lib/types/study";
 
-type BlockType = "text" | "flashcards";
+type BlockType = "text" | "flashcards" | "quiz";
 type Visibility = "private" | "unlisted" | "public";
 
 export type ActionResult<T> = { ok: true; data: T } | { ok: false; error: string };
 
+const IMPORT_CHUNK = 500;
+const ID_CHUNK = 200; // .in() va en la URL
+
 function enc(v: string): string {
   return encodeURIComponent(v);
 }
@@ -34,7 +68,22 @@ function isVisibility(v: string): v is Visibility {
 }
 
 function isBlockType(v: string): v is BlockType {
-  return v === "text" || v === "flashcards";
+  return v === "text" || v === "flashcards" || v === "quiz";
+}
+
+function cardKindFrom(v: unknown): FlashcardKind {
+  return v === "cloze" ? "cloze" : "basic";
+}
+
+/** Cloze: back (extra) es opcional, pero el texto necesita al menos un {{cN::...}}. */
+function cardContentError(kind: FlashcardKind, front: string, back: string): string | null {
+  if (kind === "cloze") {
+    if (!front) return "El texto cloze es obligatorio";
+    if (clozeOrdinals(front).length === 0) return "Agrega al menos un hueco {{c1::...}}";
+    return null;
+  }
+  if (!front || !back) return "Front y Back son obligatorios";
+  return null;
 }
 
 function isMemberRole(v: string): v is Exclude<ProjectRole, "owner"> {
@@ -261,6 +310,41 @@ export async function updateProjectMetaAction(formData: FormData): Promise<void>
   redirectBackToProject(projectIdStr, tab);
 }
 
+/** Requiere projects.tags text[] not null default '{}' (índice GIN). */
+export async function updateProjectTagsAction(formData: FormData): Promise<void> {
+  const projectIdStr = String(formData.get("project_id") ?? "").trim();
+  const tab = tabFrom(formData, "settings");
+
+  const projectIdValue = parseProjectIdValue(projectIdStr);
+  if (!projectIdValue) redirectBackToProject(projectIdStr, tab, "Datos inválidos");
+
+  const tags = buildProjectTags({
+    subjects: formData.getAll("subject").map(String),
+    level: String(formData.get("level") ?? "") || null,
+    lang: String(formData.get("lang") ?? "") || null,
+    free: String(formData.get("free_tags") ?? "").split(/[,#\n]+/),
+  });
+
+  const { userId } = await requireUser();
+  try {
+    await assertOwner(projectIdValue, userId);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "No autorizado";
+    redirectBackToProject(projectIdStr, tab, msg);
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("projects")
+    .update({ tags, updated_at: new Date().toISOString() })
+    .eq("id", projectIdValue);
+
+  if (error) redirectBackToProject(projectIdStr, tab, error.message);
+
+  rev(projectIdStr);
+  redirectBackToProject(projectIdStr, tab);
+}
+
 export async function setProjectVisibilityAction(formData: FormData): Promise<void> {
   const projectIdStr = String(formData.get("project_id") ?? "").trim();
   const tab = tabFrom(formData, "edit");
@@ -335,8 +419,10 @@ export async function deleteProjectAction(formData: FormData): Promise<void> {
     await supabase.from("flashcard_groups").delete().in("block_id", flashBlockIds);
   }
 
+  await supabase.from("quiz_attempts").delete().eq("project_id", projectIdValue);
   await supabase.from("project_blocks").delete().eq("project_id", projectIdValue);
   await supabase.from("project_members").delete().eq("project_id", projectIdValue);
+  await supabase.from("project_user_settings").delete().eq("project_id", projectIdValue);
 
   const { error } = await supabase.from("projects").delete().eq("id", projectIdValue);
   if (error) redirectBackToProject(projectIdStr, tab, error.message);
@@ -346,6 +432,132 @@ export async function deleteProjectAction(formData: FormData): Promise<void> {
   redirect("/protected/projects");
 }
 
+/* ---------------------------------------
+   SCHEDULER PRESETS
+   - Dueño: adjunta uno de sus presets al proyecto
+   - Cualquier miembro: override propio (project_user_settings)
+----------------------------------------*/
+
+async function assertOwnPreset(presetId: string, userId: string): Promise<string | null> {
+  if (!isUuid(presetId)) return "Preset inválido";
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("scheduler_presets")
+    .select("id")
+    .eq("id", presetId)
+    .eq("owner_user_id", userId)
+    .maybeSingle<{ id: string }>();
+
+  if (error) return error.message;
+  if (!data) return "Preset no encontrado";
+  return null;
+}
+
+/** Dueño o miembro (cualquier rol) de un proyecto visible. */
+async function assertMemberOrOwner(projectIdValue: ProjectId, userId: string): Promise<string | null> {
+  const supabase = await createClient();
+  const { data: proj, error: pErr } = await supabase
+    .from("projects")
+    .select("owner_user_id,is_hidden")
+    .eq("id", projectIdValue)
+    .maybeSingle<{ owner_user_id: string; is_hidden: boolean }>();
+
+  if (pErr) return pErr.message;
+  if (!proj) return "Proyecto no encontrado";
+  if (proj.is_hidden) return "Proyecto no disponible.";
+  if (proj.owner_user_id === userId) return null;
+
+  const { data: mem, error: mErr } = await supabase
+    .from("project_members")
+    .select("role")
+    .eq("project_id", projectIdValue)
+    .eq("user_id", userId)
+    .maybeSingle<{ role: ProjectRole }>();
+
+  if (mErr) return mErr.message;
+  if (!mem) return "No autorizado (solo miembros del proyecto).";
+  return null;
+}
+
+export async function setProjectPresetAction(formData: FormData): Promise<void> {
+  const projectIdStr = String(formData.get("project_id") ?? "").trim();
+  const tab = tabFrom(formData, "settings");
+  const presetId = String(formData.get("preset_id") ?? "").trim();
+
+  const projectIdValue = parseProjectIdValue(projectIdStr);
+  if (!projectIdValue) redirectBackToProject(projectIdStr, tab, "Datos inválidos");
+
+  const { userId } = await requireUser();
+  try {
+    await assertOwner(projectIdValue, userId);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "No autorizado";
+    redirectBackToProject(projectIdStr, tab, msg);
+  }
+
+  if (presetId) {
+    const presetErr = await assertOwnPreset(presetId, userId);
+    if (presetErr) redirectBackToProject(projectIdStr, tab, presetErr);
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("projects")
+    .update({ scheduler_preset_id: presetId || null })
+    .eq("id", projectIdValue);
+
+  if (error) redirectBackToProject(projectIdStr, tab, error.message);
+
+  rev(projectIdStr);
+  redirectBackToProject(projectIdStr, tab);
+}
+
+export async function setMyProjectPresetAction(formData: FormData): Promise<void> {
+  const projectIdStr = String(formData.get("project_id") ?? "").trim();
+  const tab = tabFrom(formData, null);
+  const presetId = String(formData.get("preset_id") ?? "").trim();
+
+  const projectIdValue = parseProjectIdValue(projectIdStr);
+  if (!projectIdValue) redirectBackToProject(projectIdStr, tab, "Datos inválidos");
+
+  const { userId } = await requireUser();
+
+  const memberErr = await assertMemberOrOwner(projectIdValue, userId);
+  if (memberErr) redirectBackToProject(projectIdStr, tab, memberErr);
+
+  const supabase = await createClient();
+
+  // "" => usar el preset del proyecto
+  if (!presetId) {
+    const { error } = await supabase
+      .from("project_user_settings")
+      .delete()
+      .eq("project_id", projectIdValue)
+      .eq("user_id", userId);
+
+    if (error) redirectBackToProject(projectIdStr, tab, error.message);
+    redirectBackToProject(projectIdStr, tab);
+  }
+
+  const presetErr = await assertOwnPreset(presetId, userId);
+  if (presetErr) redirectBackToProject(projectIdStr, tab, presetErr);
+
+  const { error } = await supabase.from("project_user_settings").upsert(
+    {
+      project_id: projectIdValue,
+      user_id: userId,
+      scheduler_preset_id: presetId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,project_id" }
+  );
+
+  if (error) redirectBackToProject(projectIdStr, tab, error.message);
+
+  redirectBackToProject(projectIdStr, tab);
+}
+
 /* ---------------------------------------
    BLOCKS: add/move/update/delete
    - Estructura del proyecto: SOLO DUEÑO
@@ -379,7 +591,8 @@ export async function addBlockAction(formData: FormData): Promise<void> {
 
   const nextIndex = (last?.order_index ?? -1) + 1;
 
-  const dataPayload: Record<string, unknown> = typeStr === "text" ? { md: "" } : { note: "flashcards_block" };
+  const dataPayload: Record<string, unknown> =
+    typeStr === "text" ? { md: "" } : typeStr === "quiz" ? { questions: [] } : { note: "flashcards_block" };
 
   const { error } = await supabase.from("project_blocks").insert({
     project_id: projectIdValue,
@@ -968,7 +1181,7 @@ export async function addBlockRpc(input: {
   const nextIndex = (last?.order_index ?? -1) + 1;
 
   const dataPayload: Record<string, unknown> =
-    input.type === "text" ? { md: "" } : { note: "flashcards_block" };
+    input.type === "text" ? { md: "" } : input.type === "quiz" ? { questions: [] } : { note: "flashcards_block" };
   const nowIso = new Date().toISOString();
 
   const { data, error } = await supabase
@@ -1042,6 +1255,54 @@ export async function updateTextBlockRpc(input: {
   };
 }
 
+/* ---------------------------
+   QUIZ BLOCK RPC
+   - Contenido: DUEÑO o EDITOR
+----------------------------*/
+
+export async function updateQuizBlockRpc(input: {
+  project_id: string;
+  block_id: string;
+  quiz: QuizData;
+}): Promise<ActionResult<{ id: string; updated_at: string; data: QuizData }>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+  if (!isUuid(input.block_id)) return { ok: false, error: "Block inválido" };
+
+  // normaliza lo que llega del cliente antes de validar
+  const quiz = quizFromBlockData(input.quiz);
+  const quizErr = quizError(quiz);
+  if (quizErr) return { ok: false, error: quizErr };
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const can = await assertCanEditContentWith(supabase, pid.data, userId);
+  if (!can.ok) return can;
+
+  const { data: blk, error: bErr } = await supabase
+    .from("project_blocks")
+    .select("project_id,type")
+    .eq("id", input.block_id)
+    .single<{ project_id: ProjectId; type: BlockType }>();
+
+  if (bErr || !blk || String(blk.project_id) !== String(pid.data) || blk.type !== "quiz") {
+    return { ok: false, error: "Bloque inválido" };
+  }
+
+  const nowIso = new Date().toISOString();
+
+  // data pública + solución aparte (solo dueño/editor la leen)
+  const saveErr = await saveQuizBlock(supabase, pid.data, input.block_id, quiz, nowIso);
+  if (saveErr) return { ok: false, error: saveErr };
+
+  await supabase.from("projects").update({ updated_at: nowIso }).eq("id", pid.data);
+
+  rev(String(pid.data));
+  return { ok: true, data: { id: input.block_id, updated_at: nowIso, data: quiz } };
+}
+
 /* ---------------------------
    MOVE/DELETE BLOCK RPC
    - Estructura: SOLO DUEÑO
@@ -1160,6 +1421,10 @@ export async function deleteBlockRpc(input: {
     }
   }
 
+  if (blk.type === "quiz") {
+    await supabase.from("quiz_attempts").delete().eq("block_id", input.block_id);
+  }
+
   const { error } = await supabase.from("project_blocks").delete().eq("id", input.block_id);
   if (error) return { ok: false, error: error.message };
 
@@ -1179,6 +1444,7 @@ export async function addGroupRpc(input: {
   project_id: string;
   block_id: string;
   title: string;
+  bidirectional?: boolean;
 }): Promise<ActionResult<FlashcardGroupRow>> {
   const pid = mustProjectIdNoRedirect(input.project_id);
   if (!pid.ok) return pid;
@@ -1228,9 +1494,10 @@ export async function addGroupRpc(input: {
     .insert({
       block_id: input.block_id,
       title,
+      bidirectional: Boolean(input.bidirectional),
       order_index: nextIndex,
     })
-    .select("id,block_id,title,order_index,created_at")
+    .select("id,block_id,title,bidirectional,order_index,created_at")
     .single<FlashcardGroupRow>();
 
   if (error || !data) return { ok: false, error: error?.message ?? "No se pudo crear el grupo" };
@@ -1289,6 +1556,57 @@ export async function renameGroupRpc(input: {
   return { ok: true, data: { id: input.group_id, title } };
 }
 
+/**
+ * Grupo bidireccional: cada carta básica se practica frente→reverso y
+ * reverso→frente, con programación independiente por dirección.
+ * Requiere columna: flashcard_groups.bidirectional boolean default false.
+ */
+export async function setGroupBidirectionalRpc(input: {
+  project_id: string;
+  group_id: string;
+  bidirectional: boolean;
+}): Promise<ActionResult<{ id: string; bidirectional: boolean }>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+  if (!isUuid(input.group_id)) return { ok: false, error: "Grupo inválido" };
+
+  const bidirectional = Boolean(input.bidirectional);
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const can = await assertCanEditContentWith(supabase, pid.data, userId);
+  if (!can.ok) return can;
+
+  const { data: g, error: gErr } = await supabase
+    .from("flashcard_groups")
+    .select("id,block_id")
+    .eq("id", input.group_id)
+    .single<{ id: string; block_id: string }>();
+
+  if (gErr || !g) return { ok: false, error: "Grupo no encontrado" };
+
+  const { data: blk, error: bErr } = await supabase
+    .from("project_blocks")
+    .select("project_id")
+    .eq("id", g.block_id)
+    .single<{ project_id: ProjectId }>();
+
+  if (bErr || !blk || String(blk.project_id) !== String(pid.data)) {
+    return { ok: false, error: "Grupo inválido" };
+  }
+
+  const { error } = await supabase.from("flashcard_groups").update({ bidirectional }).eq("id", input.group_id);
+  if (error) return { ok: false, error: error.message };
+
+  const nowIso = new Date().toISOString();
+  await supabase.from("projects").update({ updated_at: nowIso }).eq("id", pid.data);
+
+  rev(String(pid.data));
+  return { ok: true, data: { id: input.group_id, bidirectional } };
+}
+
 export async function deleteGroupRpc(input: {
   project_id: string;
   group_id: string;
@@ -1324,6 +1642,7 @@ export async function deleteGroupRpc(input: {
 export async function addCardRpc(input: {
   project_id: string;
   group_id: string;
+  kind?: FlashcardKind;
   front: string;
   back: string;
 }): Promise<ActionResult<FlashcardRow>> {
@@ -1331,9 +1650,11 @@ export async function addCardRpc(input: {
   if (!pid.ok) return pid;
   if (!isUuid(input.group_id)) return { ok: false, error: "Grupo inválido" };
 
+  const kind = cardKindFrom(input.kind);
   const front = (input.front ?? "").trim();
   const back = (input.back ?? "").trim();
-  if (!front || !back) return { ok: false, error: "Front y Back son obligatorios" };
+  const contentErr = cardContentError(kind, front, back);
+  if (contentErr) return { ok: false, error: contentErr };
 
   const auth = await getAuthedSupabase();
   if (!auth.ok) return auth;
@@ -1358,11 +1679,12 @@ export async function addCardRpc(input: {
     .insert({
       project_id: pid.data,
       group_id: input.group_id,
+      kind,
       front,
       back,
       order_index: nextIndex,
     })
-    .select("id,project_id,group_id,front,back,order_index,created_at,updated_at")
+    .select("id,project_id,group_id,kind,front,back,order_index,created_at,updated_at")
     .single<FlashcardRow>();
 
   if (error || !data) return { ok: false, error: error?.message ?? "No se pudo crear la carta" };
@@ -1374,19 +1696,26 @@ export async function addCardRpc(input: {
   return { ok: true, data };
 }
 
+/**
+ * Al editar una cloze, los huecos que desaparecen dejan su review_state
+ * huérfano (no se practica más); los nuevos se inicializan al practicar.
+ */
 export async function updateCardRpc(input: {
   project_id: string;
   card_id: string;
+  kind?: FlashcardKind;
   front: string;
   back: string;
-}): Promise<ActionResult<{ id: string; front: string; back: string; updated_at: string }>> {
+}): Promise<ActionResult<{ id: string; kind: FlashcardKind; front: string; back: string; updated_at: string }>> {
   const pid = mustProjectIdNoRedirect(input.project_id);
   if (!pid.ok) return pid;
   if (!isUuid(input.card_id)) return { ok: false, error: "Carta inválida" };
 
+  const kind = cardKindFrom(input.kind);
   const front = (input.front ?? "").trim();
   const back = (input.back ?? "").trim();
-  if (!front || !back) return { ok: false, error: "Front y Back son obligatorios" };
+  const contentErr = cardContentError(kind, front, back);
+  if (contentErr) return { ok: false, error: contentErr };
 
   const auth = await getAuthedSupabase();
   if (!auth.ok) return auth;
@@ -1399,11 +1728,11 @@ export async function updateCardRpc(input: {
 
   const { data, error } = await supabase
     .from("flashcards")
-    .update({ front, back, updated_at: nowIso })
+    .update({ kind, front, back, updated_at: nowIso })
     .eq("id", input.card_id)
     .eq("project_id", pid.data)
-    .select("id,front,back,updated_at")
-    .single<{ id: string; front: string; back: string; updated_at: string }>();
+    .select("id,kind,front,back,updated_at")
+    .single<{ id: string; kind: FlashcardKind; front: string; back: string; updated_at: string }>();
 
   if (error || !data) return { ok: false, error: error?.message ?? "No se pudo guardar" };
 
@@ -1507,3 +1836,1023 @@ export async function saveTextBlocksRpc(input: {
   rev(String(pid.data));
   return { ok: true, data: true };
 }
+
+/* ---------------------------
+   IMPORT RPC (CSV / TSV / Anki .apkg)
+   - Contenido: DUEÑO o EDITOR
+   - preview: parsea el archivo y marca duplicados (no escribe)
+   - commit: inserta lo confirmado; sub-mazos => un grupo por mazo
+----------------------------*/
+
+export type DeckImportPreview = {
+  format: DeckImportFormat;
+  columns: string[];
+  front_col: number;
+  back_col: number;
+  items: Array<DeckImportItem & { duplicate: boolean; error: string | null }>;
+  decks: Array<{ name: string; count: number }>;
+  truncated: boolean;
+};
+
+type ImportTarget = {
+  blockId: string;
+  group: { id: string; title: string };
+  groups: Array<{ id: string; title: string; order_index: number }>;
+  // título de grupo -> claves de frentes existentes
+  frontsByGroup: Map<string, Set<string>>;
+};
+
+async function loadImportTarget(
+  supabase: SupabaseClient,
+  projectIdValue: ProjectId,
+  groupId: string
+): Promise<ActionResult<ImportTarget>> {
+  const { data: grp, error: gErr } = await supabase
+    .from("flashcard_groups")
+    .select("id,block_id,title")
+    .eq("id", groupId)
+    .single<{ id: string; block_id: string; title: string }>();
+
+  if (gErr || !grp) return { ok: false, error: "Grupo inválido" };
+
+  const { data: blk, error: bErr } = await supabase
+    .from("project_blocks")
+    .select("project_id,type")
+    .eq("id", grp.block_id)
+    .single<{ project_id: ProjectId; type: BlockType }>();
+
+  if (bErr || !blk || String(blk.project_id) !== String(projectIdValue) || blk.type !== "flashcards") {
+    return { ok: false, error: "Grupo inválido" };
+  }
+
+  const { data: groups, error: gsErr } = await supabase
+    .from("flashcard_groups")
+    .select("id,title,order_index")
+    .eq("block_id", grp.block_id)
+    .returns<Array<{ id: string; title: string; order_index: number }>>();
+
+  if (gsErr) return { ok: false, error: gsErr.message };
+
+  const { data: cards, error: cErr } = await supabase
+    .from("flashcards")
+    .select("group_id,front")
+    .eq("project_id", projectIdValue)
+    .in("group_id", (groups ?? []).map((g) => g.id))
+    .returns<Array<{ group_id: string; front: string }>>();
+
+  if (cErr) return { ok: false, error: cErr.message };
+
+  const frontsByGroup = new Map<string, Set<string>>();
+  for (const c of cards ?? []) {
+    const set = frontsByGroup.get(c.group_id) ?? new Set<string>();
+    set.add(duplicateKey(c.front));
+    frontsByGroup.set(c.group_id, set);
+  }
+
+  return {
+    ok: true,
+    data: { blockId: grp.block_id, group: { id: grp.id, title: grp.title }, groups: groups ?? [], frontsByGroup },
+  };
+}
+
+function deckGroupTitle(deck: string): string {
+  return deck.split("::").map((s) => s.trim()).filter(Boolean).join(" / ").slice(0, 120) || "Importado";
+}
+
+/** Grupo destino de un ítem: el elegido, o uno existente/nuevo con el nombre del sub-mazo. */
+function importGroupKey(target: ImportTarget, deck: string | null, splitDecks: boolean): { title: string; id: string | null } {
+  if (!splitDecks || !deck) return { title: target.group.title, id: target.group.id };
+  const title = deckGroupTitle(deck);
+  const existing = target.groups.find((g) => g.title.trim().toLowerCase() === title.toLowerCase());
+  return { title, id: existing?.id ?? null };
+}
+
+export async function previewDeckImportRpc(formData: FormData): Promise<ActionResult<DeckImportPreview>> {
+  const pid = mustProjectIdNoRedirect(String(formData.get("project_id") ?? ""));
+  if (!pid.ok) return pid;
+
+  const groupId = String(formData.get("group_id") ?? "");
+  if (!isUuid(groupId)) return { ok: false, error: "Grupo inválido" };
+
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) return { ok: false, error: "Selecciona un archivo" };
+  if (file.size > MAX_IMPORT_BYTES) return { ok: false, error: "Archivo demasiado grande (máx. 20 MB)" };
+
+  const format = deckFormatFromName(file.name);
+  if (!format) return { ok: false, error: "Formato no soportado (usa .csv, .tsv, .txt o .apkg)" };
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const can = await assertCanEditContentWith(supabase, pid.data, userId);
+  if (!can.ok) return can;
+
+  const target = await loadImportTarget(supabase, pid.data, groupId);
+  if (!target.ok) return target;
+
+  const splitDecks = formData.get("split_decks") === "1";
+
+  let raw: RawDeck;
+  let html = format === "apkg";
+  try {
+    const buf = Buffer.from(await file.arrayBuffer());
+    if (format === "apkg") {
+      raw = parseApkg(buf);
+    } else {
+      const parsed = parseDelimited(buf.toString("utf8"), {
+        tsv: format === "tsv",
+        hasHeader: formData.get("has_header") === "1",
+      });
+      raw = parsed;
+      html = parsed.html;
+    }
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "No se pudo leer el archivo" };
+  }
+
+  if (raw.records.length === 0) return { ok: false, error: "El archivo no tiene filas" };
+
+  const colFrom = (key: string, fallback: number) => {
+    const v = Number(formData.get(key));
+    return formData.get(key) !== null && Number.isInteger(v) && v >= -1 && v < raw.columns.length ? v : fallback;
+  };
+  const frontCol = Math.max(0, colFrom("front_col", 0));
+  const backCol = colFrom("back_col", raw.columns.length > 1 ? 1 : -1);
+
+  const all = recordsToItems(raw, { frontCol, backCol, html });
+  const truncated = all.length > MAX_IMPORT_CARDS;
+
+  const seen = new Map<string, Set<string>>(); // duplicados dentro del mismo archivo
+  const deckCount = new Map<string, number>();
+
+  const items = all.slice(0, MAX_IMPORT_CARDS).map((it) => {
+    const dest = importGroupKey(target.data, it.deck, splitDecks);
+    const key = duplicateKey(it.front);
+
+    const existing = dest.id ? target.data.frontsByGroup.get(dest.id) : undefined;
+    const inFile = seen.get(dest.title) ?? new Set<string>();
+    const duplicate = !!key && (!!existing?.has(key) || inFile.has(key));
+    inFile.add(key);
+    seen.set(dest.title, inFile);
+
+    if (it.deck) deckCount.set(it.deck, (deckCount.get(it.deck) ?? 0) + 1);
+
+    return { ...it, duplicate, error: cardContentError(it.kind, it.front, it.back) };
+  });
+
+  return {
+    ok: true,
+    data: {
+      format,
+      columns: raw.columns,
+      front_col: frontCol,
+      back_col: backCol,
+      items,
+      decks: [...deckCount.entries()].map(([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name)),
+      truncated,
+    },
+  };
+}
+
+export async function commitDeckImportRpc(input: {
+  project_id: string;
+  group_id: string;
+  items: DeckImportItem[];
+  split_decks?: boolean;
+  skip_duplicates?: boolean;
+}): Promise<ActionResult<{ created_cards: number; created_groups: number; skipped: number }>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+  if (!isUuid(input.group_id)) return { ok: false, error: "Grupo inválido" };
+
+  const items = Array.isArray(input.items) ? input.items : [];
+  if (items.length === 0) return { ok: false, error: "Nada que importar" };
+  if (items.length > MAX_IMPORT_CARDS) return { ok: false, error: `Máximo ${MAX_IMPORT_CARDS} cartas por importación` };
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const can = await assertCanEditContentWith(supabase, pid.data, userId);
+  if (!can.ok) return can;
+
+  const target = await loadImportTarget(supabase, pid.data, input.group_id);
+  if (!target.ok) return target;
+
+  const splitDecks = Boolean(input.split_decks);
+  const skipDuplicates = input.skip_duplicates !== false;
+
+  // agrupa por grupo destino (se revalida todo: no se confía en el preview)
+  const buckets = new Map<string, { id: string | null; cards: Array<{ kind: FlashcardKind; front: string; back: string }> }>();
+  let skipped = 0;
+
+  for (const it of items) {
+    const kind = cardKindFrom(it?.kind);
+    const front = String(it?.front ?? "").trim();
+    const back = String(it?.back ?? "").trim();
+    const deck = typeof it?.deck === "string" ? it.deck : null;
+
+    if (cardContentError(kind, front, back)) {
+      skipped++;
+      continue;
+    }
+
+    const dest = importGroupKey(target.data, deck, splitDecks);
+    const bucket = buckets.get(dest.title) ?? { id: dest.id, cards: [] };
+
+    if (skipDuplicates) {
+      const key = duplicateKey(front);
+      const existing = dest.id ? target.data.frontsByGroup.get(dest.id) : undefined;
+      if (existing?.has(key) || bucket.cards.some((c) => duplicateKey(c.front) === key)) {
+        skipped++;
+        continue;
+      }
+    }
+
+    bucket.cards.push({ kind, front, back });
+    buckets.set(dest.title, bucket);
+  }
+
+  let createdGroups = 0;
+  let createdCards = 0;
+  let nextGroupIndex = target.data.groups.reduce((m, g) => Math.max(m, g.order_index), -1) + 1;
+
+  for (const [title, bucket] of buckets) {
+    if (bucket.cards.length === 0) continue;
+
+    let groupId = bucket.id;
+    if (!groupId) {
+      const { data: g, error: gErr } = await supabase
+        .from("flashcard_groups")
+        .insert({ block_id: target.data.blockId, title, bidirectional: false, order_index: nextGroupIndex++ })
+        .select("id")
+        .single<{ id: string }>();
+
+      if (gErr || !g) return { ok: false, error: gErr?.message ?? "No se pudo crear el grupo" };
+      groupId = g.id;
+      createdGroups++;
+    }
+
+    const { data: last } = await supabase
+      .from("flashcards")
+      .select("order_index")
+      .eq("project_id", pid.data)
+      .eq("group_id", groupId)
+      .order("order_index", { ascending: false })
+      .limit(1)
+      .maybeSingle<{ order_index: number }>();
+
+    let nextIndex = (last?.order_index ?? -1) + 1;
+
+    for (let i = 0; i < bucket.cards.length; i += IMPORT_CHUNK) {
+      const rows = bucket.cards.slice(i, i + IMPORT_CHUNK).map((c) => ({
+        project_id: pid.data,
+        group_id: groupId,
+        kind: c.kind,
+        front: c.front,
+        back: c.back,
+        order_index: nextIndex++,
+      }));
+
+      const { error } = await supabase.from("flashcards").insert(rows);
+      if (error) return { ok: false, error: error.message };
+      createdCards += rows.length;
+    }
+  }
+
+  const nowIso = new Date().toISOString();
+  await supabase.from("projects").update({ updated_at: nowIso }).eq("id", pid.data);
+
+  rev(String(pid.data));
+  return { ok: true, data: { created_cards: createdCards, created_groups: createdGroups, skipped } };
+}
+
+/* ---------------------------
+   UPSTREAM RPC (forks)
+   - Solo DUEÑO (puede crear/borrar bloques)
+   - diff: cambios del original vs la copia (no escribe)
+   - merge: aplica los elegidos (+ sus dependencias) y actualiza la base del
+     diff (forked_from_base); la revisión solo avanza si no queda nada pendiente.
+     Las cartas no tocadas conservan su review_state; las editadas también
+     (mismo criterio que updateCardRpc).
+----------------------------*/
+
+export type UpstreamDiff = {
+  source: { project_id: string; title: string; updated_at: string };
+  revision: string | null;
+  outdated: boolean;
+  changes: UpstreamChange[];
+};
+
+type UpstreamState = { diff: UpstreamDiff; upstream: ProjectArchive; local: LocalCopy; base: UpstreamBase | null };
+
+async function loadUpstreamState(
+  supabase: SupabaseClient,
+  projectIdValue: ProjectId
+): Promise<ActionResult<UpstreamState>> {
+  const { data: proj, error: pErr } = await supabase
+    .from("projects")
+    .select("forked_from_project_id,forked_from_revision,forked_from_base")
+    .eq("id", projectIdValue)
+    .single<{
+      forked_from_project_id: ProjectId | null;
+      forked_from_revision: string | null;
+      forked_from_base: UpstreamBase | null;
+    }>();
+
+  if (pErr || !proj) return { ok: false, error: pErr?.message ?? "Proyecto no encontrado" };
+  if (proj.forked_from_project_id == null) return { ok: false, error: "Este proyecto no es un fork." };
+
+  const { data: src } = await supabase
+    .from("projects")
+    .select("id,title,updated_at,is_hidden")
+    .eq("id", proj.forked_from_project_id)
+    .maybeSingle<{ id: ProjectId; title: string; updated_at: string; is_hidden: boolean }>();
+
+  if (!src || src.is_hidden) return { ok: false, error: "El proyecto original ya no está disponible." };
+
+  const [upstream, local] = await Promise.all([
+    loadProjectArchive(supabase, src.id),
+    loadLocalCopy(supabase, projectIdValue),
+  ]);
+  if (!upstream.ok) return upstream;
+  if (!local.ok) return local;
+
+  // forks anteriores a la base: null (los cambios se marcan como conflicto)
+  const base = proj.forked_from_base && typeof proj.forked_from_base === "object" ? proj.forked_from_base : null;
+  const changes = diffUpstream(upstream.data, local.data, base);
+
+  return {
+    ok: true,
+    data: {
+      diff: {
+        source: { project_id: String(src.id), title: src.title, updated_at: src.updated_at },
+        revision: proj.forked_from_revision,
+        outdated: changes.length > 0,
+        changes,
+      },
+      upstream: upstream.data,
+      local: local.data,
+      base,
+    },
+  };
+}
+
+export async function getUpstreamDiffRpc(input: { project_id: string }): Promise<ActionResult<UpstreamDiff>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  const state = await loadUpstreamState(supabase, pid.data);
+  if (!state.ok) return state;
+  const { diff } = state.data;
+
+  // nada pendiente (p. ej. solo cambió lo que ya editaste): la copia queda al día
+  if (!diff.outdated && diff.revision !== diff.source.updated_at) {
+    await supabase.from("projects").update({ forked_from_revision: diff.source.updated_at }).eq("id", pid.data);
+    diff.revision = diff.source.updated_at;
+  }
+
+  return { ok: true, data: diff };
+}
+
+async function deleteIn(supabase: SupabaseClient, table: string, column: string, ids: string[]): Promise<string | null> {
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { error } = await supabase.from(table).delete().in(column, ids.slice(i, i + ID_CHUNK));
+    if (error) return error.message;
+  }
+  return null;
+}
+
+async function insertIn(supabase: SupabaseClient, table: string, rows: Record<string, unknown>[]): Promise<string | null> {
+  for (let i = 0; i < rows.length; i += IMPORT_CHUNK) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + IMPORT_CHUNK));
+    if (error) return error.message;
+  }
+  return null;
+}
+
+export async function mergeUpstreamRpc(input: {
+  project_id: string;
+  keys: string[];
+}): Promise<ActionResult<{ applied: number; remaining: number }>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  // se recalcula el diff: no se confía en lo que vio el cliente
+  const state = await loadUpstreamState(supabase, pid.data);
+  if (!state.ok) return state;
+  const { diff, upstream, local, base } = state.data;
+
+  const selected = withRequired(diff.changes, Array.isArray(input.keys) ? input.keys : []);
+  const picked = diff.changes.filter((c) => selected.has(c.key));
+  if (picked.length === 0) return { ok: false, error: "No hay cambios seleccionados (o ya se aplicaron)." };
+
+  const pick = (entity: UpstreamChange["entity"], kind: UpstreamChange["kind"]) =>
+    picked.filter((c) => c.entity === entity && c.kind === kind);
+
+  const upBlocks = new Map(upstream.blocks.map((b) => [b.id, b]));
+  const upGroups = new Map(upstream.groups.map((g) => [g.id, g]));
+  const upCards = new Map(upstream.cards.map((c) => [c.id, c]));
+
+  // upstream_id -> id local (se completa con lo que se crea)
+  const blockByUp = new Map(local.blocks.filter((b) => b.upstream_id).map((b) => [b.upstream_id as string, b.id]));
+  const groupByUp = new Map(local.groups.filter((g) => g.upstream_id).map((g) => [g.upstream_id as string, g.id]));
+
+  const nowIso = new Date().toISOString();
+  let failed: string | null = null;
+
+  // 1) borrados (hijos primero)
+  const delBlocks = pick("block", "deleted").map((c) => c.local_id as string);
+  const delGroups = pick("group", "deleted").map((c) => c.local_id as string);
+  const delCards = pick("card", "deleted").map((c) => c.local_id as string);
+
+  // grupos de bloques borrados (incluye los creados localmente)
+  const delBlockSet = new Set(delBlocks);
+  const cascadeGroups = local.groups.filter((g) => delBlockSet.has(g.block_id)).map((g) => g.id);
+  const allDelGroups = [...new Set([...delGroups, ...cascadeGroups])];
+  const quizBlocks = local.blocks.filter((b) => delBlockSet.has(b.id) && b.type === "quiz").map((b) => b.id);
+
+  failed =
+    (await deleteIn(supabase, "flashcards", "id", delCards)) ??
+    (await deleteIn(supabase, "flashcards", "group_id", allDelGroups)) ??
+    (await deleteIn(supabase, "flashcard_groups", "id", allDelGroups)) ??
+    (await deleteIn(supabase, "quiz_attempts", "block_id", quizBlocks)) ??
+    (await deleteIn(supabase, "project_blocks", "id", delBlocks));
+  if (failed) return { ok: false, error: failed };
+
+  // 2) bloques
+  const keptBlocks = local.blocks.filter((b) => !delBlockSet.has(b.id));
+  let nextBlockIndex = keptBlocks.reduce((m, b) => Math.max(m, b.order_index), -1) + 1;
+
+  const newBlocks = pick("block", "added").map((c) => {
+    const ub = upBlocks.get(c.upstream_id as string)!;
+    const id = crypto.randomUUID();
+    blockByUp.set(ub.id, id);
+    return {
+      id,
+      project_id: pid.data,
+      type: ub.type,
+      order_index: nextBlockIndex++,
+      data: blockRowData(ub),
+      upstream_id: ub.id,
+      updated_at: nowIso,
+    };
+  });
+
+  failed = await insertIn(supabase, "project_blocks", newBlocks);
+  if (failed) return { ok: false, error: failed };
+
+  for (const c of pick("block", "changed")) {
+    const ub = upBlocks.get(c.upstream_id as string)!;
+    const { error } = await supabase
+      .from("project_blocks")
+      .update({ data: blockRowData(ub), updated_at: nowIso })
+      .eq("id", c.local_id as string)
+      .eq("project_id", pid.data);
+    if (error) return { ok: false, error: error.message };
+  }
+
+  // 3) grupos
+  const nextGroupIndex = new Map<string, number>();
+  for (const g of local.groups) {
+    nextGroupIndex.set(g.block_id, Math.max(nextGroupIndex.get(g.block_id) ?? 0, g.order_index + 1));
+  }
+
+  const newGroups: Record<string, unknown>[] = [];
+  for (const c of pick("group", "added")) {
+    const ug = upGroups.get(c.upstream_id as string)!;
+    const blockId = blockByUp.get(ug.block_id);
+    if (!blockId) continue;
+
+    const id = crypto.randomUUID();
+    const orderIndex = nextGroupIndex.get(blockId) ?? 0;
+    nextGroupIndex.set(blockId, orderIndex + 1);
+    groupByUp.set(ug.id, id);
+    newGroups.push({ id, block_id: blockId, title: ug.title, bidirectional: ug.bidirectional, order_index: orderIndex, upstream_id: ug.id });
+  }
+
+  failed = await insertIn(supabase, "flashcard_groups", newGroups);
+  if (failed) return { ok: false, error: failed };
+
+  for (const c of pick("group", "changed")) {
+    const ug = upGroups.get(c.upstream_id as string)!;
+    const { error } = await supabase
+      .from("flashcard_groups")
+      .update({ title: ug.title, bidirectional: ug.bidirectional })
+      .eq("id", c.local_id as string);
+    if (error) return { ok: false, error: error.message };
+  }
+
+  // 4) cartas
+  const nextCardIndex = new Map<string, number>();
+  for (const lc of local.cards) {
+    nextCardIndex.set(lc.group_id, Math.max(nextCardIndex.get(lc.group_id) ?? 0, lc.order_index + 1));
+  }
+
+  const newCards: Record<string, unknown>[] = [];
+  for (const c of pick("card", "added")) {
+    const uc = upCards.get(c.upstream_id as string)!;
+    const groupId = groupByUp.get(uc.group_id);
+    if (!groupId) continue;
+
+    const orderIndex = nextCardIndex.get(groupId) ?? 0;
+    nextCardIndex.set(groupId, orderIndex + 1);
+    newCards.push({
+      project_id: pid.data,
+      group_id: groupId,
+      kind: uc.kind,
+      front: uc.front,
+      back: uc.back,
+      order_index: orderIndex,
+      upstream_id: uc.id,
+    });
+  }
+
+  failed = await insertIn(supabase, "flashcards", newCards);
+  if (failed) return { ok: false, error: failed };
+
+  for (const c of pick("card", "changed")) {
+    const uc = upCards.get(c.upstream_id as string)!;
+    const groupId = groupByUp.get(uc.group_id);
+    const { error } = await supabase
+      .from("flashcards")
+      .update({ kind: uc.kind, front: uc.front, back: uc.back, updated_at: nowIso, ...(groupId ? { group_id: groupId } : {}) })
+      .eq("id", c.local_id as string)
+      .eq("project_id", pid.data);
+    if (error) return { ok: false, error: error.message };
+  }
+
+  const remaining = diff.changes.length - picked.length;
+
+  await supabase
+    .from("projects")
+    .update({
+      updated_at: nowIso,
+      forked_from_base: mergedBase(base, upstream, local, picked),
+      ...(remaining === 0 ? { forked_from_revision: diff.source.updated_at } : {}),
+    })
+    .eq("id", pid.data);
+
+  rev(String(pid.data));
+  return { ok: true, data: { applied: picked.length, remaining } };
+}
+
+/* ---------------------------
+   INVITES RPC
+   - Solo DUEÑO: invitar por usuario/correo, links con rol, vencimiento
+     y límite de usos; listar pendientes y revocar.
+   Requiere tabla: public.project_invites (ver ProjectInviteRow) con
+   token unique; RLS: el dueño del proyecto lee/inserta/actualiza.
+   El lado del invitado va por RPC (security definer) en
+   app/protected/projects/invite-actions.ts.
+----------------------------*/
+
+const MAX_PENDING_INVITES = 50;
+const MAX_LINK_USES = 1000;
+const MAX_LINK_DAYS = 90;
+
+export type ProjectInviteItem = Pick<
+  ProjectInviteRow,
+  "id" | "kind" | "role" | "token" | "max_uses" | "uses" | "expires_at" | "created_at"
+> & {
+  // usuario o correo invitado (kind = "user")
+  invitee: string | null;
+  expired: boolean;
+};
+
+function escapeLike(v: string): string {
+  return v.replace(/[\\%_]/g, (m) => `\\${m}`);
+}
+
+function newInviteToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+export async function listProjectInvitesRpc(input: {
+  project_id: string;
+}): Promise<ActionResult<ProjectInviteItem[]>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  const { data, error } = await supabase
+    .from("project_invites")
+    .select("id,kind,role,token,max_uses,uses,expires_at,created_at,invitee_user_id,invitee_email")
+    .eq("project_id", pid.data)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false })
+    .limit(MAX_PENDING_INVITES)
+    .returns<
+      Array<
+        Pick<
+          ProjectInviteRow,
+          "id" | "kind" | "role" | "token" | "max_uses" | "uses" | "expires_at" | "created_at" | "invitee_user_id" | "invitee_email"
+        >
+      >
+    >();
+
+  if (error) return { ok: false, error: error.message };
+
+  const userIds = [...new Set((data ?? []).map((r) => r.invitee_user_id).filter((v): v is string => !!v))];
+  const names = new Map<string, string | null>();
+  if (userIds.length) {
+    const { data: profs } = await supabase
+      .from("profiles")
+      .select("id,username")
+      .in("id", userIds)
+      .returns<{ id: string; username: string | null }[]>();
+    for (const p of profs ?? []) names.set(p.id, p.username);
+  }
+
+  const now = Date.now();
+  return {
+    ok: true,
+    data: (data ?? []).map((r) => ({
+      id: r.id,
+      kind: r.kind,
+      role: r.role,
+      token: r.token,
+      max_uses: r.max_uses,
+      uses: r.uses,
+      expires_at: r.expires_at,
+      created_at: r.created_at,
+      invitee: r.invitee_user_id ? (names.get(r.invitee_user_id) ?? r.invitee_email) : r.invitee_email,
+      expired:
+        (!!r.expires_at && Date.parse(r.expires_at) <= now) || (r.max_uses != null && r.uses >= r.max_uses),
+    })),
+  };
+}
+
+/** target: nombre de usuario (con o sin @) o correo. */
+export async function inviteMemberRpc(input: {
+  project_id: string;
+  target: string;
+  role: string;
+}): Promise<ActionResult<true>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const role = String(input.role ?? "").trim();
+  if (!isMemberRole(role)) return { ok: false, error: "Rol inválido" };
+
+  const target = String(input.target ?? "").trim();
+  if (!target) return { ok: false, error: "Escribe un usuario o correo" };
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  const isEmail = target.includes("@") && !target.startsWith("@");
+  const email = isEmail ? target.toLowerCase() : null;
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { ok: false, error: "Correo inválido" };
+
+  const profQuery = supabase.from("profiles").select("id");
+  const { data: prof, error: profErr } = await (email
+    ? profQuery.ilike("email", escapeLike(email))
+    : profQuery.eq("username", target.replace(/^@/, ""))
+  )
+    .limit(1)
+    .maybeSingle<{ id: string }>();
+
+  if (profErr) return { ok: false, error: profErr.message };
+  if (!prof && !email) return { ok: false, error: "Usuario no encontrado" };
+
+  const inviteeId = prof?.id ?? null;
+  if (inviteeId === userId) return { ok: false, error: "Ya eres el dueño del proyecto" };
+
+  if (inviteeId) {
+    const { data: mem } = await supabase
+      .from("project_members")
+      .select("user_id")
+      .eq("project_id", pid.data)
+      .eq("user_id", inviteeId)
+      .maybeSingle<{ user_id: string }>();
+    if (mem) return { ok: false, error: "Ya es miembro del proyecto" };
+  }
+
+  let dupQuery = supabase
+    .from("project_invites")
+    .select("id")
+    .eq("project_id", pid.data)
+    .eq("kind", "user")
+    .eq("status", "pending");
+  dupQuery = inviteeId ? dupQuery.eq("invitee_user_id", inviteeId) : dupQuery.eq("invitee_email", email as string);
+  const { data: dup } = await dupQuery.limit(1);
+  if (dup?.length) return { ok: false, error: "Ya tiene una invitación pendiente" };
+
+  const { count } = await supabase
+    .from("project_invites")
+    .select("id", { count: "exact", head: true })
+    .eq("project_id", pid.data)
+    .eq("status", "pending");
+  if ((count ?? 0) >= MAX_PENDING_INVITES) {
+    return { ok: false, error: `Máximo ${MAX_PENDING_INVITES} invitaciones pendientes` };
+  }
+
+  const { error } = await supabase.from("project_invites").insert({
+    project_id: pid.data,
+    invited_by: userId,
+    kind: "user",
+    invitee_user_id: inviteeId,
+    invitee_email: email,
+    role,
+    status: "pending",
+  });
+  if (error) return { ok: false, error: error.message };
+
+  rev(String(pid.data));
+  return { ok: true, data: true };
+}
+
+export async function createInviteLinkRpc(input: {
+  project_id: string;
+  role: string;
+  // null = no vence / sin límite
+  expires_in_days: number | null;
+  max_uses: number | null;
+}): Promise<ActionResult<ProjectInviteItem>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const role = String(input.role ?? "").trim();
+  if (!isMemberRole(role)) return { ok: false, error: "Rol inválido" };
+
+  const days = input.expires_in_days == null ? null : Math.floor(Number(input.expires_in_days));
+  if (days != null && (!Number.isFinite(days) || days < 1 || days > MAX_LINK_DAYS)) {
+    return { ok: false, error: `Vencimiento entre 1 y ${MAX_LINK_DAYS} días` };
+  }
+
+  const maxUses = input.max_uses == null ? null : Math.floor(Number(input.max_uses));
+  if (maxUses != null && (!Number.isFinite(maxUses) || maxUses < 1 || maxUses > MAX_LINK_USES)) {
+    return { ok: false, error: `Límite de usos entre 1 y ${MAX_LINK_USES}` };
+  }
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  const { count } = await supabase
+    .from("project_invites")
+    .select("id", { count: "exact", head: true })
+    .eq("project_id", pid.data)
+    .eq("status", "pending");
+  if ((count ?? 0) >= MAX_PENDING_INVITES) {
+    return { ok: false, error: `Máximo ${MAX_PENDING_INVITES} invitaciones pendientes` };
+  }
+
+  const expiresAt = days == null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("project_invites")
+    .insert({
+      project_id: pid.data,
+      invited_by: userId,
+      kind: "link",
+      role,
+      token: newInviteToken(),
+      max_uses: maxUses,
+      uses: 0,
+      expires_at: expiresAt,
+      status: "pending",
+    })
+    .select("id,kind,role,token,max_uses,uses,expires_at,created_at")
+    .single<Pick<ProjectInviteRow, "id" | "kind" | "role" | "token" | "max_uses" | "uses" | "expires_at" | "created_at">>();
+
+  if (error || !data) return { ok: false, error: error?.message ?? "No se pudo crear el link" };
+
+  rev(String(pid.data));
+  return { ok: true, data: { ...data, invitee: null, expired: false } };
+}
+
+export async function revokeInviteRpc(input: {
+  project_id: string;
+  invite_id: string;
+}): Promise<ActionResult<true>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const inviteId = String(input.invite_id ?? "").trim();
+  if (!isUuid(inviteId)) return { ok: false, error: "Invitación inválida" };
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  const { error } = await supabase
+    .from("project_invites")
+    .update({ status: "revoked", responded_at: new Date().toISOString() })
+    .eq("id", inviteId)
+    .eq("project_id", pid.data)
+    .eq("status", "pending");
+
+  if (error) return { ok: false, error: error.message };
+
+  rev(String(pid.data));
+  return { ok: true, data: true };
+}
+
+/* ---------------------------------------
+   ACCESS REQUESTS RPC
+   - Solo DUEÑO: listar solicitudes de acceso pendientes y aprobarlas
+     (con rol) o rechazarlas.
+   Requiere tabla: public.project_access_requests (ver
+   ProjectAccessRequestRow), unique (project_id, user_id) where
+   status = 'pending'; RLS: el dueño del proyecto lee/actualiza, el
+   solicitante lee y marca seen_at en las suyas.
+   El lado del solicitante va por RPC (security definer) en
+   app/protected/projects/access-actions.ts.
+----------------------------------------*/
+
+const MAX_ACCESS_REQUESTS = 100;
+
+export type AccessRequestItem = Pick<ProjectAccessRequestRow, "id" | "user_id" | "message" | "created_at"> & {
+  username: string | null;
+  avatar_url: string | null;
+};
+
+export async function listAccessRequestsRpc(input: {
+  project_id: string;
+}): Promise<ActionResult<AccessRequestItem[]>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  const { data, error } = await supabase
+    .from("project_access_requests")
+    .select("id,user_id,message,created_at")
+    .eq("project_id", pid.data)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true })
+    .limit(MAX_ACCESS_REQUESTS)
+    .returns<Pick<ProjectAccessRequestRow, "id" | "user_id" | "message" | "created_at">[]>();
+
+  if (error) return { ok: false, error: error.message };
+
+  const userIds = [...new Set((data ?? []).map((r) => r.user_id))];
+  const profiles = new Map<string, { username: string | null; avatar_url: string | null }>();
+  if (userIds.length) {
+    const { data: profs } = await supabase
+      .from("profiles")
+      .select("id,username,avatar_url")
+      .in("id", userIds)
+      .returns<{ id: string; username: string | null; avatar_url: string | null }[]>();
+    for (const p of profs ?? []) profiles.set(p.id, { username: p.username, avatar_url: p.avatar_url });
+  }
+
+  return {
+    ok: true,
+    data: (data ?? []).map((r) => ({
+      ...r,
+      username: profiles.get(r.user_id)?.username ?? null,
+      avatar_url: profiles.get(r.user_id)?.avatar_url ?? null,
+    })),
+  };
+}
+
+export async function decideAccessRequestRpc(input: {
+  project_id: string;
+  request_id: string;
+  approve: boolean;
+  // solo al aprobar
+  role?: string;
+}): Promise<ActionResult<true>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const requestId = String(input.request_id ?? "").trim();
+  if (!isUuid(requestId)) return { ok: false, error: "Solicitud inválida" };
+
+  const role = String(input.role ?? "guest").trim();
+  if (input.approve && !isMemberRole(role)) return { ok: false, error: "Rol inválido" };
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  const { data: req, error: reqErr } = await supabase
+    .from("project_access_requests")
+    .select("id,user_id,status")
+    .eq("id", requestId)
+    .eq("project_id", pid.data)
+    .maybeSingle<Pick<ProjectAccessRequestRow, "id" | "user_id" | "status">>();
+
+  if (reqErr) return { ok: false, error: reqErr.message };
+  if (!req || req.status !== "pending") return { ok: false, error: "La solicitud ya no está pendiente" };
+
+  if (input.approve) {
+    // no bajar el rol si ya entró por otra vía (p. ej. un link)
+    const { data: mem } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_id", pid.data)
+      .eq("user_id", req.user_id)
+      .maybeSingle<{ role: ProjectRole }>();
+
+    if (!mem) {
+      const { error: memErr } = await supabase
+        .from("project_members")
+        .insert({ project_id: pid.data, user_id: req.user_id, role });
+      if (memErr) return { ok: false, error: memErr.message };
+    }
+  }
+
+  const { error } = await supabase
+    .from("project_access_requests")
+    .update({
+      status: input.approve ? "approved" : "rejected",
+      role: input.approve ? role : null,
+      decided_at: new Date().toISOString(),
+      decided_by: userId,
+    })
+    .eq("id", requestId)
+    .eq("project_id", pid.data)
+    .eq("status", "pending");
+
+  if (error) return { ok: false, error: error.message };
+
+  rev(String(pid.data));
+  return { ok: true, data: true };
+}
+
+/* ---------------------------------------
+   PROGRESS RPC
+   - Dueño: progreso por miembro y grupo (ver lib/member-progress.ts).
+   - Miembro: dejar de compartir su progreso con el dueño.
+----------------------------------------*/
+
+export async function getProjectProgressRpc(input: {
+  project_id: string;
+}): Promise<ActionResult<ProjectProgress>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase, userId } = auth.data;
+
+  const own = await assertOwnerWith(supabase, pid.data, userId);
+  if (!own.ok) return own;
+
+  return loadProjectProgress(supabase, pid.data, userId);
+}
+
+export async function setProgressPrivacyRpc(input: {
+  project_id: string;
+  hidden: boolean;
+}): Promise<ActionResult<true>> {
+  const pid = mustProjectIdNoRedirect(input.project_id);
+  if (!pid.ok) return pid;
+
+  const auth = await getAuthedSupabase();
+  if (!auth.ok) return auth;
+  const { supabase } = auth.data;
+
+  // RPC: el miembro no puede actualizar su fila de project_members (cambiaría su rol)
+  const { error } = await supabase.rpc("set_project_progress_privacy", {
+    p_project_id: pid.data,
+    p_hidden: !!input.hidden,
+  });
+  if (error) return { ok: false, error: error.message };
+
+  rev(String(pid.data));
+  return { ok: true, data: true };
+}
@@ -6,23 +6,45 @@ import { useRouter } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MarkdownEditor } from "@/components/Markdown/MarkdownEditor";
-import type { FlashcardGroupRow, FlashcardRow, ProjectBlockRow } from "@/lib/types/study";
+import type { FlashcardGroupRow, FlashcardKind, FlashcardRow, ProjectBlockRow } from "@/lib/types/study";
+import { clozeOrdinals, parseCloze } from "@/lib/cloze";
+import {
+  emptyQuestion,
+  quizFromBlockData,
+  trueFalseOptions,
+  MAX_QUIZ_OPTIONS,
+  type QuizData,
+  type QuizQuestion,
+  type QuizQuestionKind,
+} from "@/lib/quiz";
 import type { ActionResult } from "./actions";
+import { DeckImportDialog } from "./deck-import-client";
 import {
   addBlockRpc,
   moveBlockRpc,
   deleteBlockRpc,
   updateTextBlockRpc,
+  updateQuizBlockRpc,
   addGroupRpc,
   renameGroupRpc,
+  setGroupBidirectionalRpc,
   deleteGroupRpc,
   addCardRpc,
   updateCardRpc,
   deleteCardRpc,
 } from "./actions";
+import { buryCard, getCardFlagIds, setCardSuspended } from "./practice-actions";
 
-type BlockType = "text" | "flashcards";
+type BlockType = "text" | "flashcards" | "quiz";
 type PendingMove = { blockId: string; direction: "up" | "down" };
+type CardDraft = { kind: FlashcardKind; front: string; back: string };
+
+const EMPTY_CARD: CardDraft = { kind: "basic", front: "", back: "" };
+
+function isCardDraftValid(d: CardDraft): boolean {
+  if (d.kind === "cloze") return clozeOrdinals(d.front).length > 0;
+  return !!d.front.trim() && !!d.back.trim();
+}
 
 function isUuid(v: string): boolean {
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
@@ -41,6 +63,12 @@ function getTextMd(block: ProjectBlockRow): string {
   return "";
 }
 
+function quizKey(quiz: QuizData): string {
+  return JSON.stringify(quiz);
+}
+
+const EMPTY_QUIZ_KEY = quizKey({ questions: [] });
+
 function normalizeBlockOrder(list: ProjectBlockRow[]): ProjectBlockRow[] {
   const sorted = [...list].sort((a, b) => a.order_index - b.order_index);
   return sorted.map((b, i) => ({ ...b, order_index: i }));
@@ -78,12 +106,20 @@ export function BlocksClient(props: {
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
 
+  // Suspender/enterrar es personal (no es parte del borrador: se guarda al instante)
+  const [suspendedIds, setSuspendedIds] = useState<Set<string>>(new Set());
+  const [buriedIds, setBuriedIds] = useState<Set<string>>(new Set());
+  const [flaggingId, setFlaggingId] = useState<string | null>(null);
+
   // Draft markdown por bloque de texto
   const [textDraft, setTextDraft] = useState<Record<string, string>>({});
 
+  // Draft de preguntas por bloque quiz
+  const [quizDraft, setQuizDraft] = useState<Record<string, QuizData>>({});
+
   // Inputs auxiliares
   const [newGroupTitle, setNewGroupTitle] = useState<Record<string, string>>({});
-  const [newCardDraft, setNewCardDraft] = useState<Record<string, { front: string; back: string }>>({});
+  const [newCardDraft, setNewCardDraft] = useState<Record<string, CardDraft>>({});
 
   // Movimientos pendientes (persistidos al final)
   const [pendingMoves, setPendingMoves] = useState<PendingMove[]>([]);
@@ -92,8 +128,10 @@ export function BlocksClient(props: {
   const initializedRef = useRef(false);
 
   const baselineTextRef = useRef<Record<string, string>>({});
+  const baselineQuizRef = useRef<Record<string, string>>({});
   const baselineGroupTitleRef = useRef<Record<string, string>>({});
-  const baselineCardRef = useRef<Record<string, { front: string; back: string }>>({});
+  const baselineGroupBidiRef = useRef<Record<string, boolean>>({});
+  const baselineCardRef = useRef<Record<string, CardDraft>>({});
   const baselineGroupToBlockRef = useRef<Record<string, string>>({});
   const baselineCardToGroupRef = useRef<Record<string, string>>({});
   const baselineBlockIdsRef = useRef<Set<string>>(new Set());
@@ -110,6 +148,65 @@ export function BlocksClient(props: {
     window.setTimeout(() => setNotice(null), 3500);
   }, []);
 
+  const savedCardIdsKey = useMemo(
+    () =>
+      props.cards
+        .map((c) => c.id)
+        .filter(isUuid)
+        .sort()
+        .join(","),
+    [props.cards]
+  );
+
+  useEffect(() => {
+    if (!savedCardIdsKey) return;
+    let cancelled = false;
+    void getCardFlagIds({ card_ids: savedCardIdsKey.split(",") }).then((res) => {
+      if (cancelled || !res.ok) return;
+      setSuspendedIds(new Set(res.data.suspended));
+      setBuriedIds(new Set(res.data.buried));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [savedCardIdsKey]);
+
+  const toggleSuspendCard = useCallback(
+    async (cardId: string) => {
+      const next = !suspendedIds.has(cardId);
+      setFlaggingId(cardId);
+      const res = await setCardSuspended({ card_id: cardId, suspended: next });
+      setFlaggingId(null);
+      if (!res.ok) {
+        showError(res.error);
+        return;
+      }
+      setSuspendedIds((cur) => {
+        const s = new Set(cur);
+        if (next) s.add(cardId);
+        else s.delete(cardId);
+        return s;
+      });
+      showNotice(next ? "Carta suspendida (solo para ti)." : "Carta reactivada.");
+    },
+    [showError, showNotice, suspendedIds]
+  );
+
+  const buryCardNow = useCallback(
+    async (cardId: string) => {
+      setFlaggingId(cardId);
+      const res = await buryCard({ card_id: cardId });
+      setFlaggingId(null);
+      if (!res.ok) {
+        showError(res.error);
+        return;
+      }
+      setBuriedIds((cur) => new Set(cur).add(cardId));
+      showNotice("Carta enterrada hasta mañana (solo para ti).");
+    },
+    [showError, showNotice]
+  );
+
   const groupsByBlock = useMemo(() => {
     const m = new Map<string, FlashcardGroupRow[]>();
     for (const g of groups) {
@@ -154,11 +251,21 @@ export function BlocksClient(props: {
       if (draft !== baseline) return true;
     }
 
+    // 3b) quiz diffs (existentes)
+    for (const b of blocks) {
+      if (b.type !== "quiz") continue;
+      if (!isUuid(b.id)) continue;
+      const baseline = baselineQuizRef.current[b.id] ?? EMPTY_QUIZ_KEY;
+      const draft = quizKey(quizDraft[b.id] ?? quizFromBlockData(b.data));
+      if (draft !== baseline) return true;
+    }
+
     // 4) group title diffs (existentes)
     for (const g of groups) {
       if (!isUuid(g.id)) continue;
       const baseline = baselineGroupTitleRef.current[g.id];
       if (baseline !== undefined && g.title !== baseline) return true;
+      if (Boolean(g.bidirectional) !== Boolean(baselineGroupBidiRef.current[g.id])) return true;
     }
 
     // 5) card diffs (existentes)
@@ -166,7 +273,7 @@ export function BlocksClient(props: {
       if (!isUuid(c.id)) continue;
       const baseline = baselineCardRef.current[c.id];
       if (!baseline) continue;
-      if (c.front !== baseline.front || c.back !== baseline.back) return true;
+      if (c.kind !== baseline.kind || c.front !== baseline.front || c.back !== baseline.back) return true;
     }
 
     // 6) deletions derivables por diff (baseline ids vs current ids)
@@ -186,7 +293,7 @@ export function BlocksClient(props: {
     }
 
     return false;
-  }, [blocks, cards, groups, pendingMoves.length, textDraft]);
+  }, [blocks, cards, groups, pendingMoves.length, quizDraft, textDraft]);
 
   // Warning estándar: cerrar/recargar pestaña con cambios sin guardar
   useEffect(() => {
@@ -205,34 +312,40 @@ export function BlocksClient(props: {
   function initFromServer(nextBlocks: ProjectBlockRow[], nextGroups: FlashcardGroupRow[], nextCards: FlashcardRow[]) {
     // baselines
     const textBase: Record<string, string> = {};
+    const quizBase: Record<string, string> = {};
     const blockIds = new Set<string>();
     for (const b of nextBlocks) {
       if (isUuid(b.id)) blockIds.add(b.id);
       if (b.type === "text" && isUuid(b.id)) textBase[b.id] = getTextMd(b);
+      if (b.type === "quiz" && isUuid(b.id)) quizBase[b.id] = quizKey(quizFromBlockData(b.data));
     }
     baselineTextRef.current = textBase;
+    baselineQuizRef.current = quizBase;
     baselineBlockIdsRef.current = blockIds;
 
     const groupTitleBase: Record<string, string> = {};
+    const groupBidiBase: Record<string, boolean> = {};
     const groupIds = new Set<string>();
     const groupToBlock: Record<string, string> = {};
     for (const g of nextGroups) {
       if (!isUuid(g.id)) continue;
       groupIds.add(g.id);
       groupTitleBase[g.id] = g.title;
+      groupBidiBase[g.id] = Boolean(g.bidirectional);
       groupToBlock[g.id] = g.block_id;
     }
     baselineGroupTitleRef.current = groupTitleBase;
+    baselineGroupBidiRef.current = groupBidiBase;
     baselineGroupIdsRef.current = groupIds;
     baselineGroupToBlockRef.current = groupToBlock;
 
-    const cardBase: Record<string, { front: string; back: string }> = {};
+    const cardBase: Record<string, CardDraft> = {};
     const cardIds = new Set<string>();
     const cardToGroup: Record<string, string> = {};
     for (const c of nextCards) {
       if (!isUuid(c.id)) continue;
       cardIds.add(c.id);
-      cardBase[c.id] = { front: c.front, back: c.back };
+      cardBase[c.id] = { kind: c.kind ?? "basic", front: c.front, back: c.back };
       if (c.group_id) cardToGroup[c.id] = c.group_id;
     }
     baselineCardRef.current = cardBase;
@@ -246,6 +359,14 @@ export function BlocksClient(props: {
       draft[b.id] = getTextMd(b);
     }
     setTextDraft(draft);
+
+    // draft quiz
+    const quizzes: Record<string, QuizData> = {};
+    for (const b of nextBlocks) {
+      if (b.type !== "quiz") continue;
+      quizzes[b.id] = quizFromBlockData(b.data);
+    }
+    setQuizDraft(quizzes);
   }
 
   // Sync props -> estado local
@@ -277,6 +398,14 @@ export function BlocksClient(props: {
       }
       return next;
     });
+    setQuizDraft((cur) => {
+      const next: Record<string, QuizData> = { ...cur };
+      for (const b of blocks) {
+        if (b.type !== "quiz") continue;
+        if (next[b.id] === undefined) next[b.id] = quizFromBlockData(b.data);
+      }
+      return next;
+    });
   }, [blocks]);
 
   /* -------------------------
@@ -298,13 +427,19 @@ export function BlocksClient(props: {
         project_id: props.projectId as ProjectBlockRow["project_id"],
         type,
         order_index: nextIndex,
-        data: type === "text" ? ({ md: "" } as ProjectBlockRow["data"]) : ({ note: "flashcards_block" } as ProjectBlockRow["data"]),
+        data:
+          type === "text"
+            ? ({ md: "" } as ProjectBlockRow["data"])
+            : type === "quiz"
+              ? ({ questions: [] } as ProjectBlockRow["data"])
+              : ({ note: "flashcards_block" } as ProjectBlockRow["data"]),
         created_at: now,
         updated_at: now,
       };
 
       setBlocks((cur) => normalizeBlockOrder([...cur, optimistic]));
       if (type === "text") setTextDraft((cur) => ({ ...cur, [optimistic.id]: "" }));
+      if (type === "quiz") setQuizDraft((cur) => ({ ...cur, [optimistic.id]: { questions: [emptyQuestion()] } }));
     },
     [blocks, isPending, props.canEdit, props.projectId]
   );
@@ -362,6 +497,14 @@ export function BlocksClient(props: {
         });
       }
 
+      if (blk?.type === "quiz") {
+        setQuizDraft((cur) => {
+          const next = { ...cur };
+          delete next[blockId];
+          return next;
+        });
+      }
+
       if (isFlash) {
         const removedGroupIds = new Set(groups.filter((g) => g.block_id === blockId).map((g) => g.id));
         setGroups((cur) => cur.filter((g) => g.block_id !== blockId));
@@ -390,6 +533,7 @@ export function BlocksClient(props: {
         id: tmpId("grp"),
         block_id: blockId,
         title: titleRaw.trim() || `Grupo ${nextIndex + 1}`,
+        bidirectional: false,
         order_index: nextIndex,
         created_at: now,
         updated_at: now,
@@ -404,6 +548,10 @@ export function BlocksClient(props: {
     setGroups((cur) => cur.map((g) => (g.id === groupId ? { ...g, title } : g)));
   }, []);
 
+  const setGroupBidirectionalLocal = useCallback((groupId: string, bidirectional: boolean) => {
+    setGroups((cur) => cur.map((g) => (g.id === groupId ? { ...g, bidirectional } : g)));
+  }, []);
+
   const deleteGroupLocal = useCallback(
     (groupId: string) => {
       if (!props.canEdit || isPending) return;
@@ -425,7 +573,7 @@ export function BlocksClient(props: {
   ------------------------- */
 
   const addCardLocal = useCallback(
-    (groupId: string, front: string, back: string) => {
+    (groupId: string, draft: CardDraft) => {
       if (!props.canEdit || isPending) return;
 
       setError(null);
@@ -439,8 +587,9 @@ export function BlocksClient(props: {
         id: tmpId("crd"),
         project_id: props.projectId as FlashcardRow["project_id"],
         group_id: groupId,
-        front,
-        back,
+        kind: draft.kind,
+        front: draft.front,
+        back: draft.back,
         order_index: nextIndex,
         created_at: now,
         updated_at: now,
@@ -467,8 +616,8 @@ export function BlocksClient(props: {
     [editingCardId, isPending, props.canEdit]
   );
 
-  const applyCardEditLocal = useCallback((cardId: string, front: string, back: string) => {
-    setCards((cur) => cur.map((c) => (c.id === cardId ? { ...c, front, back } : c)));
+  const applyCardEditLocal = useCallback((cardId: string, draft: CardDraft) => {
+    setCards((cur) => cur.map((c) => (c.id === cardId ? { ...c, ...draft } : c)));
   }, []);
 
   /* -------------------------
@@ -488,6 +637,7 @@ export function BlocksClient(props: {
         let groupsSnap = [...groups];
         let cardsSnap = [...cards];
         let textDraftSnap = { ...textDraft };
+        let quizDraftSnap = { ...quizDraft };
         const pendingMovesSnap = [...pendingMoves];
 
         // tempId -> realId (bloques/grupos/cards creados)
@@ -511,6 +661,11 @@ export function BlocksClient(props: {
             textDraftSnap = { ...textDraftSnap, [toId]: textDraftSnap[fromId] };
             delete textDraftSnap[fromId];
           }
+
+          if (fromId in quizDraftSnap) {
+            quizDraftSnap = { ...quizDraftSnap, [toId]: quizDraftSnap[fromId] };
+            delete quizDraftSnap[fromId];
+          }
         };
 
         // 1) Crear bloques temporales (en orden)
@@ -534,7 +689,12 @@ export function BlocksClient(props: {
 
         for (const g of tempGroups) {
           const blockId = resolveId(g.block_id);
-          const raw = await addGroupRpc({ project_id: props.projectId, block_id: blockId, title: g.title });
+          const raw = await addGroupRpc({
+            project_id: props.projectId,
+            block_id: blockId,
+            title: g.title,
+            bidirectional: g.bidirectional,
+          });
           if (isErr(raw)) throw new Error(raw.error);
           if (!isOk(raw)) throw new Error("Respuesta inválida del servidor.");
           idMap.set(g.id, raw.data.id);
@@ -557,6 +717,7 @@ export function BlocksClient(props: {
           const raw = await addCardRpc({
             project_id: props.projectId,
             group_id: groupId,
+            kind: c.kind,
             front: c.front,
             back: c.back,
           });
@@ -641,7 +802,25 @@ export function BlocksClient(props: {
           if (!isOk(raw)) throw new Error("Respuesta inválida del servidor.");
         }
 
-        // 7) UPDATES: títulos de grupos (solo existentes; los nuevos ya vienen con title correcto)
+        // 6b) UPDATES: quizzes (los nuevos se crean vacíos y se llenan aquí)
+        for (const b of blocksSnap) {
+          if (b.type !== "quiz") continue;
+          const id = resolveId(b.id);
+          if (!isUuid(id)) continue;
+          if (deletedBlockIds.includes(id)) continue;
+
+          const draft = quizDraftSnap[id] ?? quizFromBlockData(b.data);
+          if (quizKey(draft) === (baselineQuizRef.current[id] ?? EMPTY_QUIZ_KEY)) continue;
+
+          const raw = await updateQuizBlockRpc({ project_id: props.projectId, block_id: id, quiz: draft });
+          if (isErr(raw)) throw new Error(raw.error);
+          if (!isOk(raw)) throw new Error("Respuesta inválida del servidor.");
+
+          blocksSnap = blocksSnap.map((x) => (x.id === id ? { ...x, data: raw.data.data as ProjectBlockRow["data"] } : x));
+          quizDraftSnap = { ...quizDraftSnap, [id]: raw.data.data };
+        }
+
+        // 7) UPDATES: título/bidireccional de grupos (solo existentes; los nuevos ya vienen correctos)
         for (const g of groupsSnap) {
           const id = resolveId(g.id);
           if (!isUuid(id)) continue;
@@ -649,14 +828,25 @@ export function BlocksClient(props: {
 
           const baseline = baselineGroupTitleRef.current[id];
           if (baseline === undefined) continue; // era nuevo
-          if (g.title === baseline) continue;
 
-          const raw = await renameGroupRpc({ project_id: props.projectId, group_id: id, title: g.title });
-          if (isErr(raw)) throw new Error(raw.error);
-          if (!isOk(raw)) throw new Error("Respuesta inválida del servidor.");
+          if (g.title !== baseline) {
+            const raw = await renameGroupRpc({ project_id: props.projectId, group_id: id, title: g.title });
+            if (isErr(raw)) throw new Error(raw.error);
+            if (!isOk(raw)) throw new Error("Respuesta inválida del servidor.");
+          }
+
+          if (Boolean(g.bidirectional) !== Boolean(baselineGroupBidiRef.current[id])) {
+            const raw = await setGroupBidirectionalRpc({
+              project_id: props.projectId,
+              group_id: id,
+              bidirectional: Boolean(g.bidirectional),
+            });
+            if (isErr(raw)) throw new Error(raw.error);
+            if (!isOk(raw)) throw new Error("Respuesta inválida del servidor.");
+          }
         }
 
-        // 8) UPDATES: cards (solo existentes; las nuevas ya vienen con front/back correcto)
+        // 8) UPDATES: cards (solo existentes; las nuevas ya vienen con kind/front/back correcto)
         for (const c of cardsSnap) {
           const id = resolveId(c.id);
           if (!isUuid(id)) continue;
@@ -664,9 +854,15 @@ export function BlocksClient(props: {
 
           const baseline = baselineCardRef.current[id];
           if (!baseline) continue; // era nuevo
-          if (c.front === baseline.front && c.back === baseline.back) continue;
+          if (c.kind === baseline.kind && c.front === baseline.front && c.back === baseline.back) continue;
 
-          const raw = await updateCardRpc({ project_id: props.projectId, card_id: id, front: c.front, back: c.back });
+          const raw = await updateCardRpc({
+            project_id: props.projectId,
+            card_id: id,
+            kind: c.kind,
+            front: c.front,
+            back: c.back,
+          });
           if (isErr(raw)) throw new Error(raw.error);
           if (!isOk(raw)) throw new Error("Respuesta inválida del servidor.");
         }
@@ -676,6 +872,7 @@ export function BlocksClient(props: {
         setGroups(groupsSnap);
         setCards(cardsSnap);
         setTextDraft(textDraftSnap);
+        setQuizDraft(quizDraftSnap);
         setPendingMoves([]);
 
         initFromServer(blocksSnap, groupsSnap, cardsSnap);
@@ -695,6 +892,7 @@ export function BlocksClient(props: {
     pendingMoves,
     props.canEdit,
     props.projectId,
+    quizDraft,
     router,
     showError,
     showNotice,
@@ -729,6 +927,10 @@ export function BlocksClient(props: {
             + Flashcards
           </Button>
 
+          <Button type="button" variant="secondary" disabled={!props.canEdit || isPending} onClick={() => addBlock("quiz")}>
+            + Quiz
+          </Button>
+
           <div className="ml-auto flex items-center gap-2">
             {hasUnsavedChanges ? <span className="text-xs text-muted-foreground">Cambios sin guardar</span> : <span className="text-xs text-muted-foreground">Sin cambios</span>}
 
@@ -744,7 +946,7 @@ export function BlocksClient(props: {
         {blocks.length === 0 ? (
           <div className="rounded-lg border p-4">
             <p className="text-sm font-medium">Sin bloques</p>
-            <p className="text-xs text-muted-foreground">Agrega un bloque de texto o flashcards.</p>
+            <p className="text-xs text-muted-foreground">Agrega un bloque de texto, flashcards o quiz.</p>
           </div>
         ) : null}
 
@@ -761,13 +963,17 @@ export function BlocksClient(props: {
                   ? (textDraft[b.id] ?? getTextMd(b)) !== (baselineTextRef.current[b.id] ?? "")
                   : type === "text" && !isUuid(b.id);
 
+              const quiz = type === "quiz" ? (quizDraft[b.id] ?? quizFromBlockData(b.data)) : null;
+              const quizDirty =
+                quiz !== null && (!isUuid(b.id) || quizKey(quiz) !== (baselineQuizRef.current[b.id] ?? EMPTY_QUIZ_KEY));
+
               return (
                 <div key={b.id} className="rounded-xl border bg-card">
                   <div className="flex items-center justify-between gap-2 border-b p-3">
                     <div className="min-w-0">
                       <p className="text-sm font-medium">
-                        {type === "text" ? "Bloque de texto" : "Bloque de flashcards"}
-                        {textDirty ? <span className="ml-2 rounded bg-muted px-2 py-0.5 text-xs text-muted-foreground">Sin guardar</span> : null}
+                        {type === "text" ? "Bloque de texto" : type === "quiz" ? "Bloque de quiz" : "Bloque de flashcards"}
+                        {textDirty || quizDirty ? <span className="ml-2 rounded bg-muted px-2 py-0.5 text-xs text-muted-foreground">Sin guardar</span> : null}
                       </p>
                       <p className="text-xs text-muted-foreground">Orden: {b.order_index}</p>
                     </div>
@@ -799,6 +1005,12 @@ export function BlocksClient(props: {
                         disabled={!props.canEdit || isPending}
                         onChange={(md) => setTextDraft((cur) => ({ ...cur, [b.id]: md }))}
                       />
+                    ) : quiz ? (
+                      <QuizEditor
+                        quiz={quiz}
+                        disabled={!props.canEdit || isPending}
+                        onChange={(next) => setQuizDraft((cur) => ({ ...cur, [b.id]: next }))}
+                      />
                     ) : (
                       <div className="space-y-4">
                         <div className="flex flex-wrap items-center justify-between gap-2">
@@ -832,6 +1044,7 @@ export function BlocksClient(props: {
                         {blockGroups.map((g) => (
                           <GroupCard
                             key={g.id}
+                            projectId={props.projectId}
                             canEdit={props.canEdit}
                             isPending={isPending}
                             group={g}
@@ -839,15 +1052,32 @@ export function BlocksClient(props: {
                             editingCardId={editingCardId}
                             setEditingCardId={setEditingCardId}
                             onRename={(groupId, title) => renameGroupLocal(groupId, title)}
+                            onSetBidirectional={(groupId, v) => setGroupBidirectionalLocal(groupId, v)}
                             onDeleteGroup={(groupId) => deleteGroupLocal(groupId)}
-                            newCard={newCardDraft[g.id] ?? { front: "", back: "" }}
+                            newCard={newCardDraft[g.id] ?? EMPTY_CARD}
                             setNewCard={(v) => setNewCardDraft((cur) => ({ ...cur, [g.id]: v }))}
-                            onAddCard={(front, back) => {
-                              addCardLocal(g.id, front, back);
-                              setNewCardDraft((cur) => ({ ...cur, [g.id]: { front: "", back: "" } }));
+                            onAddCard={(draft) => {
+                              addCardLocal(g.id, draft);
+                              setNewCardDraft((cur) => ({ ...cur, [g.id]: { ...EMPTY_CARD, kind: draft.kind } }));
                             }}
-                            onApplyCardEdit={(cardId, front, back) => applyCardEditLocal(cardId, front, back)}
+                            onApplyCardEdit={(cardId, draft) => applyCardEditLocal(cardId, draft)}
                             onDeleteCard={(cardId) => deleteCardLocal(cardId)}
+                            suspendedIds={suspendedIds}
+                            buriedIds={buriedIds}
+                            flaggingId={flaggingId}
+                            onToggleSuspend={(cardId) => void toggleSuspendCard(cardId)}
+                            onBury={(cardId) => void buryCardNow(cardId)}
+                            importDisabledReason={
+                              !isUuid(g.id)
+                                ? "Guarda el grupo antes de importar."
+                                : hasUnsavedChanges
+                                  ? "Guarda los cambios antes de importar."
+                                  : null
+                            }
+                            onImported={(msg) => {
+                              showNotice(msg);
+                              router.refresh();
+                            }}
                           />
                         ))}
                       </div>
@@ -863,6 +1093,7 @@ export function BlocksClient(props: {
 }
 
 function GroupCard(props: {
+  projectId: string;
   canEdit: boolean;
   isPending: boolean;
   group: FlashcardGroupRow;
@@ -871,14 +1102,26 @@ function GroupCard(props: {
   setEditingCardId: (id: string | null) => void;
 
   onRename: (groupId: string, title: string) => void;
+  onSetBidirectional: (groupId: string, bidirectional: boolean) => void;
   onDeleteGroup: (groupId: string) => void;
 
-  newCard: { front: string; back: string };
-  setNewCard: (v: { front: string; back: string }) => void;
-  onAddCard: (front: string, back: string) => void;
+  newCard: CardDraft;
+  setNewCard: (v: CardDraft) => void;
+  onAddCard: (draft: CardDraft) => void;
 
-  onApplyCardEdit: (cardId: string, front: string, back: string) => void;
+  onApplyCardEdit: (cardId: string, draft: CardDraft) => void;
   onDeleteCard: (cardId: string) => void;
+
+  // Suspender/enterrar es personal: disponible también para invitados
+  suspendedIds: Set<string>;
+  buriedIds: Set<string>;
+  flaggingId: string | null;
+  onToggleSuspend: (cardId: string) => void;
+  onBury: (cardId: string) => void;
+
+  // La importación escribe directo en el servidor: solo sin cambios locales pendientes
+  importDisabledReason: string | null;
+  onImported: (msg: string) => void;
 }) {
   const [title, setTitle] = useState<string>(props.group.title);
 
@@ -899,11 +1142,35 @@ function GroupCard(props: {
           <Button type="button" variant="secondary" disabled={!canMutate || !title.trim()} onClick={() => props.onRename(props.group.id, title.trim())}>
             Aplicar
           </Button>
+
+          <label
+            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+            title="Cada carta básica se practica frente→reverso y reverso→frente, con agenda independiente."
+          >
+            <input
+              type="checkbox"
+              checked={Boolean(props.group.bidirectional)}
+              onChange={(e) => props.onSetBidirectional(props.group.id, e.target.checked)}
+              disabled={!canMutate}
+            />
+            Bidireccional
+          </label>
         </div>
 
-        <Button type="button" variant="ghost" disabled={!props.canEdit || props.isPending} onClick={() => props.onDeleteGroup(props.group.id)}>
-          Eliminar grupo
-        </Button>
+        <div className="flex items-center gap-1">
+          <DeckImportDialog
+            projectId={props.projectId}
+            groupId={props.group.id}
+            groupTitle={props.group.title}
+            disabled={!canMutate || !!props.importDisabledReason}
+            disabledReason={props.importDisabledReason ?? undefined}
+            onImported={props.onImported}
+          />
+
+          <Button type="button" variant="ghost" disabled={!props.canEdit || props.isPending} onClick={() => props.onDeleteGroup(props.group.id)}>
+            Eliminar grupo
+          </Button>
+        </div>
       </div>
 
       {props.cards.length ? (
@@ -915,17 +1182,57 @@ function GroupCard(props: {
               <div key={c.id} className="rounded-md border p-2 space-y-2">
                 {!isEditing ? (
                   <>
-                    <div className="text-xs">
-                      <p className="font-medium">Front</p>
-                      <p className="text-muted-foreground whitespace-pre-wrap">{c.front}</p>
-                    </div>
+                    {c.kind === "cloze" ? (
+                      <div className="text-xs">
+                        <p className="font-medium">Cloze · {clozeOrdinals(c.front).length} huecos</p>
+                        <ClozeText text={c.front} className="text-muted-foreground" />
+                        {c.back ? <p className="mt-1 text-muted-foreground whitespace-pre-wrap">{c.back}</p> : null}
+                      </div>
+                    ) : (
+                      <>
+                        <div className="text-xs">
+                          <p className="font-medium">Front</p>
+                          <p className="text-muted-foreground whitespace-pre-wrap">{c.front}</p>
+                        </div>
 
-                    <div className="text-xs">
-                      <p className="font-medium">Back</p>
-                      <p className="text-muted-foreground whitespace-pre-wrap">{c.back}</p>
-                    </div>
+                        <div className="text-xs">
+                          <p className="font-medium">Back</p>
+                          <p className="text-muted-foreground whitespace-pre-wrap">{c.back}</p>
+                        </div>
+                      </>
+                    )}
 
                     <div className="flex items-center justify-end gap-2">
+                      {props.suspendedIds.has(c.id) ? (
+                        <span className="mr-auto rounded-full bg-muted px-2 py-0.5 text-[11px] text-muted-foreground">Suspendida</span>
+                      ) : props.buriedIds.has(c.id) ? (
+                        <span className="mr-auto rounded-full bg-muted px-2 py-0.5 text-[11px] text-muted-foreground">Enterrada hasta mañana</span>
+                      ) : null}
+
+                      {!props.suspendedIds.has(c.id) && !props.buriedIds.has(c.id) ? (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={!isUuid(c.id) || props.flaggingId === c.id}
+                          title={isUuid(c.id) ? "La saca de tu práctica hasta mañana" : "Guarda la carta antes de enterrarla."}
+                          onClick={() => props.onBury(c.id)}
+                        >
+                          Enterrar
+                        </Button>
+                      ) : null}
+
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={!isUuid(c.id) || props.flaggingId === c.id}
+                        title={isUuid(c.id) ? "Solo afecta tu práctica" : "Guarda la carta antes de suspenderla."}
+                        onClick={() => props.onToggleSuspend(c.id)}
+                      >
+                        {props.suspendedIds.has(c.id) ? "Reactivar" : "Suspender"}
+                      </Button>
+
                       <Button type="button" variant="secondary" size="sm" disabled={!props.canEdit || props.isPending} onClick={() => props.setEditingCardId(c.id)}>
                         Editar
                       </Button>
@@ -941,8 +1248,8 @@ function GroupCard(props: {
                     isPending={props.isPending}
                     card={c}
                     onCancel={() => props.setEditingCardId(null)}
-                    onApply={(front, back) => {
-                      props.onApplyCardEdit(c.id, front, back);
+                    onApply={(draft) => {
+                      props.onApplyCardEdit(c.id, draft);
                       props.setEditingCardId(null);
                     }}
                   />
@@ -956,29 +1263,61 @@ function GroupCard(props: {
       )}
 
       <div className="space-y-2">
-        <div className="grid gap-2 sm:grid-cols-2">
-          <input
-            value={props.newCard.front}
-            onChange={(e) => props.setNewCard({ ...props.newCard, front: e.target.value })}
-            placeholder="Front..."
-            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
-            disabled={!canMutate}
-          />
-          <input
-            value={props.newCard.back}
-            onChange={(e) => props.setNewCard({ ...props.newCard, back: e.target.value })}
-            placeholder="Back..."
-            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
-            disabled={!canMutate}
-          />
-        </div>
+        <CardKindToggle
+          value={props.newCard.kind}
+          disabled={!canMutate}
+          onChange={(kind) => props.setNewCard({ ...props.newCard, kind })}
+        />
+
+        {props.newCard.kind === "cloze" ? (
+          <div className="space-y-2">
+            <textarea
+              value={props.newCard.front}
+              onChange={(e) => props.setNewCard({ ...props.newCard, front: e.target.value })}
+              placeholder="La capital de Chile es {{c1::Santiago}}"
+              className="min-h-16 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm"
+              disabled={!canMutate}
+            />
+            <input
+              value={props.newCard.back}
+              onChange={(e) => props.setNewCard({ ...props.newCard, back: e.target.value })}
+              placeholder="Extra (opcional)..."
+              className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+              disabled={!canMutate}
+            />
+            {props.newCard.front.trim() ? <ClozePreview text={props.newCard.front} /> : null}
+          </div>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            <input
+              value={props.newCard.front}
+              onChange={(e) => props.setNewCard({ ...props.newCard, front: e.target.value })}
+              placeholder="Front..."
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+              disabled={!canMutate}
+            />
+            <input
+              value={props.newCard.back}
+              onChange={(e) => props.setNewCard({ ...props.newCard, back: e.target.value })}
+              placeholder="Back..."
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+              disabled={!canMutate}
+            />
+          </div>
+        )}
 
         <div className="flex justify-end">
           <Button
             type="button"
             variant="secondary"
-            disabled={!canMutate || !props.newCard.front.trim() || !props.newCard.back.trim()}
-            onClick={() => props.onAddCard(props.newCard.front.trim(), props.newCard.back.trim())}
+            disabled={!canMutate || !isCardDraftValid(props.newCard)}
+            onClick={() =>
+              props.onAddCard({
+                kind: props.newCard.kind,
+                front: props.newCard.front.trim(),
+                back: props.newCard.back.trim(),
+              })
+            }
           >
             Agregar carta
           </Button>
@@ -988,27 +1327,97 @@ function GroupCard(props: {
   );
 }
 
+function CardKindToggle(props: { value: FlashcardKind; disabled?: boolean; onChange: (v: FlashcardKind) => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      {(["basic", "cloze"] as const).map((k) => (
+        <Button
+          key={k}
+          type="button"
+          size="sm"
+          variant={props.value === k ? "default" : "ghost"}
+          className="h-7 px-2 text-xs"
+          disabled={props.disabled}
+          onClick={() => props.onChange(k)}
+        >
+          {k === "basic" ? "Básica" : "Cloze"}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+/** Texto cloze con los huecos resaltados (vista de lista). */
+function ClozeText(props: { text: string; hideOrdinal?: number; className?: string }) {
+  return (
+    <p className={`whitespace-pre-wrap ${props.className ?? ""}`}>
+      {parseCloze(props.text).map((seg, i) => {
+        if (seg.kind === "text") return <span key={i}>{seg.text}</span>;
+        if (seg.ordinal === props.hideOrdinal) {
+          return (
+            <span key={i} className="rounded bg-emerald-500/15 px-1 font-medium text-emerald-700 dark:text-emerald-300">
+              [{seg.hint ?? "…"}]
+            </span>
+          );
+        }
+        return (
+          <span key={i} className="rounded bg-muted px-1">
+            {seg.answer}
+            <sup className="ml-0.5 text-[9px] text-muted-foreground">c{seg.ordinal}</sup>
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+/** Una fila por hermana: así se verá cada hueco al practicar. */
+function ClozePreview(props: { text: string }) {
+  const ordinals = clozeOrdinals(props.text);
+
+  if (ordinals.length === 0) {
+    return <p className="text-[11px] text-muted-foreground">Marca los huecos con {"{{c1::respuesta}}"} (pista opcional: {"{{c1::respuesta::pista}}"}).</p>;
+  }
+
+  return (
+    <div className="space-y-1 rounded-md border bg-muted/20 p-2 text-xs">
+      <p className="font-medium">Vista previa · {ordinals.length} tarjetas</p>
+      {ordinals.map((n) => (
+        <div key={n} className="flex gap-2">
+          <span className="shrink-0 text-muted-foreground">c{n}</span>
+          <ClozeText text={props.text} hideOrdinal={n} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function CardEditorDraft(props: {
   canEdit: boolean;
   isPending: boolean;
   card: FlashcardRow;
   onCancel: () => void;
-  onApply: (front: string, back: string) => void;
+  onApply: (draft: CardDraft) => void;
 }) {
+  const [kind, setKind] = useState<FlashcardKind>(props.card.kind ?? "basic");
   const [front, setFront] = useState<string>(props.card.front);
   const [back, setBack] = useState<string>(props.card.back);
 
   useEffect(() => {
+    setKind(props.card.kind ?? "basic");
     setFront(props.card.front);
     setBack(props.card.back);
-  }, [props.card.front, props.card.back]);
+  }, [props.card.kind, props.card.front, props.card.back]);
 
   const canMutate = props.canEdit && !props.isPending;
+  const draft: CardDraft = { kind, front: front.trim(), back: back.trim() };
 
   return (
     <div className="space-y-2">
+      <CardKindToggle value={kind} disabled={!canMutate} onChange={setKind} />
+
       <div className="space-y-1">
-        <label className="text-xs font-medium">Front</label>
+        <label className="text-xs font-medium">{kind === "cloze" ? "Texto cloze" : "Front"}</label>
         <textarea
           value={front}
           onChange={(e) => setFront(e.target.value)}
@@ -1017,8 +1426,10 @@ function CardEditorDraft(props: {
         />
       </div>
 
+      {kind === "cloze" ? <ClozePreview text={front} /> : null}
+
       <div className="space-y-1">
-        <label className="text-xs font-medium">Back</label>
+        <label className="text-xs font-medium">{kind === "cloze" ? "Extra (opcional)" : "Back"}</label>
         <textarea
           value={back}
           onChange={(e) => setBack(e.target.value)}
@@ -1031,10 +1442,187 @@ function CardEditorDraft(props: {
         <Button type="button" variant="ghost" size="sm" onClick={props.onCancel}>
           Cancelar
         </Button>
-        <Button type="button" variant="secondary" size="sm" disabled={!canMutate || !front.trim() || !back.trim()} onClick={() => props.onApply(front.trim(), back.trim())}>
+        <Button type="button" variant="secondary" size="sm" disabled={!canMutate || !isCardDraftValid(draft)} onClick={() => props.onApply(draft)}>
           Aplicar
         </Button>
       </div>
     </div>
   );
 }
+
+const QUIZ_KIND_LABEL: Record<QuizQuestionKind, string> = {
+  single: "Una correcta",
+  multiple: "Varias correctas",
+  truefalse: "Verdadero/Falso",
+};
+
+/** Editor de preguntas de un bloque quiz (borrador; se guarda con "Guardar cambios"). */
+function QuizEditor(props: { quiz: QuizData; disabled?: boolean; onChange: (next: QuizData) => void }) {
+  const questions = props.quiz.questions;
+
+  const setQuestion = (qid: string, fn: (q: QuizQuestion) => QuizQuestion) => {
+    props.onChange({ questions: questions.map((q) => (q.id === qid ? fn(q) : q)) });
+  };
+
+  const moveQuestion = (idx: number, delta: number) => {
+    const to = idx + delta;
+    if (to < 0 || to >= questions.length) return;
+    const next = [...questions];
+    [next[idx], next[to]] = [next[to], next[idx]];
+    props.onChange({ questions: next });
+  };
+
+  const setKind = (q: QuizQuestion, kind: QuizQuestionKind): QuizQuestion => {
+    if (kind === q.kind) return q;
+    if (kind === "truefalse") return { ...q, kind, options: trueFalseOptions() };
+    if (q.kind === "truefalse") return { ...emptyQuestion(kind), id: q.id, prompt: q.prompt };
+    if (kind === "single") {
+      // deja solo la primera correcta
+      const first = q.options.findIndex((o) => o.correct);
+      return { ...q, kind, options: q.options.map((o, i) => ({ ...o, correct: i === Math.max(0, first) })) };
+    }
+    return { ...q, kind };
+  };
+
+  const toggleCorrect = (q: QuizQuestion, optionId: string): QuizQuestion => {
+    if (q.kind === "multiple") {
+      return { ...q, options: q.options.map((o) => (o.id === optionId ? { ...o, correct: !o.correct } : o)) };
+    }
+    return { ...q, options: q.options.map((o) => ({ ...o, correct: o.id === optionId })) };
+  };
+
+  const inputCls = "h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm";
+
+  return (
+    <div className="space-y-3">
+      {questions.length === 0 ? <p className="text-sm text-muted-foreground">Aún no hay preguntas.</p> : null}
+
+      {questions.map((q, qi) => (
+        <div key={q.id} className="space-y-2 rounded-lg border p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-medium">Pregunta {qi + 1}</p>
+
+            <div className="flex items-center gap-1">
+              <select
+                value={q.kind}
+                disabled={props.disabled}
+                onChange={(e) => setQuestion(q.id, (x) => setKind(x, e.target.value as QuizQuestionKind))}
+                className="h-7 rounded-md border border-input bg-transparent px-2 text-xs"
+              >
+                {(Object.keys(QUIZ_KIND_LABEL) as QuizQuestionKind[]).map((k) => (
+                  <option key={k} value={k}>
+                    {QUIZ_KIND_LABEL[k]}
+                  </option>
+                ))}
+              </select>
+
+              <Button type="button" size="sm" variant="ghost" className="h-7 px-2" disabled={props.disabled || qi === 0} onClick={() => moveQuestion(qi, -1)}>
+                ↑
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2"
+                disabled={props.disabled || qi === questions.length - 1}
+                onClick={() => moveQuestion(qi, 1)}
+              >
+                ↓
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs"
+                disabled={props.disabled}
+                onClick={() => props.onChange({ questions: questions.filter((x) => x.id !== q.id) })}
+              >
+                Eliminar
+              </Button>
+            </div>
+          </div>
+
+          <textarea
+            value={q.prompt}
+            onChange={(e) => setQuestion(q.id, (x) => ({ ...x, prompt: e.target.value }))}
+            placeholder="Enunciado…"
+            className="min-h-16 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            disabled={props.disabled}
+          />
+
+          <div className="space-y-2">
+            {q.options.map((o, oi) => (
+              <div key={o.id} className="space-y-1 rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type={q.kind === "multiple" ? "checkbox" : "radio"}
+                    name={`correct_${q.id}`}
+                    checked={o.correct}
+                    disabled={props.disabled}
+                    onChange={() => setQuestion(q.id, (x) => toggleCorrect(x, o.id))}
+                    title="Correcta"
+                  />
+                  <input
+                    value={o.text}
+                    onChange={(e) =>
+                      setQuestion(q.id, (x) => ({ ...x, options: x.options.map((y) => (y.id === o.id ? { ...y, text: e.target.value } : y)) }))
+                    }
+                    placeholder={`Opción ${oi + 1}`}
+                    className={inputCls}
+                    disabled={props.disabled || q.kind === "truefalse"}
+                  />
+                  {q.kind !== "truefalse" ? (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-xs"
+                      disabled={props.disabled || q.options.length <= 2}
+                      onClick={() => setQuestion(q.id, (x) => ({ ...x, options: x.options.filter((y) => y.id !== o.id) }))}
+                    >
+                      ✕
+                    </Button>
+                  ) : null}
+                </div>
+
+                <input
+                  value={o.explanation}
+                  onChange={(e) =>
+                    setQuestion(q.id, (x) => ({
+                      ...x,
+                      options: x.options.map((y) => (y.id === o.id ? { ...y, explanation: e.target.value } : y)),
+                    }))
+                  }
+                  placeholder="Explicación (opcional)"
+                  className="h-8 w-full rounded-md border border-input bg-transparent px-3 text-xs shadow-sm"
+                  disabled={props.disabled}
+                />
+              </div>
+            ))}
+          </div>
+
+          {q.kind !== "truefalse" ? (
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              disabled={props.disabled || q.options.length >= MAX_QUIZ_OPTIONS}
+              onClick={() =>
+                setQuestion(q.id, (x) => ({
+                  ...x,
+                  options: [...x.options, { id: crypto.randomUUID(), text: "", correct: false, explanation: "" }],
+                }))
+              }
+            >
+              + Opción
+            </Button>
+          ) : null}
+        </div>
+      ))}
+
+      <Button type="button" variant="secondary" disabled={props.disabled} onClick={() => props.onChange({ questions: [...questions, emptyQuestion()] })}>
+        + Pregunta
+      </Button>
+    </div>
+  );
+}
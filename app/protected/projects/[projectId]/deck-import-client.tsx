@@ -0,0 +1,296 @@
+// app/protected/projects/[projectId]/deck-import-client.tsx
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { deckFormatFromName } from "@/lib/deck-import/common";
+import type { ActionResult, DeckImportPreview } from "./actions";
+
+const PREVIEW_ROWS = 50;
+
+type DeckImportCommit = { created_cards: number; created_groups: number; skipped: number };
+
+/** Vista previa y commit van por la ruta deck-import (el .apkg supera el límite de las server actions). */
+async function postDeckImport<T>(projectId: string, body: FormData | object, step?: "commit"): Promise<ActionResult<T>> {
+  const url = `/protected/projects/${encodeURIComponent(projectId)}/deck-import${step ? `?step=${step}` : ""}`;
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: body instanceof FormData ? undefined : { "Content-Type": "application/json" },
+      body: body instanceof FormData ? body : JSON.stringify(body),
+    });
+    return (await res.json()) as ActionResult<T>;
+  } catch {
+    return { ok: false, error: "No se pudo contactar al servidor" };
+  }
+}
+
+export function DeckImportDialog(props: {
+  projectId: string;
+  groupId: string;
+  groupTitle: string;
+  disabled?: boolean;
+  disabledReason?: string;
+  onImported: (msg: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [splitDecks, setSplitDecks] = useState(true);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<DeckImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const format = file ? deckFormatFromName(file.name) : null;
+
+  function reset() {
+    setFile(null);
+    setPreview(null);
+    setError(null);
+  }
+
+  function runPreview(mapping?: { front_col: number; back_col: number }, opts?: { hasHeader?: boolean; splitDecks?: boolean }) {
+    if (!file) return;
+    setError(null);
+
+    const fd = new FormData();
+    fd.set("group_id", props.groupId);
+    fd.set("file", file);
+    fd.set("has_header", (opts?.hasHeader ?? hasHeader) ? "1" : "0");
+    fd.set("split_decks", (opts?.splitDecks ?? splitDecks) ? "1" : "0");
+    if (mapping) {
+      fd.set("front_col", String(mapping.front_col));
+      fd.set("back_col", String(mapping.back_col));
+    }
+
+    startTransition(async () => {
+      const res = await postDeckImport<DeckImportPreview>(props.projectId, fd);
+      if (!res.ok) {
+        setPreview(null);
+        setError(res.error);
+        return;
+      }
+      setPreview(res.data);
+    });
+  }
+
+  const valid = preview ? preview.items.filter((it) => !it.error) : [];
+  const toImport = skipDuplicates ? valid.filter((it) => !it.duplicate) : valid;
+  const dupCount = preview ? preview.items.filter((it) => it.duplicate).length : 0;
+  const invalidCount = preview ? preview.items.length - valid.length : 0;
+
+  function commit() {
+    if (!preview || toImport.length === 0) return;
+    setError(null);
+
+    startTransition(async () => {
+      const res = await postDeckImport<DeckImportCommit>(
+        props.projectId,
+        {
+          group_id: props.groupId,
+          items: toImport.map((it) => ({ kind: it.kind, front: it.front, back: it.back, deck: it.deck })),
+          split_decks: splitDecks,
+          skip_duplicates: skipDuplicates,
+        },
+        "commit"
+      );
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+
+      const { created_cards, created_groups, skipped } = res.data;
+      const parts = [`${created_cards} cartas importadas`];
+      if (created_groups) parts.push(`${created_groups} grupos nuevos`);
+      if (skipped) parts.push(`${skipped} omitidas`);
+
+      setOpen(false);
+      reset();
+      props.onImported(parts.join(" · ") + ".");
+    });
+  }
+
+  const selectCls = "h-8 rounded-md border border-input bg-transparent px-2 text-xs";
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        disabled={props.disabled}
+        title={props.disabled ? props.disabledReason : "CSV, TSV o Anki (.apkg)"}
+        onClick={() => setOpen(true)}
+      >
+        Importar
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(v) => {
+          setOpen(v);
+          if (!v) reset();
+        }}
+      >
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Importar a “{props.groupTitle}”</DialogTitle>
+            <DialogDescription className="text-xs">
+              CSV/TSV (una fila por carta) o paquete de Anki (.apkg). Revisa la vista previa antes de importar.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,.apkg"
+                className="text-xs"
+                disabled={isPending}
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setPreview(null);
+                  setError(null);
+                }}
+              />
+
+              {format === "csv" || format === "tsv" ? (
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    disabled={isPending}
+                    onChange={(e) => {
+                      setHasHeader(e.target.checked);
+                      if (preview) runPreview(undefined, { hasHeader: e.target.checked });
+                    }}
+                  />
+                  Primera fila es cabecera
+                </label>
+              ) : null}
+
+              {format === "apkg" ? (
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={splitDecks}
+                    disabled={isPending}
+                    onChange={(e) => {
+                      setSplitDecks(e.target.checked);
+                      if (preview) runPreview({ front_col: preview.front_col, back_col: preview.back_col }, { splitDecks: e.target.checked });
+                    }}
+                  />
+                  Un grupo por sub-mazo
+                </label>
+              ) : null}
+
+              <Button type="button" variant="secondary" size="sm" disabled={!file || !format || isPending} onClick={() => runPreview()}>
+                {isPending && !preview ? "Leyendo…" : "Vista previa"}
+              </Button>
+            </div>
+
+            {file && !format ? <p className="text-xs text-destructive">Formato no soportado.</p> : null}
+
+            {error ? (
+              <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+            ) : null}
+
+            {preview ? (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-3 text-xs">
+                  <label className="flex items-center gap-1.5">
+                    Frente
+                    <select
+                      className={selectCls}
+                      value={preview.front_col}
+                      disabled={isPending}
+                      onChange={(e) => runPreview({ front_col: Number(e.target.value), back_col: preview.back_col })}
+                    >
+                      {preview.columns.map((c, i) => (
+                        <option key={i} value={i}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="flex items-center gap-1.5">
+                    Reverso
+                    <select
+                      className={selectCls}
+                      value={preview.back_col}
+                      disabled={isPending}
+                      onChange={(e) => runPreview({ front_col: preview.front_col, back_col: Number(e.target.value) })}
+                    >
+                      <option value={-1}>(ninguna)</option>
+                      {preview.columns.map((c, i) => (
+                        <option key={i} value={i}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="flex items-center gap-1.5 text-muted-foreground">
+                    <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                    Omitir duplicados
+                  </label>
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  {preview.items.length} filas · {dupCount} duplicadas · {invalidCount} incompletas
+                  {preview.truncated ? " · archivo recortado al máximo permitido" : ""}
+                </p>
+
+                {splitDecks && preview.decks.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {preview.decks.map((d) => (
+                      <span key={d.name} className="rounded bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                        {d.name} ({d.count})
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
+
+                <div className="max-h-72 overflow-auto rounded-lg border">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-background">
+                      <tr className="border-b text-left">
+                        <th className="p-2 font-medium">Frente</th>
+                        <th className="p-2 font-medium">Reverso</th>
+                        <th className="p-2 font-medium">Estado</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.items.slice(0, PREVIEW_ROWS).map((it, i) => (
+                        <tr key={i} className={["border-b align-top", it.error || it.duplicate ? "text-muted-foreground" : ""].join(" ")}>
+                          <td className="max-w-xs whitespace-pre-wrap p-2">
+                            {it.kind === "cloze" ? <span className="mr-1 rounded bg-muted px-1">cloze</span> : null}
+                            {it.front}
+                          </td>
+                          <td className="max-w-xs whitespace-pre-wrap p-2">{it.back}</td>
+                          <td className="p-2">{it.error ? it.error : it.duplicate ? "Duplicada" : "OK"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {preview.items.length > PREVIEW_ROWS ? (
+                  <p className="text-xs text-muted-foreground">Mostrando {PREVIEW_ROWS} de {preview.items.length}.</p>
+                ) : null}
+
+                <div className="flex items-center justify-end gap-2">
+                  <Button type="button" disabled={isPending || toImport.length === 0} onClick={commit}>
+                    {isPending ? "Procesando…" : `Importar ${toImport.length} cartas`}
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+// app/protected/projects/[projectId]/deck-import/route.ts
+import { NextResponse } from "next/server";
+import { MAX_IMPORT_BYTES } from "@/lib/deck-import/common";
+import { commitDeckImportRpc, previewDeckImportRpc, type ActionResult } from "../actions";
+
+// margen para el resto de campos del multipart
+const MAX_BODY_BYTES = MAX_IMPORT_BYTES + 64 * 1024;
+
+function fail(error: string, status: number) {
+  return NextResponse.json({ ok: false, error } satisfies ActionResult<never>, { status });
+}
+
+/**
+ * POST /protected/projects/:id/deck-import              multipart (file, group_id, ...) → vista previa
+ * POST /protected/projects/:id/deck-import?step=commit  JSON { group_id, items, ... } → crea las cartas
+ * Ruta y no server action: el límite de body de las server actions queda en el
+ * default (1 MB) y el tamaño del mazo se controla solo aquí.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ projectId: string }> }) {
+  const len = Number(req.headers.get("content-length"));
+  if (!Number.isFinite(len) || len <= 0) return fail("Falta Content-Length.", 411);
+  if (len > MAX_BODY_BYTES) return fail("Archivo demasiado grande (máx. 20 MB)", 413);
+
+  const { projectId } = await ctx.params;
+  const commit = new URL(req.url).searchParams.get("step") === "commit";
+
+  try {
+    if (commit) {
+      const body = (await req.json()) as Parameters<typeof commitDeckImportRpc>[0];
+      return NextResponse.json(await commitDeckImportRpc({ ...body, project_id: projectId }));
+    }
+
+    const fd = await req.formData();
+    fd.set("project_id", projectId);
+    return NextResponse.json(await previewDeckImportRpc(fd));
+  } catch {
+    return fail("Solicitud inválida.", 400);
+  }
+}
@@ -0,0 +1,97 @@
+// app/protected/projects/[projectId]/export/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { parseProjectIdValue } from "@/lib/project-id";
+import { writeZip } from "@/lib/zip";
+import { PROJECT_ARCHIVE_FILE } from "@/lib/project-archive";
+import { loadProjectArchive } from "@/lib/project-copy";
+import type { ProjectRole } from "@/lib/types/study";
+
+function fileSlug(title: string): string {
+  const s = title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return s || "proyecto";
+}
+
+/**
+ * GET /protected/projects/:id/export?format=zip|json&review=1
+ * Dueño o editor. review=1 agrega el progreso propio (flashcard_review_state).
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ projectId: string }> }) {
+  try {
+    const { projectId: raw } = await ctx.params;
+    const projectId = parseProjectIdValue(raw);
+    if (!projectId) return NextResponse.json({ error: "ID inválido." }, { status: 400 });
+
+    const url = new URL(req.url);
+    const asJson = url.searchParams.get("format") === "json";
+    const withReview = url.searchParams.get("review") === "1";
+
+    const supabase = await createClient();
+
+    const { data: userRes, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userRes.user) {
+      return NextResponse.json({ error: "No autenticado." }, { status: 401 });
+    }
+    const userId = userRes.user.id;
+
+    const { data: project, error: pErr } = await supabase
+      .from("projects")
+      .select("id,owner_user_id,title,description_md,is_hidden")
+      .eq("id", projectId)
+      .maybeSingle<{ id: string; owner_user_id: string; title: string; description_md: string | null; is_hidden: boolean }>();
+
+    if (pErr) return NextResponse.json({ error: pErr.message }, { status: 400 });
+    if (!project) return NextResponse.json({ error: "Proyecto no encontrado." }, { status: 404 });
+
+    if (project.owner_user_id !== userId) {
+      const { data: mem } = await supabase
+        .from("project_members")
+        .select("role")
+        .eq("project_id", projectId)
+        .eq("user_id", userId)
+        .maybeSingle<{ role: ProjectRole }>();
+
+      if (project.is_hidden || mem?.role !== "editor") {
+        return NextResponse.json({ error: "No autorizado (solo dueño o editor)." }, { status: 403 });
+      }
+    }
+
+    const loaded = await loadProjectArchive(supabase, projectId, {
+      reviewUserId: withReview ? userId : null,
+      answerKeys: true,
+    });
+    if (!loaded.ok) return NextResponse.json({ error: loaded.error }, { status: 400 });
+    const archive = loaded.data;
+
+    const json = JSON.stringify(archive, null, 2);
+    const name = `${fileSlug(project.title)}-${archive.exported_at.slice(0, 10)}`;
+
+    if (asJson) {
+      return new NextResponse(json, {
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${name}.json"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const zip = writeZip([{ name: PROJECT_ARCHIVE_FILE, data: Buffer.from(json, "utf8") }]);
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${name}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Error inesperado." }, { status: 500 });
+  }
+}
@@ -0,0 +1,258 @@
+// app/protected/projects/[projectId]/invites-client.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDateTimeCL } from "@/lib/datetime";
+import {
+  createInviteLinkRpc,
+  inviteMemberRpc,
+  listProjectInvitesRpc,
+  revokeInviteRpc,
+  type ProjectInviteItem,
+} from "./actions";
+
+const EXPIRY_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "1", label: "1 día" },
+  { value: "7", label: "7 días" },
+  { value: "30", label: "30 días" },
+  { value: "", label: "No vence" },
+];
+
+const USES_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "1", label: "1 uso" },
+  { value: "5", label: "5 usos" },
+  { value: "25", label: "25 usos" },
+  { value: "", label: "Sin límite" },
+];
+
+const SELECT_CLASS = "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm";
+
+function inviteUrl(token: string): string {
+  return `${window.location.origin}/protected/invite/${encodeURIComponent(token)}`;
+}
+
+function roleLabel(role: ProjectInviteItem["role"]): string {
+  return role === "editor" ? "Editor" : "Invitado";
+}
+
+/** Invitaciones del proyecto (solo dueño). */
+export function InvitesPanel(props: { projectId: string }) {
+  const [invites, setInvites] = useState<ProjectInviteItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const [target, setTarget] = useState("");
+  const [targetRole, setTargetRole] = useState("editor");
+
+  const [linkRole, setLinkRole] = useState("guest");
+  const [linkDays, setLinkDays] = useState("7");
+  const [linkUses, setLinkUses] = useState("");
+
+  function load() {
+    startTransition(async () => {
+      const res = await listProjectInvitesRpc({ project_id: props.projectId });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setInvites(res.data);
+    });
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.projectId]);
+
+  function invite() {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const res = await inviteMemberRpc({ project_id: props.projectId, target, role: targetRole });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setTarget("");
+      setNotice("Invitación enviada.");
+      load();
+    });
+  }
+
+  function createLink() {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const res = await createInviteLinkRpc({
+        project_id: props.projectId,
+        role: linkRole,
+        expires_in_days: linkDays ? Number(linkDays) : null,
+        max_uses: linkUses ? Number(linkUses) : null,
+      });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      await copy(res.data.token);
+      load();
+    });
+  }
+
+  function revoke(inviteId: string) {
+    if (!window.confirm("¿Revocar esta invitación?")) return;
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const res = await revokeInviteRpc({ project_id: props.projectId, invite_id: inviteId });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      load();
+    });
+  }
+
+  async function copy(token: string | null) {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl(token));
+      setNotice("Link copiado al portapapeles.");
+    } catch {
+      setNotice(inviteUrl(token));
+    }
+  }
+
+  const people = invites.filter((i) => i.kind === "user");
+  const links = invites.filter((i) => i.kind === "link");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invitaciones</CardTitle>
+        <CardDescription>
+          Invita por usuario o correo, o comparte un link con rol, vencimiento y límite de usos. Sirve
+          también para proyectos privados.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-5">
+        {error ? (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+        ) : null}
+        {notice ? <div className="rounded-lg border bg-muted/40 p-3 text-sm break-all">{notice}</div> : null}
+
+        {/* Por usuario / correo */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Invitar a una persona</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder="usuario o correo@ejemplo.com"
+              className="max-w-xs"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  if (target.trim()) invite();
+                }
+              }}
+            />
+            <select value={targetRole} onChange={(e) => setTargetRole(e.target.value)} className={SELECT_CLASS}>
+              <option value="editor">Editor</option>
+              <option value="guest">Invitado</option>
+            </select>
+            <Button type="button" size="sm" disabled={isPending || !target.trim()} onClick={invite}>
+              Invitar
+            </Button>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            Si el correo aún no tiene cuenta, verá la invitación al registrarse con él.
+          </p>
+        </div>
+
+        {/* Link */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Link de invitación</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={linkRole} onChange={(e) => setLinkRole(e.target.value)} className={SELECT_CLASS}>
+              <option value="guest">Invitado</option>
+              <option value="editor">Editor</option>
+            </select>
+            <select value={linkDays} onChange={(e) => setLinkDays(e.target.value)} className={SELECT_CLASS}>
+              {EXPIRY_OPTIONS.map((o) => (
+                <option key={o.label} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <select value={linkUses} onChange={(e) => setLinkUses(e.target.value)} className={SELECT_CLASS}>
+              {USES_OPTIONS.map((o) => (
+                <option key={o.label} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <Button type="button" size="sm" variant="secondary" disabled={isPending} onClick={createLink}>
+              Crear y copiar link
+            </Button>
+          </div>
+        </div>
+
+        {/* Pendientes */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Pendientes</p>
+
+          {people.length === 0 && links.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{isPending ? "Cargando…" : "No hay invitaciones pendientes."}</p>
+          ) : null}
+
+          {people.map((i) => (
+            <div key={i.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate">{i.invitee ?? "—"}</p>
+                <p className="text-[11px] text-muted-foreground">
+                  {roleLabel(i.role)} · enviada {formatDateTimeCL(i.created_at)}
+                </p>
+              </div>
+              <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={() => revoke(i.id)}>
+                Revocar
+              </Button>
+            </div>
+          ))}
+
+          {links.map((i) => (
+            <div key={i.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate font-mono text-xs">…/invite/{i.token?.slice(0, 8)}…</p>
+                <p className="text-[11px] text-muted-foreground">
+                  {roleLabel(i.role)} · {i.uses}
+                  {i.max_uses != null ? `/${i.max_uses}` : ""} usos
+                  {i.expires_at ? ` · vence ${formatDateTimeCL(i.expires_at)}` : " · no vence"}
+                  {i.expired ? " · inactivo" : ""}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button type="button" variant="ghost" size="sm" disabled={isPending || i.expired} onClick={() => copy(i.token)}>
+                  Copiar
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={() => revoke(i.id)}>
+                  Revocar
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,7 +14,10 @@ import {
 import { Button } from "@/components/ui/button";
 
 import { parseProjectIdValue } from "@/lib/project-id";
+import { withAnswerKey } from "@/lib/quiz";
+import { loadQuizKeys } from "@/lib/quiz-keys";
 import type {
+  ProjectId,
   ProjectRole,
   ProjectVisibility,
   ProjectRow,
@@ -26,7 +29,12 @@ import type {
 import { ProjectSettingsClient } from "./project-settings-client";
 import { BlocksClient } from "./blocks-client";
 import { MembersClient } from "./members-client";
-import { ProjectView } from "./project-view";
+import { InvitesPanel } from "./invites-client";
+import { AccessRequestsPanel } from "./access-requests-client";
+import { RequestAccessCard } from "./request-access-client";
+import { UpstreamPanel } from "./upstream-client";
+import { ProgressPanel } from "./progress-client";
+import { ProjectView, type ProjectSchedulerInfo } from "./project-view";
 
 type SearchParams = { tab?: string; error?: string };
 
@@ -114,6 +122,108 @@ function AuthorLine(props: {
   );
 }
 
+type ForkSource = {
+  projectId: string;
+  title: string | null; // null si el original ya no es visible
+  authorUsername: string | null;
+  authorId: string | null;
+  outdated: boolean; // el original cambió después de la última sincronización
+};
+
+/** Origen de un fork: título del original (si sigue visible) y su autor. */
+async function loadForkSource(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  projectId: ProjectId | null,
+  ownerUserId: string | null,
+  revision: string | null
+): Promise<ForkSource | null> {
+  if (projectId == null) return null;
+
+  const [{ data: src }, { data: author }] = await Promise.all([
+    supabase
+      .from("projects")
+      .select("id,title,is_hidden,updated_at")
+      .eq("id", projectId)
+      .maybeSingle<{ id: ProjectId; title: string; is_hidden: boolean; updated_at: string }>(),
+    ownerUserId
+      ? supabase.from("profiles").select("username").eq("id", ownerUserId).maybeSingle<{ username: string | null }>()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  return {
+    projectId: String(projectId),
+    title: src && !src.is_hidden ? src.title : null,
+    authorUsername: author?.username ?? null,
+    authorId: ownerUserId,
+    outdated: !!src && !src.is_hidden && (!revision || Date.parse(src.updated_at) > Date.parse(revision)),
+  };
+}
+
+function ForkCredit(props: { source: ForkSource; updatesHref: string | null }) {
+  const author = (props.source.authorUsername ?? "").trim() || (props.source.authorId ? shortId(props.source.authorId) : null);
+
+  return (
+    <p className="mt-1 text-xs text-muted-foreground">
+      Fork de{" "}
+      {props.source.title ? (
+        <Link href={`/protected/projects/${encodeURIComponent(props.source.projectId)}`} className="underline underline-offset-2">
+          {props.source.title}
+        </Link>
+      ) : (
+        "un proyecto que ya no está disponible"
+      )}
+      {author ? ` · autor original: ${author}` : null}
+      {props.source.outdated && props.updatesHref ? (
+        <>
+          {" · "}
+          <Link href={props.updatesHref} className="font-medium text-foreground underline underline-offset-2">
+            Hay actualizaciones
+          </Link>
+        </>
+      ) : null}
+    </p>
+  );
+}
+
+/**
+ * Presets de repaso visibles para el usuario en este proyecto:
+ * el adjuntado por el dueño, los propios y su override (si tiene).
+ */
+async function loadSchedulerInfo(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  projectId: string | number,
+  projectPresetId: string | null
+): Promise<ProjectSchedulerInfo> {
+  const [{ data: mine }, { data: override }, { data: projectPreset }] = await Promise.all([
+    supabase
+      .from("scheduler_presets")
+      .select("id,name")
+      .eq("owner_user_id", userId)
+      .order("created_at", { ascending: true })
+      .returns<{ id: string; name: string }[]>(),
+    supabase
+      .from("project_user_settings")
+      .select("scheduler_preset_id")
+      .eq("user_id", userId)
+      .eq("project_id", projectId)
+      .maybeSingle<{ scheduler_preset_id: string | null }>(),
+    projectPresetId
+      ? supabase
+          .from("scheduler_presets")
+          .select("id,name")
+          .eq("id", projectPresetId)
+          .maybeSingle<{ id: string; name: string }>()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  return {
+    projectPreset: projectPreset ?? null,
+    myPresets: mine ?? [],
+    myPresetId: override?.scheduler_preset_id ?? null,
+  };
+}
+
 /**
  * Wrapper con Suspense para evitar "blocking navigation" en rutas dinámicas.
  */
@@ -166,28 +276,40 @@ async function ProjectDetailPageInner({
   const projectPromise = supabase
     .from("projects")
     .select(
-      "id,owner_user_id,title,description_md,visibility,is_hidden,moderation_note,moderated_at,updated_at,published_at"
+      "id,owner_user_id,title,description_md,visibility,is_hidden,moderation_note,moderated_at,updated_at,published_at,scheduler_preset_id,forked_from_project_id,forked_from_owner_user_id,forked_from_revision,tags"
     )
     .eq("id", projectIdValue)
-    .single<ProjectRow & { moderation_note: string | null; moderated_at: string | null }>();
+    .single<
+      ProjectRow & {
+        moderation_note: string | null;
+        moderated_at: string | null;
+        scheduler_preset_id: string | null;
+        forked_from_project_id: ProjectId | null;
+        forked_from_owner_user_id: string | null;
+        forked_from_revision: string | null;
+        tags: string[] | null;
+      }
+    >();
 
   const memPromise = supabase
     .from("project_members")
-    .select("role")
+    .select("role,hide_progress")
     .eq("project_id", projectIdValue)
     .eq("user_id", userId)
-    .maybeSingle<{ role: ProjectRole }>();
+    .maybeSingle<{ role: ProjectRole; hide_progress: boolean | null }>();
 
   const [{ data: project, error: pErr }, { data: mem }] = await Promise.all([
     projectPromise,
     memPromise,
   ]);
 
+  // Privado (o inexistente): RLS no lo devuelve; se puede pedir acceso
   if (pErr || !project) {
     return (
-      <ErrorCard
-        title="Proyecto no encontrado"
-        message={pErr?.message ?? "No existe o no tienes acceso."}
+      <RequestAccessCard
+        projectId={String(projectIdValue)}
+        title="Proyecto no disponible"
+        description="No existe o es privado. Si te compartieron este link, puedes pedirle acceso al dueño."
       />
     );
   }
@@ -213,6 +335,13 @@ async function ProjectDetailPageInner({
     .eq("id", project.owner_user_id)
     .maybeSingle<{ id: string; username: string | null; avatar_url: string | null }>();
 
+  const forkSource = await loadForkSource(
+    supabase,
+    project.forked_from_project_id,
+    project.forked_from_owner_user_id,
+    project.forked_from_revision
+  );
+
   const role: ProjectRole =
     project.owner_user_id === userId ? "owner" : mem?.role ?? "guest";
 
@@ -222,15 +351,35 @@ async function ProjectDetailPageInner({
   const canOpenEdit = canEdit; // dueño/editor
   const canOpenSettings = canEdit; // dueño/editor (si quieres SOLO dueño: role === "owner")
   const canOpenMembers = canEdit; // dueño/editor (si quieres SOLO dueño: role === "owner")
+  const canOpenUpdates = role === "owner" && !!forkSource; // merge crea/borra bloques
+  const canOpenProgress = role === "owner"; // progreso ajeno: solo dueño
 
   // Si intentan entrar por URL a tabs no permitidos, forzamos a view
-  let tab: "view" | "edit" | "members" | "settings" = "view";
+  let tab: "view" | "edit" | "members" | "progress" | "settings" | "updates" = "view";
   if (requestedTab === "edit" && canOpenEdit) tab = "edit";
+  else if (requestedTab === "progress" && canOpenProgress) tab = "progress";
+  else if (requestedTab === "updates" && canOpenUpdates) tab = "updates";
   else if (requestedTab === "settings" && canOpenSettings) tab = "settings";
   else if (requestedTab === "members" && canOpenMembers) tab = "members";
   else tab = "view";
 
   const visibility = project.visibility as ProjectVisibility;
+  const canRequestAccess = !isOwner && !mem && visibility === "unlisted";
+
+  // Badge de solicitudes pendientes en el tab Miembros
+  let pendingAccessRequests = 0;
+  if (role === "owner") {
+    const { count } = await supabase
+      .from("project_access_requests")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", project.id)
+      .eq("status", "pending");
+    pendingAccessRequests = count ?? 0;
+  }
+  const scheduler =
+    tab === "view" || tab === "settings"
+      ? await loadSchedulerInfo(supabase, userId, project.id, project.scheduler_preset_id ?? null)
+      : null;
   const projectHrefId = encodeURIComponent(String(project.id));
 
   return (
@@ -248,6 +397,13 @@ async function ProjectDetailPageInner({
             owner_user_id={project.owner_user_id}
           />
 
+          {forkSource ? (
+            <ForkCredit
+              source={forkSource}
+              updatesHref={canOpenUpdates ? `/protected/projects/${encodeURIComponent(String(project.id))}?tab=updates` : null}
+            />
+          ) : null}
+
           <p className="mt-2 text-sm text-muted-foreground">
             {roleLabel(role)} · {visLabel(visibility)}
             {visibility === "private" ? (
@@ -290,7 +446,23 @@ async function ProjectDetailPageInner({
         {canOpenMembers ? (
           <Button asChild variant={tabVariant(tab, "members")}>
             <Link href={`/protected/projects/${projectHrefId}?tab=members`}>
-              Miembros
+              Miembros{pendingAccessRequests > 0 ? ` (${pendingAccessRequests})` : ""}
+            </Link>
+          </Button>
+        ) : null}
+
+        {canOpenProgress ? (
+          <Button asChild variant={tabVariant(tab, "progress")}>
+            <Link href={`/protected/projects/${projectHrefId}?tab=progress`}>
+              Progreso
+            </Link>
+          </Button>
+        ) : null}
+
+        {canOpenUpdates ? (
+          <Button asChild variant={tabVariant(tab, "updates")}>
+            <Link href={`/protected/projects/${projectHrefId}?tab=updates`}>
+              Actualizaciones
             </Link>
           </Button>
         ) : null}
@@ -304,6 +476,15 @@ async function ProjectDetailPageInner({
         ) : null}
       </div>
 
+      {tab === "view" && canRequestAccess ? (
+        <RequestAccessCard
+          projectId={String(project.id)}
+          title="¿Quieres unirte?"
+          description="Pide acceso al dueño para tener este proyecto en tu biblioteca."
+          collapsed
+        />
+      ) : null}
+
       {/* Content */}
       {tab === "view" ? (
         <Suspense fallback={<SectionSkeleton />}>
@@ -320,6 +501,8 @@ async function ProjectDetailPageInner({
             moderation_note={project.moderation_note}
             canEdit={canEdit}
             currentUserRole={role} // <-- CLAVE para "Retirarme" en ProjectView
+            scheduler={scheduler}
+            progressHidden={!isOwner && mem ? !!mem.hide_progress : null}
           />
         </Suspense>
       ) : null}
@@ -354,6 +537,14 @@ async function ProjectDetailPageInner({
         </Suspense>
       ) : null}
 
+      {tab === "members" && role === "owner" ? <AccessRequestsPanel projectId={String(project.id)} /> : null}
+
+      {tab === "members" && role === "owner" ? <InvitesPanel projectId={String(project.id)} /> : null}
+
+      {tab === "progress" ? <ProgressPanel projectId={String(project.id)} /> : null}
+
+      {tab === "updates" ? <UpstreamPanel projectId={String(project.id)} /> : null}
+
       {tab === "settings" ? (
         <ProjectSettingsClient
           projectId={String(project.id)}
@@ -361,7 +552,11 @@ async function ProjectDetailPageInner({
           visibility={visibility}
           title={project.title}
           description_md={project.description_md}
+          tags={project.tags ?? []}
           canEdit={canEdit}
+          schedulerPresetId={project.scheduler_preset_id ?? null}
+          schedulerPresetName={scheduler?.projectPreset?.name ?? null}
+          myPresets={scheduler?.myPresets ?? []}
         />
       ) : null}
     </div>
@@ -385,6 +580,8 @@ async function ContentTab(props: {
   showModerationBanner: boolean;
   canEdit: boolean;
   currentUserRole: ProjectRole;
+  scheduler?: ProjectSchedulerInfo | null;
+  progressHidden?: boolean | null;
 }) {
 
   const supabase = await createClient();
@@ -406,14 +603,14 @@ async function ContentTab(props: {
   if (blockIds.length) {
     const groupsPromise = supabase
       .from("flashcard_groups")
-      .select("id,block_id,title,order_index,created_at")
+      .select("id,block_id,title,bidirectional,order_index,created_at")
       .in("block_id", blockIds)
       .order("order_index", { ascending: true })
       .returns<FlashcardGroupRow[]>();
 
     const cardsPromise = supabase
       .from("flashcards")
-      .select("id,project_id,group_id,front,back,order_index,created_at,updated_at")
+      .select("id,project_id,group_id,kind,front,back,order_index,created_at,updated_at")
       .eq("project_id", props.projectId)
       .order("group_id", { ascending: true })
       .order("order_index", { ascending: true })
@@ -448,14 +645,24 @@ async function ContentTab(props: {
       groups={groups}
       cards={cards}
       currentUserRole={props.currentUserRole}
+      scheduler={props.scheduler ?? null}
+      progressHidden={props.progressHidden ?? null}
     />
     );
   }
 
+  // el editor necesita la solución de los quiz (guardada aparte de data)
+  const quizIds = (blocks ?? []).filter((b) => b.type === "quiz").map((b) => b.id);
+  const keys = props.canEdit && quizIds.length ? await loadQuizKeys(supabase, quizIds) : null;
+  if (keys && !keys.ok) return <ErrorCard title="Error" message={keys.error} />;
+  const editBlocks = (blocks ?? []).map((b) =>
+    b.type === "quiz" && keys?.ok ? { ...b, data: withAnswerKey(b.data, keys.data.get(b.id)) as ProjectBlockRow["data"] } : b
+  );
+
   return (
     <BlocksClient
       projectId={props.projectId}
-      blocks={blocks ?? []}
+      blocks={editBlocks}
       groups={groups}
       cards={cards}
       canEdit={props.canEdit}
@@ -1,7 +1,13 @@
 "use server";
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/server";
-import type { ReviewRating, PracticeCard, ReviewState } from "@/lib/types/study";
+import type { CardDirection, FlashcardKind, ReviewRating, PracticeCard, ReviewState } from "@/lib/types/study";
+import { computeNext, fuzzRange, srsAlgorithmFrom, withInterval } from "@/lib/srs/scheduler";
+import { DEFAULT_PRESET, normalizePreset, type SchedulerPreset } from "@/lib/srs/presets";
+import { dailyCapFor, loadDailyLimits } from "@/lib/srs/daily-limits";
+import { practiceOrdinals } from "@/lib/cloze";
+import { buryUntil, isLeechLapse, leechSettingsFrom, loadCardFlags } from "@/lib/leeches";
 
 type ActionResult<T> = { ok: true; data: T } | { ok: false; error: string };
 
@@ -12,116 +18,409 @@ function ok<T>(data: T): ActionResult<T> {
   return { ok: true, data };
 }
 
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// PostgREST corta en 1000 filas por request
+const PAGE = 1000;
+const ID_CHUNK = 200; // .in() va en la URL
+
+type PageQuery<T> = (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
 
-function addMinutes(d: Date, minutes: number) {
-  const x = new Date(d);
-  x.setMinutes(x.getMinutes() + minutes);
-  return x;
+async function fetchAll<T>(query: PageQuery<T>): Promise<T[]> {
+  const out: T[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await query(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...(data ?? []));
+    if ((data?.length ?? 0) < PAGE) return out;
+  }
 }
-function addDays(d: Date, days: number) {
-  const x = new Date(d);
-  x.setDate(x.getDate() + days);
-  return x;
+
+/**
+ * Balanceo de carga: dentro del rango de fuzz elige el día con menos
+ * tarjetas del usuario venciendo (todos los proyectos). Empates al azar.
+ */
+async function pickLeastLoadedDay(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date,
+  lo: number,
+  hi: number
+): Promise<number> {
+  const from = new Date(now.getTime() + lo * DAY_MS);
+  const to = new Date(now.getTime() + (hi + 1) * DAY_MS);
+
+  const { data } = await supabase
+    .from("flashcard_review_state")
+    .select("due_at")
+    .eq("user_id", userId)
+    .gte("due_at", from.toISOString())
+    .lt("due_at", to.toISOString())
+    .limit(5000);
+
+  const load = new Map<number, number>();
+  for (const r of data ?? []) {
+    const d = Math.floor((new Date(r.due_at).getTime() - now.getTime()) / DAY_MS);
+    load.set(d, (load.get(d) ?? 0) + 1);
+  }
+
+  let best: number[] = [];
+  let bestLoad = Infinity;
+  for (let d = lo; d <= hi; d++) {
+    const n = load.get(d) ?? 0;
+    if (n < bestLoad) {
+      bestLoad = n;
+      best = [d];
+    } else if (n === bestLoad) {
+      best.push(d);
+    }
+  }
+
+  return best[Math.floor(Math.random() * best.length)] ?? lo;
 }
 
 /**
- * Algoritmo SR (4 ratings) estilo Anki simplificado:
- * - again: 10 minutos, lapses++, state=learning/relearning
- * - hard/good/easy: pasan a review con intervalos y ajuste de ease
+ * Resuelve el preset de repaso para (usuario, proyecto):
+ * 1) override del usuario (project_user_settings)
+ * 2) preset adjuntado por el dueño (projects.scheduler_preset_id)
+ * 3) DEFAULT_PRESET
  */
-function computeNext(input: {
+async function resolvePreset(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string | number
+): Promise<SchedulerPreset> {
+  const [{ data: mine }, { data: project }] = await Promise.all([
+    supabase
+      .from("project_user_settings")
+      .select("scheduler_preset_id")
+      .eq("user_id", userId)
+      .eq("project_id", projectId)
+      .maybeSingle<{ scheduler_preset_id: string | null }>(),
+    supabase
+      .from("projects")
+      .select("scheduler_preset_id")
+      .eq("id", projectId)
+      .maybeSingle<{ scheduler_preset_id: string | null }>(),
+  ]);
+
+  const presetId = mine?.scheduler_preset_id ?? project?.scheduler_preset_id ?? null;
+  if (!presetId) return DEFAULT_PRESET;
+
+  const { data: preset } = await supabase
+    .from("scheduler_presets")
+    .select(
+      "learning_steps,relearning_steps,graduating_interval_days,easy_interval_days,easy_bonus,max_interval_days,starting_ease"
+    )
+    .eq("id", presetId)
+    .maybeSingle();
+
+  // si el preset fue borrado o no es visible, caemos al predeterminado
+  return preset ? normalizePreset(preset) : DEFAULT_PRESET;
+}
+
+export type PracticeMode = "due" | "all";
+export type PracticeMetodo = "clasico" | "escritura";
+
+export type PracticeLimits = {
+  newLeft: number;
+  reviewsLeft: number;
+  newPerDay: number;
+  reviewsPerDay: number;
+};
+
+/* ---------------------------------------
+   SESIONES DE PRÁCTICA (servidor)
+   Requiere tabla: public.practice_sessions (
+     id uuid PK, user_id uuid, project_id, group_id uuid,
+     mode text, metodo text, save_to_srs bool,
+     queue jsonb, idx int, initial_count int, reviewed_count int,
+     undo jsonb null, answers jsonb default '[]',
+     status text ('active' | 'finished' | 'abandoned'),
+     created_at, updated_at, finished_at timestamptz null
+   ) con FK on delete cascade a projects/flashcard_groups.
+   Requiere RPC SQL: public.practice_session_append(p_session_id uuid, p_user_id uuid,
+     p_answer jsonb, p_undo jsonb) returns void (security invoker)
+     - update practice_sessions set answers = coalesce(answers, '[]') || jsonb_build_array(p_answer),
+       undo = p_undo, updated_at = now()
+       where id = p_session_id and user_id = p_user_id and status = 'active'
+----------------------------------------*/
+
+const SESSION_TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_ELAPSED_MS = 60 * 60 * 1000;
+
+/** Estado previo a una respuesta (para deshacer). */
+export type PracticeUndoSnap = {
+  queue: PracticeCard[];
+  idx: number;
+  flipped: boolean;
+  reviewedCount: number;
+};
+
+/** Una respuesta dentro de la sesión (línea de tiempo). */
+export type PracticeAnswer = {
+  card_id: string;
+  ordinal: number;
+  direction: CardDirection;
   rating: ReviewRating;
+  elapsed_ms: number;
+  saved: boolean; // true => pasó por submitReview (afecta agenda)
+  log_id: string | null; // flashcard_review_log.id si saved
+  answered_at: string;
+  reverted?: boolean; // deshecha con undo
+};
+
+export type PracticeSession = {
+  id: string;
+  mode: PracticeMode;
+  metodo: PracticeMetodo;
+  save_to_srs: boolean;
+  queue: PracticeCard[];
+  idx: number;
+  initial_count: number;
+  reviewed_count: number;
+  can_undo: boolean;
+  limits: PracticeLimits;
+};
+
+type PracticeSessionRow = {
+  id: string;
+  mode: string;
+  metodo: string;
+  save_to_srs: boolean;
+  queue: PracticeCard[] | null;
+  idx: number | null;
+  initial_count: number | null;
+  reviewed_count: number | null;
+  undo: PracticeUndoSnap | null;
+};
+
+function directionFrom(v: unknown): CardDirection {
+  return v === "reverse" ? "reverse" : "forward";
+}
+
+function ordinalFrom(v: unknown): number {
+  return Math.max(0, Math.floor(Number(v ?? 0)) || 0);
+}
+
+function metodoFrom(v: unknown): PracticeMetodo {
+  return v === "escritura" ? "escritura" : "clasico";
+}
+
+function elapsedFrom(v: unknown): number {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(MAX_ELAPSED_MS, Math.round(n)));
+}
+
+/**
+ * Agrega una respuesta a la sesión y guarda el snapshot para deshacer,
+ * en un solo update (respuestas seguidas no se pisan).
+ * Si la sesión no existe / no es del usuario, no hace nada.
+ */
+async function appendAnswer(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionId: string,
+  answer: PracticeAnswer,
+  undo: PracticeUndoSnap | null
+) {
+  return supabase.rpc("practice_session_append", {
+    p_session_id: sessionId,
+    p_user_id: userId,
+    p_answer: answer,
+    p_undo: undo,
+  });
+}
+
+/** Estado restaurado tras deshacer una respuesta. */
+export type UndoReviewResult = {
+  card_id: string;
+  ordinal: number;
+  direction: CardDirection;
+  log_id: string;
   state: ReviewState;
+  due_at: string;
   interval_days: number;
   ease: number;
-  reps: number;
-  lapses: number;
-  now: Date;
-}) {
-  const { rating, state } = input;
-  let interval_days = input.interval_days ?? 0;
-  let ease = input.ease ?? 2.5;
-  let reps = input.reps ?? 0;
-  let lapses = input.lapses ?? 0;
-
-  let nextState: ReviewState = state;
-  let nextDue = new Date(input.now);
-
-  const inLearning = state === "new" || state === "learning" || state === "relearning";
-
-  if (rating === "again") {
-    lapses += 1;
-    // si venía de review, cae a relearning
-    nextState = state === "review" ? "relearning" : "learning";
-    interval_days = 0;
-    ease = clamp(ease - 0.2, 1.3, 3.0);
-    nextDue = addMinutes(input.now, 10);
-    return { nextState, interval_days, ease, reps, lapses, nextDue };
-  }
+};
 
-  if (inLearning) {
-    // salida de learning hacia review (simple y consistente)
-    if (rating === "hard") {
-      nextState = "learning";
-      nextDue = addMinutes(input.now, 60); // 1 hora
-      return { nextState, interval_days: 0, ease: clamp(ease - 0.15, 1.3, 3.0), reps, lapses, nextDue };
-    }
-    if (rating === "good") {
-      nextState = "review";
-      reps += 1;
-      interval_days = 1;
-      nextDue = addDays(input.now, 1);
-      return { nextState, interval_days, ease, reps, lapses, nextDue };
-    }
-    // easy
-    nextState = "review";
-    reps += 1;
-    interval_days = 3;
-    ease = clamp(ease + 0.15, 1.3, 3.0);
-    nextDue = addDays(input.now, 3);
-    return { nextState, interval_days, ease, reps, lapses, nextDue };
+// Campos de flashcard_user_flags que cambió una respuesta, con su valor anterior
+type LeechFlagsPatch = { leech_at: string | null; suspended_at?: string | null };
+
+/**
+ * Restaura flashcard_review_state desde las columnas prev_* de un log
+ * y marca el log como revertido (flashcard_review_log.reverted_at).
+ * Si la respuesta marcó la carta como sanguijuela (y quizá la suspendió),
+ * devuelve esos campos de flashcard_user_flags a su valor previo (prev_flags).
+ * Solo si la tarjeta no se volvió a responder después (due_at == next_due_at).
+ */
+async function revertReviewLog(
+  supabase: SupabaseClient,
+  userId: string,
+  logId: string
+): Promise<ActionResult<UndoReviewResult>> {
+  const { data: log, error: logErr } = await supabase
+    .from("flashcard_review_log")
+    .select(
+      "id,card_id,ordinal,direction,next_due_at,reverted_at,prev_state,prev_due_at,prev_interval_days,prev_ease,prev_reps,prev_lapses,prev_stability,prev_difficulty,prev_learning_step,prev_last_review_at,prev_flags"
+    )
+    .eq("id", logId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (logErr) return err(logErr.message);
+  if (!log) return err("Registro de repaso no encontrado.");
+  if (log.reverted_at) return err("Esta respuesta ya se deshizo.");
+
+  const { data: cur, error: curErr } = await supabase
+    .from("flashcard_review_state")
+    .select("due_at")
+    .eq("user_id", userId)
+    .eq("card_id", log.card_id)
+    .eq("ordinal", log.ordinal ?? 0)
+    .eq("direction", directionFrom(log.direction))
+    .maybeSingle<{ due_at: string }>();
+
+  if (curErr) return err(curErr.message);
+  if (!cur) return err("Estado de repaso no encontrado.");
+
+  if (new Date(cur.due_at).getTime() !== new Date(log.next_due_at).getTime()) {
+    return err("La tarjeta se volvió a repasar después; ya no se puede deshacer.");
   }
 
-  // state === 'review'
-  nextState = "review";
+  // Marcamos primero (condicional) para que dos deshacer simultáneos no restauren dos veces
+  const { data: marked, error: markErr } = await supabase
+    .from("flashcard_review_log")
+    .update({ reverted_at: new Date().toISOString() })
+    .eq("id", logId)
+    .eq("user_id", userId)
+    .is("reverted_at", null)
+    .select("id")
+    .maybeSingle<{ id: string }>();
+
+  if (markErr) return err(markErr.message);
+  if (!marked) return err("Esta respuesta ya se deshizo.");
 
-  if (interval_days <= 0) interval_days = 1;
+  const prevFlags = log.prev_flags as LeechFlagsPatch | null;
+  if (prevFlags) {
+    const { error: flagErr } = await supabase
+      .from("flashcard_user_flags")
+      .update({ ...prevFlags, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("card_id", log.card_id);
 
-  if (rating === "hard") {
-    ease = clamp(ease - 0.15, 1.3, 3.0);
-    interval_days = Math.max(1, Math.floor(interval_days * 1.2));
-    nextDue = addDays(input.now, interval_days);
-    return { nextState, interval_days, ease, reps, lapses, nextDue };
+    if (flagErr) {
+      await supabase.from("flashcard_review_log").update({ reverted_at: null }).eq("id", logId).eq("user_id", userId);
+      return err(flagErr.message);
+    }
   }
 
-  if (rating === "good") {
-    reps += 1;
-    interval_days = Math.max(1, Math.floor(interval_days * ease));
-    nextDue = addDays(input.now, interval_days);
-    return { nextState, interval_days, ease, reps, lapses, nextDue };
+  const { error: upErr } = await supabase
+    .from("flashcard_review_state")
+    .update({
+      state: log.prev_state,
+      due_at: log.prev_due_at,
+      interval_days: log.prev_interval_days,
+      ease: log.prev_ease,
+      reps: log.prev_reps,
+      lapses: log.prev_lapses,
+      stability: log.prev_stability,
+      difficulty: log.prev_difficulty,
+      learning_step: log.prev_learning_step ?? 0,
+      last_review_at: log.prev_last_review_at,
+    })
+    .eq("user_id", userId)
+    .eq("card_id", log.card_id)
+    .eq("ordinal", log.ordinal ?? 0)
+    .eq("direction", directionFrom(log.direction));
+
+  if (upErr) {
+    await supabase.from("flashcard_review_log").update({ reverted_at: null }).eq("id", logId).eq("user_id", userId);
+    return err(upErr.message);
   }
 
-  // easy
-  reps += 1;
-  ease = clamp(ease + 0.15, 1.3, 3.0);
-  interval_days = Math.max(1, Math.floor(interval_days * ease * 1.3));
-  nextDue = addDays(input.now, interval_days);
-  return { nextState, interval_days, ease, reps, lapses, nextDue };
+  return ok({
+    card_id: log.card_id as string,
+    ordinal: log.ordinal ?? 0,
+    direction: directionFrom(log.direction),
+    log_id: logId,
+    state: log.prev_state as ReviewState,
+    due_at: log.prev_due_at as string,
+    interval_days: log.prev_interval_days ?? 0,
+    ease: Number(log.prev_ease ?? DEFAULT_PRESET.starting_ease),
+  });
+}
+
+async function createSession(
+  supabase: SupabaseClient,
+  userId: string,
+  args: { project_id: string; group_id: string; metodo?: PracticeMetodo },
+  mode: PracticeMode,
+  queue: PracticeCard[]
+): Promise<ActionResult<string>> {
+  const nowIso = new Date().toISOString();
+
+  await supabase
+    .from("practice_sessions")
+    .update({ status: "abandoned", updated_at: nowIso })
+    .eq("user_id", userId)
+    .eq("group_id", args.group_id)
+    .eq("status", "active");
+
+  const { data, error } = await supabase
+    .from("practice_sessions")
+    .insert({
+      user_id: userId,
+      project_id: args.project_id,
+      group_id: args.group_id,
+      mode,
+      metodo: metodoFrom(args.metodo),
+      // Agenda: siempre guarda. Repaso: por defecto NO guardar.
+      save_to_srs: mode === "due",
+      queue,
+      idx: 0,
+      initial_count: queue.length,
+      reviewed_count: 0,
+      answers: [],
+      status: queue.length === 0 ? "finished" : "active",
+      finished_at: queue.length === 0 ? nowIso : null,
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (error || !data) return err(error?.message ?? "No se pudo crear la sesión de práctica.");
+  return ok(data.id);
 }
 
 /**
  * Inicia práctica por grupo:
  * - crea review_state faltantes (lazy init)
- * - retorna cola ordenada y contadores
+ * - mode "due" (agenda): learning vencidas + reviews vencidas hasta el cupo diario
+ *   + nuevas hasta el cupo diario (límites por usuario, todos los proyectos)
+ * - mode "all" (repaso libre): todas, vencidas primero, sin cupos en la cola
+ *   (guardando en agenda, el overlay deja de guardar las que ya no tienen cupo)
+ * - retorna cola ordenada y contadores (ya limitados en "due")
+ * - crea una practice_session activa (abandona la anterior del mismo grupo)
+ * - cloze: un ítem por hueco; grupo bidireccional: básicas en ambas direcciones
+ *   (flashcard_review_state único por user_id, card_id, ordinal, direction)
+ * - excluye cartas suspendidas o enterradas (flashcard_user_flags) en ambos modos
  */
 export async function startPracticeForGroup(args: {
   project_id: string;
   group_id: string;
   limit?: number;
-}): Promise<ActionResult<{ cards: PracticeCard[]; dueCount: number; newCount: number }>> {
+  mode?: PracticeMode;
+  metodo?: PracticeMetodo;
+}): Promise<
+  ActionResult<{
+    session_id: string | null;
+    cards: PracticeCard[];
+    dueCount: number;
+    newCount: number;
+    limits: PracticeLimits;
+  }>
+> {
   const supabase = await createClient();
 
   const { data: userRes, error: userErr } = await supabase.auth.getUser();
@@ -129,70 +428,178 @@ export async function startPracticeForGroup(args: {
   const userId = userRes.user.id;
 
   const limit = Math.max(1, Math.min(args.limit ?? 50, 200));
+  const mode: PracticeMode = args.mode === "all" ? "all" : "due";
+
+  const now = new Date();
+  const daily = await loadDailyLimits(supabase, userId, now);
+  const limits: PracticeLimits = {
+    newLeft: daily.newLeft,
+    reviewsLeft: daily.reviewsLeft,
+    newPerDay: daily.newPerDay,
+    reviewsPerDay: daily.reviewsPerDay,
+  };
+
+  type CardRow = { id: string; group_id: string; kind: FlashcardKind | null; front: string; back: string; order_index: number };
+  type StateRow = {
+    card_id: string;
+    ordinal: number | null;
+    direction: string | null;
+    due_at: string;
+    state: string;
+    interval_days: number | null;
+    ease: number | null;
+    reps: number | null;
+    lapses: number | null;
+  };
 
   // 1) cards del grupo
-  const { data: cards, error: cErr } = await supabase
-    .from("flashcards")
-    .select("id,group_id,front,back,order_index")
-    .eq("group_id", args.group_id)
-    .eq("project_id", args.project_id)
-    .order("order_index", { ascending: true });
+  let cardRows: CardRow[];
+  try {
+    cardRows = await fetchAll<CardRow>((from, to) =>
+      supabase
+        .from("flashcards")
+        .select("id,group_id,kind,front,back,order_index")
+        .eq("group_id", args.group_id)
+        .eq("project_id", args.project_id)
+        .order("order_index", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+  } catch (e) {
+    return err(e instanceof Error ? e.message : "No se pudieron leer las cartas.");
+  }
+  if (cardRows.length === 0) return ok({ session_id: null, cards: [], dueCount: 0, newCount: 0, limits });
 
-  if (cErr) return err(cErr.message);
-  const cardRows = cards ?? [];
-  if (cardRows.length === 0) return ok({ cards: [], dueCount: 0, newCount: 0 });
+  const [preset, { data: group }] = await Promise.all([
+    resolvePreset(supabase, userId, args.project_id),
+    supabase
+      .from("flashcard_groups")
+      .select("bidirectional")
+      .eq("id", args.group_id)
+      .maybeSingle<{ bidirectional: boolean | null }>(),
+  ]);
+
+  // Cada carta produce sus ítems: básica => ordinal 0 (+ reverse si el grupo es
+  // bidireccional); cloze => uno por hueco, solo forward
+  const bidirectional = Boolean(group?.bidirectional);
+  const items = cardRows.flatMap((c) =>
+    practiceOrdinals(c.kind, c.front).flatMap((ordinal) => {
+      const directions: CardDirection[] =
+        bidirectional && c.kind !== "cloze" ? ["forward", "reverse"] : ["forward"];
+      return directions.map((direction) => ({ card: c, ordinal, direction }));
+    })
+  );
+  if (items.length === 0) return ok({ session_id: null, cards: [], dueCount: 0, newCount: 0, limits });
 
   // 2) lazy init review_state
   // Insert masivo con on conflict do nothing
-  const payload = cardRows.map((c) => ({
+  const payload = items.map(({ card: c, ordinal, direction }) => ({
     user_id: userId,
     card_id: c.id,
+    ordinal,
+    direction,
     // defaults (due ahora, state new)
-    due_at: new Date().toISOString(),
+    due_at: now.toISOString(),
     state: "new",
     interval_days: 0,
-    ease: 2.5,
+    ease: preset.starting_ease,
     reps: 0,
     lapses: 0,
   }));
 
   const { error: insErr } = await supabase
     .from("flashcard_review_state")
-    .upsert(payload, { onConflict: "user_id,card_id", ignoreDuplicates: true });
+    .upsert(payload, { onConflict: "user_id,card_id,ordinal,direction", ignoreDuplicates: true });
 
   if (insErr) return err(insErr.message);
 
-  // 3) traemos estados + cards (join manual)
-  const { data: st, error: stErr } = await supabase
-    .from("flashcard_review_state")
-    .select("card_id,due_at,state,interval_days,ease,reps,lapses")
-    .eq("user_id", userId)
-    .in("card_id", cardRows.map((x) => x.id));
+  // 3) traemos estados + cards (join manual); varias filas por carta (huecos/direcciones)
+  const st: StateRow[] = [];
+  try {
+    for (let i = 0; i < cardRows.length; i += ID_CHUNK) {
+      const ids = cardRows.slice(i, i + ID_CHUNK).map((x) => x.id);
+      st.push(
+        ...(await fetchAll<StateRow>((from, to) =>
+          supabase
+            .from("flashcard_review_state")
+            .select("card_id,ordinal,direction,due_at,state,interval_days,ease,reps,lapses")
+            .eq("user_id", userId)
+            .in("card_id", ids)
+            .order("card_id", { ascending: true })
+            .order("ordinal", { ascending: true })
+            .order("direction", { ascending: true })
+            .range(from, to)
+        ))
+      );
+    }
+  } catch (e) {
+    return err(e instanceof Error ? e.message : "No se pudo leer el estado de repaso.");
+  }
 
-  if (stErr) return err(stErr.message);
+  const stateByCard = new Map<string, StateRow>();
+  for (const s of st) stateByCard.set(`${s.card_id}:${s.ordinal ?? 0}:${directionFrom(s.direction)}`, s);
 
-    const stateByCard = new Map<string, typeof st[0]>();
-    for (const s of st ?? []) stateByCard.set(s.card_id, s);
+  const flagsRes = await loadCardFlags(supabase, userId, cardRows.map((x) => x.id), now);
+  if (!flagsRes.ok) return err(flagsRes.error);
+  const flags = flagsRes.data;
 
-  const now = new Date();
-
-  const merged: PracticeCard[] = cardRows.map((c) => {
-    const s = stateByCard.get(c.id);
+  const merged: PracticeCard[] = items.flatMap(({ card: c, ordinal, direction }) => {
+    const f = flags.get(c.id);
+    if (f?.suspended || f?.buried) return [];
+    const s = stateByCard.get(`${c.id}:${ordinal}:${direction}`);
     return {
       id: c.id,
+      kind: c.kind === "cloze" ? "cloze" : "basic",
+      ordinal,
+      direction,
       group_id: c.group_id,
       front: c.front,
       back: c.back,
       order_index: c.order_index,
 
-      due_at: s?.due_at ?? new Date().toISOString(),
+      due_at: s?.due_at ?? now.toISOString(),
       state: (s?.state ?? "new") as ReviewState,
       interval_days: s?.interval_days ?? 0,
-      ease: Number(s?.ease ?? 2.5),
+      ease: Number(s?.ease ?? preset.starting_ease),
+      leech: f?.leech ?? false,
     };
   });
 
-  const due = merged.filter((x) => new Date(x.due_at) <= now);
+  const isDue = (x: PracticeCard) => new Date(x.due_at).getTime() <= now.getTime();
+  const byDue = (a: PracticeCard, b: PracticeCard) => {
+    const ad = new Date(a.due_at).getTime();
+    const bd = new Date(b.due_at).getTime();
+    if (ad !== bd) return ad - bd;
+    return a.order_index - b.order_index || a.ordinal - b.ordinal || a.direction.localeCompare(b.direction);
+  };
+
+  if (mode === "due") {
+    const learning = merged
+      .filter((x) => (x.state === "learning" || x.state === "relearning") && isDue(x))
+      .sort(byDue);
+    const reviews = merged
+      .filter((x) => x.state === "review" && isDue(x))
+      .sort(byDue)
+      .slice(0, daily.reviewsLeft);
+    const newOnes = merged
+      .filter((x) => x.state === "new")
+      .sort((a, b) => a.order_index - b.order_index || a.ordinal - b.ordinal || a.direction.localeCompare(b.direction))
+      .slice(0, daily.newLeft);
+
+    const queue = [...learning, ...reviews, ...newOnes].slice(0, limit);
+    const sessionId = await createSession(supabase, userId, args, mode, queue);
+    if (!sessionId.ok) return err(sessionId.error);
+
+    return ok({
+      session_id: sessionId.data,
+      cards: queue,
+      dueCount: learning.length + reviews.length,
+      newCount: newOnes.length,
+      limits,
+    });
+  }
+
+  const due = merged.filter((x) => x.state !== "new" && isDue(x));
   const newOnes = merged.filter((x) => x.state === "new");
 
   // Orden:
@@ -200,60 +607,234 @@ export async function startPracticeForGroup(args: {
   // 2) luego no vencidas (due_at asc)
   // 3) y como desempate order_index
   merged.sort((a, b) => {
-    const ad = new Date(a.due_at).getTime();
-    const bd = new Date(b.due_at).getTime();
-
-    const aDue = ad <= now.getTime();
-    const bDue = bd <= now.getTime();
+    const aDue = isDue(a);
+    const bDue = isDue(b);
     if (aDue !== bDue) return aDue ? -1 : 1;
-
-    if (ad !== bd) return ad - bd;
-    return a.order_index - b.order_index;
+    return byDue(a, b);
   });
 
+  const queue = merged.slice(0, limit);
+  const sessionId = await createSession(supabase, userId, args, mode, queue);
+  if (!sessionId.ok) return err(sessionId.error);
+
   return ok({
-    cards: merged.slice(0, limit),
+    session_id: sessionId.data,
+    cards: queue,
     dueCount: due.length,
     newCount: newOnes.length,
+    limits,
+  });
+}
+
+/**
+ * Sesión activa del usuario para el grupo (últimas 6 h), para retomar
+ * desde cualquier dispositivo. null si no hay.
+ */
+export async function getActivePracticeSession(args: {
+  project_id: string;
+  group_id: string;
+}): Promise<ActionResult<PracticeSession | null>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+
+  const since = new Date(Date.now() - SESSION_TTL_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from("practice_sessions")
+    .select("id,mode,metodo,save_to_srs,queue,idx,initial_count,reviewed_count,undo")
+    .eq("user_id", userRes.user.id)
+    .eq("project_id", args.project_id)
+    .eq("group_id", args.group_id)
+    .eq("status", "active")
+    .gte("updated_at", since)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<PracticeSessionRow>();
+
+  if (error) return err(error.message);
+  if (!data || !Array.isArray(data.queue)) return ok(null);
+
+  const mode: PracticeMode = data.mode === "all" ? "all" : "due";
+  const queue = data.queue;
+  const daily = await loadDailyLimits(supabase, userRes.user.id);
+
+  return ok({
+    id: data.id,
+    mode,
+    metodo: metodoFrom(data.metodo),
+    save_to_srs: mode === "due" ? true : Boolean(data.save_to_srs),
+    queue,
+    idx: queue.length === 0 ? 0 : Math.max(0, Math.min(data.idx ?? 0, queue.length - 1)),
+    initial_count: data.initial_count ?? queue.length,
+    reviewed_count: data.reviewed_count ?? 0,
+    can_undo: data.undo != null,
+    limits: {
+      newLeft: daily.newLeft,
+      reviewsLeft: daily.reviewsLeft,
+      newPerDay: daily.newPerDay,
+      reviewsPerDay: daily.reviewsPerDay,
+    },
   });
 }
 
+/**
+ * Guarda el progreso de la sesión (cola, posición, preferencias).
+ * Con la cola vacía la sesión queda terminada.
+ */
+export async function savePracticeSession(args: {
+  session_id: string;
+  queue: PracticeCard[];
+  idx: number;
+  initial_count: number;
+  reviewed_count: number;
+  metodo: PracticeMetodo;
+  save_to_srs: boolean;
+}): Promise<ActionResult<null>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+
+  const nowIso = new Date().toISOString();
+  const finished = args.initial_count > 0 && args.queue.length === 0;
+
+  const { error } = await supabase
+    .from("practice_sessions")
+    .update({
+      queue: args.queue,
+      idx: Math.max(0, Math.floor(args.idx)),
+      initial_count: Math.max(0, Math.floor(args.initial_count)),
+      reviewed_count: Math.max(0, Math.floor(args.reviewed_count)),
+      metodo: metodoFrom(args.metodo),
+      save_to_srs: Boolean(args.save_to_srs),
+      updated_at: nowIso,
+      ...(finished ? { status: "finished", finished_at: nowIso } : {}),
+    })
+    .eq("id", args.session_id)
+    .eq("user_id", userRes.user.id)
+    .eq("status", "active");
+
+  if (error) return err(error.message);
+  return ok(null);
+}
+
 /**
  * Envía respuesta de repaso (rating) y devuelve el nuevo estado.
+ * ordinal: hueco de una cloze (0 = carta básica); direction: forward/reverse.
+ * Con session_id, además registra la respuesta (y el tiempo) en la sesión.
+ * Nuevas y repasos consumen el cupo diario: agotado, no se guarda (en ningún modo).
+ * Si el lapso alcanza el umbral de sanguijuela (profiles.leech_threshold) marca la
+ * carta y, con leech_action = 'suspend', la suspende (leech / suspended en la respuesta);
+ * el log guarda en prev_flags el valor anterior de esos campos para poder deshacerlo.
  */
 export async function submitReview(args: {
   card_id: string;
+  ordinal?: number;
+  direction?: CardDirection;
   rating: ReviewRating;
-}): Promise<ActionResult<{ next_due_at: string; next_state: ReviewState; interval_days: number; ease: number }>> {
+  session_id?: string | null;
+  elapsed_ms?: number;
+  undo?: PracticeUndoSnap | null;
+}): Promise<
+  ActionResult<{
+    next_due_at: string;
+    next_state: ReviewState;
+    interval_days: number;
+    ease: number;
+    log_id: string | null;
+    leech: boolean;
+    suspended: boolean;
+  }>
+> {
   const supabase = await createClient();
 
   const { data: userRes, error: userErr } = await supabase.auth.getUser();
   if (userErr || !userRes.user) return err("No autenticado.");
   const userId = userRes.user.id;
+  const ordinal = ordinalFrom(args.ordinal);
+  const direction = directionFrom(args.direction);
 
   // Estado actual
   const { data: cur, error: curErr } = await supabase
     .from("flashcard_review_state")
-    .select("user_id,card_id,due_at,state,interval_days,ease,reps,lapses")
+    .select(
+      "user_id,card_id,due_at,state,interval_days,ease,reps,lapses,stability,difficulty,learning_step,last_review_at"
+    )
     .eq("user_id", userId)
     .eq("card_id", args.card_id)
+    .eq("ordinal", ordinal)
+    .eq("direction", direction)
     .maybeSingle();
 
   if (curErr) return err(curErr.message);
   if (!cur) return err("Estado de repaso no encontrado (¿faltó init?).");
 
+  // Cupo diario (todos los proyectos); learning/relearning no consumen
+  const cap = dailyCapFor(cur.state);
+  if (cap) {
+    const daily = await loadDailyLimits(supabase, userId);
+    if (cap === "new" && daily.newLeft <= 0) {
+      return err(
+        `Alcanzaste tu límite de ${daily.newPerDay} tarjetas nuevas por día. Sigue sin guardar en agenda o súbelo en tu perfil.`
+      );
+    }
+    if (cap === "review" && daily.reviewsLeft <= 0) {
+      return err(
+        `Alcanzaste tu límite de ${daily.reviewsPerDay} repasos por día. Sigue sin guardar en agenda o súbelo en tu perfil.`
+      );
+    }
+  }
+
+  // Algoritmo elegido por el usuario (si falla la lectura, SM-2)
+  const { data: prof } = await supabase
+    .from("profiles")
+    .select("srs_algorithm,leech_threshold,leech_action")
+    .eq("id", userId)
+    .maybeSingle();
+
+  const algorithm = srsAlgorithmFrom(prof?.srs_algorithm);
+  const leechSettings = leechSettingsFrom(prof ?? null);
+
+  // Preset según el proyecto de la carta
+  const { data: card, error: cardErr } = await supabase
+    .from("flashcards")
+    .select("project_id")
+    .eq("id", args.card_id)
+    .maybeSingle<{ project_id: string | number }>();
+
+  if (cardErr) return err(cardErr.message);
+  if (!card) return err("Carta no encontrada.");
+
+  const preset = await resolvePreset(supabase, userId, card.project_id);
+
   const now = new Date();
 
-  const next = computeNext({
+  let next = computeNext(algorithm, {
     rating: args.rating,
     state: cur.state as ReviewState,
     interval_days: cur.interval_days ?? 0,
     ease: Number(cur.ease ?? 2.5),
     reps: cur.reps ?? 0,
     lapses: cur.lapses ?? 0,
+    stability: cur.stability == null ? null : Number(cur.stability),
+    difficulty: cur.difficulty == null ? null : Number(cur.difficulty),
+    last_review_at: cur.last_review_at ?? null,
+    learning_step: cur.learning_step ?? 0,
+    preset,
     now,
   });
 
+  // Fuzz + balanceo solo para intervalos de review
+  if (next.nextState === "review") {
+    const [lo, hi] = fuzzRange(next.interval_days, preset.max_interval_days);
+    if (hi > lo) {
+      const days = await pickLeastLoadedDay(supabase, userId, now, lo, hi);
+      next = withInterval(next, days, now);
+    }
+  }
+
   // Update estado
   const { error: upErr } = await supabase
     .from("flashcard_review_state")
@@ -264,35 +845,432 @@ export async function submitReview(args: {
       ease: next.ease,
       reps: next.reps,
       lapses: next.lapses,
+      stability: next.stability,
+      difficulty: next.difficulty,
+      learning_step: next.learning_step,
       last_review_at: now.toISOString(),
     })
     .eq("user_id", userId)
-    .eq("card_id", args.card_id);
+    .eq("card_id", args.card_id)
+    .eq("ordinal", ordinal)
+    .eq("direction", direction);
 
   if (upErr) return err(upErr.message);
 
-  // Log (opcional, pero recomendado)
-  const { error: logErr } = await supabase.from("flashcard_review_log").insert({
-    user_id: userId,
-    card_id: args.card_id,
-    rating: args.rating,
-    prev_state: cur.state,
-    next_state: next.nextState,
-    prev_due_at: cur.due_at,
-    next_due_at: next.nextDue.toISOString(),
-    prev_interval_days: cur.interval_days,
-    next_interval_days: next.interval_days,
-    prev_ease: cur.ease,
-    next_ease: next.ease,
-  });
+  // Sanguijuela: solo cuando esta respuesta sumó un lapso
+  const leechHit = next.lapses > (cur.lapses ?? 0) && isLeechLapse(next.lapses, leechSettings.threshold);
+  const autoSuspend = leechHit && leechSettings.action === "suspend";
+  let prevFlags: LeechFlagsPatch | null = null;
+  if (leechHit) {
+    const { data: f } = await supabase
+      .from("flashcard_user_flags")
+      .select("leech_at,suspended_at")
+      .eq("user_id", userId)
+      .eq("card_id", args.card_id)
+      .maybeSingle<{ leech_at: string | null; suspended_at: string | null }>();
+    prevFlags = { leech_at: f?.leech_at ?? null, ...(autoSuspend ? { suspended_at: f?.suspended_at ?? null } : {}) };
+  }
 
-  // Si falla el log, no rompemos UX
-  void logErr;
+  // Log (prev_* permite deshacer)
+  const { data: log, error: logErr } = await supabase
+    .from("flashcard_review_log")
+    .insert({
+      user_id: userId,
+      card_id: args.card_id,
+      ordinal,
+      direction,
+      rating: args.rating,
+      prev_state: cur.state,
+      next_state: next.nextState,
+      prev_due_at: cur.due_at,
+      next_due_at: next.nextDue.toISOString(),
+      prev_interval_days: cur.interval_days,
+      next_interval_days: next.interval_days,
+      prev_ease: cur.ease,
+      next_ease: next.ease,
+      prev_reps: cur.reps ?? 0,
+      prev_lapses: cur.lapses ?? 0,
+      prev_last_review_at: cur.last_review_at ?? null,
+      prev_stability: cur.stability,
+      next_stability: next.stability,
+      prev_difficulty: cur.difficulty,
+      next_difficulty: next.difficulty,
+      prev_learning_step: cur.learning_step ?? 0,
+      next_learning_step: next.learning_step,
+      prev_flags: prevFlags,
+      algorithm,
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  // Si falla el log, no rompemos UX (solo se pierde el deshacer en servidor)
+  const logId = logErr ? null : log?.id ?? null;
+
+  let leech = false;
+  let suspended = false;
+  if (leechHit) {
+    suspended = autoSuspend;
+    const { error: flagErr } = await supabase.from("flashcard_user_flags").upsert(
+      {
+        user_id: userId,
+        card_id: args.card_id,
+        leech_at: now.toISOString(),
+        ...(suspended ? { suspended_at: now.toISOString() } : {}),
+        updated_at: now.toISOString(),
+      },
+      { onConflict: "user_id,card_id" }
+    );
+    // la respuesta ya quedó guardada; sin flags solo se pierde la marca
+    leech = !flagErr;
+    suspended = suspended && !flagErr;
+  }
+
+  if (args.session_id) {
+    await appendAnswer(
+      supabase,
+      userId,
+      args.session_id,
+      {
+        card_id: args.card_id,
+        ordinal,
+        direction,
+        rating: args.rating,
+        elapsed_ms: elapsedFrom(args.elapsed_ms),
+        saved: true,
+        log_id: logId,
+        answered_at: now.toISOString(),
+      },
+      args.undo ?? null
+    );
+  }
 
   return ok({
     next_due_at: next.nextDue.toISOString(),
     next_state: next.nextState,
     interval_days: next.interval_days,
     ease: next.ease,
+    log_id: logId,
+    leech,
+    suspended,
   });
 }
+
+/**
+ * Deshace una respuesta guardada: restaura el estado previo desde
+ * flashcard_review_log (prev_*) y marca la entrada como revertida.
+ * Sin log_id deshace la última respuesta vigente del usuario (opcionalmente de card_id).
+ * Fuera de una sesión se usa desde Agenda → Historial (actividad reciente).
+ * Requiere columnas: flashcard_review_log.reverted_at timestamptz null y
+ * flashcard_review_log.prev_flags jsonb null (ver submitReview).
+ */
+export async function undoReview(args: {
+  log_id?: string | null;
+  card_id?: string | null;
+}): Promise<ActionResult<UndoReviewResult>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+  const userId = userRes.user.id;
+
+  let logId = args.log_id ?? null;
+
+  if (!logId) {
+    let q = supabase
+      .from("flashcard_review_log")
+      .select("id")
+      .eq("user_id", userId)
+      .is("reverted_at", null);
+    if (args.card_id) q = q.eq("card_id", args.card_id);
+
+    const { data: last, error: lastErr } = await q
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle<{ id: string }>();
+
+    if (lastErr) return err(lastErr.message);
+    if (!last) return err("No hay respuestas para deshacer.");
+    logId = last.id;
+  }
+
+  return revertReviewLog(supabase, userId, logId);
+}
+
+/**
+ * Respuesta en repaso libre sin guardar: no toca la agenda,
+ * solo queda en la línea de tiempo de la sesión.
+ */
+export async function recordPracticeAnswer(args: {
+  session_id: string;
+  card_id: string;
+  ordinal?: number;
+  direction?: CardDirection;
+  rating: ReviewRating;
+  elapsed_ms?: number;
+  undo?: PracticeUndoSnap | null;
+}): Promise<ActionResult<null>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+
+  const { error } = await appendAnswer(
+    supabase,
+    userRes.user.id,
+    args.session_id,
+    {
+      card_id: args.card_id,
+      ordinal: ordinalFrom(args.ordinal),
+      direction: directionFrom(args.direction),
+      rating: args.rating,
+      elapsed_ms: elapsedFrom(args.elapsed_ms),
+      saved: false,
+      log_id: null,
+      answered_at: new Date().toISOString(),
+    },
+    args.undo ?? null
+  );
+
+  if (error) return err(error.message);
+  return ok(null);
+}
+
+/**
+ * Deshace la última respuesta de la sesión:
+ * - si se guardó en agenda, la revierte en servidor (ver undoReview)
+ * - devuelve el snapshot previo (cola/posición) para que el cliente lo aplique
+ * Solo un nivel de deshacer.
+ */
+export async function undoPracticeAnswer(args: {
+  session_id: string;
+}): Promise<ActionResult<PracticeUndoSnap>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+  const userId = userRes.user.id;
+
+  const { data: ses, error: sesErr } = await supabase
+    .from("practice_sessions")
+    .select("id,answers,undo")
+    .eq("id", args.session_id)
+    .eq("user_id", userId)
+    .maybeSingle<{ id: string; answers: PracticeAnswer[] | null; undo: PracticeUndoSnap | null }>();
+
+  if (sesErr) return err(sesErr.message);
+  if (!ses) return err("Sesión no encontrada.");
+  if (!ses.undo) return err("No hay nada que deshacer.");
+
+  // La respuesta queda en la línea de tiempo, marcada como revertida
+  const answers = [...(ses.answers ?? [])];
+  const at = answers.map((a) => !a.reverted).lastIndexOf(true);
+  const last = at >= 0 ? answers[at] : null;
+
+  if (last?.saved) {
+    if (!last.log_id) return err("No se encontró el registro de esta respuesta; no se puede deshacer.");
+    const reverted = await revertReviewLog(supabase, userId, last.log_id);
+    if (!reverted.ok) return err(reverted.error);
+  }
+  if (last) answers[at] = { ...last, reverted: true };
+
+  const snap = ses.undo;
+
+  const { error: upErr } = await supabase
+    .from("practice_sessions")
+    .update({
+      answers,
+      undo: null,
+      queue: snap.queue,
+      idx: snap.idx,
+      reviewed_count: snap.reviewedCount,
+      // si se había terminado con la última respuesta, se reabre
+      status: "active",
+      finished_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", ses.id)
+    .eq("user_id", userId);
+
+  if (upErr) return err(upErr.message);
+
+  return ok(snap);
+}
+
+/* ---------------------------------------
+   SUSPENDER / ENTERRAR / SANGUIJUELAS
+   Flags personales por carta (flashcard_user_flags, ver lib/leeches).
+   Aplican a todos los ítems de la carta (huecos y direcciones).
+----------------------------------------*/
+
+const MAX_FLAGGED = 200;
+
+export type FlaggedCard = {
+  card_id: string;
+  project_id: string;
+  project_title: string;
+  group_title: string | null;
+  kind: "basic" | "cloze";
+  front: string;
+  back: string;
+  lapses: number;
+  leech_at: string | null;
+  suspended_at: string | null;
+  can_edit: boolean;
+};
+
+function isUuid(v: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+async function upsertFlags(
+  cardId: string,
+  patch: { suspended_at?: string | null; buried_until?: string | null; leech_at?: string | null }
+): Promise<ActionResult<null>> {
+  if (!isUuid(cardId)) return err("Carta inválida.");
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+
+  const { error } = await supabase
+    .from("flashcard_user_flags")
+    .upsert(
+      { user_id: userRes.user.id, card_id: cardId, ...patch, updated_at: new Date().toISOString() },
+      { onConflict: "user_id,card_id" }
+    );
+
+  if (error) return err(error.message);
+  return ok(null);
+}
+
+/** Suspende (o reactiva) la carta: no aparece en práctica ni agenda hasta reactivarla. */
+export async function setCardSuspended(args: { card_id: string; suspended: boolean }): Promise<ActionResult<null>> {
+  return upsertFlags(args.card_id, { suspended_at: args.suspended ? new Date().toISOString() : null });
+}
+
+/** Entierra la carta hasta mañana. */
+export async function buryCard(args: { card_id: string }): Promise<ActionResult<{ buried_until: string }>> {
+  const until = buryUntil().toISOString();
+  const res = await upsertFlags(args.card_id, { buried_until: until });
+  return res.ok ? ok({ buried_until: until }) : res;
+}
+
+/** Quita la marca de sanguijuela (p. ej. tras reescribirla). */
+export async function clearLeechMark(args: { card_id: string }): Promise<ActionResult<null>> {
+  return upsertFlags(args.card_id, { leech_at: null });
+}
+
+/** Cartas suspendidas y enterradas del usuario (editor de bloques). */
+export async function getCardFlagIds(args: {
+  card_ids: string[];
+}): Promise<ActionResult<{ suspended: string[]; buried: string[] }>> {
+  const ids = (args.card_ids ?? []).filter(isUuid);
+  if (!ids.length) return ok({ suspended: [], buried: [] });
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+
+  const flags = await loadCardFlags(supabase, userRes.user.id, ids);
+  if (!flags.ok) return err(flags.error);
+  const entries = [...flags.data.entries()];
+  return ok({
+    suspended: entries.filter(([, f]) => f.suspended).map(([id]) => id),
+    buried: entries.filter(([, f]) => f.buried).map(([id]) => id),
+  });
+}
+
+/**
+ * Sanguijuelas y suspendidas del usuario (todos los proyectos o uno),
+ * más recientes primero. can_edit: dueño o editor (puede reescribirla).
+ */
+export async function listFlaggedCards(args: { project_id?: string | null }): Promise<ActionResult<FlaggedCard[]>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+  const userId = userRes.user.id;
+
+  const { data: flags, error: fErr } = await supabase
+    .from("flashcard_user_flags")
+    .select("card_id,leech_at,suspended_at,updated_at")
+    .eq("user_id", userId)
+    .or("leech_at.not.is.null,suspended_at.not.is.null")
+    .order("updated_at", { ascending: false })
+    .limit(MAX_FLAGGED)
+    .returns<{ card_id: string; leech_at: string | null; suspended_at: string | null; updated_at: string }[]>();
+
+  if (fErr) return err(fErr.message);
+  if (!flags?.length) return ok([]);
+
+  const cardIds = flags.map((f) => f.card_id);
+  let cQuery = supabase.from("flashcards").select("id,project_id,group_id,kind,front,back").in("id", cardIds);
+  if (args.project_id) cQuery = cQuery.eq("project_id", args.project_id);
+
+  const [{ data: cards, error: cErr }, { data: states }] = await Promise.all([
+    cQuery.returns<{ id: string; project_id: string | number; group_id: string | null; kind: string; front: string; back: string }[]>(),
+    supabase
+      .from("flashcard_review_state")
+      .select("card_id,lapses")
+      .eq("user_id", userId)
+      .in("card_id", cardIds)
+      .returns<{ card_id: string; lapses: number | null }[]>(),
+  ]);
+
+  if (cErr) return err(cErr.message);
+
+  const projectIds = [...new Set((cards ?? []).map((c) => String(c.project_id)))];
+  const groupIds = [...new Set((cards ?? []).map((c) => c.group_id).filter((x): x is string => !!x))];
+
+  const [{ data: projects }, { data: groups }, { data: mems }] = await Promise.all([
+    projectIds.length
+      ? supabase
+          .from("projects")
+          .select("id,title,owner_user_id")
+          .in("id", projectIds)
+          .returns<{ id: string | number; title: string; owner_user_id: string }[]>()
+      : Promise.resolve({ data: [] as { id: string | number; title: string; owner_user_id: string }[] }),
+    groupIds.length
+      ? supabase.from("flashcard_groups").select("id,title").in("id", groupIds).returns<{ id: string; title: string }[]>()
+      : Promise.resolve({ data: [] as { id: string; title: string }[] }),
+    projectIds.length
+      ? supabase
+          .from("project_members")
+          .select("project_id,role")
+          .eq("user_id", userId)
+          .in("project_id", projectIds)
+          .returns<{ project_id: string | number; role: string }[]>()
+      : Promise.resolve({ data: [] as { project_id: string | number; role: string }[] }),
+  ]);
+
+  const projectById = new Map((projects ?? []).map((p) => [String(p.id), p]));
+  const groupTitle = new Map((groups ?? []).map((g) => [g.id, g.title]));
+  const editorOf = new Set((mems ?? []).filter((m) => m.role === "editor").map((m) => String(m.project_id)));
+  const cardById = new Map((cards ?? []).map((c) => [c.id, c]));
+
+  // lapsos: el ítem con más lapsos de la carta
+  const lapses = new Map<string, number>();
+  for (const s of states ?? []) lapses.set(s.card_id, Math.max(lapses.get(s.card_id) ?? 0, s.lapses ?? 0));
+
+  const out: FlaggedCard[] = [];
+  for (const f of flags) {
+    const c = cardById.get(f.card_id);
+    if (!c) continue;
+    const pid = String(c.project_id);
+    const p = projectById.get(pid);
+    out.push({
+      card_id: c.id,
+      project_id: pid,
+      project_title: p?.title ?? "Proyecto",
+      group_title: c.group_id ? groupTitle.get(c.group_id) ?? null : null,
+      kind: c.kind === "cloze" ? "cloze" : "basic",
+      front: c.front,
+      back: c.back,
+      lapses: lapses.get(c.id) ?? 0,
+      leech_at: f.leech_at,
+      suspended_at: f.suspended_at,
+      can_edit: p?.owner_user_id === userId || editorOf.has(pid),
+    });
+  }
+
+  return ok(out);
+}
@@ -0,0 +1,248 @@
+// app/protected/projects/[projectId]/progress-client.tsx
+"use client";
+
+import { Fragment, useEffect, useMemo, useState, useTransition } from "react";
+import { Download, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatDateTimeCL } from "@/lib/datetime";
+import {
+  MASTERED_INTERVAL_DAYS,
+  PROGRESS_WINDOW_DAYS,
+  retentionRate,
+  type ProgressCounts,
+  type ProjectProgress,
+} from "@/lib/member-progress";
+import type { ProjectRole } from "@/lib/types/study";
+import { getProjectProgressRpc } from "./actions";
+
+type View = "members" | "groups";
+
+const TH_CLASS = "px-2 py-1.5 text-left text-[11px] font-medium text-muted-foreground whitespace-nowrap";
+const TD_CLASS = "px-2 py-1.5 text-xs tabular-nums whitespace-nowrap";
+
+function roleLabel(role: ProjectRole): string {
+  if (role === "owner") return "Dueño";
+  if (role === "editor") return "Editor";
+  return "Invitado";
+}
+
+function fmtRate(c: Pick<ProgressCounts, "reviews" | "passed">): string {
+  const r = retentionRate(c);
+  return r == null ? "—" : `${Math.round(r * 100)}%`;
+}
+
+function CountCells(props: { c: ProgressCounts }) {
+  const c = props.c;
+  return (
+    <>
+      <td className={TD_CLASS}>
+        {c.seen}/{c.cards}
+      </td>
+      <td className={TD_CLASS}>{c.mastered}</td>
+      <td className={c.overdue > 0 ? `${TD_CLASS} text-destructive` : TD_CLASS}>{c.overdue}</td>
+      <td className={TD_CLASS}>
+        {fmtRate(c)} <span className="text-muted-foreground">({c.reviews})</span>
+      </td>
+      <td className={TD_CLASS}>{c.last_review_at ? formatDateTimeCL(c.last_review_at) : "—"}</td>
+    </>
+  );
+}
+
+function HeaderCells() {
+  return (
+    <>
+      <th className={TH_CLASS}>Vistas</th>
+      <th className={TH_CLASS}>Dominadas</th>
+      <th className={TH_CLASS}>Vencidas</th>
+      <th className={TH_CLASS}>Retención ({PROGRESS_WINDOW_DAYS}d)</th>
+      <th className={TH_CLASS}>Última actividad</th>
+    </>
+  );
+}
+
+/** Progreso de miembros por grupo (solo dueño). */
+export function ProgressPanel(props: { projectId: string }) {
+  const [progress, setProgress] = useState<ProjectProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<View>("members");
+  const [openUserId, setOpenUserId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function load() {
+    setError(null);
+    startTransition(async () => {
+      const res = await getProjectProgressRpc({ project_id: props.projectId });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setProgress(res.data);
+    });
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.projectId]);
+
+  const groupTitle = useMemo(() => new Map((progress?.groups ?? []).map((g) => [g.id, g.title])), [progress]);
+
+  // suma por grupo de los miembros que comparten
+  const byGroup = useMemo(() => {
+    if (!progress) return [];
+    const visible = progress.members.filter((m) => !m.hidden);
+    return progress.groups.map((g) => {
+      const rows = visible.map((m) => m.groups.find((x) => x.group_id === g.id)).filter((x): x is NonNullable<typeof x> => !!x);
+      const active = rows.filter((r) => r.seen > 0).length;
+      const sum = rows.reduce<ProgressCounts>(
+        (acc, r) => ({
+          cards: acc.cards,
+          seen: acc.seen + r.seen,
+          mastered: acc.mastered + r.mastered,
+          overdue: acc.overdue + r.overdue,
+          reviews: acc.reviews + r.reviews,
+          passed: acc.passed + r.passed,
+          last_review_at:
+            !acc.last_review_at || (r.last_review_at && r.last_review_at > acc.last_review_at)
+              ? r.last_review_at
+              : acc.last_review_at,
+        }),
+        { cards: g.cards * visible.length, seen: 0, mastered: 0, overdue: 0, reviews: 0, passed: 0, last_review_at: null }
+      );
+      return { group: g, active, members: visible.length, sum };
+    });
+  }, [progress]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="min-w-0 space-y-1">
+          <CardTitle>Progreso</CardTitle>
+          <CardDescription>
+            Vistas: tarjetas repasadas al menos una vez. Dominadas: intervalo de {MASTERED_INTERVAL_DAYS}+ días.
+            Retención: respuestas distintas de &quot;Otra vez&quot; en los últimos {PROGRESS_WINDOW_DAYS} días.
+          </CardDescription>
+        </div>
+        <div className="flex shrink-0 flex-wrap gap-2">
+          <Button type="button" size="sm" variant="ghost" className="gap-2" disabled={isPending} onClick={load}>
+            <RefreshCw className="h-4 w-4" />
+            Actualizar
+          </Button>
+          <Button asChild size="sm" variant="secondary" className="gap-2">
+            <a href={`/protected/projects/${encodeURIComponent(props.projectId)}/progress`}>
+              <Download className="h-4 w-4" />
+              CSV
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {error ? (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+        ) : null}
+
+        <div className="flex gap-1">
+          <Button type="button" size="sm" variant={view === "members" ? "default" : "ghost"} onClick={() => setView("members")}>
+            Por miembro
+          </Button>
+          <Button type="button" size="sm" variant={view === "groups" ? "default" : "ghost"} onClick={() => setView("groups")}>
+            Por grupo
+          </Button>
+        </div>
+
+        {!progress ? (
+          <p className="text-xs text-muted-foreground">{isPending ? "Cargando…" : null}</p>
+        ) : view === "members" ? (
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full">
+              <thead className="bg-muted/30">
+                <tr>
+                  <th className={TH_CLASS}>Miembro</th>
+                  <HeaderCells />
+                </tr>
+              </thead>
+              <tbody>
+                {progress.members.map((m) => (
+                  <Fragment key={m.user_id}>
+                    <tr
+                      className={m.hidden ? "border-t" : "border-t cursor-pointer hover:bg-muted/20"}
+                      onClick={() => (m.hidden ? null : setOpenUserId((cur) => (cur === m.user_id ? null : m.user_id)))}
+                    >
+                      <td className="px-2 py-1.5 text-xs">
+                        <span className="font-medium">{m.username ?? "Sin nombre"}</span>{" "}
+                        <span className="text-muted-foreground">· {roleLabel(m.role)}</span>
+                      </td>
+                      {m.hidden ? (
+                        <td colSpan={5} className="px-2 py-1.5 text-xs text-muted-foreground">
+                          Prefiere no compartir su progreso.
+                        </td>
+                      ) : (
+                        <CountCells c={m.total} />
+                      )}
+                    </tr>
+
+                    {openUserId === m.user_id
+                      ? m.groups.map((g) => (
+                          <tr key={`${m.user_id}:${g.group_id}`} className="bg-muted/10">
+                            <td className="px-2 py-1 pl-6 text-[11px] text-muted-foreground">
+                              {groupTitle.get(g.group_id) || "Sin título"}
+                            </td>
+                            <CountCells c={g} />
+                          </tr>
+                        ))
+                      : null}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full">
+              <thead className="bg-muted/30">
+                <tr>
+                  <th className={TH_CLASS}>Grupo</th>
+                  <th className={TH_CLASS}>Activos</th>
+                  <HeaderCells />
+                </tr>
+              </thead>
+              <tbody>
+                {byGroup.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-2 py-3 text-xs text-muted-foreground">
+                      Este proyecto no tiene grupos de flashcards.
+                    </td>
+                  </tr>
+                ) : null}
+                {byGroup.map((g) => (
+                  <tr key={g.group.id} className="border-t">
+                    <td className="px-2 py-1.5 text-xs">
+                      <span className="font-medium">{g.group.title || "Sin título"}</span>{" "}
+                      <span className="text-muted-foreground">· {g.group.cards} tarjetas</span>
+                    </td>
+                    <td className={TD_CLASS}>
+                      {g.active}/{g.members}
+                    </td>
+                    <CountCells c={g.sum} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-[11px] text-muted-foreground">
+          Cada miembro puede dejar de compartir su progreso desde la vista del proyecto.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
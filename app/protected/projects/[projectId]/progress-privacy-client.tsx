@@ -0,0 +1,49 @@
+// app/protected/projects/[projectId]/progress-privacy-client.tsx
+"use client";
+
+import { useState, useTransition } from "react";
+import { Eye, EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { setProgressPrivacyRpc } from "./actions";
+
+/** El miembro decide si el dueño ve su progreso en el tab Progreso. */
+export function ProgressPrivacyToggle(props: { projectId: string; hidden: boolean }) {
+  const [hidden, setHidden] = useState(props.hidden);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function toggle() {
+    const next = !hidden;
+    setError(null);
+    startTransition(async () => {
+      const res = await setProgressPrivacyRpc({ project_id: props.projectId, hidden: next });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setHidden(next);
+    });
+  }
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="gap-2"
+        disabled={isPending}
+        onClick={toggle}
+        title={
+          hidden
+            ? "El dueño no ve tu progreso. Haz clic para compartirlo."
+            : "El dueño ve tu progreso en este proyecto. Haz clic para ocultarlo."
+        }
+      >
+        {hidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+        {hidden ? "Progreso privado" : "Progreso compartido"}
+      </Button>
+      {error ? <span className="text-xs text-destructive">{error}</span> : null}
+    </span>
+  );
+}
@@ -0,0 +1,53 @@
+// app/protected/projects/[projectId]/progress/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { parseProjectIdValue } from "@/lib/project-id";
+import { loadProjectProgress, progressToCsv } from "@/lib/member-progress";
+
+/**
+ * GET /protected/projects/:id/progress
+ * Solo dueño. CSV con el progreso por miembro y grupo (omite a quienes no lo comparten).
+ */
+export async function GET(_req: Request, ctx: { params: Promise<{ projectId: string }> }) {
+  try {
+    const { projectId: raw } = await ctx.params;
+    const projectId = parseProjectIdValue(raw);
+    if (!projectId) return NextResponse.json({ error: "ID inválido." }, { status: 400 });
+
+    const supabase = await createClient();
+
+    const { data: userRes, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userRes.user) {
+      return NextResponse.json({ error: "No autenticado." }, { status: 401 });
+    }
+
+    const { data: project, error: pErr } = await supabase
+      .from("projects")
+      .select("id,owner_user_id")
+      .eq("id", projectId)
+      .maybeSingle<{ id: string; owner_user_id: string }>();
+
+    if (pErr) return NextResponse.json({ error: pErr.message }, { status: 400 });
+    if (!project) return NextResponse.json({ error: "Proyecto no encontrado." }, { status: 404 });
+    if (project.owner_user_id !== userRes.user.id) {
+      return NextResponse.json({ error: "No autorizado (solo dueño)." }, { status: 403 });
+    }
+
+    const loaded = await loadProjectProgress(supabase, projectId, project.owner_user_id);
+    if (!loaded.ok) return NextResponse.json({ error: loaded.error }, { status: 400 });
+
+    // BOM para que Excel respete los acentos
+    const csv = "\uFEFF" + progressToCsv(loaded.data);
+    const name = `progreso-${String(projectId).slice(0, 8)}-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${name}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Error inesperado." }, { status: 500 });
+  }
+}
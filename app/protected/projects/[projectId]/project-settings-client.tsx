@@ -6,7 +6,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import type { ProjectRole, ProjectVisibility } from "@/lib/types/study";
-import { updateProjectMetaAction, setProjectVisibilityAction, deleteProjectAction } from "./actions";
+import { MAX_FREE_TAGS, MAX_SUBJECTS, TAG_LANGS, TAG_LEVELS, TAG_SUBJECTS, splitProjectTags } from "@/lib/project-tags";
+import {
+  updateProjectMetaAction,
+  updateProjectTagsAction,
+  setProjectVisibilityAction,
+  setProjectPresetAction,
+  deleteProjectAction,
+} from "./actions";
 
 function roleLabel(role: ProjectRole): string {
   if (role === "owner") return "Dueño";
@@ -26,7 +33,11 @@ export function ProjectSettingsClient(props: {
   visibility: ProjectVisibility;
   title: string;
   description_md: string | null;
+  tags: string[];
   canEdit: boolean; // owner || editor
+  schedulerPresetId: string | null;
+  schedulerPresetName: string | null;
+  myPresets: { id: string; name: string }[];
 }) {
   const header = useMemo(() => {
     return `${roleLabel(props.role)} · ${visLabel(props.visibility)}`;
@@ -35,6 +46,7 @@ export function ProjectSettingsClient(props: {
   const isOwner = props.role === "owner";
   const canEditSettings = props.canEdit; // dueño o editor
   const canDeleteProject = isOwner; // SOLO DUEÑO
+  const tags = splitProjectTags(props.tags);
 
   return (
     <Card>
@@ -76,6 +88,78 @@ export function ProjectSettingsClient(props: {
           </div>
         </form>
 
+        <div className="rounded-lg border p-4">
+          <div className="mb-3">
+            <p className="text-sm font-medium">Etiquetas</p>
+            <p className="text-xs text-muted-foreground">
+              Ayudan a encontrar el proyecto en Comunidad. Hasta {MAX_SUBJECTS} materias y {MAX_FREE_TAGS} etiquetas libres.
+            </p>
+          </div>
+
+          <form action={updateProjectTagsAction} className="space-y-3">
+            <input type="hidden" name="project_id" value={props.projectId} />
+            <input type="hidden" name="tab" value="settings" />
+
+            <fieldset className="space-y-1" disabled={!isOwner}>
+              <legend className="text-sm">Materias</legend>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {TAG_SUBJECTS.map((o) => (
+                  <label key={o.key} className="flex items-center gap-1.5 text-xs">
+                    <input type="checkbox" name="subject" value={o.key} defaultChecked={tags.subjects.includes(o.key)} />
+                    {o.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="flex flex-wrap gap-3">
+              <select
+                name="level"
+                defaultValue={tags.level ?? ""}
+                disabled={!isOwner}
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <option value="">Nivel (sin definir)</option>
+                {TAG_LEVELS.map((o) => (
+                  <option key={o.key} value={o.key}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                name="lang"
+                defaultValue={tags.lang ?? ""}
+                disabled={!isOwner}
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <option value="">Idioma (sin definir)</option>
+                {TAG_LANGS.map((o) => (
+                  <option key={o.key} value={o.key}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <Input
+              name="free_tags"
+              defaultValue={tags.free.join(", ")}
+              disabled={!isOwner}
+              placeholder="Etiquetas libres separadas por coma (ej: algebra, psu, primer-año)"
+            />
+
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                {isOwner ? "Las etiquetas libres se normalizan (minúsculas, sin tildes)." : "Solo el dueño puede cambiarlas."}
+              </p>
+              <Button type="submit" variant="secondary" disabled={!isOwner}>
+                Guardar etiquetas
+              </Button>
+            </div>
+          </form>
+        </div>
+
         <div className="rounded-lg border p-4">
           <div className="mb-3">
             <p className="text-sm font-medium">Visibilidad</p>
@@ -104,6 +188,81 @@ export function ProjectSettingsClient(props: {
           </form>
         </div>
 
+        <div className="rounded-lg border p-4">
+          <div className="mb-3">
+            <p className="text-sm font-medium">Preset de repaso</p>
+            <p className="text-xs text-muted-foreground">
+              Pasos e intervalos que usarán los miembros al practicar. Cada uno puede sobrescribirlo desde la vista del
+              proyecto.
+            </p>
+          </div>
+
+          {isOwner ? (
+            <form action={setProjectPresetAction} className="flex flex-wrap items-center gap-2">
+              <input type="hidden" name="project_id" value={props.projectId} />
+              <input type="hidden" name="tab" value="settings" />
+
+              <select
+                name="preset_id"
+                defaultValue={props.schedulerPresetId ?? ""}
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+              >
+                <option value="">Predeterminado</option>
+                {props.myPresets.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+
+              <Button type="submit" variant="secondary">
+                Aplicar
+              </Button>
+
+              {props.myPresets.length === 0 ? (
+                <p className="w-full text-xs text-muted-foreground">
+                  Crea presets en tu perfil para poder adjuntarlos.
+                </p>
+              ) : null}
+            </form>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {props.schedulerPresetId ? props.schedulerPresetName ?? "Preset del dueño" : "Predeterminado"}
+              <span className="ml-2 text-xs">(solo el dueño puede cambiarlo)</span>
+            </p>
+          )}
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <div className="mb-3">
+            <p className="text-sm font-medium">Exportar</p>
+            <p className="text-xs text-muted-foreground">
+              Respaldo portable (bloques, grupos y cartas). Se puede importar en otra cuenta desde “Nuevo proyecto”.
+            </p>
+          </div>
+
+          <form action={`/protected/projects/${props.projectId}/export`} method="get" className="flex flex-wrap items-center gap-3">
+            <select
+              name="format"
+              defaultValue="zip"
+              disabled={!canEditSettings}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <option value="zip">ZIP</option>
+              <option value="json">JSON</option>
+            </select>
+
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" name="review" value="1" disabled={!canEditSettings} />
+              Incluir mi progreso de repaso
+            </label>
+
+            <Button type="submit" variant="secondary" disabled={!canEditSettings}>
+              Descargar
+            </Button>
+          </form>
+        </div>
+
         {/* ZONA PELIGROSA: solo dueño, ni siquiera mostrar al editor */}
         {canDeleteProject ? (
           <div className="rounded-lg border border-destructive/30 p-4">
@@ -11,15 +11,28 @@ import type {
   ProjectRole,
 } from "@/lib/types/study";
 import { PracticeLauncherClient } from "./practice-launcher-client";
-import { leaveProjectAction } from "./actions";
+import { leaveProjectAction, setMyProjectPresetAction } from "./actions";
+import { clozeMarkdown } from "@/lib/cloze";
+import { publicQuiz, quizFromBlockData } from "@/lib/quiz";
+import { QuizPlayer, QuizResultsPanel } from "./quiz-client";
+import { ProgressPrivacyToggle } from "./progress-privacy-client";
 
 import { Button } from "@/components/ui/button";
 import { MarkdownRenderer } from "@/components/Markdown/MarkdownRenderer";
 import { ReportButton } from "@/components/reports/ReportButton";
 
-type BlockType = "text" | "flashcards";
+type BlockType = "text" | "flashcards" | "quiz";
 type ViewMode = "full" | "preview";
 
+// destino de los enlaces de búsqueda (#block-… / #group-… / #card-…)
+const ANCHOR_CLASS = "scroll-mt-20 target:rounded-lg target:ring-2 target:ring-primary/60";
+
+export type ProjectSchedulerInfo = {
+  projectPreset: { id: string; name: string } | null;
+  myPresets: { id: string; name: string }[];
+  myPresetId: string | null;
+};
+
 /* ----------------------------- Modal local ----------------------------- */
 
 function SimpleModal(props: {
@@ -96,6 +109,16 @@ function getTextMd(block: ProjectBlockRow): string {
   return "";
 }
 
+/** Cloze: frente con todos los huecos ocultos; reverso revelado + extra. */
+function cardFaces(c: FlashcardRow): { front: string; back: string } {
+  if (c.kind !== "cloze") return { front: c.front, back: c.back };
+  const revealed = clozeMarkdown(c.front, null, true);
+  return {
+    front: clozeMarkdown(c.front, null, false),
+    back: c.back ? `${revealed}\n\n---\n\n${c.back}` : revealed,
+  };
+}
+
 /**
  * FULL: permite “Mostrar reverso”
  * PREVIEW: muestra frente + reverso siempre (solo lectura)
@@ -113,9 +136,10 @@ function FlashcardGrid(props: {
     <div className="grid gap-2 sm:grid-cols-2">
       {groupCards.map((c) => {
         const backVisible = preview ? true : !!shownBack[c.id];
+        const faces = cardFaces(c);
 
         return (
-          <div key={c.id} className="rounded-lg border p-3">
+          <div key={c.id} id={`card-${c.id}`} className={["rounded-lg border p-3", ANCHOR_CLASS].join(" ")}>
             <div className="flex items-center justify-between gap-2">
               <p className="text-xs font-medium">Frente</p>
 
@@ -136,14 +160,14 @@ function FlashcardGrid(props: {
             </div>
 
             <div className="mt-1 text-xs text-muted-foreground">
-              <MarkdownRenderer md={c.front} className="prose-sm" />
+              <MarkdownRenderer md={faces.front} className="prose-sm" />
             </div>
 
             {backVisible ? (
               <>
                 <p className="mt-3 text-xs font-medium">Reverso</p>
                 <div className="mt-1 text-xs text-muted-foreground">
-                  <MarkdownRenderer md={c.back} className="prose-sm" />
+                  <MarkdownRenderer md={faces.back} className="prose-sm" />
                 </div>
               </>
             ) : (
@@ -161,6 +185,52 @@ function FlashcardGrid(props: {
   );
 }
 
+/* ------------------------- Preset de repaso ------------------------- */
+
+function SchedulerPresetPicker(props: { projectId: string; info: ProjectSchedulerInfo }) {
+  const { info } = props;
+  const projectLabel = info.projectPreset
+    ? `Del proyecto (${info.projectPreset.name})`
+    : "Del proyecto (predeterminado)";
+
+  return (
+    <details className="relative">
+      <summary className="list-none cursor-pointer rounded-md border px-3 py-2 text-sm hover:bg-muted/40">
+        Repaso
+      </summary>
+
+      <div className="absolute right-0 z-20 mt-2 w-72 rounded-xl border bg-popover p-3 shadow-lg">
+        <p className="text-sm font-medium">Preset de repaso</p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Pasos e intervalos con los que se programan tus repasos en este proyecto. Crea presets en tu perfil.
+        </p>
+
+        <form action={setMyProjectPresetAction} className="mt-3 flex items-center gap-2">
+          <input type="hidden" name="project_id" value={props.projectId} />
+          <input type="hidden" name="tab" value="view" />
+
+          <select
+            name="preset_id"
+            defaultValue={info.myPresetId ?? ""}
+            className="h-9 min-w-0 flex-1 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm"
+          >
+            <option value="">{projectLabel}</option>
+            {info.myPresets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+
+          <Button type="submit" size="sm" variant="secondary">
+            Aplicar
+          </Button>
+        </form>
+      </div>
+    </details>
+  );
+}
+
 /* ------------------------------ Componente ------------------------------ */
 
 export function ProjectView(props: {
@@ -183,6 +253,9 @@ export function ProjectView(props: {
 
   mode?: ViewMode;
   currentUserRole?: ProjectRole | null;
+  scheduler?: ProjectSchedulerInfo | null;
+  // solo miembros (no dueño): null si no es miembro
+  progressHidden?: boolean | null;
 }) {
 
   const mode: ViewMode = props.mode ?? "full";
@@ -225,6 +298,7 @@ export function ProjectView(props: {
       blocksSorted.some((b) => {
         const t = b.type as BlockType;
         if (t === "text") return getTextMd(b).trim().length > 0;
+        if (t === "quiz") return quizFromBlockData(b.data).questions.length > 0;
         const gs = groupsByBlock.get(b.id) ?? [];
         return gs.some((g) => (cardsByGroup.get(g.id)?.length ?? 0) > 0);
       })
@@ -302,6 +376,14 @@ export function ProjectView(props: {
             {/* Reportar siempre visible */}
             <ReportButton projectId={props.projectId} projectTitle={props.title} />
 
+            {!preview && props.scheduler ? (
+              <SchedulerPresetPicker projectId={props.projectId} info={props.scheduler} />
+            ) : null}
+
+            {canLeave && props.progressHidden != null ? (
+              <ProgressPrivacyToggle projectId={props.projectId} hidden={props.progressHidden} />
+            ) : null}
+
             {canLeave ? (
               <form
                 action={leaveProjectAction}
@@ -392,12 +474,39 @@ export function ProjectView(props: {
             if (!md) return null;
 
             return (
-              <article key={b.id}>
+              <article key={b.id} id={`block-${b.id}`} className={ANCHOR_CLASS}>
                 <MarkdownRenderer md={md} />
               </article>
             );
           }
 
+          if (type === "quiz") {
+            const quiz = publicQuiz(quizFromBlockData(b.data));
+            if (quiz.questions.length === 0) return null;
+
+            return (
+              <section key={b.id} id={`block-${b.id}`} className={["space-y-4", ANCHOR_CLASS].join(" ")}>
+                <div className="flex items-end justify-between gap-3">
+                  <h2 className="text-base font-semibold">Quiz</h2>
+                  <div className="text-xs text-muted-foreground">
+                    {quiz.questions.length} preguntas
+                  </div>
+                </div>
+
+                <QuizPlayer
+                  projectId={props.projectId}
+                  blockId={b.id}
+                  quiz={quiz}
+                  preview={preview}
+                />
+
+                {!preview && props.currentUserRole === "owner" ? (
+                  <QuizResultsPanel projectId={props.projectId} blockId={b.id} />
+                ) : null}
+              </section>
+            );
+          }
+
           const blockGroups = groupsByBlock.get(b.id) ?? [];
           const groupsWithCards = blockGroups.filter(
             (g) => (cardsByGroup.get(g.id)?.length ?? 0) > 0
@@ -410,7 +519,7 @@ export function ProjectView(props: {
           );
 
           return (
-            <section key={b.id} className="space-y-4">
+            <section key={b.id} id={`block-${b.id}`} className={["space-y-4", ANCHOR_CLASS].join(" ")}>
               <div className="flex items-end justify-between gap-3">
                 <h2 className="text-base font-semibold">Flashcards</h2>
                 <div className="text-xs text-muted-foreground">
@@ -431,7 +540,7 @@ export function ProjectView(props: {
                   const showOverflowUI = groupCards.length > SCROLL_THRESHOLD;
 
                   return (
-                    <div key={g.id} className="space-y-3">
+                    <div key={g.id} id={`group-${g.id}`} className={["space-y-3", ANCHOR_CLASS].join(" ")}>
                       <div className="flex flex-wrap items-center justify-between gap-3">
                         <div className="min-w-0">
                           <h3 className="text-sm font-semibold">{g.title}</h3>
@@ -0,0 +1,257 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { parseProjectIdValue } from "@/lib/project-id";
+import {
+  answerKeyFrom,
+  withAnswerKey,
+  type QuizAnswerKey,
+  type QuizAnswers,
+  type QuizGrade,
+  type QuizQuestionResult,
+} from "@/lib/quiz";
+import { loadQuizKeys } from "@/lib/quiz-keys";
+import type { QuizAttemptRow } from "@/lib/types/study";
+
+type ActionResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+function err<T>(message: string): ActionResult<T> {
+  return { ok: false, error: message };
+}
+function ok<T>(data: T): ActionResult<T> {
+  return { ok: true, data };
+}
+
+/* ---------------------------------------
+   QUIZ: intentos y resultados
+   Requiere tabla: public.quiz_attempts (
+     id uuid PK, user_id uuid, project_id, block_id uuid,
+     answers jsonb, results jsonb, score int, max_score int, created_at
+   )
+   RLS: cada usuario lee los suyos; el dueño del proyecto lee todos.
+   Sin insert directo: los intentos entran solo por
+   Requiere RPC SQL (security definer): public.quiz_submit_attempt(p_block_id uuid, p_answers jsonb)
+     returns jsonb { attempt_id, score, max_score, results, attempts, best_score, key }
+     - solo si auth.uid() puede ver el proyecto del bloque (mismo criterio que project_blocks);
+     - corrige contra quiz_answer_keys (ver lib/quiz-keys): 1 punto por pregunta,
+       todo o nada; selected = ids de opciones válidas elegidas, sin repetir;
+     - rechaza (raise) un intento sin ninguna opción elegida;
+     - inserta en quiz_attempts y devuelve key (QuizAnswerKey) de ese intento ya corregido.
+----------------------------------------*/
+
+const MAX_RESULT_ATTEMPTS = 5000;
+
+export type QuizAttemptResult = QuizGrade & {
+  attempt_id: string;
+  attempts: number;
+  best_score: number;
+  key: QuizAnswerKey;
+};
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function resultsFrom(raw: unknown): QuizQuestionResult[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((r): r is Record<string, unknown> => typeof r === "object" && r !== null)
+    .map((r) => ({
+      question_id: String(r.question_id ?? ""),
+      selected: Array.isArray(r.selected) ? r.selected.filter((x): x is string => typeof x === "string") : [],
+      correct: r.correct === true,
+    }));
+}
+
+/**
+ * Registra un intento. La corrección la hace la RPC contra la solución
+ * guardada aparte (no se confía en el cliente ni se le envía antes): la
+ * solución solo vuelve con un intento ya corregido y con alguna respuesta.
+ */
+export async function submitQuizAttempt(args: {
+  project_id: string;
+  block_id: string;
+  answers: QuizAnswers;
+}): Promise<ActionResult<QuizAttemptResult>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+
+  const projectId = parseProjectIdValue(args.project_id);
+  if (!projectId) return err("Proyecto inválido.");
+
+  const { data: blk, error: bErr } = await supabase
+    .from("project_blocks")
+    .select("id,project_id,type")
+    .eq("id", args.block_id)
+    .maybeSingle<{ id: string; project_id: string | number; type: string }>();
+
+  if (bErr) return err(bErr.message);
+  if (!blk || String(blk.project_id) !== String(projectId) || blk.type !== "quiz") return err("Quiz no encontrado.");
+
+  const answers: QuizAnswers = {};
+  for (const [qid, raw] of Object.entries(args.answers ?? {})) {
+    if (!Array.isArray(raw)) continue;
+    const picked = raw.filter((x): x is string => typeof x === "string");
+    if (picked.length) answers[qid] = picked;
+  }
+  if (Object.keys(answers).length === 0) return err("Responde al menos una pregunta.");
+
+  const { data, error } = await supabase.rpc("quiz_submit_attempt", { p_block_id: blk.id, p_answers: answers });
+  if (error) return err(error.message);
+
+  const r = (data ?? {}) as Record<string, unknown>;
+  if (!r.attempt_id) return err("No se pudo guardar el intento.");
+
+  const score = num(r.score);
+  return ok({
+    score,
+    max_score: num(r.max_score),
+    results: resultsFrom(r.results),
+    attempt_id: String(r.attempt_id),
+    attempts: Math.max(1, num(r.attempts)),
+    best_score: Math.max(score, num(r.best_score)),
+    key: answerKeyFrom(r.key),
+  });
+}
+
+export type QuizQuestionStats = {
+  question_id: string;
+  prompt: string;
+  answered: number;
+  correct: number;
+  options: { id: string; text: string; correct: boolean; picks: number }[];
+};
+
+export type QuizResults = {
+  participants: number;
+  attempts: number;
+  avg_pct: number; // último intento de cada participante
+  questions: QuizQuestionStats[];
+  people: { user_id: string; username: string | null; attempts: number; last_score: number; best_score: number; max_score: number }[];
+};
+
+/**
+ * Resumen para el dueño: cómo respondieron los demás (se excluye al dueño).
+ * Por pregunta se usa el último intento de cada participante.
+ */
+export async function getQuizResults(args: {
+  project_id: string;
+  block_id: string;
+}): Promise<ActionResult<QuizResults>> {
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return err("No autenticado.");
+  const userId = userRes.user.id;
+
+  const projectId = parseProjectIdValue(args.project_id);
+  if (!projectId) return err("Proyecto inválido.");
+
+  const { data: project, error: pErr } = await supabase
+    .from("projects")
+    .select("owner_user_id")
+    .eq("id", projectId)
+    .maybeSingle<{ owner_user_id: string }>();
+
+  if (pErr) return err(pErr.message);
+  if (!project || project.owner_user_id !== userId) return err("Solo el dueño puede ver los resultados.");
+
+  const { data: blk, error: bErr } = await supabase
+    .from("project_blocks")
+    .select("id,project_id,type,data")
+    .eq("id", args.block_id)
+    .maybeSingle<{ id: string; project_id: string | number; type: string; data: unknown }>();
+
+  if (bErr) return err(bErr.message);
+  if (!blk || String(blk.project_id) !== String(projectId) || blk.type !== "quiz") return err("Quiz no encontrado.");
+
+  // el dueño lee la solución (RLS de quiz_answer_keys)
+  const keys = await loadQuizKeys(supabase, [blk.id]);
+  if (!keys.ok) return err(keys.error);
+  const quiz = withAnswerKey(blk.data, keys.data.get(blk.id));
+
+  const { data: rows, error: aErr } = await supabase
+    .from("quiz_attempts")
+    .select("id,user_id,answers,results,score,max_score,created_at")
+    .eq("block_id", blk.id)
+    .neq("user_id", userId)
+    .order("created_at", { ascending: true })
+    .limit(MAX_RESULT_ATTEMPTS)
+    .returns<Pick<QuizAttemptRow, "id" | "user_id" | "answers" | "results" | "score" | "max_score" | "created_at">[]>();
+
+  if (aErr) return err(aErr.message);
+
+  const attempts = rows ?? [];
+
+  // agrupamos por persona (orden ascendente => el último queda al final)
+  const byUser = new Map<string, typeof attempts>();
+  for (const a of attempts) {
+    const arr = byUser.get(a.user_id) ?? [];
+    arr.push(a);
+    byUser.set(a.user_id, arr);
+  }
+
+  const latest = [...byUser.values()].map((arr) => arr[arr.length - 1]);
+
+  const questions: QuizQuestionStats[] = quiz.questions.map((q) => {
+    const picks = new Map<string, number>();
+    let answered = 0;
+    let correct = 0;
+
+    for (const a of latest) {
+      const r = (a.results ?? []).find((x) => x.question_id === q.id);
+      if (!r) continue; // pregunta agregada después del intento
+      answered += 1;
+      if (r.correct) correct += 1;
+      for (const id of r.selected ?? []) picks.set(id, (picks.get(id) ?? 0) + 1);
+    }
+
+    return {
+      question_id: q.id,
+      prompt: q.prompt,
+      answered,
+      correct,
+      options: q.options.map((o) => ({ id: o.id, text: o.text, correct: o.correct, picks: picks.get(o.id) ?? 0 })),
+    };
+  });
+
+  const userIds = [...byUser.keys()];
+  const usernames = new Map<string, string | null>();
+  if (userIds.length) {
+    const { data: profs } = await supabase
+      .from("profiles")
+      .select("id,username")
+      .in("id", userIds)
+      .returns<{ id: string; username: string | null }[]>();
+    for (const p of profs ?? []) usernames.set(p.id, p.username);
+  }
+
+  const people = userIds.map((uid) => {
+    const arr = byUser.get(uid) ?? [];
+    const last = arr[arr.length - 1];
+    return {
+      user_id: uid,
+      username: usernames.get(uid) ?? null,
+      attempts: arr.length,
+      last_score: last?.score ?? 0,
+      best_score: Math.max(0, ...arr.map((a) => a.score ?? 0)),
+      max_score: last?.max_score ?? quiz.questions.length,
+    };
+  });
+
+  const pcts = latest.filter((a) => a.max_score > 0).map((a) => a.score / a.max_score);
+  const avg_pct = pcts.length ? Math.round((pcts.reduce((x, y) => x + y, 0) / pcts.length) * 100) : 0;
+
+  people.sort((a, b) => (a.username ?? "").localeCompare(b.username ?? ""));
+
+  return ok({
+    participants: byUser.size,
+    attempts: attempts.length,
+    avg_pct,
+    questions,
+    people,
+  });
+}
@@ -0,0 +1,254 @@
+// app/protected/projects/[projectId]/quiz-client.tsx
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { MarkdownRenderer } from "@/components/Markdown/MarkdownRenderer";
+import type { QuizAnswers, QuizPublicData, QuizPublicQuestion } from "@/lib/quiz";
+import { getQuizResults, submitQuizAttempt, type QuizAttemptResult, type QuizResults } from "./quiz-actions";
+
+function pct(n: number, d: number): number {
+  return d > 0 ? Math.round((n / d) * 100) : 0;
+}
+
+/* ------------------------------ Jugador ------------------------------ */
+
+export function QuizPlayer(props: {
+  projectId: string;
+  blockId: string;
+  quiz: QuizPublicData;
+  preview?: boolean;
+}) {
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [result, setResult] = useState<QuizAttemptResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const questions = props.quiz.questions;
+  const locked = props.preview || !!result || isPending;
+  const allAnswered = questions.every((q) => (answers[q.id]?.length ?? 0) > 0);
+
+  const resultsById = useMemo(() => {
+    const m = new Map<string, boolean>();
+    for (const r of result?.results ?? []) m.set(r.question_id, r.correct);
+    return m;
+  }, [result]);
+
+  function pick(q: QuizPublicQuestion, optionId: string) {
+    if (locked) return;
+    setAnswers((cur) => {
+      const prev = cur[q.id] ?? [];
+      if (q.kind !== "multiple") return { ...cur, [q.id]: [optionId] };
+      const next = prev.includes(optionId) ? prev.filter((x) => x !== optionId) : [...prev, optionId];
+      return { ...cur, [q.id]: next };
+    });
+  }
+
+  function submit() {
+    if (locked || !allAnswered) return;
+    setError(null);
+
+    startTransition(async () => {
+      const res = await submitQuizAttempt({ project_id: props.projectId, block_id: props.blockId, answers });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setResult(res.data);
+    });
+  }
+
+  function retry() {
+    setAnswers({});
+    setResult(null);
+    setError(null);
+  }
+
+  return (
+    <div className="space-y-4">
+      {questions.map((q, qi) => {
+        const selected = answers[q.id] ?? [];
+        const verdict = resultsById.get(q.id);
+        const key = result?.key[q.id];
+
+        return (
+          <div key={q.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0 text-sm font-medium">
+                <span className="mr-1 text-muted-foreground">{qi + 1}.</span>
+                <MarkdownRenderer md={q.prompt} />
+              </div>
+              {verdict !== undefined ? (
+                <span
+                  className={[
+                    "shrink-0 rounded px-2 py-0.5 text-xs",
+                    verdict ? "bg-emerald-500/10 text-emerald-700" : "bg-destructive/10 text-destructive",
+                  ].join(" ")}
+                >
+                  {verdict ? "Correcta" : "Incorrecta"}
+                </span>
+              ) : null}
+            </div>
+
+            {q.kind === "multiple" ? <p className="text-xs text-muted-foreground">Puede haber más de una correcta.</p> : null}
+
+            <div className="space-y-1">
+              {q.options.map((o) => {
+                const isSel = selected.includes(o.id);
+                const reveal = !!key;
+                const isCorrect = !!key?.correct.includes(o.id);
+                const explanation = key?.explanations[o.id] ?? "";
+
+                return (
+                  <div key={o.id}>
+                    <label
+                      className={[
+                        "flex cursor-pointer items-center gap-2 rounded-md border px-3 py-2 text-sm",
+                        reveal && isCorrect ? "border-emerald-500/50 bg-emerald-500/5" : "",
+                        reveal && isSel && !isCorrect ? "border-destructive/50 bg-destructive/5" : "",
+                        locked ? "cursor-default" : "hover:bg-muted/50",
+                      ].join(" ")}
+                    >
+                      <input
+                        type={q.kind === "multiple" ? "checkbox" : "radio"}
+                        name={`quiz_${props.blockId}_${q.id}`}
+                        checked={isSel}
+                        disabled={locked}
+                        onChange={() => pick(q, o.id)}
+                      />
+                      <span>{o.text}</span>
+                    </label>
+
+                    {reveal && explanation && (isSel || isCorrect) ? (
+                      <p className="mt-1 pl-8 text-xs text-muted-foreground">{explanation}</p>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      {error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+      ) : null}
+
+      {props.preview ? (
+        <div className="text-xs text-muted-foreground">Vista previa: sin respuestas.</div>
+      ) : result ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-sm font-medium">
+            Puntaje: {result.score}/{result.max_score} ({pct(result.score, result.max_score)}%)
+          </p>
+          <span className="text-xs text-muted-foreground">
+            Intentos: {result.attempts} · Mejor: {result.best_score}/{result.max_score}
+          </span>
+          <Button type="button" variant="secondary" size="sm" onClick={retry}>
+            Reintentar
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Button type="button" size="sm" disabled={!allAnswered || isPending} onClick={submit}>
+            {isPending ? "Enviando…" : "Enviar respuestas"}
+          </Button>
+          {!allAnswered ? <span className="text-xs text-muted-foreground">Responde todas las preguntas.</span> : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------ Resultados (dueño) ------------------------------ */
+
+export function QuizResultsPanel(props: { projectId: string; blockId: string }) {
+  const [open, setOpen] = useState(false);
+  const [data, setData] = useState<QuizResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function load() {
+    setError(null);
+    startTransition(async () => {
+      const res = await getQuizResults({ project_id: props.projectId, block_id: props.blockId });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setData(res.data);
+    });
+  }
+
+  function toggle() {
+    const next = !open;
+    setOpen(next);
+    if (next) load();
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="secondary" size="sm" onClick={toggle}>
+          {open ? "Ocultar resultados" : "Ver resultados"}
+        </Button>
+        {open ? (
+          <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={load}>
+            Actualizar
+          </Button>
+        ) : null}
+      </div>
+
+      {!open ? null : error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+      ) : !data ? (
+        <p className="text-xs text-muted-foreground">Cargando…</p>
+      ) : data.participants === 0 ? (
+        <p className="text-xs text-muted-foreground">Aún nadie ha respondido este quiz.</p>
+      ) : (
+        <div className="space-y-4 rounded-lg border p-3">
+          <p className="text-sm">
+            {data.participants} participantes · {data.attempts} intentos · promedio {data.avg_pct}%
+          </p>
+
+          <div className="space-y-3">
+            {data.questions.map((q, qi) => (
+              <div key={q.question_id} className="space-y-1">
+                <p className="text-sm font-medium">
+                  {qi + 1}. {q.prompt}{" "}
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {pct(q.correct, q.answered)}% correctas ({q.correct}/{q.answered})
+                  </span>
+                </p>
+                {q.options.map((o) => (
+                  <div key={o.id} className="flex items-center gap-2 text-xs">
+                    <div className="h-2 w-24 overflow-hidden rounded bg-muted">
+                      <div
+                        className={o.correct ? "h-full bg-emerald-500" : "h-full bg-muted-foreground/50"}
+                        style={{ width: `${pct(o.picks, q.answered)}%` }}
+                      />
+                    </div>
+                    <span className={o.correct ? "font-medium" : "text-muted-foreground"}>{o.text}</span>
+                    <span className="text-muted-foreground">({o.picks})</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs font-medium">Por persona (último intento)</p>
+            {data.people.map((p) => (
+              <div key={p.user_id} className="flex items-center justify-between text-xs">
+                <span>{p.username ?? "Usuario"}</span>
+                <span className="text-muted-foreground">
+                  {p.last_score}/{p.max_score} · mejor {p.best_score} · {p.attempts} intentos
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
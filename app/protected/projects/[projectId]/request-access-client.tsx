@@ -0,0 +1,123 @@
+// app/protected/projects/[projectId]/request-access-client.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  getAccessRequestAction,
+  requestAccessAction,
+  type AccessRequestState,
+} from "../access-actions";
+
+const MAX_MESSAGE = 500;
+
+/**
+ * Pedir acceso a un proyecto privado o no listado.
+ * collapsed: solo muestra el botón hasta que el usuario lo abre.
+ */
+export function RequestAccessCard(props: {
+  projectId: string;
+  title: string;
+  description: string;
+  collapsed?: boolean;
+}) {
+  const router = useRouter();
+  const [state, setState] = useState<AccessRequestState | null>(null);
+  const [open, setOpen] = useState(!props.collapsed);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    void (async () => {
+      const res = await getAccessRequestAction(props.projectId);
+      setState(res.ok ? res.data : "none");
+    })();
+  }, [props.projectId]);
+
+  function submit() {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const res = await requestAccessAction({ project_id: props.projectId, message });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      if (res.data === "member") {
+        router.refresh();
+        return;
+      }
+      if (res.data === "unavailable") {
+        setError("No se puede pedir acceso a este proyecto.");
+        return;
+      }
+      setMessage("");
+      setState("pending");
+      setNotice(res.data === "pending" ? "Ya tenías una solicitud pendiente." : null);
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className={props.collapsed ? "text-base" : undefined}>{props.title}</CardTitle>
+        <CardDescription>{props.description}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {error ? (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+        ) : null}
+        {notice ? <div className="rounded-lg border bg-muted/40 p-3 text-sm">{notice}</div> : null}
+
+        {state === null ? (
+          <p className="text-xs text-muted-foreground">Cargando…</p>
+        ) : state === "pending" ? (
+          <p className="text-sm text-muted-foreground">
+            Solicitud enviada. Te avisaremos en tus proyectos cuando el dueño responda.
+          </p>
+        ) : !open ? (
+          <Button type="button" size="sm" variant="secondary" onClick={() => setOpen(true)}>
+            Solicitar acceso
+          </Button>
+        ) : (
+          <>
+            {state === "rejected" ? (
+              <p className="text-xs text-muted-foreground">
+                Tu solicitud anterior fue rechazada. Puedes enviar una nueva.
+              </p>
+            ) : null}
+
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={MAX_MESSAGE}
+              rows={3}
+              placeholder="Cuéntale al dueño quién eres y para qué lo necesitas (opcional)"
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+            />
+
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-[11px] text-muted-foreground">
+                {message.length}/{MAX_MESSAGE}
+              </p>
+              <Button type="button" size="sm" disabled={isPending} onClick={submit}>
+                {isPending ? "Enviando…" : "Enviar solicitud"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+// app/protected/projects/[projectId]/upstream-client.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { formatDateTimeCL } from "@/lib/datetime";
+import { withoutDependents, withRequired, type UpstreamChange, type UpstreamChangeKind } from "@/lib/project-upstream";
+import { getUpstreamDiffRpc, mergeUpstreamRpc, type UpstreamDiff } from "./actions";
+
+const SECTIONS: Array<{ kind: UpstreamChangeKind; title: string }> = [
+  { kind: "added", title: "Nuevo en el original" },
+  { kind: "changed", title: "Modificado en el original" },
+  { kind: "deleted", title: "Eliminado en el original" },
+];
+
+const ENTITY_LABEL: Record<UpstreamChange["entity"], string> = {
+  block: "Bloque",
+  group: "Grupo",
+  card: "Carta",
+};
+
+export function UpstreamPanel(props: { projectId: string }) {
+  const router = useRouter();
+  const [diff, setDiff] = useState<UpstreamDiff | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function load() {
+    setError(null);
+    startTransition(async () => {
+      const res = await getUpstreamDiffRpc({ project_id: props.projectId });
+      if (!res.ok) {
+        setDiff(null);
+        setError(res.error);
+        return;
+      }
+      setDiff(res.data);
+      setSelected(new Set());
+    });
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.projectId]);
+
+  const changes = diff?.changes ?? [];
+
+  function toggle(key: string, on: boolean) {
+    setSelected((prev) => (on ? withRequired(changes, [...prev, key]) : withoutDependents(changes, prev, key)));
+  }
+
+  function merge() {
+    if (selected.size === 0) return;
+    setError(null);
+    setNotice(null);
+
+    startTransition(async () => {
+      const res = await mergeUpstreamRpc({ project_id: props.projectId, keys: [...selected] });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setNotice(`${res.data.applied} cambios aplicados${res.data.remaining ? ` · ${res.data.remaining} pendientes` : ""}.`);
+      router.refresh();
+      load();
+    });
+  }
+
+  return (
+    <div className="space-y-4 rounded-xl border p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold">Actualizaciones del original</h2>
+          {diff ? (
+            <p className="text-xs text-muted-foreground">
+              <Link
+                href={`/protected/projects/${encodeURIComponent(diff.source.project_id)}`}
+                className="underline underline-offset-2"
+              >
+                {diff.source.title}
+              </Link>{" "}
+              · actualizado {formatDateTimeCL(diff.source.updated_at)}
+              {diff.revision ? ` · tu copia está al ${formatDateTimeCL(diff.revision)}` : null}
+            </p>
+          ) : null}
+        </div>
+
+        <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={load}>
+          Revisar de nuevo
+        </Button>
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+      ) : null}
+      {notice ? <div className="rounded-lg border bg-muted/40 p-3 text-sm">{notice}</div> : null}
+
+      {!diff ? (
+        isPending ? <p className="text-xs text-muted-foreground">Comparando…</p> : null
+      ) : changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Tu copia está al día con el original.</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            Elige qué traer. Lo que creaste o editaste tú en la copia no se toca, y el progreso de repaso de las
+            cartas que no cambian se conserva. Los conflictos (cambiados también en tu copia) reemplazan tu versión
+            si los aplicas.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() => setSelected(withRequired(changes, changes.filter((c) => !c.conflict).map((c) => c.key)))}
+            >
+              Seleccionar sin conflictos
+            </Button>
+            <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={() => setSelected(new Set())}>
+              Ninguno
+            </Button>
+          </div>
+
+          {SECTIONS.map((sec) => {
+            const list = changes.filter((c) => c.kind === sec.kind);
+            if (list.length === 0) return null;
+
+            return (
+              <div key={sec.kind} className="space-y-2">
+                <p className="text-sm font-medium">
+                  {sec.title} ({list.length})
+                </p>
+                {list.map((c) => (
+                  <label key={c.key} className="flex items-start gap-2 rounded-lg border p-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.has(c.key)}
+                      disabled={isPending}
+                      onChange={(e) => toggle(c.key, e.target.checked)}
+                    />
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="truncate">
+                        <span className="mr-1 rounded bg-muted px-1 text-xs text-muted-foreground">{ENTITY_LABEL[c.entity]}</span>
+                        {c.conflict ? (
+                          <span
+                            className="mr-1 rounded bg-amber-500/10 px-1 text-xs text-amber-700"
+                            title="También cambió en tu copia (o no se sabe: fork antiguo)."
+                          >
+                            Conflicto
+                          </span>
+                        ) : null}
+                        {c.label}
+                      </p>
+                      {c.before ? <p className="text-xs text-muted-foreground line-through">{c.before}</p> : null}
+                      {c.after ? <p className="text-xs">{c.after}</p> : null}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end">
+            <Button type="button" disabled={isPending || selected.size === 0} onClick={merge}>
+              {isPending ? "Aplicando…" : `Aplicar ${selected.size} cambios`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
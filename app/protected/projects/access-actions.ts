@@ -0,0 +1,133 @@
+// app/protected/projects/access-actions.ts
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { parseProjectIdValue } from "@/lib/project-id";
+import type { ProjectAccessRequestRow } from "@/lib/types/study";
+
+/* ---------------------------------------
+   SOLICITUDES DE ACCESO (lado del solicitante)
+   Quien no es miembro no puede leer un proyecto privado ni insertar la
+   solicitud validando que exista, así que el alta va por RPC:
+   Requiere RPC SQL (security definer): public.request_project_access(p_project_id, p_message text)
+     returns text: 'requested' | 'pending' | 'member' | 'unavailable'
+     ('unavailable' = no existe, está oculto o es del propio usuario).
+   Requiere RPC SQL (security definer): public.my_access_request_decisions()
+     returns table (id, project_id, project_title, status, role, decided_at)
+     decisiones (approved/rejected) de auth.uid() con seen_at null.
+   Leer la propia solicitud y marcar seen_at va directo (RLS).
+----------------------------------------*/
+
+type ActionResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+export type AccessRequestState = "none" | "pending" | "rejected";
+
+export type RequestAccessOutcome = "requested" | "pending" | "member" | "unavailable";
+
+export type AccessDecision = {
+  id: string;
+  project_id: string;
+  project_title: string;
+  status: "approved" | "rejected";
+  role: Exclude<ProjectAccessRequestRow["role"], null>;
+  decided_at: string;
+};
+
+const MAX_MESSAGE = 500;
+
+function isUuid(v: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+function isOutcome(v: unknown): v is RequestAccessOutcome {
+  return v === "requested" || v === "pending" || v === "member" || v === "unavailable";
+}
+
+/** Estado de la última solicitud propia para el proyecto. */
+export async function getAccessRequestAction(projectId: string): Promise<ActionResult<AccessRequestState>> {
+  const pid = parseProjectIdValue(projectId);
+  if (!pid) return { ok: false, error: "ID inválido." };
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const { data, error } = await supabase
+    .from("project_access_requests")
+    .select("status")
+    .eq("project_id", pid)
+    .eq("user_id", userRes.user.id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<Pick<ProjectAccessRequestRow, "status">>();
+
+  if (error) return { ok: false, error: error.message };
+  if (data?.status === "pending") return { ok: true, data: "pending" };
+  if (data?.status === "rejected") return { ok: true, data: "rejected" };
+  return { ok: true, data: "none" };
+}
+
+export async function requestAccessAction(args: {
+  project_id: string;
+  message: string;
+}): Promise<ActionResult<RequestAccessOutcome>> {
+  const pid = parseProjectIdValue(args.project_id);
+  if (!pid) return { ok: false, error: "ID inválido." };
+
+  const message = String(args.message ?? "").trim();
+  if (message.length > MAX_MESSAGE) return { ok: false, error: `Máximo ${MAX_MESSAGE} caracteres.` };
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const { data, error } = await supabase.rpc("request_project_access", {
+    p_project_id: pid,
+    p_message: message || null,
+  });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: isOutcome(data) ? data : "unavailable" };
+}
+
+export async function getAccessDecisionsAction(): Promise<ActionResult<AccessDecision[]>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const { data, error } = await supabase.rpc("my_access_request_decisions");
+  if (error) return { ok: false, error: error.message };
+
+  const rows = (Array.isArray(data) ? data : []) as Array<Record<string, unknown>>;
+  return {
+    ok: true,
+    data: rows.map((r) => ({
+      id: String(r.id),
+      project_id: String(r.project_id),
+      project_title: String(r.project_title ?? ""),
+      status: r.status === "approved" ? "approved" : "rejected",
+      role: r.role === "editor" ? "editor" : "guest",
+      decided_at: String(r.decided_at ?? ""),
+    })),
+  };
+}
+
+export async function dismissAccessDecisionAction(requestId: string): Promise<ActionResult<true>> {
+  const id = String(requestId ?? "").trim();
+  if (!isUuid(id)) return { ok: false, error: "Solicitud inválida." };
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const { error } = await supabase
+    .from("project_access_requests")
+    .update({ seen_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("user_id", userRes.user.id);
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/protected/projects");
+  return { ok: true, data: true };
+}
@@ -0,0 +1,64 @@
+// app/protected/projects/access-decisions-client.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDateTimeCL } from "@/lib/datetime";
+import { dismissAccessDecisionAction, getAccessDecisionsAction, type AccessDecision } from "./access-actions";
+
+/** Respuestas a mis solicitudes de acceso aún no vistas (no se muestra si no hay). */
+export function AccessDecisions() {
+  const [decisions, setDecisions] = useState<AccessDecision[]>([]);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    void (async () => {
+      const res = await getAccessDecisionsAction();
+      if (res.ok) setDecisions(res.data);
+    })();
+  }, []);
+
+  function dismiss(id: string) {
+    setDecisions((prev) => prev.filter((d) => d.id !== id));
+    startTransition(async () => {
+      await dismissAccessDecisionAction(id);
+    });
+  }
+
+  if (decisions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Solicitudes de acceso respondidas</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {decisions.map((d) => (
+          <div key={d.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{d.project_title || "Proyecto"}</p>
+              <p className="text-xs text-muted-foreground">
+                {d.status === "approved"
+                  ? `Aprobada como ${d.role === "editor" ? "editor" : "invitado"}`
+                  : "Rechazada"}{" "}
+                · {formatDateTimeCL(d.decided_at)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {d.status === "approved" ? (
+                <Button asChild size="sm" onClick={() => dismiss(d.id)}>
+                  <Link href={`/protected/projects/${encodeURIComponent(d.project_id)}`}>Abrir</Link>
+                </Button>
+              ) : null}
+              <Button type="button" size="sm" variant="ghost" disabled={isPending} onClick={() => dismiss(d.id)}>
+                Ocultar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
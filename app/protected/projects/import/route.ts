@@ -0,0 +1,71 @@
+// app/protected/projects/import/route.ts
+import { NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { readZip } from "@/lib/zip";
+import { MAX_ARCHIVE_BYTES, PROJECT_ARCHIVE_FILE, parseProjectArchive } from "@/lib/project-archive";
+import { createProjectFromArchive } from "@/lib/project-copy";
+
+/* ---------------------------------------
+   IMPORTAR PROYECTO (archivo de export)
+   Crea un proyecto PRIVADO nuevo del usuario; todos los ids se regeneran.
+   Si algo falla a medio camino se borra lo creado.
+   Ruta y no server action: el límite de body de las server actions queda en
+   el default (1 MB) y el tamaño del archivo se controla solo aquí.
+----------------------------------------*/
+
+// margen para el resto de campos del multipart
+const MAX_BODY_BYTES = MAX_ARCHIVE_BYTES + 64 * 1024;
+
+function readArchiveFile(buf: Buffer): unknown {
+  // ZIP (PK\x03\x04) o JSON suelto
+  if (buf.length > 4 && buf.readUInt32LE(0) === 0x04034b50) {
+    const entry = readZip(buf, MAX_ARCHIVE_BYTES * 4).get(PROJECT_ARCHIVE_FILE);
+    if (!entry) throw new Error(`El ZIP no contiene ${PROJECT_ARCHIVE_FILE}.`);
+    return JSON.parse(entry.read().toString("utf8"));
+  }
+  return JSON.parse(buf.toString("utf8"));
+}
+
+/** POST /protected/projects/import (multipart: file, include_review) desde el form de /new. */
+export async function POST(req: Request) {
+  // 303: el navegador sigue con GET
+  const go = (path: string) => NextResponse.redirect(new URL(path, req.url), 303);
+  const importError = (msg: string) => go(`/protected/projects/new?error=${encodeURIComponent(msg)}`);
+
+  const len = Number(req.headers.get("content-length"));
+  if (!Number.isFinite(len) || len <= 0) return importError("Selecciona un archivo");
+  if (len > MAX_BODY_BYTES) return importError("Archivo demasiado grande (máx. 20 MB)");
+
+  let formData: FormData;
+  try {
+    formData = await req.formData();
+  } catch {
+    return importError("Selecciona un archivo");
+  }
+
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) return importError("Selecciona un archivo");
+  if (file.size > MAX_ARCHIVE_BYTES) return importError("Archivo demasiado grande (máx. 20 MB)");
+
+  let parsed: ReturnType<typeof parseProjectArchive>;
+  try {
+    parsed = parseProjectArchive(readArchiveFile(Buffer.from(await file.arrayBuffer())));
+  } catch {
+    return importError("No se pudo leer el archivo (¿ZIP o JSON exportado desde RutaLabs?)");
+  }
+  if (!parsed.ok) return importError(parsed.error);
+
+  const supabase = await createClient();
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return go("/auth/login");
+
+  const created = await createProjectFromArchive(supabase, userRes.user.id, parsed.data, {
+    withReview: formData.get("include_review") === "1",
+  });
+  if (!created.ok) return importError(created.error);
+
+  revalidatePath("/protected/projects");
+  return go(`/protected/projects/${created.data.id}`);
+}
@@ -0,0 +1,143 @@
+// app/protected/projects/invite-actions.ts
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import type { ProjectInviteRow } from "@/lib/types/study";
+
+/* ---------------------------------------
+   INVITACIONES (lado del invitado)
+   El invitado no puede leer el proyecto privado ni insertarse en
+   project_members, así que todo pasa por RPC security definer:
+   Requiere RPC SQL: public.my_project_invites()
+     returns table (id, project_id, project_title, role, inviter_username, created_at)
+     pendientes de auth.uid() o de su correo (auth.email(), sin mayúsculas).
+   Requiere RPC SQL: public.respond_project_invite(p_invite_id uuid, p_accept boolean)
+     returns uuid (project_id); valida que sea suya y pendiente; si acepta
+     hace upsert en project_members con el rol de la invitación.
+   Requiere RPC SQL: public.get_project_invite_link(p_token text)
+     returns table (project_id, project_title, role, inviter_username,
+     expires_at, status text: 'ok' | 'expired' | 'used_up' | 'revoked' | 'member' | 'owner')
+   Requiere RPC SQL: public.redeem_project_invite_link(p_token text)
+     returns uuid (project_id); mismas validaciones, suma uses y hace
+     upsert en project_members sin bajar un rol existente.
+----------------------------------------*/
+
+type ActionResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+export type MyInvite = {
+  id: string;
+  project_id: string;
+  project_title: string;
+  role: ProjectInviteRow["role"];
+  inviter_username: string | null;
+  created_at: string;
+};
+
+export type InviteLinkStatus = "ok" | "expired" | "used_up" | "revoked" | "member" | "owner";
+
+export type InviteLinkPreview = {
+  project_id: string;
+  project_title: string;
+  role: ProjectInviteRow["role"];
+  inviter_username: string | null;
+  expires_at: string | null;
+  status: InviteLinkStatus;
+};
+
+const TOKEN_RE = /^[A-Za-z0-9_-]{16,64}$/;
+
+function isUuid(v: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+function isLinkStatus(v: unknown): v is InviteLinkStatus {
+  return v === "ok" || v === "expired" || v === "used_up" || v === "revoked" || v === "member" || v === "owner";
+}
+
+export async function getMyInvitesAction(): Promise<ActionResult<MyInvite[]>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const { data, error } = await supabase.rpc("my_project_invites");
+  if (error) return { ok: false, error: error.message };
+
+  const rows = (Array.isArray(data) ? data : []) as Array<Record<string, unknown>>;
+  return {
+    ok: true,
+    data: rows.map((r) => ({
+      id: String(r.id),
+      project_id: String(r.project_id),
+      project_title: String(r.project_title ?? ""),
+      role: r.role === "editor" ? "editor" : "guest",
+      inviter_username: r.inviter_username == null ? null : String(r.inviter_username),
+      created_at: String(r.created_at ?? ""),
+    })),
+  };
+}
+
+export async function respondInviteAction(args: {
+  invite_id: string;
+  accept: boolean;
+}): Promise<ActionResult<{ project_id: string | null }>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const inviteId = String(args.invite_id ?? "").trim();
+  if (!isUuid(inviteId)) return { ok: false, error: "Invitación inválida." };
+
+  const { data, error } = await supabase.rpc("respond_project_invite", {
+    p_invite_id: inviteId,
+    p_accept: !!args.accept,
+  });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/protected/projects");
+  return { ok: true, data: { project_id: args.accept && data ? String(data) : null } };
+}
+
+export async function getInviteLinkAction(token: string): Promise<ActionResult<InviteLinkPreview>> {
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
+
+  const t = String(token ?? "").trim();
+  if (!TOKEN_RE.test(t)) return { ok: false, error: "Link de invitación inválido." };
+
+  const { data, error } = await supabase.rpc("get_project_invite_link", { p_token: t });
+  if (error) return { ok: false, error: error.message };
+
+  const row = (Array.isArray(data) ? data[0] : data) as Record<string, unknown> | null | undefined;
+  if (!row?.project_id) return { ok: false, error: "Link de invitación inválido." };
+
+  return {
+    ok: true,
+    data: {
+      project_id: String(row.project_id),
+      project_title: String(row.project_title ?? ""),
+      role: row.role === "editor" ? "editor" : "guest",
+      inviter_username: row.inviter_username == null ? null : String(row.inviter_username),
+      expires_at: row.expires_at == null ? null : String(row.expires_at),
+      status: isLinkStatus(row.status) ? row.status : "revoked",
+    },
+  };
+}
+
+export async function acceptInviteLinkAction(formData: FormData): Promise<void> {
+  const token = String(formData.get("token") ?? "").trim();
+  const back = `/protected/invite/${encodeURIComponent(token)}`;
+  if (!TOKEN_RE.test(token)) redirect("/protected/projects?error=Link%20de%20invitaci%C3%B3n%20inv%C3%A1lido");
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) redirect("/auth/login");
+
+  const { data, error } = await supabase.rpc("redeem_project_invite_link", { p_token: token });
+  if (error || !data) redirect(`${back}?error=${encodeURIComponent(error?.message ?? "No se pudo aceptar")}`);
+
+  revalidatePath("/protected/projects");
+  redirect(`/protected/projects/${encodeURIComponent(String(data))}`);
+}
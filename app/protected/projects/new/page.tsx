@@ -47,6 +47,26 @@ export default async function NewProjectPage({
             Crear
           </Button>
         </form>
+
+        <div className="rounded-lg border p-4">
+          <p className="text-sm font-medium">Importar desde archivo</p>
+          <p className="text-xs text-muted-foreground">
+            Sube un .zip o .json exportado desde Ajustes de otro proyecto. Se crea como proyecto privado tuyo.
+          </p>
+
+          <form action="/protected/projects/import" method="post" encType="multipart/form-data" className="mt-3 space-y-3">
+            <input type="file" name="file" accept=".zip,.json" required className="text-sm" />
+
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" name="include_review" value="1" defaultChecked />
+              Restaurar mi progreso de repaso si el archivo lo incluye
+            </label>
+
+            <Button className="w-full" type="submit" variant="secondary">
+              Importar
+            </Button>
+          </form>
+        </div>
       </CardContent>
     </Card>
   );
@@ -15,6 +15,8 @@ import {
 import type { ProjectId, ProjectRole, ProjectVisibility } from "@/lib/types/study";
 import { BookTemplate } from "lucide-react";
 import { formatDateTimeCL } from "@/lib/datetime";
+import { PendingInvites } from "./pending-invites-client";
+import { AccessDecisions } from "./access-decisions-client";
 
 type ProjectLite = {
   id: ProjectId;
@@ -70,6 +72,10 @@ export default async function ProjectsPage() {
         </Button>
       </div>
 
+      <PendingInvites />
+
+      <AccessDecisions />
+
       <Suspense fallback={<ProjectsSkeleton />}>
         <ProjectsList />
       </Suspense>
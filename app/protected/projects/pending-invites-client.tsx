@@ -0,0 +1,72 @@
+// app/protected/projects/pending-invites-client.tsx
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDateTimeCL } from "@/lib/datetime";
+import { getMyInvitesAction, respondInviteAction, type MyInvite } from "./invite-actions";
+
+/** Invitaciones pendientes del usuario (no se muestra si no hay). */
+export function PendingInvites() {
+  const router = useRouter();
+  const [invites, setInvites] = useState<MyInvite[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    void (async () => {
+      const res = await getMyInvitesAction();
+      if (res.ok) setInvites(res.data);
+    })();
+  }, []);
+
+  function respond(invite: MyInvite, accept: boolean) {
+    setError(null);
+    startTransition(async () => {
+      const res = await respondInviteAction({ invite_id: invite.id, accept });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+      if (res.data.project_id) router.push(`/protected/projects/${encodeURIComponent(res.data.project_id)}`);
+      else router.refresh();
+    });
+  }
+
+  if (invites.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Invitaciones pendientes</CardTitle>
+        <CardDescription>Al aceptar, el proyecto aparece en tu biblioteca con el rol indicado.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+        {invites.map((i) => (
+          <div key={i.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{i.project_title}</p>
+              <p className="text-xs text-muted-foreground">
+                {i.inviter_username ?? "Alguien"} te invita como {i.role === "editor" ? "editor" : "invitado"} ·{" "}
+                {formatDateTimeCL(i.created_at)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" disabled={isPending} onClick={() => respond(i, true)}>
+                Aceptar
+              </Button>
+              <Button type="button" size="sm" variant="ghost" disabled={isPending} onClick={() => respond(i, false)}>
+                Rechazar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
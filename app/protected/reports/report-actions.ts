@@ -17,6 +17,7 @@ type ProjectRowMin = {
 
 export async function createReportAction(args: {
   project_id: string; // projects.id
+  review_id?: string | null; // project_reviews.id (reporte de una reseña del proyecto)
   description: string;
 }): Promise<{ ok: true } | { ok: false; error: string }> {
   try {
@@ -27,6 +28,7 @@ export async function createReportAction(args: {
     if (userErr || !userRes.user) return { ok: false, error: "No autenticado." };
 
     const projectId = assertUuid(args.project_id);
+    const reviewId = args.review_id ? assertUuid(args.review_id) : null;
     const desc = String(args.description ?? "").trim();
 
     if (desc.length < 10) {
@@ -57,12 +59,25 @@ export async function createReportAction(args: {
       return { ok: false, error: "Este proyecto no está disponible para ser reportado." };
     }
 
+    if (reviewId) {
+      const { data: r, error: rErr } = await supabase
+        .from("project_reviews")
+        .select("id,project_id,user_id")
+        .eq("id", reviewId)
+        .maybeSingle<{ id: string; project_id: string; user_id: string }>();
+
+      if (rErr) return { ok: false, error: rErr.message };
+      if (!r || String(r.project_id) !== projectId) return { ok: false, error: "Reseña no encontrada." };
+      if (r.user_id === userRes.user.id) return { ok: false, error: "No puedes reportar tu propia reseña." };
+    }
+
     const now = new Date().toISOString();
 
     // (2) Insert en reports usando project_id (coherente con tu admin)
     // Nota: incluimos updated_at porque en tu schema/admin lo usas.
     const { error: insErr } = await supabase.from("reports").insert({
       project_id: projectId,
+      ...(reviewId ? { review_id: reviewId } : {}), // Requiere reports.review_id uuid null (FK project_reviews, on delete set null)
       reporter_user_id: userRes.user.id,
       description: desc,
       status: "open",
@@ -1,72 +1,25 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
-import { formatDateTimeCL } from "@/lib/datetime";
+import { CONTENT_KIND_LABEL, contentHitHref, loadProjectHits, searchContent, searchProjects } from "@/lib/search";
+import { HighlightedSnippet } from "@/components/search/HighlightedSnippet";
 import {
   Card,
-  CardContent,
   CardHeader,
   CardTitle,
   CardDescription,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { SearchResultsClient } from "./search-results-client";
 
 type SearchParams = { q?: string };
 
-type ProjectRole = "owner" | "editor" | "guest";
-
-type ProjectHit = {
-  id: string;
-  title: string;
-  visibility: string | null;
-  is_hidden: boolean;
-  updated_at: string;
-  role?: ProjectRole;
-};
-
-type ProjectRowLite = {
-  id: string;
-  title: string;
-  visibility: string | null;
-  is_hidden: boolean | null;
-  updated_at: string;
-};
-
-type MembershipRow = {
-  project_id: string;
-  role: ProjectRole | null;
-};
-
-type CommunityRow = {
-  id: string;
-  title: string;
-  visibility: string | null;
-  is_hidden: boolean | null;
-  updated_at: string;
-};
-
-function roleLabel(role?: ProjectHit["role"]) {
-  if (!role) return null;
-  if (role === "owner") return "Dueño";
-  if (role === "editor") return "Editor";
-  return "Invitado";
-}
-
-function isProjectRole(v: unknown): v is ProjectRole {
-  return v === "owner" || v === "editor" || v === "guest";
-}
-
-function safeLike(raw: string): string {
-  return raw.replace(/[,()*]/g, " ").trim();
-}
-
-function projHref(id: string) {
-  return `/protected/projects/${encodeURIComponent(id)}?tab=view`;
-}
+const PAGE_SIZE = 20;
 
 export default async function SearchPage(props: { searchParams?: SearchParams }) {
   const qRaw = String(props.searchParams?.q ?? "");
-  const q = safeLike(qRaw).trim();
+  // mismo recorte que /api/search (el "Cargar más" pide ahí)
+  const q = qRaw.trim().slice(0, 120);
 
   const supabase = await createClient();
   const { data: userRes, error: userErr } = await supabase.auth.getUser();
@@ -91,43 +44,19 @@ export default async function SearchPage(props: { searchParams?: SearchParams })
     );
   }
 
-  const like = `*${q}*`;
-  const orClause = `title.ilike.${like},description_md.ilike.${like}`;
-
-  const ownedPromise = supabase
-    .from("projects")
-    .select("id,title,visibility,is_hidden,updated_at")
-    .eq("owner_user_id", userId)
-    .or(orClause)
-    .order("updated_at", { ascending: false })
-    .limit(30)
-    .returns<ProjectRowLite[]>();
-
-  const membershipsPromise = supabase
-    .from("project_members")
-    .select("project_id,role")
-    .eq("user_id", userId)
-    .limit(300)
-    .returns<MembershipRow[]>();
-
-  const communityPromise = supabase
-    .from("projects")
-    .select("id,title,visibility,is_hidden,updated_at")
-    .eq("is_hidden", false)
-    .not("published_at", "is", null)
-    .in("visibility", ["public", "unlisted"])
-    .or(orClause)
-    .order("updated_at", { ascending: false })
-    .limit(40)
-    .returns<CommunityRow[]>();
+  const [my, community, content] = await Promise.all([
+    searchProjects(supabase, { query: q, scope: "mine", limit: PAGE_SIZE }),
+    searchProjects(supabase, { query: q, scope: "others", limit: PAGE_SIZE }),
+    searchContent(supabase, q, 40),
+  ]);
 
-  const [
-    { data: owned, error: ownedErr },
-    { data: memberships, error: memErr },
-    { data: comm, error: commErr },
-  ] = await Promise.all([ownedPromise, membershipsPromise, communityPromise]);
+  const [myHits, communityHits] = await Promise.all([
+    loadProjectHits(supabase, userId, my.ok ? my.data.matches : []),
+    loadProjectHits(supabase, userId, community.ok ? community.data.matches : []),
+  ]);
 
-  const errorMsg = ownedErr?.message ?? memErr?.message ?? commErr?.message ?? null;
+  const errorMsg =
+    [my, community, myHits, communityHits].map((r) => (r.ok ? null : r.error)).find(Boolean) ?? null;
 
   if (errorMsg) {
     return (
@@ -154,59 +83,7 @@ export default async function SearchPage(props: { searchParams?: SearchParams })
     );
   }
 
-  const ownedList = owned ?? [];
-  const ownedSet = new Set(ownedList.map((p) => p.id));
-
-  const roleById = new Map<string, ProjectRole>();
-  const memberIds: string[] = [];
-
-  for (const m of memberships ?? []) {
-    if (ownedSet.has(m.project_id)) continue;
-    memberIds.push(m.project_id);
-    roleById.set(m.project_id, isProjectRole(m.role) ? m.role : "guest");
-  }
-
-  let imported: ProjectRowLite[] = [];
-  if (memberIds.length) {
-    const { data: imp, error: impErr } = await supabase
-      .from("projects")
-      .select("id,title,visibility,is_hidden,updated_at")
-      .in("id", memberIds)
-      .or(orClause)
-      .order("updated_at", { ascending: false })
-      .limit(60)
-      .returns<ProjectRowLite[]>();
-
-    if (!impErr) imported = imp ?? [];
-  }
-
-  const myMap = new Map<string, ProjectHit>();
-
-  for (const p of ownedList) {
-    myMap.set(p.id, {
-      id: p.id,
-      title: p.title,
-      visibility: p.visibility,
-      is_hidden: Boolean(p.is_hidden),
-      updated_at: p.updated_at,
-      role: "owner",
-    });
-  }
-
-  for (const p of imported) {
-    if (myMap.has(p.id)) continue;
-    myMap.set(p.id, {
-      id: p.id,
-      title: p.title,
-      visibility: p.visibility,
-      is_hidden: Boolean(p.is_hidden),
-      updated_at: p.updated_at,
-      role: roleById.get(p.id) ?? "guest",
-    });
-  }
-
-  const my = Array.from(myMap.values()).sort((a, b) => b.updated_at.localeCompare(a.updated_at));
-  const community = (comm ?? []).filter((p) => !myMap.has(p.id));
+  const contentHits = content.ok ? content.data : [];
 
   return (
     <div className="space-y-6">
@@ -225,53 +102,50 @@ export default async function SearchPage(props: { searchParams?: SearchParams })
 
       <div className="space-y-3">
         <h2 className="text-base font-semibold">Mis proyectos</h2>
-        {my.length ? (
-          <div className="grid gap-3 md:grid-cols-2">
-            {my.map((p) => (
-              <Card key={p.id}>
-                <CardHeader className="space-y-1">
-                  <CardTitle className="text-base truncate">{p.title}</CardTitle>
-                  <CardDescription className="text-xs">
-                    {roleLabel(p.role)} · {p.visibility ?? "—"} · Actualizado:{" "}
-                    {formatDateTimeCL(p.updated_at)}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Button asChild size="sm" variant="secondary">
-                    <Link href={projHref(p.id)}>Abrir</Link>
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        ) : (
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base">Sin coincidencias</CardTitle>
-              <CardDescription>No se encontraron proyectos tuyos con ese término.</CardDescription>
-            </CardHeader>
-          </Card>
-        )}
+        <SearchResultsClient
+          key={`my:${q}`}
+          q={q}
+          scope="my"
+          pageSize={PAGE_SIZE}
+          initial={myHits.ok ? myHits.data : []}
+          initialCursor={my.ok ? my.data.next_cursor : null}
+          emptyText="No se encontraron proyectos tuyos con ese término."
+        />
       </div>
 
       <div className="space-y-3">
         <h2 className="text-base font-semibold">Comunidad</h2>
-        {community.length ? (
-          <div className="grid gap-3 md:grid-cols-2">
-            {community.map((p) => (
-              <Card key={p.id}>
-                <CardHeader className="space-y-1">
-                  <CardTitle className="text-base truncate">{p.title}</CardTitle>
-                  <CardDescription className="text-xs">
-                    {p.visibility ?? "—"} · Actualizado: {formatDateTimeCL(p.updated_at)}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Button asChild size="sm" variant="secondary">
-                    <Link href={projHref(p.id)}>Abrir</Link>
-                  </Button>
-                </CardContent>
-              </Card>
+        <SearchResultsClient
+          key={`c:${q}`}
+          q={q}
+          scope="community"
+          pageSize={PAGE_SIZE}
+          initial={communityHits.ok ? communityHits.data : []}
+          initialCursor={community.ok ? community.data.next_cursor : null}
+          emptyText="No se encontraron proyectos públicos/unlisted con ese término."
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h2 className="text-base font-semibold">En el contenido</h2>
+        {!content.ok ? (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+            No se pudo buscar en el contenido: {content.error}
+          </div>
+        ) : contentHits.length ? (
+          <div className="space-y-2">
+            {contentHits.map((h) => (
+              <Link
+                key={`${h.kind}:${h.card_id ?? h.group_id ?? h.block_id ?? h.project_id}`}
+                href={contentHitHref(h)}
+                className="block rounded-lg border p-3 hover:bg-muted/40"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="truncate text-sm font-medium">{h.project_title}</p>
+                  <span className="text-xs text-muted-foreground">{CONTENT_KIND_LABEL[h.kind]}</span>
+                </div>
+                <HighlightedSnippet snippet={h.snippet} className="mt-1 block text-sm text-muted-foreground" />
+              </Link>
             ))}
           </div>
         ) : (
@@ -279,7 +153,7 @@ export default async function SearchPage(props: { searchParams?: SearchParams })
             <CardHeader>
               <CardTitle className="text-base">Sin coincidencias</CardTitle>
               <CardDescription>
-                No se encontraron proyectos públicos/unlisted con ese término.
+                Ningún bloque de texto, grupo ni carta de los proyectos que puedes ver contiene ese término.
               </CardDescription>
             </CardHeader>
           </Card>
@@ -0,0 +1,113 @@
+// app/protected/search/search-results-client.tsx
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTimeCL } from "@/lib/datetime";
+import type { ProjectSearchHit } from "@/lib/search";
+
+type ScopeResp = { items: ProjectSearchHit[]; next_cursor: string | null } | { error: string };
+
+function roleLabel(role?: ProjectSearchHit["role"]) {
+  if (!role) return null;
+  if (role === "owner") return "Dueño";
+  if (role === "editor") return "Editor";
+  return "Invitado";
+}
+
+function projHref(id: string) {
+  return `/protected/projects/${encodeURIComponent(id)}?tab=view`;
+}
+
+/** Resultados de un scope de /api/search con “Cargar más” (cursor). */
+export function SearchResultsClient(props: {
+  q: string;
+  scope: "my" | "community";
+  pageSize: number;
+  initial: ProjectSearchHit[];
+  initialCursor: string | null;
+  emptyText: string;
+}) {
+  const [items, setItems] = useState(props.initial);
+  const [cursor, setCursor] = useState(props.initialCursor);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function loadMore() {
+    if (!cursor) return;
+    setErr(null);
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams({
+        q: props.q,
+        scope: props.scope,
+        cursor,
+        limit: String(props.pageSize),
+      });
+      const res = await fetch(`/api/search?${params.toString()}`, { headers: { Accept: "application/json" } });
+      const data = (await res.json()) as ScopeResp;
+
+      if (!res.ok || "error" in data) {
+        setErr("error" in data ? data.error : "Error.");
+        return;
+      }
+
+      setItems((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...data.items.filter((p) => !seen.has(p.id))];
+      });
+      setCursor(data.next_cursor);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Error.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Sin coincidencias</CardTitle>
+          <CardDescription>{props.emptyText}</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 md:grid-cols-2">
+        {items.map((p) => (
+          <Card key={p.id}>
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-base truncate">{p.title}</CardTitle>
+              <CardDescription className="text-xs">
+                {p.role ? `${roleLabel(p.role)} · ` : null}
+                {p.visibility ?? "—"} · Actualizado: {formatDateTimeCL(p.updated_at)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild size="sm" variant="secondary">
+                <Link href={projHref(p.id)}>Abrir</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {err ? <p className="text-sm text-destructive">{err}</p> : null}
+
+      {cursor ? (
+        <div className="flex justify-center">
+          <Button type="button" variant="outline" size="sm" disabled={loading} onClick={loadMore}>
+            {loading ? "Cargando..." : "Cargar más"}
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
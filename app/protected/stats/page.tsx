@@ -0,0 +1,214 @@
+// app/protected/stats/page.tsx
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { BarChart3 } from "lucide-react";
+
+import { createClient } from "@/lib/supabase/server";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { endOfDayCL, startOfDayCL } from "@/lib/datetime";
+import { isStatsRange, loadReviewStats, type StatsRange } from "@/lib/review-stats";
+import { StatsCharts } from "./stats-client";
+
+type SearchParams = { project?: string; group?: string; range?: string; from?: string; to?: string };
+
+type ProjectLite = { id: string; title: string; updated_at: string };
+type GroupLite = { id: string; title: string; block_id: string };
+
+const SELECT_CLASS = "h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm";
+
+const RANGE_LABEL: Record<StatsRange, string> = {
+  "7": "Últimos 7 días",
+  "30": "Últimos 30 días",
+  "90": "Últimos 90 días",
+  "365": "Último año",
+  all: "Todo",
+};
+
+function dayParam(v: string | undefined): string | null {
+  const s = String(v ?? "").trim();
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) ? s : null;
+}
+
+export default async function StatsPage(props: { searchParams?: SearchParams | Promise<SearchParams> }) {
+  const sp = await Promise.resolve(props.searchParams);
+
+  const supabase = await createClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) redirect("/auth/login");
+  const userId = userRes.user.id;
+
+  // Proyectos accesibles (dueño + miembro)
+  const [{ data: owned }, { data: mem }] = await Promise.all([
+    supabase
+      .from("projects")
+      .select("id,title,updated_at")
+      .eq("owner_user_id", userId)
+      .returns<ProjectLite[]>(),
+    supabase
+      .from("project_members")
+      .select("project_id")
+      .eq("user_id", userId)
+      .returns<{ project_id: string }[]>(),
+  ]);
+
+  const memberIds = (mem ?? []).map((m) => m.project_id);
+  const { data: memberProjects } = memberIds.length
+    ? await supabase.from("projects").select("id,title,updated_at").in("id", memberIds).returns<ProjectLite[]>()
+    : { data: [] as ProjectLite[] };
+
+  const byId = new Map<string, ProjectLite>();
+  for (const p of [...(owned ?? []), ...(memberProjects ?? [])]) byId.set(p.id, p);
+  const projects = [...byId.values()].sort((a, b) => a.title.localeCompare(b.title, "es"));
+
+  const projectId = sp?.project && byId.has(sp.project) ? sp.project : null;
+
+  // Grupos del proyecto elegido (orden de bloques, luego orden dentro del bloque)
+  let groups: GroupLite[] = [];
+  if (projectId) {
+    const { data: blocks } = await supabase
+      .from("project_blocks")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("type", "flashcards")
+      .order("order_index", { ascending: true })
+      .returns<{ id: string }[]>();
+    const blockIds = (blocks ?? []).map((b) => b.id);
+    if (blockIds.length) {
+      const { data: rows } = await supabase
+        .from("flashcard_groups")
+        .select("id,title,block_id")
+        .in("block_id", blockIds)
+        .order("order_index", { ascending: true })
+        .returns<GroupLite[]>();
+      const blockOrder = new Map(blockIds.map((id, i) => [id, i]));
+      groups = [...(rows ?? [])].sort((a, b) => (blockOrder.get(a.block_id) ?? 0) - (blockOrder.get(b.block_id) ?? 0));
+    }
+  }
+  const groupId = sp?.group && groups.some((g) => g.id === sp.group) ? sp.group : null;
+
+  // Rango: fechas explícitas o preset (30 días por defecto)
+  const range: StatsRange = sp?.range && isStatsRange(sp.range) ? sp.range : "30";
+  const fromDay = dayParam(sp?.from);
+  const toDay = dayParam(sp?.to);
+  let fromIso: string | null = null;
+  let toIso: string | null = null;
+  if (fromDay || toDay) {
+    fromIso = fromDay ? startOfDayCL(new Date(`${fromDay}T12:00:00Z`)).toISOString() : null;
+    toIso = toDay ? endOfDayCL(toDay)?.toISOString() ?? null : null;
+  } else if (range !== "all") {
+    const days = Number(range);
+    fromIso = startOfDayCL(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000)).toISOString();
+  }
+
+  const loaded = await loadReviewStats(supabase, userId, { projectId, groupId, fromIso, toIso });
+
+  const scopeLabel = groupId
+    ? `${byId.get(projectId!)?.title ?? "Proyecto"} · ${groups.find((g) => g.id === groupId)?.title || "Sin título"}`
+    : projectId
+      ? byId.get(projectId)?.title ?? "Proyecto"
+      : "Todos tus proyectos";
+  const rangeLabel =
+    fromDay || toDay ? `${fromDay ?? "inicio"} → ${toDay ?? "hoy"}` : RANGE_LABEL[range];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="inline-flex h-9 w-9 items-center justify-center rounded-lg border bg-muted/30">
+              <BarChart3 className="h-5 w-5 text-muted-foreground" />
+            </span>
+            <h1 className="text-2xl font-semibold">Estadísticas</h1>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Cuánto recuerdas realmente: retención, respuestas y madurez de tus tarjetas.
+          </p>
+        </div>
+        <Button asChild variant="ghost">
+          <Link href="/protected/agenda">Agenda</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-1">
+          <CardTitle>Filtros</CardTitle>
+          <CardDescription>
+            El rango de fechas aplica a las respuestas; los conteos de tarjetas son del estado actual.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form method="get" className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6">
+            <div className="space-y-1 lg:col-span-2">
+              <Label htmlFor="stats-project">Proyecto</Label>
+              <select id="stats-project" name="project" defaultValue={projectId ?? ""} className={SELECT_CLASS}>
+                <option value="">Todos</option>
+                {projects.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1 lg:col-span-2">
+              <Label htmlFor="stats-group">Grupo</Label>
+              <select
+                id="stats-group"
+                name="group"
+                defaultValue={groupId ?? ""}
+                disabled={!projectId}
+                className={SELECT_CLASS}
+              >
+                <option value="">{projectId ? "Todos" : "Elige un proyecto"}</option>
+                {groups.map((g) => (
+                  <option key={g.id} value={g.id}>
+                    {g.title || "Sin título"}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1 lg:col-span-2">
+              <Label htmlFor="stats-range">Periodo</Label>
+              <select id="stats-range" name="range" defaultValue={range} className={SELECT_CLASS}>
+                {(Object.keys(RANGE_LABEL) as StatsRange[]).map((r) => (
+                  <option key={r} value={r}>
+                    {RANGE_LABEL[r]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1 lg:col-span-2">
+              <Label htmlFor="stats-from">Desde (opcional)</Label>
+              <Input id="stats-from" name="from" type="date" defaultValue={fromDay ?? ""} />
+            </div>
+
+            <div className="space-y-1 lg:col-span-2">
+              <Label htmlFor="stats-to">Hasta (opcional)</Label>
+              <Input id="stats-to" name="to" type="date" defaultValue={toDay ?? ""} />
+            </div>
+
+            <div className="flex items-end gap-2 lg:col-span-2">
+              <Button type="submit">Aplicar</Button>
+              <Button asChild variant="ghost">
+                <Link href="/protected/stats">Limpiar</Link>
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {!loaded.ok ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+          {loaded.error}
+        </div>
+      ) : (
+        <StatsCharts stats={loaded.data} scopeLabel={scopeLabel} rangeLabel={rangeLabel} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+// app/protected/stats/stats-client.tsx
+"use client";
+
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  MATURE_INTERVAL_DAYS,
+  buttonBreakdown,
+  cardMaturity,
+  easeDistribution,
+  intervalDistribution,
+  trueRetention,
+  youngRetention,
+  type Bucket,
+  type ReviewStats,
+} from "@/lib/review-stats";
+import type { ReviewRating, ReviewState } from "@/lib/types/study";
+import { cn } from "@/lib/utils";
+
+const RATING_META: Array<{ key: ReviewRating; label: string; className: string }> = [
+  { key: "again", label: "Otra vez", className: "bg-destructive/80" },
+  { key: "hard", label: "Difícil", className: "bg-amber-500/80" },
+  { key: "good", label: "Bien", className: "bg-emerald-500/80" },
+  { key: "easy", label: "Fácil", className: "bg-sky-500/80" },
+];
+
+const STATE_LABEL: Record<ReviewState, string> = {
+  new: "Nueva",
+  learning: "Aprendizaje",
+  review: "Repaso",
+  relearning: "Reaprendizaje",
+};
+
+const MATURITY_META = [
+  { key: "new", label: "Nuevas", className: "bg-muted-foreground/40" },
+  { key: "learning", label: "Aprendiendo", className: "bg-amber-500/80" },
+  { key: "young", label: "Jóvenes", className: "bg-primary/50" },
+  { key: "mature", label: "Maduras", className: "bg-primary" },
+] as const;
+
+function pct(rate: number | null): string {
+  return rate == null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+/** Gráficos de retención y madurez (datos ya agregados en el servidor). */
+export function StatsCharts(props: { stats: ReviewStats; scopeLabel: string; rangeLabel: string }) {
+  const { answers, cards } = props.stats;
+
+  const mature = useMemo(() => trueRetention(answers), [answers]);
+  const young = useMemo(() => youngRetention(answers), [answers]);
+  const buttons = useMemo(() => buttonBreakdown(answers), [answers]);
+  const maturity = useMemo(() => cardMaturity(cards), [cards]);
+  const intervals = useMemo(() => intervalDistribution(cards), [cards]);
+  const eases = useMemo(() => easeDistribution(cards), [cards]);
+
+  const totalAnswers = answers.reduce((acc, r) => acc + r.total, 0);
+  const totalCards = maturity.new + maturity.learning + maturity.young + maturity.mature;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        {props.scopeLabel} · {props.rangeLabel}
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Stat label="Retención real" value={pct(mature.rate)} hint={`${mature.total} repasos maduros`} />
+        <Stat label="Retención jóvenes" value={pct(young.rate)} hint={`${young.total} repasos`} />
+        <Stat label="Respuestas" value={String(totalAnswers)} hint="en el periodo" />
+        <Stat label="Tarjetas" value={String(totalCards)} hint={`${maturity.mature} maduras`} />
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-1">
+          <CardTitle>Madurez de tarjetas</CardTitle>
+          <CardDescription>
+            Maduras: intervalo de {MATURE_INTERVAL_DAYS}+ días. Jóvenes: en repaso con intervalo menor.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex h-4 overflow-hidden rounded-full bg-muted">
+            {MATURITY_META.map((m) =>
+              maturity[m.key] > 0 ? (
+                <div
+                  key={m.key}
+                  className={m.className}
+                  style={{ width: `${(maturity[m.key] / Math.max(1, totalCards)) * 100}%` }}
+                  title={`${m.label}: ${maturity[m.key]}`}
+                />
+              ) : null
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            {MATURITY_META.map((m) => (
+              <div key={m.key} className="flex items-center gap-2 text-xs">
+                <span className={cn("h-2.5 w-2.5 rounded-[3px]", m.className)} />
+                <span className="text-muted-foreground">{m.label}</span>
+                <span className="ml-auto font-medium tabular-nums">{maturity[m.key]}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="space-y-1">
+          <CardTitle>Respuestas por estado</CardTitle>
+          <CardDescription>Botón elegido según el estado de la tarjeta al responder.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {(Object.keys(STATE_LABEL) as ReviewState[]).map((s) => {
+            const row = buttons[s];
+            const total = row.again + row.hard + row.good + row.easy;
+            return (
+              <div key={s} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium">{STATE_LABEL[s]}</span>
+                  <span className="text-muted-foreground tabular-nums">{total}</span>
+                </div>
+                <div className="flex h-3 overflow-hidden rounded-full bg-muted">
+                  {total > 0
+                    ? RATING_META.map((r) =>
+                        row[r.key] > 0 ? (
+                          <div
+                            key={r.key}
+                            className={r.className}
+                            style={{ width: `${(row[r.key] / total) * 100}%` }}
+                            title={`${r.label}: ${row[r.key]} (${Math.round((row[r.key] / total) * 100)}%)`}
+                          />
+                        ) : null
+                      )
+                    : null}
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex flex-wrap gap-3 pt-1 text-[11px] text-muted-foreground">
+            {RATING_META.map((r) => (
+              <span key={r.key} className="inline-flex items-center gap-1">
+                <span className={cn("h-2 w-2 rounded-[2px]", r.className)} /> {r.label}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Histogram title="Intervalos" description="Tarjetas en repaso según su intervalo actual." buckets={intervals} />
+        <Histogram title="Facilidad (ease)" description="Tarjetas en repaso según su factor de facilidad." buckets={eases} />
+      </div>
+    </div>
+  );
+}
+
+function Histogram(props: { title: string; description: string; buckets: Bucket[] }) {
+  const max = Math.max(1, ...props.buckets.map((b) => b.total));
+  const total = props.buckets.reduce((acc, b) => acc + b.total, 0);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle>{props.title}</CardTitle>
+        <CardDescription>{props.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {total === 0 ? (
+          <p className="text-xs text-muted-foreground">Sin tarjetas en repaso.</p>
+        ) : (
+          <div className="flex h-40 items-end gap-1">
+            {props.buckets.map((b) => (
+              <div key={b.label} className="flex h-full flex-1 flex-col items-center justify-end gap-1">
+                <span className="text-[10px] tabular-nums text-muted-foreground">{b.total || ""}</span>
+                <div
+                  className="w-full rounded-t-[3px] bg-primary/70"
+                  style={{ height: `${(b.total / max) * 100}%` }}
+                  title={`${b.label}: ${b.total}`}
+                />
+                <span className="whitespace-nowrap text-[9px] text-muted-foreground">{b.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function Stat(props: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border bg-muted/10 p-2">
+      <p className="text-[11px] text-muted-foreground">{props.label}</p>
+      <p className="text-lg font-semibold tabular-nums">{props.value}</p>
+      {props.hint ? <p className="truncate text-[11px] text-muted-foreground">{props.hint}</p> : null}
+    </div>
+  );
+}
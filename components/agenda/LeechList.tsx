@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import Link from "next/link";
+import { Bug } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { updateCardRpc } from "@/app/protected/projects/[projectId]/actions";
+import {
+  clearLeechMark,
+  listFlaggedCards,
+  setCardSuspended,
+  type FlaggedCard,
+} from "@/app/protected/projects/[projectId]/practice-actions";
+import { formatDateTimeCL } from "@/lib/datetime";
+
+type Scope = "project" | "all";
+
+const TEXTAREA_CLASS =
+  "min-h-16 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/**
+ * Sanguijuelas (demasiados lapsos) y cartas suspendidas del usuario:
+ * reactivar, suspender o reescribir (dueño/editor).
+ */
+export function LeechList(props: { projectId?: string | null }) {
+  const [scope, setScope] = useState<Scope>(props.projectId ? "project" : "all");
+  const [items, setItems] = useState<FlaggedCard[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function load() {
+    setError(null);
+    startTransition(async () => {
+      const res = await listFlaggedCards({ project_id: scope === "project" ? props.projectId ?? null : null });
+      setLoaded(true);
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setItems(res.data);
+    });
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scope, props.projectId]);
+
+  function patch(cardId: string, next: Partial<FlaggedCard>) {
+    setItems((cur) =>
+      cur
+        .map((x) => (x.card_id === cardId ? { ...x, ...next } : x))
+        // sin marca ni suspensión ya no pertenece a la lista
+        .filter((x) => x.leech_at || x.suspended_at)
+    );
+  }
+
+  function toggleSuspend(item: FlaggedCard) {
+    const suspended = !item.suspended_at;
+    setError(null);
+    startTransition(async () => {
+      const res = await setCardSuspended({ card_id: item.card_id, suspended });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      patch(item.card_id, { suspended_at: suspended ? new Date().toISOString() : null });
+    });
+  }
+
+  function unmark(item: FlaggedCard) {
+    setError(null);
+    startTransition(async () => {
+      const res = await clearLeechMark({ card_id: item.card_id });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      patch(item.card_id, { leech_at: null });
+    });
+  }
+
+  // Reescribir: guarda el contenido, quita la marca y reactiva
+  function rewrite(item: FlaggedCard, front: string, back: string) {
+    setError(null);
+    startTransition(async () => {
+      const res = await updateCardRpc({ project_id: item.project_id, card_id: item.card_id, kind: item.kind, front, back });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      const [m, s] = await Promise.all([
+        clearLeechMark({ card_id: item.card_id }),
+        item.suspended_at ? setCardSuspended({ card_id: item.card_id, suspended: false }) : Promise.resolve(null),
+      ]);
+      if (!m.ok) setError(m.error);
+      else if (s && !s.ok) setError(s.error);
+
+      setEditingId(null);
+      setItems((cur) => cur.filter((x) => x.card_id !== item.card_id));
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <Bug className="h-4 w-4 text-muted-foreground" />
+          Sanguijuelas y suspendidas
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {props.projectId ? (
+            <>
+              <Button type="button" size="sm" variant={scope === "project" ? "default" : "ghost"} onClick={() => setScope("project")}>
+                Este proyecto
+              </Button>
+              <Button type="button" size="sm" variant={scope === "all" ? "default" : "ghost"} onClick={() => setScope("all")}>
+                Todos
+              </Button>
+            </>
+          ) : null}
+          <Button type="button" size="sm" variant="secondary" disabled={isPending} onClick={load}>
+            Recargar
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Una sanguijuela es una tarjeta que olvidas una y otra vez. Suele ayudar más reescribirla (más corta, con otro
+        ejemplo) que seguir repasándola. El umbral se configura en tu perfil.
+      </p>
+
+      {error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+      ) : null}
+
+      {!loaded && isPending ? <div className="h-24 animate-pulse rounded-lg border bg-muted/30" /> : null}
+
+      {loaded && items.length === 0 && !error ? (
+        <p className="text-xs text-muted-foreground">No tienes sanguijuelas ni tarjetas suspendidas.</p>
+      ) : null}
+
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div key={item.card_id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex flex-wrap items-center gap-2 text-[11px]">
+              {item.leech_at ? (
+                <span className="rounded-full bg-destructive/10 px-2 py-0.5 text-destructive">Sanguijuela</span>
+              ) : null}
+              {item.suspended_at ? (
+                <span className="rounded-full bg-muted px-2 py-0.5 text-muted-foreground">Suspendida</span>
+              ) : null}
+              <span className="text-muted-foreground">
+                {item.lapses} {item.lapses === 1 ? "lapso" : "lapsos"} ·{" "}
+                <Link href={`/protected/projects/${encodeURIComponent(item.project_id)}`} className="underline">
+                  {item.project_title}
+                </Link>
+                {item.group_title ? ` · ${item.group_title}` : ""}
+                {item.leech_at ? ` · ${formatDateTimeCL(item.leech_at)}` : ""}
+              </span>
+            </div>
+
+            {editingId === item.card_id ? (
+              <RewriteForm
+                item={item}
+                disabled={isPending}
+                onCancel={() => setEditingId(null)}
+                onSave={(front, back) => rewrite(item, front, back)}
+              />
+            ) : (
+              <>
+                <div className="grid gap-2 text-sm sm:grid-cols-2">
+                  <p className="whitespace-pre-wrap">{item.front}</p>
+                  {item.back ? <p className="whitespace-pre-wrap text-muted-foreground">{item.back}</p> : null}
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  {item.leech_at ? (
+                    <Button type="button" size="sm" variant="ghost" disabled={isPending} onClick={() => unmark(item)}>
+                      Quitar marca
+                    </Button>
+                  ) : null}
+                  <Button type="button" size="sm" variant="secondary" disabled={isPending} onClick={() => toggleSuspend(item)}>
+                    {item.suspended_at ? "Reactivar" : "Suspender"}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={isPending || !item.can_edit}
+                    title={item.can_edit ? undefined : "Solo el dueño o editores pueden reescribirla."}
+                    onClick={() => setEditingId(item.card_id)}
+                  >
+                    Reescribir
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RewriteForm(props: {
+  item: FlaggedCard;
+  disabled: boolean;
+  onCancel: () => void;
+  onSave: (front: string, back: string) => void;
+}) {
+  const [front, setFront] = useState(props.item.front);
+  const [back, setBack] = useState(props.item.back);
+  const cloze = props.item.kind === "cloze";
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <label className="text-xs font-medium">{cloze ? "Texto cloze" : "Front"}</label>
+        <textarea value={front} onChange={(e) => setFront(e.target.value)} className={TEXTAREA_CLASS} disabled={props.disabled} />
+      </div>
+      <div className="space-y-1">
+        <label className="text-xs font-medium">{cloze ? "Extra (opcional)" : "Back"}</label>
+        <textarea value={back} onChange={(e) => setBack(e.target.value)} className={TEXTAREA_CLASS} disabled={props.disabled} />
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        Al guardar se quita la marca y se reactiva. El cambio afecta a todos los miembros del proyecto.
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={props.onCancel}>
+          Cancelar
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={props.disabled || !front.trim() || (!cloze && !back.trim())}
+          onClick={() => props.onSave(front.trim(), back.trim())}
+        >
+          Guardar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { Flame } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getAgendaHistory, type AgendaHistoryDay } from "@/app/protected/agenda/agenda-actions";
+import {
+  DEFAULT_TIME_ZONE,
+  browserTimeZone,
+  computeStreakStats,
+  heatmapWeeks,
+  todayInTimeZone,
+  type HeatmapCell,
+} from "@/lib/streaks";
+import { cn } from "@/lib/utils";
+
+type Scope = "project" | "all";
+
+const LEVEL_CLASS: Record<0 | 1 | 2 | 3 | 4, string> = {
+  0: "bg-muted",
+  1: "bg-primary/25",
+  2: "bg-primary/50",
+  3: "bg-primary/75",
+  4: "bg-primary",
+};
+
+const WEEKDAY_LABELS = ["Lun", "", "Mié", "", "Vie", "", ""];
+
+// días YYYY-MM-DD ya están en la zona del usuario: se formatean en UTC
+const DAY_FMT = new Intl.DateTimeFormat("es-CL", { timeZone: "UTC", weekday: "short", day: "numeric", month: "short", year: "numeric" });
+const MONTH_FMT = new Intl.DateTimeFormat("es-CL", { timeZone: "UTC", month: "short" });
+
+function dayLabel(day: string): string {
+  return DAY_FMT.format(new Date(`${day}T00:00:00Z`));
+}
+
+function monthLabel(day: string): string {
+  return MONTH_FMT.format(new Date(`${day}T00:00:00Z`));
+}
+
+function firstDay(col: HeatmapCell[]): string | null {
+  return col.find((c) => c)?.day ?? null;
+}
+
+/**
+ * Heatmap anual de repasos con rachas (zona horaria del navegador).
+ * Con projectId permite alternar entre el proyecto y todos los proyectos.
+ */
+export function ReviewHeatmap(props: { projectId?: string | null }) {
+  const [scope, setScope] = useState<Scope>(props.projectId ? "project" : "all");
+  const [days, setDays] = useState<AgendaHistoryDay[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  // la zona del navegador solo se conoce en el cliente (evita mismatch de hidratación)
+  const [tz, setTz] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTz(browserTimeZone());
+  }, []);
+
+  useEffect(() => {
+    if (!tz) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await getAgendaHistory({
+        project_id: scope === "project" ? props.projectId ?? null : null,
+        days: 365,
+        tz,
+      });
+      setLoaded(true);
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setDays(res.data.days);
+    });
+  }, [scope, props.projectId, tz]);
+
+  const today = todayInTimeZone(tz ?? DEFAULT_TIME_ZONE);
+  const stats = useMemo(() => computeStreakStats(days, today), [days, today]);
+  const weeks = useMemo(() => heatmapWeeks(days, today), [days, today]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <Flame className="h-4 w-4 text-orange-500" />
+          Último año
+        </p>
+        {props.projectId ? (
+          <div className="flex gap-1">
+            <Button type="button" size="sm" variant={scope === "project" ? "default" : "ghost"} onClick={() => setScope("project")}>
+              Este proyecto
+            </Button>
+            <Button type="button" size="sm" variant={scope === "all" ? "default" : "ghost"} onClick={() => setScope("all")}>
+              Todos
+            </Button>
+          </div>
+        ) : null}
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Stat label="Racha actual" value={`${stats.current} ${stats.current === 1 ? "día" : "días"}`} />
+        <Stat label="Racha más larga" value={`${stats.longest} ${stats.longest === 1 ? "día" : "días"}`} />
+        <Stat label="Promedio diario" value={stats.dailyAverage.toFixed(1)} />
+        <Stat label="Días sin repasar" value={String(stats.daysMissed)} />
+      </div>
+
+      <div className={cn("overflow-x-auto rounded-lg border p-3", !loaded && isPending && "animate-pulse")}>
+        <div className="inline-flex gap-[3px]">
+          <div className="mr-1 flex flex-col gap-[3px] pt-4">
+            {WEEKDAY_LABELS.map((l, i) => (
+              <span key={i} className="h-3 text-[9px] leading-3 text-muted-foreground">
+                {l}
+              </span>
+            ))}
+          </div>
+
+          {weeks.map((col, w) => {
+            const first = firstDay(col);
+            const prev = w > 0 ? firstDay(weeks[w - 1]) : null;
+            const showMonth = !!first && (!prev || first.slice(0, 7) !== prev.slice(0, 7));
+            return (
+              <div key={w} className="flex flex-col gap-[3px]">
+                <span className="h-3 whitespace-nowrap text-[9px] leading-3 text-muted-foreground">
+                  {showMonth && first ? monthLabel(first) : ""}
+                </span>
+                {col.map((c, i) =>
+                  c ? (
+                    <span
+                      key={c.day}
+                      title={`${dayLabel(c.day)}: ${c.total} ${c.total === 1 ? "repaso" : "repasos"}`}
+                      className={cn("h-3 w-3 rounded-[3px]", LEVEL_CLASS[c.level], c.day === today && "ring-1 ring-foreground/40")}
+                    />
+                  ) : (
+                    <span key={`empty-${i}`} className="h-3 w-3" />
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-2 flex items-center justify-end gap-1 text-[10px] text-muted-foreground">
+          Menos
+          {([0, 1, 2, 3, 4] as const).map((l) => (
+            <span key={l} className={cn("h-3 w-3 rounded-[3px]", LEVEL_CLASS[l])} />
+          ))}
+          Más
+        </div>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        {stats.totalReviews} repasos en {stats.activeDays} días. Los días se cuentan en tu zona horaria ({tz ?? DEFAULT_TIME_ZONE}).
+      </p>
+    </div>
+  );
+}
+
+function Stat(props: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border bg-muted/10 p-2">
+      <p className="text-[11px] text-muted-foreground">{props.label}</p>
+      <p className="text-lg font-semibold tabular-nums">{props.value}</p>
+    </div>
+  );
+}
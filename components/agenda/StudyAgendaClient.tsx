@@ -1,6 +1,7 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
   getAgendaHistory,
@@ -8,7 +9,13 @@ import {
   type AgendaHistoryDay,
   type AgendaRecentReviewRow,
 } from "@/app/protected/agenda/agenda-actions";
+import { undoReview } from "@/app/protected/projects/[projectId]/practice-actions";
 import { formatDateTimeCL, formatDayLabelCL } from "@/lib/datetime";
+import type { DailyLimits } from "@/lib/srs/daily-limits";
+import { browserTimeZone } from "@/lib/streaks";
+import { ReviewHeatmap } from "@/components/agenda/ReviewHeatmap";
+import { WorkloadForecast } from "@/components/agenda/WorkloadForecast";
+import { LeechList } from "@/components/agenda/LeechList";
 
 type AgendaGroupRow = {
   group_id: string;
@@ -32,10 +39,11 @@ type Props = {
   projectId: string;
   groups: AgendaGroupRow[];
   week: AgendaDayRow[];
+  limits?: DailyLimits;
   onPracticeGroup: (groupId: string, title?: string, mode?: PracticeMode) => void;
 };
 
-type TabKey = "hoy" | "semana" | "grupos" | "historial";
+type TabKey = "hoy" | "semana" | "pronostico" | "grupos" | "historial" | "sanguijuelas";
 
 function tabVariant(cur: TabKey, v: TabKey): "default" | "secondary" {
   return cur === v ? "default" : "secondary";
@@ -49,7 +57,7 @@ function ratingLabel(r: string) {
   return r;
 }
 
-export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }: Props) {
+export function StudyAgendaClient({ projectId, groups, week, limits, onPracticeGroup }: Props) {
   const [tab, setTab] = useState<TabKey>("hoy");
 
   // Historial (lazy)
@@ -57,6 +65,8 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
   const [histError, setHistError] = useState<string | null>(null);
   const [histDays, setHistDays] = useState<AgendaHistoryDay[]>([]);
   const [recent, setRecent] = useState<AgendaRecentReviewRow[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const router = useRouter();
 
   const dueToday = useMemo(() => {
     const today = week[0];
@@ -78,7 +88,7 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
     setHistError(null);
     try {
       const [h, r] = await Promise.all([
-        getAgendaHistory({ project_id: projectId, days: 30 }),
+        getAgendaHistory({ project_id: projectId, days: 30, tz: browserTimeZone() }),
         getAgendaRecentReviews({ project_id: projectId, limit: 50 }),
       ]);
 
@@ -94,6 +104,23 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
     }
   }
 
+  // Deshacer la última respuesta fuera de una sesión de práctica
+  async function undoRecent(r: AgendaRecentReviewRow) {
+    if (!r.log_id || undoingId) return;
+    setUndoingId(r.log_id);
+    setHistError(null);
+    try {
+      const res = await undoReview({ log_id: r.log_id });
+      if (!res.ok) throw new Error(res.error);
+      await loadHistory();
+      router.refresh();
+    } catch (e: unknown) {
+      setHistError(e instanceof Error ? e.message : "No se pudo deshacer.");
+    } finally {
+      setUndoingId(null);
+    }
+  }
+
   function openTab(next: TabKey) {
     setTab(next);
     if (next === "historial" && histDays.length === 0 && !histLoading) {
@@ -113,7 +140,7 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
 
   return (
     <div className="space-y-3">
-      {/* 4 botones */}
+      {/* Tabs */}
       <div className="flex flex-wrap gap-2">
         <Button type="button" variant={tabVariant(tab, "hoy")} onClick={() => openTab("hoy")}>
           Hoy
@@ -121,12 +148,18 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
         <Button type="button" variant={tabVariant(tab, "semana")} onClick={() => openTab("semana")}>
           Semana
         </Button>
+        <Button type="button" variant={tabVariant(tab, "pronostico")} onClick={() => openTab("pronostico")}>
+          Pronóstico
+        </Button>
         <Button type="button" variant={tabVariant(tab, "grupos")} onClick={() => openTab("grupos")}>
           Grupos
         </Button>
         <Button type="button" variant={tabVariant(tab, "historial")} onClick={() => openTab("historial")}>
           Historial
         </Button>
+        <Button type="button" variant={tabVariant(tab, "sanguijuelas")} onClick={() => openTab("sanguijuelas")}>
+          Sanguijuelas
+        </Button>
       </div>
 
       {/* HOY */}
@@ -136,6 +169,12 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
           <p className="text-xs text-muted-foreground">
             Tienes <span className="font-medium">{dueToday}</span> tarjetas vencidas para repasar.
           </p>
+          {limits ? (
+            <p className="text-xs text-muted-foreground">
+              Cupo de hoy (todos tus proyectos): {limits.newLeft}/{limits.newPerDay} nuevas · {limits.reviewsLeft}/
+              {limits.reviewsPerDay} repasos.
+            </p>
+          ) : null}
 
           <div className="space-y-2">
             {dueByGroup.slice(0, 8).map((g) => {
@@ -173,6 +212,11 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
       {tab === "semana" ? (
         <div className="rounded-xl border bg-card p-4 space-y-3">
           <p className="text-sm font-medium">Próximos 7 días</p>
+          {limits ? (
+            <p className="text-xs text-muted-foreground">
+              Repasos limitados a {limits.reviewsPerDay} por día (hoy quedan {limits.reviewsLeft}).
+            </p>
+          ) : null}
           <div className="space-y-2">
             {week.map((d) => {
               const total = (d.due_learning ?? 0) + (d.due_review ?? 0);
@@ -190,6 +234,13 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
         </div>
       ) : null}
 
+      {/* PRONÓSTICO */}
+      {tab === "pronostico" ? (
+        <div className="rounded-xl border bg-card p-4">
+          <WorkloadForecast projectId={projectId} />
+        </div>
+      ) : null}
+
       {/* GRUPOS */}
       {tab === "grupos" ? (
         <div className="rounded-xl border bg-card p-4 space-y-3">
@@ -243,6 +294,8 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
             </div>
           ) : null}
 
+          <ReviewHeatmap projectId={projectId} />
+
           {histLoading && histDays.length === 0 ? (
             <div className="h-40 animate-pulse rounded-lg border bg-muted/30" />
           ) : null}
@@ -268,7 +321,7 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
                 <p className="text-xs text-muted-foreground">Aún no hay actividad registrada.</p>
               ) : null}
 
-              {recent.slice(0, 12).map((r) => (
+              {recent.slice(0, 12).map((r, i) => (
                 <div
                   key={`${r.created_at}_${r.card_id}`}
                   className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3"
@@ -277,8 +330,21 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
                     <p className="text-xs text-muted-foreground">{formatDateTimeCL(r.created_at)}</p>
                     <p className="text-sm font-medium truncate">{r.group_title ?? "Sin grupo"}</p>
                   </div>
-                  <div className="text-xs">
-                    Respuesta: <span className="font-medium">{ratingLabel(r.rating)}</span>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span>
+                      Respuesta: <span className="font-medium">{ratingLabel(r.rating)}</span>
+                    </span>
+                    {i === 0 && r.log_id ? (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={histLoading || undoingId !== null}
+                        onClick={() => void undoRecent(r)}
+                      >
+                        {undoingId === r.log_id ? "Deshaciendo…" : "Deshacer"}
+                      </Button>
+                    ) : null}
                   </div>
                 </div>
               ))}
@@ -286,6 +352,13 @@ export function StudyAgendaClient({ projectId, groups, week, onPracticeGroup }:
           </div>
         </div>
       ) : null}
+
+      {/* SANGUIJUELAS */}
+      {tab === "sanguijuelas" ? (
+        <div className="rounded-xl border bg-card p-4">
+          <LeechList projectId={projectId} />
+        </div>
+      ) : null}
     </div>
   );
 }
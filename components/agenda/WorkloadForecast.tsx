@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { CalendarRange } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getAgendaForecast } from "@/app/protected/agenda/agenda-actions";
+import { formatDayLabelCL } from "@/lib/datetime";
+import type { DailyLimits } from "@/lib/srs/daily-limits";
+import { FORECAST_RANGES, simulateForecast, type ForecastDay, type ForecastRange } from "@/lib/srs/forecast";
+import { browserTimeZone, todayInTimeZone } from "@/lib/streaks";
+import { cn } from "@/lib/utils";
+
+type Scope = "project" | "all";
+
+/**
+ * Vencimientos por día para los próximos 30–90 días, con simulación
+ * opcional de nuevas al ritmo diario del perfil.
+ */
+export function WorkloadForecast(props: { projectId?: string | null }) {
+  const [scope, setScope] = useState<Scope>("all");
+  const [range, setRange] = useState<ForecastRange>(30);
+  const [simulate, setSimulate] = useState(true);
+  const [days, setDays] = useState<ForecastDay[]>([]);
+  const [newPool, setNewPool] = useState(0);
+  const [limits, setLimits] = useState<DailyLimits | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  // la zona del navegador solo se conoce en el cliente (evita mismatch de hidratación)
+  const [tz, setTz] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTz(browserTimeZone());
+  }, []);
+
+  useEffect(() => {
+    if (!tz) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await getAgendaForecast({
+        project_id: scope === "project" ? props.projectId ?? null : null,
+        days: range,
+        tz,
+      });
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setDays(res.data.days);
+      setNewPool(res.data.new_pool);
+      setLimits(res.data.limits);
+    });
+  }, [scope, range, props.projectId, tz]);
+
+  const forecast = useMemo(() => {
+    if (!tz) return [];
+    return simulateForecast(days, {
+      today: todayInTimeZone(tz),
+      horizon: range,
+      simulate: simulate && !!limits,
+      newPool,
+      newPerDay: limits?.newPerDay ?? 0,
+      newLeftToday: limits?.newLeft ?? 0,
+    });
+  }, [days, tz, range, simulate, newPool, limits]);
+
+  const summary = useMemo(() => {
+    const total = forecast.reduce((acc, d) => acc + d.total, 0);
+    const peak = forecast.reduce<(typeof forecast)[number] | null>((best, d) => (!best || d.total > best.total ? d : best), null);
+    const cap = limits?.reviewsPerDay ?? null;
+    const overCap = cap == null ? 0 : forecast.filter((d) => d.scheduled + d.from_new > cap).length;
+    const introduced = forecast.reduce((acc, d) => acc + d.new_cards, 0);
+    return { total, peak, overCap, introduced, average: forecast.length ? total / forecast.length : 0 };
+  }, [forecast, limits]);
+
+  const max = Math.max(1, ...forecast.map((d) => d.total));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <CalendarRange className="h-4 w-4 text-muted-foreground" />
+          Próximos {range} días
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {FORECAST_RANGES.map((r) => (
+            <Button key={r} type="button" size="sm" variant={range === r ? "default" : "ghost"} onClick={() => setRange(r)}>
+              {r} días
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {props.projectId ? (
+          <div className="flex gap-1">
+            <Button type="button" size="sm" variant={scope === "all" ? "default" : "ghost"} onClick={() => setScope("all")}>
+              Todos
+            </Button>
+            <Button type="button" size="sm" variant={scope === "project" ? "default" : "ghost"} onClick={() => setScope("project")}>
+              Este proyecto
+            </Button>
+          </div>
+        ) : (
+          <span />
+        )}
+        <Button type="button" size="sm" variant={simulate ? "secondary" : "ghost"} onClick={() => setSimulate((v) => !v)}>
+          {simulate ? "Simulando nuevas" : "Solo programadas"}
+        </Button>
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Stat label="Total estimado" value={String(summary.total)} />
+        <Stat label="Promedio diario" value={summary.average.toFixed(1)} />
+        <Stat
+          label="Día más cargado"
+          value={summary.peak && summary.peak.total > 0 ? `${summary.peak.total}` : "—"}
+          hint={summary.peak && summary.peak.total > 0 ? formatDayLabelCL(summary.peak.day) : undefined}
+        />
+        <Stat label="Días sobre el cupo" value={String(summary.overCap)} />
+      </div>
+
+      <div className={cn("overflow-x-auto rounded-lg border p-3", isPending && "animate-pulse")}>
+        <div className="flex h-40 items-end gap-[2px]" style={{ minWidth: `${forecast.length * 8}px` }}>
+          {forecast.map((d) => {
+            const over = limits ? d.scheduled + d.from_new > limits.reviewsPerDay : false;
+            return (
+              <div
+                key={d.day}
+                className="flex h-full flex-1 flex-col justify-end"
+                title={`${formatDayLabelCL(d.day)}: ${d.scheduled} programadas${
+                  simulate ? ` · ${d.from_new} de nuevas simuladas · ${d.new_cards} nuevas` : ""
+                }`}
+              >
+                {d.new_cards > 0 ? (
+                  <div className="w-full rounded-t-[2px] bg-emerald-500/60" style={{ height: `${(d.new_cards / max) * 100}%` }} />
+                ) : null}
+                {d.from_new > 0 ? <div className="w-full bg-primary/40" style={{ height: `${(d.from_new / max) * 100}%` }} /> : null}
+                <div
+                  className={cn("w-full", over ? "bg-destructive/80" : "bg-primary")}
+                  style={{ height: `${(d.scheduled / max) * 100}%` }}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-2 flex flex-wrap items-center justify-end gap-3 text-[10px] text-muted-foreground">
+          <span className="inline-flex items-center gap-1">
+            <span className="h-2 w-2 rounded-[2px] bg-primary" /> Programadas
+          </span>
+          {simulate ? (
+            <>
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-[2px] bg-primary/40" /> Repasos de nuevas
+              </span>
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-[2px] bg-emerald-500/60" /> Nuevas
+              </span>
+            </>
+          ) : null}
+          <span className="inline-flex items-center gap-1">
+            <span className="h-2 w-2 rounded-[2px] bg-destructive/80" /> Sobre el cupo
+          </span>
+        </div>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        {simulate && limits
+          ? `Simulación: ${summary.introduced} de ${newPool} nuevas a ${limits.newPerDay} por día, respondiendo siempre "Bien". `
+          : ""}
+        {limits ? `Cupo de repasos: ${limits.reviewsPerDay} por día. ` : ""}
+        Hoy incluye lo atrasado.
+      </p>
+    </div>
+  );
+}
+
+function Stat(props: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border bg-muted/10 p-2">
+      <p className="text-[11px] text-muted-foreground">{props.label}</p>
+      <p className="text-lg font-semibold tabular-nums">{props.value}</p>
+      {props.hint ? <p className="truncate text-[11px] text-muted-foreground">{props.hint}</p> : null}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
   savePomodoroSettingsAction,
   type PomodoroSettings,
 } from "@/app/protected/pomodoro/pomodoro-actions";
+import { POMODORO_COMMAND_EVENT, type PomodoroCommand } from "@/components/pomodoro/commands";
 
 import {
   AlarmClock,
@@ -1265,6 +1266,20 @@ export function PomodoroDock() {
     });
   }
 
+  // Comandos externos (paleta Ctrl/Cmd+K); ref para usar siempre el último start/pause
+  const commandsRef = useRef({ start, pause });
+  commandsRef.current = { start, pause };
+
+  useEffect(() => {
+    const onCommand = (e: Event) => {
+      const command = (e as CustomEvent<PomodoroCommand>).detail;
+      if (command === "start") commandsRef.current.start();
+      if (command === "pause") commandsRef.current.pause();
+    };
+    window.addEventListener(POMODORO_COMMAND_EVENT, onCommand);
+    return () => window.removeEventListener(POMODORO_COMMAND_EVENT, onCommand);
+  }, []);
+
   function restartPhase(p: Phase) {
     void commitWithServer((cur) => {
       const planned = phaseToSeconds(p, cur.settings);
@@ -0,0 +1,15 @@
+// components/pomodoro/commands.ts
+
+/* ---------------------------------------
+   COMANDOS DEL POMODORO
+   Otros componentes (p. ej. la paleta Ctrl/Cmd+K) controlan el dock
+   sin acoplarse a su estado: CustomEvent en window.
+----------------------------------------*/
+
+export const POMODORO_COMMAND_EVENT = "rutalabs:pomodoro:command";
+
+export type PomodoroCommand = "start" | "pause";
+
+export function sendPomodoroCommand(command: PomodoroCommand) {
+  window.dispatchEvent(new CustomEvent<PomodoroCommand>(POMODORO_COMMAND_EVENT, { detail: command }));
+}
@@ -16,13 +16,27 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 
-import { BookOpen, CalendarClock, PenLine, HelpCircle, RotateCcw, X, Undo2, Info } from "lucide-react";
+import { BookOpen, CalendarClock, PenLine, HelpCircle, RotateCcw, X, Undo2, Info, Ban, Moon } from "lucide-react";
 
 import type { PracticeCard, ReviewRating, ReviewState } from "@/lib/types/study";
-import { startPracticeForGroup, submitReview } from "@/app/protected/projects/[projectId]/practice-actions";
-
-type PracticeMode = "due" | "all";
-type Metodo = "clasico" | "escritura";
+import { clozeAnswers, clozeMarkdown } from "@/lib/cloze";
+import { dailyCapFor } from "@/lib/srs/daily-limits";
+import {
+  buryCard,
+  getActivePracticeSession,
+  recordPracticeAnswer,
+  savePracticeSession,
+  setCardSuspended,
+  startPracticeForGroup,
+  submitReview,
+  undoPracticeAnswer,
+  type PracticeLimits,
+  type PracticeMetodo,
+  type PracticeMode,
+  type PracticeUndoSnap,
+} from "@/app/protected/projects/[projectId]/practice-actions";
+
+type Metodo = PracticeMetodo;
 
 function Markdown(props: { md: string }) {
   return (
@@ -41,49 +55,13 @@ type Props = {
   mode?: PracticeMode;
 };
 
-type UndoSnap = {
-  queue: PracticeCard[];
-  idx: number;
-  flipped: boolean;
-  reviewedCount: number;
-};
-
-type SessionSnapshot = {
-  v: 5;
-  savedAt: number;
-  projectId: string;
-  groupId: string;
-
-  mode: PracticeMode;
-  metodo: Metodo;
+type UndoSnap = PracticeUndoSnap;
 
-  idx: number;
-  flipped: boolean;
-
-  initialCount: number;
-  reviewedCount: number;
-
-  queue: PracticeCard[];
-
-  // En agenda = true fijo. En repaso = opcional.
-  guardarEnSrs: boolean;
-
-  undo?: UndoSnap;
+type SessionPatch = {
+  metodo?: Metodo;
+  guardarEnSrs?: boolean;
 };
 
-function sessionKey(projectId: string, groupId: string) {
-  return `practice_session:v5:${projectId}:${groupId}`;
-}
-
-function safeParse<T>(s: string | null): T | null {
-  if (!s) return null;
-  try {
-    return JSON.parse(s) as T;
-  } catch {
-    return null;
-  }
-}
-
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
@@ -101,6 +79,32 @@ function etiquetaEstado(state: string | null | undefined) {
   return s ? s : "—";
 }
 
+// Una carta produce varios ítems: uno por hueco (cloze) o por dirección (bidireccional)
+function itemKey(c: PracticeCard) {
+  return `${c.id}:${c.ordinal ?? 0}:${c.direction ?? "forward"}`;
+}
+
+function esReverso(c: PracticeCard) {
+  return c.direction === "reverse" && c.kind !== "cloze";
+}
+
+function frenteMd(c: PracticeCard) {
+  if (esReverso(c)) return c.back;
+  return c.kind === "cloze" ? clozeMarkdown(c.front, c.ordinal, false) : c.front;
+}
+
+function reversoMd(c: PracticeCard) {
+  if (esReverso(c)) return c.front;
+  if (c.kind !== "cloze") return c.back;
+  const revealed = clozeMarkdown(c.front, c.ordinal, true);
+  return c.back ? `${revealed}\n\n---\n\n${c.back}` : revealed;
+}
+
+function respuestaEsperada(c: PracticeCard) {
+  if (esReverso(c)) return c.front;
+  return c.kind === "cloze" ? clozeAnswers(c.front, c.ordinal).join(" ") : c.back;
+}
+
 function normAnswer(s: string) {
   return s
     .trim()
@@ -116,25 +120,37 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
   const [idx, setIdx] = useState(0);
   const [flipped, setFlipped] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [aviso, setAviso] = useState<string | null>(null);
 
   const [mode, setMode] = useState<PracticeMode>(modeProp ?? "due");
   const [metodo, setMetodo] = useState<Metodo>("clasico");
 
   const [guardarEnSrs, setGuardarEnSrs] = useState(true);
 
+  const [limits, setLimits] = useState<PracticeLimits | null>(null);
+
   const [initialCount, setInitialCount] = useState(0);
   const [reviewedCount, setReviewedCount] = useState(0);
 
   const [respuesta, setRespuesta] = useState("");
   const respuestaNorm = useMemo(() => normAnswer(respuesta), [respuesta]);
 
-  const [undo, setUndo] = useState<UndoSnap | null>(null);
+  // El snapshot para deshacer vive en la sesión del servidor
+  const [canUndo, setCanUndo] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+
+  // Escrituras de la sesión de a una y en orden (guardar, registrar, deshacer)
+  const writesRef = useRef<Promise<unknown>>(Promise.resolve());
 
   const didOpenRef = useRef(false);
+  // Momento en que se mostró la tarjeta actual (tiempo por tarjeta)
+  const shownAtRef = useRef(Date.now());
+  // ítems que sacó de la cola una auto-suspensión; deshacer los devuelve al total
+  const suspendedCountRef = useRef(0);
 
   const current = idx < queue.length ? queue[idx] : null;
 
-  const cardKey = useMemo(() => current?.id ?? "none", [current?.id]);
+  const cardKey = current ? itemKey(current) : "none";
 
   const total = initialCount || 0;
   const hecho = clamp(reviewedCount, 0, total);
@@ -160,70 +176,70 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
       : "Repaso: práctica extra sin guardar (no afecta tu agenda).";
   }, [mode, guardarEnSrs]);
 
-  function saveSession(next?: Partial<SessionSnapshot>) {
-    const snap: SessionSnapshot = {
-      v: 5,
-      savedAt: Date.now(),
-      projectId,
-      groupId,
-      mode,
-      metodo,
-      idx,
-      flipped,
-      initialCount,
-      reviewedCount,
-      queue,
-      guardarEnSrs,
-      undo: undo ?? undefined,
-      ...next,
-    };
-    try {
-      localStorage.setItem(sessionKey(projectId, groupId), JSON.stringify(snap));
-    } catch {}
+  function enqueueWrite<T>(fn: () => Promise<T>): Promise<T> {
+    const run = writesRef.current.then(fn, fn);
+    writesRef.current = run.catch(() => null);
+    return run;
   }
 
-  function clearSession() {
-    try {
-      localStorage.removeItem(sessionKey(projectId, groupId));
-    } catch {}
+  // Persistencia en servidor (practice_sessions); en cola, sin esperar la respuesta
+  function saveSession(next?: SessionPatch) {
+    if (!sessionId) return;
+    const payload = {
+      session_id: sessionId,
+      queue,
+      idx,
+      initial_count: initialCount,
+      reviewed_count: reviewedCount,
+      metodo: next?.metodo ?? metodo,
+      save_to_srs: next?.guardarEnSrs ?? guardarEnSrs,
+    };
+    void enqueueWrite(() => savePracticeSession(payload));
   }
 
-  function tryRestoreSession(): boolean {
-    const snap = safeParse<SessionSnapshot>(localStorage.getItem(sessionKey(projectId, groupId)));
-    if (!snap) return false;
-    if (snap.v !== 5) return false;
-    if (snap.projectId !== projectId || snap.groupId !== groupId) return false;
-
-    const ageMs = Date.now() - (snap.savedAt ?? 0);
-    if (ageMs > 6 * 60 * 60 * 1000) return false;
+  async function tryRestoreSession(): Promise<boolean> {
+    const res = await getActivePracticeSession({ project_id: projectId, group_id: groupId });
+    if (!res.ok || !res.data) return false;
 
-    if (!Array.isArray(snap.queue)) return false;
+    const snap = res.data;
 
-    const restoredMode = snap.mode ?? (modeProp ?? "due");
-    setMode(restoredMode);
-    setMetodo(snap.metodo ?? "clasico");
+    setSessionId(snap.id);
+    setMode(snap.mode);
+    setMetodo(snap.metodo);
 
     setQueue(snap.queue);
-    setInitialCount(Number(snap.initialCount ?? snap.queue.length ?? 0));
-    setReviewedCount(Number(snap.reviewedCount ?? 0));
+    setInitialCount(snap.initial_count);
+    setReviewedCount(snap.reviewed_count);
+    setIdx(snap.idx);
+    setFlipped(false);
 
-    const nextIdx = snap.queue.length === 0 ? 0 : clamp(snap.idx ?? 0, 0, snap.queue.length - 1);
-    setIdx(nextIdx);
-    setFlipped(Boolean(snap.flipped));
+    setGuardarEnSrs(snap.save_to_srs);
 
-    // Agenda: fuerza guardado
-    const g = restoredMode === "due" ? true : Boolean(snap.guardarEnSrs);
-    setGuardarEnSrs(g);
-
-    setUndo(snap.undo ?? null);
+    setCanUndo(snap.can_undo);
+    setLimits(snap.limits);
     setRespuesta("");
 
     return true;
   }
 
+  async function openSession() {
+    setLoading(true);
+    setError(null);
+    try {
+      const restored = await tryRestoreSession();
+      if (restored) return;
+    } catch {
+      // si falla la lectura, arrancamos una sesión nueva
+    } finally {
+      setLoading(false);
+    }
+    await loadFresh(modeProp ?? "due");
+  }
+
   async function loadFresh(nextMode: PracticeMode = mode) {
     setLoading(true);
     setError(null);
+    setAviso(null);
 
     try {
       const res = await startPracticeForGroup({
@@ -231,12 +247,15 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
         group_id: groupId,
         limit: 80,
         mode: nextMode,
-      } as Omit<Parameters<typeof startPracticeForGroup>[0], "mode"> & { mode: string });
+        metodo,
+      });
 
       if (!res.ok) throw new Error(res.error);
 
       const cards: PracticeCard[] = res.data.cards ?? [];
+      setLimits(res.data.limits ?? null);
 
+      setSessionId(res.data.session_id);
       setMode(nextMode);
       setQueue(cards);
       setInitialCount(cards.length);
@@ -250,19 +269,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
       const g = nextMode === "due" ? true : false;
       setGuardarEnSrs(g);
 
-      setUndo(null);
-
-      saveSession({
-        mode: nextMode,
-        idx: 0,
-        flipped: false,
-        queue: cards,
-        initialCount: cards.length,
-        reviewedCount: 0,
-        guardarEnSrs: g,
-        undo: undefined,
-        savedAt: Date.now(),
-      });
+      setCanUndo(false);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : "Error al iniciar práctica.");
     } finally {
@@ -270,30 +277,78 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
     }
   }
 
-  function pushUndo(snap: UndoSnap) {
-    setUndo(snap);
-    saveSession({ undo: snap, savedAt: Date.now() });
+  async function undoLast() {
+    if (!canUndo || !sessionId || loading) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // espera a que la respuesta a deshacer esté registrada
+      const res = await enqueueWrite(() => undoPracticeAnswer({ session_id: sessionId }));
+      if (!res.ok) throw new Error(res.error);
+
+      const u = res.data;
+      setQueue(u.queue);
+      setIdx(u.idx);
+      setFlipped(u.flipped);
+      setReviewedCount(u.reviewedCount);
+      setInitialCount((n) => n + suspendedCountRef.current);
+      suspendedCountRef.current = 0;
+      setRespuesta("");
+      setCanUndo(false);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "No se pudo deshacer.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Saca de la cola todos los ítems de la carta (huecos y direcciones)
+  function quitarCartaDeCola(cardId: string) {
+    const at = queue.findIndex((c) => c.id === cardId);
+    const q = queue.filter((c) => c.id !== cardId);
+    const removed = queue.length - q.length;
+    if (!removed) return;
+
+    setQueue(q);
+    setInitialCount((n) => Math.max(0, n - removed));
+    setIdx(q.length === 0 ? 0 : clamp(at, 0, q.length - 1));
+    // el snapshot del servidor aún la incluye
+    setCanUndo(false);
   }
 
-  function undoLast() {
-    const snap = safeParse<SessionSnapshot>(localStorage.getItem(sessionKey(projectId, groupId)));
-    const u = snap?.undo;
-    if (!u) return;
+  async function apartarActual(accion: "suspender" | "enterrar") {
+    if (!current || loading) return;
+    const cardId = current.id;
 
-    setQueue(u.queue);
-    setIdx(u.idx);
-    setFlipped(u.flipped);
-    setReviewedCount(u.reviewedCount);
-    setRespuesta("");
-    setUndo(null);
+    setLoading(true);
+    setError(null);
+    setAviso(null);
+
+    try {
+      const res = accion === "suspender" ? await setCardSuspended({ card_id: cardId, suspended: true }) : await buryCard({ card_id: cardId });
+      if (!res.ok) throw new Error(res.error);
 
-    saveSession({ undo: undefined, savedAt: Date.now() });
+      setFlipped(false);
+      setRespuesta("");
+      quitarCartaDeCola(cardId);
+      setAviso(
+        accion === "suspender"
+          ? "Tarjeta suspendida. Puedes reactivarla desde Agenda → Sanguijuelas."
+          : "Tarjeta enterrada hasta mañana."
+      );
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "No se pudo apartar la tarjeta.");
+    } finally {
+      setLoading(false);
+    }
   }
 
-  function aplicarRespuestaLocal(cardId: string, rating: ReviewRating) {
+  function aplicarRespuestaLocal(key: string, rating: ReviewRating) {
     setQueue((curQ) => {
       const q = [...curQ];
-      const at = q.findIndex((c) => c.id === cardId);
+      const at = q.findIndex((c) => itemKey(c) === key);
       if (at === -1) return curQ;
 
       const [removed] = q.splice(at, 1);
@@ -315,34 +370,103 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
     if (!current) return;
 
     const cardId = current.id;
+    const ordinal = current.ordinal ?? 0;
+    const direction = current.direction ?? "forward";
+    const key = itemKey(current);
+    const elapsedMs = Date.now() - shownAtRef.current;
 
-    pushUndo({ queue: [...queue], idx, flipped, reviewedCount });
+    const snap: UndoSnap = { queue: [...queue], idx, flipped, reviewedCount };
+    setCanUndo(true);
+    suspendedCountRef.current = 0;
 
     setLoading(true);
     setError(null);
+    setAviso(null);
 
     try {
       setReviewedCount((x) => x + 1);
       setFlipped(false);
       setRespuesta("");
 
+      // Repaso guardando sin cupo para este estado: esta respuesta no se guarda
+      // (submitReview la rechazaría)
+      const cap = dailyCapFor(current.state);
+      const sinCupo =
+        mode === "all" &&
+        guardarEnSrs &&
+        !!limits &&
+        ((cap === "new" && limits.newLeft <= 0) || (cap === "review" && limits.reviewsLeft <= 0));
+      if (sinCupo) {
+        setAviso(
+          cap === "new"
+            ? "Límite de nuevas por hoy alcanzado: esta respuesta no se guardó en agenda."
+            : "Límite de repasos por hoy alcanzado: esta respuesta no se guardó en agenda."
+        );
+      }
+
       // Repaso sin guardar: no backend
-      if (mode === "all" && !guardarEnSrs) {
-        aplicarRespuestaLocal(cardId, rating);
-        saveSession({ savedAt: Date.now() });
+      if (mode === "all" && (!guardarEnSrs || sinCupo)) {
+        aplicarRespuestaLocal(key, rating);
+        if (sessionId) {
+          void enqueueWrite(() =>
+            recordPracticeAnswer({
+              session_id: sessionId,
+              card_id: cardId,
+              ordinal,
+              direction,
+              rating,
+              elapsed_ms: elapsedMs,
+              undo: snap,
+            })
+          );
+        }
         return;
       }
 
       // Guardado real (agenda o repaso guardando)
-      const res = await submitReview({ card_id: cardId, rating });
+      const res = await enqueueWrite(() =>
+        submitReview({
+          card_id: cardId,
+          ordinal,
+          direction,
+          rating,
+          session_id: sessionId,
+          elapsed_ms: elapsedMs,
+          undo: snap,
+        })
+      );
       if (!res.ok) throw new Error(res.error);
 
       const nextDueAt = res.data.next_due_at as string;
       const nextState = res.data.next_state as ReviewState;
 
+      if (cap) {
+        setLimits((l) =>
+          l
+            ? {
+                ...l,
+                newLeft: cap === "new" ? Math.max(0, l.newLeft - 1) : l.newLeft,
+                reviewsLeft: cap === "review" ? Math.max(0, l.reviewsLeft - 1) : l.reviewsLeft,
+              }
+            : l
+        );
+      }
+
+      if (res.data.suspended) {
+        suspendedCountRef.current = queue.filter((c) => c.id === cardId).length;
+        quitarCartaDeCola(cardId);
+        // deshacer esta respuesta también quita la suspensión y devuelve la carta a la cola
+        setCanUndo(true);
+        setAviso("Sanguijuela: la tarjeta acumuló demasiados lapsos y se suspendió. Reescríbela desde Agenda → Sanguijuelas.");
+        return;
+      }
+      if (res.data.leech) {
+        setAviso("Sanguijuela: esta tarjeta acumula muchos lapsos. Considera reescribirla o suspenderla.");
+      }
+
       setQueue((curQ) => {
         const q = [...curQ];
-        const at = q.findIndex((c) => c.id === cardId);
+        const at = q.findIndex((c) => itemKey(c) === key);
         if (at === -1) return curQ;
 
         const [removed] = q.splice(at, 1);
@@ -361,6 +485,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
             state: nextState,
             interval_days: res.data.interval_days,
             ease: res.data.ease,
+            leech: removed.leech || res.data.leech,
           });
         }
 
@@ -368,11 +493,10 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
         setIdx(nextIdx);
         return q;
       });
-
-      saveSession({ savedAt: Date.now() });
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : "Error al guardar el repaso.");
       setReviewedCount((x) => Math.max(0, x - 1));
+      setCanUndo(false);
     } finally {
       setLoading(false);
     }
@@ -393,8 +517,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
     if (didOpenRef.current) return;
     didOpenRef.current = true;
 
-    const restored = tryRestoreSession();
-    if (!restored) void loadFresh(modeProp ?? "due");
+    void openSession();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open, projectId, groupId]);
 
@@ -410,7 +533,12 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
     if (!open) return;
     saveSession();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, idx, flipped, queue.length, mode, metodo, guardarEnSrs, initialCount, reviewedCount]);
+  }, [open, sessionId, idx, queue.length, metodo, guardarEnSrs, initialCount, reviewedCount]);
+
+  // Reinicia el cronómetro al mostrar otra tarjeta
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+  }, [cardKey]);
 
   // Atajos
   useEffect(() => {
@@ -429,7 +557,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
       }
       if (e.key.toLowerCase() === "u") {
         e.preventDefault();
-        undoLast();
+        void undoLast();
         return;
       }
 
@@ -444,7 +572,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, flipped, current?.id, mode, guardarEnSrs]);
+  }, [open, flipped, cardKey, mode, guardarEnSrs]);
 
   if (!open) return null;
 
@@ -541,6 +669,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                                 <p className="text-sm font-semibold">Qué significan las respuestas</p>
                                 <p className="mt-2 text-xs text-muted-foreground leading-relaxed">
                                   Después de ver la respuesta, elige cómo te fue. Eso define cuándo vuelve a aparecer.
+                                  Los tiempos dependen del preset de repaso del proyecto (o el tuyo).
                                 </p>
 
                                 <div className="mt-3 grid gap-2">
@@ -550,7 +679,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                                       No la recordaste. Volverá a salir pronto.
                                     </p>
                                     <p className="mt-2 text-xs text-muted-foreground">
-                                      Normalmente: <b className="text-foreground">10 minutos</b>.
+                                      Con el preset predeterminado: <b className="text-foreground">10 minutos</b>.
                                     </p>
                                   </div>
 
@@ -560,7 +689,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                                       La recordaste con esfuerzo. Puede reaparecer antes que una normal.
                                     </p>
                                     <p className="mt-2 text-xs text-muted-foreground">
-                                      En aprendizaje: <b className="text-foreground">60 minutos</b>.
+                                      En aprendizaje: <b className="text-foreground">15 minutos</b>.
                                     </p>
                                   </div>
 
@@ -638,7 +767,6 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                         size="sm"
                         disabled={loading}
                         onClick={() => {
-                          clearSession();
                           void loadFresh(mode);
                         }}
                       >
@@ -679,7 +807,6 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                           className="h-8 rounded-none px-3"
                           disabled={loading}
                           onClick={() => {
-                            clearSession();
                             void loadFresh("due");
                           }}
                         >
@@ -699,7 +826,6 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                           className="h-8 rounded-none px-3"
                           disabled={loading}
                           onClick={() => {
-                            clearSession();
                             void loadFresh("all");
                           }}
                         >
@@ -728,7 +854,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                             setMetodo("clasico");
                             setRespuesta("");
                             setFlipped(false);
-                            saveSession({ metodo: "clasico", flipped: false, savedAt: Date.now() });
+                            saveSession({ metodo: "clasico" });
                           }}
                         >
                           Clásico
@@ -748,7 +874,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                           onClick={() => {
                             setMetodo("escritura");
                             setFlipped(false);
-                            saveSession({ metodo: "escritura", flipped: false, savedAt: Date.now() });
+                            saveSession({ metodo: "escritura" });
                           }}
                         >
                           <PenLine className="mr-2 h-4 w-4" />
@@ -772,7 +898,7 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                           onClick={() => {
                             const next = !guardarEnSrs;
                             setGuardarEnSrs(next);
-                            saveSession({ guardarEnSrs: next, savedAt: Date.now() });
+                            saveSession({ guardarEnSrs: next });
                           }}
                         >
                           {guardarEnSrs ? "Guardar" : "No guardar"}
@@ -791,8 +917,8 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                         variant="secondary"
                         size="sm"
                         className="h-8 px-3"
-                        disabled={loading || !undo}
-                        onClick={undoLast}
+                        disabled={loading || !canUndo}
+                        onClick={() => void undoLast()}
                       >
                         <Undo2 className="mr-2 h-4 w-4" />
                         Deshacer
@@ -812,6 +938,8 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                 </div>
               ) : null}
 
+              {aviso ? <div className="mb-3 rounded-lg border bg-muted/40 p-3 text-sm">{aviso}</div> : null}
+
               {loading && queue.length === 0 ? (
                 <div className="h-56 animate-pulse rounded-xl border bg-muted/30" />
               ) : null}
@@ -822,6 +950,12 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                   <p className="mt-1 text-xs text-muted-foreground">
                     Prueba “Repaso” si quieres practicar igual (sin afectar agenda).
                   </p>
+                  {limits && (limits.newLeft === 0 || limits.reviewsLeft === 0) ? (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Alcanzaste tu límite diario ({limits.newPerDay} nuevas · {limits.reviewsPerDay} repasos). Puedes
+                      cambiarlo en tu perfil.
+                    </p>
+                  ) : null}
                 </div>
               ) : null}
 
@@ -843,7 +977,6 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                       size="sm"
                       disabled={loading}
                       onClick={() => {
-                        clearSession();
                         void loadFresh(mode);
                       }}
                     >
@@ -871,15 +1004,24 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                       {/* Frente */}
                       <div className="absolute inset-0 flex flex-col min-h-0" style={{ backfaceVisibility: "hidden" }}>
                         <div className="flex items-center justify-between">
-                          <p className="text-xs font-medium text-muted-foreground">Frente</p>
-                          <span className="rounded-full bg-emerald-500/10 px-2 py-1 text-[11px] text-emerald-700 dark:text-emerald-300">
-                            {etiquetaEstado(current.state ?? null)}
+                          <p className="text-xs font-medium text-muted-foreground">
+                            {esReverso(current) ? "Reverso → frente" : "Frente"}
+                          </p>
+                          <span className="flex items-center gap-1">
+                            {current.leech ? (
+                              <span className="rounded-full bg-destructive/10 px-2 py-1 text-[11px] text-destructive">
+                                Sanguijuela
+                              </span>
+                            ) : null}
+                            <span className="rounded-full bg-emerald-500/10 px-2 py-1 text-[11px] text-emerald-700 dark:text-emerald-300">
+                              {etiquetaEstado(current.state ?? null)}
+                            </span>
                           </span>
                         </div>
 
                         {/* El contenido crece y scrollea si es necesario */}
                         <div className="mt-3 flex-1 min-h-0 overflow-auto pr-1">
-                          <Markdown md={current.front} />
+                          <Markdown md={frenteMd(current)} />
                         </div>
 
                         {metodo === "escritura" ? (
@@ -920,7 +1062,9 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                         style={{ backfaceVisibility: "hidden", transform: "rotateY(180deg)" }}
                       >
                         <div className="flex items-center justify-between">
-                          <p className="text-xs font-medium text-muted-foreground">Reverso</p>
+                          <p className="text-xs font-medium text-muted-foreground">
+                            {esReverso(current) ? "Frente" : "Reverso"}
+                          </p>
                           <span className="text-[11px] text-muted-foreground">1-4 para responder · U deshacer</span>
                         </div>
 
@@ -933,14 +1077,14 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
                             {respuestaNorm ? (
                               <p className="mt-2 text-xs text-muted-foreground">
                                 Coincidencia aproximada:{" "}
-                                <b>{normAnswer(current.back).includes(respuestaNorm) ? "sí" : "no / parcial"}</b>
+                                <b>{normAnswer(respuestaEsperada(current)).includes(respuestaNorm) ? "sí" : "no / parcial"}</b>
                               </p>
                             ) : null}
                           </div>
                         ) : null}
 
                         <div className="mt-3 flex-1 min-h-0 overflow-auto pr-1">
-                          <Markdown md={current.back} />
+                          <Markdown md={reversoMd(current)} />
                         </div>
 
                         <div className="mt-3 flex justify-center">
@@ -964,8 +1108,44 @@ export function PracticeOverlay({ open, onClose, projectId, groupId, groupTitle,
             {/* Footer: fijo */}
             <div className="border-t p-3">
               <div className="flex flex-wrap items-center justify-between gap-2">
-                <div className="text-xs text-muted-foreground">
-                  {flipped ? "Elige una respuesta:" : "Voltea la tarjeta para responder."}
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {flipped ? "Elige una respuesta:" : "Voltea la tarjeta para responder."}
+                  </span>
+
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 px-2"
+                        disabled={loading || !current}
+                        onClick={() => void apartarActual("enterrar")}
+                      >
+                        <Moon className="mr-1 h-4 w-4" />
+                        Enterrar
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent className="text-xs">Sácala de la práctica hasta mañana.</TooltipContent>
+                  </Tooltip>
+
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 px-2"
+                        disabled={loading || !current}
+                        onClick={() => void apartarActual("suspender")}
+                      >
+                        <Ban className="mr-1 h-4 w-4" />
+                        Suspender
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent className="text-xs">No vuelve a aparecer hasta que la reactives.</TooltipContent>
+                  </Tooltip>
                 </div>
 
                 <div className="flex flex-wrap gap-2">
@@ -7,7 +7,7 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { createReportAction } from "@/app/protected/reports/report-actions";
 
-export function ReportButton(props: { projectId: string; projectTitle?: string }) {
+export function ReportButton(props: { projectId: string; projectTitle?: string; reviewId?: string; size?: "sm" }) {
   const [open, setOpen] = useState(false);
   const [desc, setDesc] = useState("");
   const [err, setErr] = useState<string | null>(null);
@@ -19,7 +19,11 @@ export function ReportButton(props: { projectId: string; projectTitle?: string }
     setOk(null);
     setBusy(true);
 
-    const res = await createReportAction({ project_id: props.projectId, description: desc });
+    const res = await createReportAction({
+      project_id: props.projectId,
+      review_id: props.reviewId ?? null,
+      description: desc,
+    });
 
     setBusy(false);
     if (!res.ok) {
@@ -34,7 +38,7 @@ export function ReportButton(props: { projectId: string; projectTitle?: string }
 
   return (
     <>
-      <Button type="button" variant="ghost" onClick={() => setOpen(true)}>
+      <Button type="button" variant="ghost" size={props.size} onClick={() => setOpen(true)}>
         Reportar
       </Button>
 
@@ -44,7 +48,7 @@ export function ReportButton(props: { projectId: string; projectTitle?: string }
           <div className="fixed inset-0 flex items-center justify-center p-4" onClick={(e) => e.stopPropagation()}>
             <Card className="w-full max-w-lg rounded-2xl border bg-card shadow-lg p-4 space-y-3">
               <div>
-                <p className="text-sm font-medium">Reportar proyecto</p>
+                <p className="text-sm font-medium">{props.reviewId ? "Reportar reseña" : "Reportar proyecto"}</p>
                 <p className="text-xs text-muted-foreground">
                   {props.projectTitle ? `Proyecto: ${props.projectTitle}` : "Describe el motivo del reporte."}
                 </p>
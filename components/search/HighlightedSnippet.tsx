@@ -0,0 +1,18 @@
+// components/search/HighlightedSnippet.tsx
+import { splitHighlight } from "@/lib/search";
+
+export function HighlightedSnippet(props: { snippet: string; className?: string }) {
+  return (
+    <span className={props.className}>
+      {splitHighlight(props.snippet).map((p, i) =>
+        p.hit ? (
+          <mark key={i} className="rounded-sm bg-amber-200/70 px-0.5 text-foreground dark:bg-amber-500/30">
+            {p.text}
+          </mark>
+        ) : (
+          <span key={i}>{p.text}</span>
+        )
+      )}
+    </span>
+  );
+}
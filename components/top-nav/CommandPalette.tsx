@@ -0,0 +1,387 @@
+// components/top-nav/CommandPalette.tsx
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import {
+  ArrowRight,
+  CalendarDays,
+  FolderOpen,
+  Globe,
+  Layers,
+  Pause,
+  Play,
+  Plus,
+  Timer,
+} from "lucide-react";
+
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { PracticeOverlay } from "@/components/practice/PracticeOverlay";
+import { sendPomodoroCommand } from "@/components/pomodoro/commands";
+import { fuzzyScore } from "@/lib/fuzzy";
+
+type PaletteProject = { id: string; title: string; role: "owner" | "editor" | "guest" };
+
+type PaletteGroup = { id: string; title: string; project_id: string; project_title: string };
+
+type IndexResp = { projects: PaletteProject[]; groups: PaletteGroup[] } | { error: string };
+
+type CommunityResp = { items: Array<{ id: string; title: string }>; next_cursor: string | null } | { error: string };
+
+type PaletteSection = "Acción" | "Proyecto" | "Agenda" | "Práctica" | "Grupo" | "Comunidad";
+
+type PaletteItem = {
+  key: string;
+  section: PaletteSection;
+  label: string;
+  hint?: string;
+  // texto extra que también calza (p. ej. el proyecto de un grupo)
+  keywords?: string;
+  icon: ReactNode;
+  run: () => void;
+};
+
+type PracticeTarget = { projectId: string; groupId: string; groupTitle: string };
+
+const RECENT_KEY = "rutalabs:palette:recent";
+const MAX_RECENT = 20;
+const MAX_RESULTS = 50;
+// lo usado hace poco sube, pero una coincidencia mucho mejor lo supera
+const RECENT_BOOST = 300;
+
+function loadRecent(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(RECENT_KEY) ?? "[]") as unknown;
+    return Array.isArray(raw) ? raw.filter((k): k is string => typeof k === "string").slice(0, MAX_RECENT) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecent(keys: string[]) {
+  try {
+    localStorage.setItem(RECENT_KEY, JSON.stringify(keys.slice(0, MAX_RECENT)));
+  } catch {
+    // no-op (modo privado / cuota)
+  }
+}
+
+function projHref(id: string) {
+  return `/protected/projects/${encodeURIComponent(id)}?tab=view`;
+}
+
+function itemScore(query: string, item: PaletteItem): number | null {
+  const byLabel = fuzzyScore(query, item.label);
+  const byKeywords = item.keywords ? fuzzyScore(query, item.keywords) : null;
+  if (byLabel === null && byKeywords === null) return null;
+  return Math.max(byLabel ?? -Infinity, byKeywords === null ? -Infinity : byKeywords - 50);
+}
+
+/**
+ * Paleta de comandos (Ctrl/Cmd+K): mis proyectos, grupos y comunidad
+ * con búsqueda difusa, más acciones (practicar, agenda, Pomodoro, crear).
+ */
+export function CommandPalette(props: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { open, onOpenChange } = props;
+  const router = useRouter();
+
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const [recent, setRecent] = useState<string[]>([]);
+
+  const [projects, setProjects] = useState<PaletteProject[]>([]);
+  const [groups, setGroups] = useState<PaletteGroup[]>([]);
+  const [community, setCommunity] = useState<Array<{ id: string; title: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const [practice, setPractice] = useState<PracticeTarget | null>(null);
+
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const trimmed = query.trim();
+
+  // índice fresco en cada apertura (el anterior se muestra mientras tanto)
+  useEffect(() => {
+    if (!open) return;
+
+    setQuery("");
+    setActive(0);
+    setRecent(loadRecent());
+    setErr(null);
+    setLoading(true);
+
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch("/api/palette", { headers: { Accept: "application/json" } });
+        const data = (await res.json()) as IndexResp;
+        if (cancelled) return;
+
+        if (!res.ok || "error" in data) {
+          setErr("error" in data ? data.error : "Error.");
+          return;
+        }
+        setProjects(data.projects ?? []);
+        setGroups(data.groups ?? []);
+      } catch (e) {
+        if (!cancelled) setErr(e instanceof Error ? e.message : "Error.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  // comunidad: mismo endpoint que la búsqueda de la barra
+  useEffect(() => {
+    if (!open || trimmed.length < 2) {
+      setCommunity([]);
+      return;
+    }
+
+    const t = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: trimmed, scope: "community", limit: "8" });
+        const res = await fetch(`/api/search?${params.toString()}`, { headers: { Accept: "application/json" } });
+        const data = (await res.json()) as CommunityResp;
+        setCommunity(res.ok && !("error" in data) ? data.items : []);
+      } catch {
+        setCommunity([]);
+      }
+    }, 180);
+
+    return () => clearTimeout(t);
+  }, [open, trimmed]);
+
+  const items = useMemo(() => {
+    const go = (href: string) => () => router.push(href);
+
+    const list: PaletteItem[] = [
+      {
+        key: "pomodoro:start",
+        section: "Acción",
+        label: "Iniciar Pomodoro",
+        keywords: "reanudar temporizador",
+        icon: <Play className="h-4 w-4" />,
+        run: () => sendPomodoroCommand("start"),
+      },
+      {
+        key: "pomodoro:pause",
+        section: "Acción",
+        label: "Pausar Pomodoro",
+        keywords: "detener temporizador",
+        icon: <Pause className="h-4 w-4" />,
+        run: () => sendPomodoroCommand("pause"),
+      },
+      {
+        key: "project:new",
+        section: "Acción",
+        label: "Crear proyecto",
+        keywords: "nuevo proyecto",
+        icon: <Plus className="h-4 w-4" />,
+        run: go("/protected/projects/new"),
+      },
+      ...[
+        { label: "Inicio", href: "/protected" },
+        { label: "Proyectos", href: "/protected/projects" },
+        { label: "Agenda", href: "/protected/agenda" },
+        { label: "Estadísticas", href: "/protected/stats" },
+        { label: "Clases", href: "/protected/cohorts" },
+        { label: "Comunidad", href: "/protected/community" },
+        { label: "Perfil", href: "/protected/profile" },
+      ].map(
+        (n): PaletteItem => ({
+          key: `nav:${n.href}`,
+          section: "Acción",
+          label: `Ir a ${n.label}`,
+          icon: <ArrowRight className="h-4 w-4" />,
+          run: go(n.href),
+        })
+      ),
+    ];
+
+    for (const p of projects) {
+      list.push({
+        key: `project:${p.id}`,
+        section: "Proyecto",
+        label: p.title,
+        icon: <FolderOpen className="h-4 w-4" />,
+        run: go(projHref(p.id)),
+      });
+      list.push({
+        key: `agenda:${p.id}`,
+        section: "Agenda",
+        label: `Agenda de ${p.title}`,
+        icon: <CalendarDays className="h-4 w-4" />,
+        run: go(`/protected/agenda?project=${encodeURIComponent(p.id)}`),
+      });
+    }
+
+    for (const g of groups) {
+      list.push({
+        key: `practice:${g.id}`,
+        section: "Práctica",
+        label: `Practicar ${g.title}`,
+        hint: g.project_title,
+        keywords: g.project_title,
+        icon: <Timer className="h-4 w-4" />,
+        run: () => setPractice({ projectId: g.project_id, groupId: g.id, groupTitle: g.title }),
+      });
+      list.push({
+        key: `group:${g.id}`,
+        section: "Grupo",
+        label: g.title,
+        hint: g.project_title,
+        keywords: g.project_title,
+        icon: <Layers className="h-4 w-4" />,
+        run: go(`${projHref(g.project_id)}#group-${g.id}`),
+      });
+    }
+
+    const mine = new Set(projects.map((p) => p.id));
+    for (const c of community) {
+      if (mine.has(c.id)) continue;
+      list.push({
+        key: `community:${c.id}`,
+        section: "Comunidad",
+        label: c.title,
+        icon: <Globe className="h-4 w-4" />,
+        run: go(projHref(c.id)),
+      });
+    }
+
+    return list;
+  }, [projects, groups, community, router]);
+
+  const results = useMemo(() => {
+    const recentRank = new Map(recent.map((k, i) => [k, i]));
+    const boost = (key: string) => {
+      const r = recentRank.get(key);
+      return r === undefined ? 0 : RECENT_BOOST - r;
+    };
+
+    if (!trimmed) {
+      // sin consulta: recientes primero, luego acciones
+      const recents = items.filter((it) => recentRank.has(it.key)).sort((a, b) => boost(b.key) - boost(a.key));
+      const rest = items.filter((it) => !recentRank.has(it.key) && it.section === "Acción");
+      return [...recents, ...rest].slice(0, MAX_RESULTS);
+    }
+
+    return items
+      .map((it) => ({ it, score: itemScore(trimmed, it) }))
+      .filter((x): x is { it: PaletteItem; score: number } => x.score !== null)
+      .sort((a, b) => b.score + boost(b.it.key) - (a.score + boost(a.it.key)))
+      .slice(0, MAX_RESULTS)
+      .map((x) => x.it);
+  }, [items, recent, trimmed]);
+
+  useEffect(() => {
+    setActive(0);
+  }, [trimmed]);
+
+  useEffect(() => {
+    const el = listRef.current?.querySelector(`[data-idx="${active}"]`);
+    el?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  function runItem(item: PaletteItem) {
+    const next = [item.key, ...recent.filter((k) => k !== item.key)].slice(0, MAX_RECENT);
+    setRecent(next);
+    saveRecent(next);
+
+    onOpenChange(false);
+    item.run();
+  }
+
+  const recentSet = new Set(recent);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-xl gap-0 overflow-hidden p-0">
+          <DialogTitle className="sr-only">Paleta de comandos</DialogTitle>
+
+          <div className="border-b px-3 py-2">
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Busca proyectos, grupos o acciones..."
+              className="h-9 w-full bg-transparent pr-8 text-sm outline-none placeholder:text-muted-foreground"
+              onKeyDown={(e) => {
+                if (e.key === "ArrowDown") {
+                  e.preventDefault();
+                  if (results.length) setActive((i) => (i + 1) % results.length);
+                  return;
+                }
+                if (e.key === "ArrowUp") {
+                  e.preventDefault();
+                  if (results.length) setActive((i) => (i - 1 + results.length) % results.length);
+                  return;
+                }
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  const item = results[active];
+                  if (item) runItem(item);
+                }
+              }}
+            />
+          </div>
+
+          <div ref={listRef} className="max-h-[24rem] overflow-auto p-2">
+            {err ? <p className="px-2 py-1 text-xs text-destructive">{err}</p> : null}
+
+            {results.map((it, i) => (
+              <button
+                key={it.key}
+                type="button"
+                data-idx={i}
+                className={[
+                  "flex w-full items-center gap-3 rounded-md px-2 py-2 text-left text-sm",
+                  "hover:bg-muted/60",
+                  i === active ? "bg-muted" : "",
+                ].join(" ")}
+                onMouseEnter={() => setActive(i)}
+                onClick={() => runItem(it)}
+              >
+                <span className="text-muted-foreground">{it.icon}</span>
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate">{it.label}</span>
+                  {it.hint ? <span className="block truncate text-[11px] text-muted-foreground">{it.hint}</span> : null}
+                </span>
+                <span className="shrink-0 text-[10px] text-muted-foreground">
+                  {!trimmed && recentSet.has(it.key) ? "Reciente" : it.section}
+                </span>
+              </button>
+            ))}
+
+            {results.length === 0 ? (
+              <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+                {loading ? "Cargando..." : "Sin coincidencias."}
+              </p>
+            ) : null}
+          </div>
+
+          <div className="border-t px-3 py-2 text-[11px] text-muted-foreground">
+            ↑↓ moverse · Enter ejecutar · Esc cerrar
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {practice ? (
+        <PracticeOverlay
+          open
+          onClose={() => setPractice(null)}
+          projectId={practice.projectId}
+          groupId={practice.groupId}
+          groupTitle={practice.groupTitle}
+        />
+      ) : null}
+    </>
+  );
+}
@@ -6,6 +6,9 @@ import { useRouter } from "next/navigation";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { formatDateTimeCL } from "@/lib/datetime";
+import { CONTENT_KIND_LABEL, contentHitAnchor, contentHitHref, type ContentHit } from "@/lib/search";
+import { HighlightedSnippet } from "@/components/search/HighlightedSnippet";
+import { CommandPalette } from "@/components/top-nav/CommandPalette";
 
 type ProjectHit = {
   id: string;
@@ -16,7 +19,9 @@ type ProjectHit = {
   role?: "owner" | "editor" | "guest";
 };
 
-type ApiResp = { my: ProjectHit[]; community: ProjectHit[] } | { error: string };
+type ApiResp =
+  | { my: ProjectHit[]; community: ProjectHit[]; content?: ContentHit[]; content_error?: string }
+  | { error: string };
 
 function SearchIcon() {
   return (
@@ -45,6 +50,10 @@ function projHref(id: string) {
   return `/protected/projects/${encodeURIComponent(id)}?tab=view`;
 }
 
+function contentKey(hit: ContentHit) {
+  return `ct:${hit.project_id}:${contentHitAnchor(hit) ?? ""}`;
+}
+
 export function TopNavSearchClient() {
   const router = useRouter();
 
@@ -55,20 +64,36 @@ export function TopNavSearchClient() {
 
   const [my, setMy] = useState<ProjectHit[]>([]);
   const [community, setCommunity] = useState<ProjectHit[]>([]);
+  const [content, setContent] = useState<ContentHit[]>([]);
 
   const rootRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
   const trimmed = query.trim();
   const canSearch = trimmed.length >= 2;
 
   const flatItems = useMemo(() => {
-    const items: Array<{ key: string; kind: "my" | "community"; item: ProjectHit }> = [];
-    for (const x of my) items.push({ key: `my:${x.id}`, kind: "my", item: x });
-    for (const x of community) items.push({ key: `c:${x.id}`, kind: "community", item: x });
+    const items: Array<{ key: string; href: string }> = [];
+    for (const x of my) items.push({ key: `my:${x.id}`, href: projHref(x.id) });
+    for (const x of community) items.push({ key: `c:${x.id}`, href: projHref(x.id) });
+    for (const x of content) items.push({ key: contentKey(x), href: contentHitHref(x) });
     return items;
-  }, [my, community]);
+  }, [my, community, content]);
+
+  // Ctrl/Cmd+K: paleta de comandos
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen(false);
+        setPaletteOpen((v) => !v);
+      }
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
 
   useEffect(() => {
     function onDown(e: MouseEvent) {
@@ -86,6 +111,7 @@ export function TopNavSearchClient() {
     if (!canSearch) {
       setMy([]);
       setCommunity([]);
+      setContent([]);
       setActiveKey(null);
       setLoading(false);
       return;
@@ -107,6 +133,7 @@ export function TopNavSearchClient() {
           setErr(msg);
           setMy([]);
           setCommunity([]);
+          setContent([]);
           setActiveKey(null);
           setLoading(false);
           return;
@@ -116,6 +143,7 @@ export function TopNavSearchClient() {
           setErr(data.error);
           setMy([]);
           setCommunity([]);
+          setContent([]);
           setActiveKey(null);
           setLoading(false);
           return;
@@ -123,9 +151,12 @@ export function TopNavSearchClient() {
 
         setMy(data.my ?? []);
         setCommunity(data.community ?? []);
+        setContent(data.content ?? []);
+        setErr(data.content_error ? `No se pudo buscar en el contenido: ${data.content_error}` : null);
 
         const first = (data.my?.[0] ? `my:${data.my[0].id}` : null)
-          ?? (data.community?.[0] ? `c:${data.community[0].id}` : null);
+          ?? (data.community?.[0] ? `c:${data.community[0].id}` : null)
+          ?? (data.content?.[0] ? contentKey(data.content[0]) : null);
 
         setActiveKey(first);
         setLoading(false);
@@ -134,6 +165,7 @@ export function TopNavSearchClient() {
         setErr(e instanceof Error ? e.message : "Error.");
         setMy([]);
         setCommunity([]);
+        setContent([]);
         setActiveKey(null);
         setLoading(false);
       }
@@ -153,7 +185,7 @@ export function TopNavSearchClient() {
     const found = flatItems.find((x) => x.key === activeKey);
     if (!found) return goFullSearch();
     setOpen(false);
-    router.push(projHref(found.item.id));
+    router.push(found.href);
   }
 
   function step(delta: number) {
@@ -165,173 +197,226 @@ export function TopNavSearchClient() {
   }
 
   return (
-    <div ref={rootRef} className="relative hidden w-[220px] sm:block sm:w-[260px] md:w-[320px]">
-      <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-        <SearchIcon />
-      </span>
-
-      <Input
-        ref={inputRef}
-        value={query}
-        onChange={(e) => {
-          setQuery(e.target.value);
-          if (!open) setOpen(true);
-        }}
-        placeholder="Buscar proyectos..."
-        className="pl-9"
-        onFocus={() => setOpen(true)}
-        onKeyDown={(e) => {
-          if (e.key === "Enter") {
-            e.preventDefault();
-            if (open && (my.length || community.length)) goActive();
-            else goFullSearch();
-            return;
-          }
-          if (e.key === "Escape") {
-            e.preventDefault();
+    <>
+      <div ref={rootRef} className="relative hidden w-[220px] sm:block sm:w-[260px] md:w-[320px]">
+        <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+          <SearchIcon />
+        </span>
+
+        <Input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            if (!open) setOpen(true);
+          }}
+          placeholder="Buscar proyectos y contenido..."
+          className="pl-9 pr-14"
+          onFocus={() => setOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (open && flatItems.length) goActive();
+              else goFullSearch();
+              return;
+            }
+            if (e.key === "Escape") {
+              e.preventDefault();
+              setOpen(false);
+              return;
+            }
+            if (e.key === "ArrowDown") {
+              e.preventDefault();
+              setOpen(true);
+              step(+1);
+              return;
+            }
+            if (e.key === "ArrowUp") {
+              e.preventDefault();
+              setOpen(true);
+              step(-1);
+              return;
+            }
+          }}
+        />
+
+        <button
+          type="button"
+          title="Paleta de comandos (Ctrl/Cmd+K)"
+          className="absolute right-2 top-1/2 -translate-y-1/2 rounded border bg-muted/40 px-1.5 text-[10px] text-muted-foreground hover:bg-muted"
+          onClick={() => {
             setOpen(false);
-            return;
-          }
-          if (e.key === "ArrowDown") {
-            e.preventDefault();
-            setOpen(true);
-            step(+1);
-            return;
-          }
-          if (e.key === "ArrowUp") {
-            e.preventDefault();
-            setOpen(true);
-            step(-1);
-            return;
-          }
-        }}
-      />
-
-      {open && canSearch ? (
-        <div className="absolute left-0 right-0 top-[calc(100%+0.5rem)] z-50">
-          <Card className="overflow-hidden">
-            <div className="border-b px-3 py-2">
-              <div className="flex items-center justify-between gap-2">
-                <p className="text-xs font-medium">
-                  {loading ? "Buscando..." : "Resultados rápidos"}
-                </p>
-                <button
-                  type="button"
-                  className="text-xs text-muted-foreground hover:underline"
-                  onClick={goFullSearch}
-                >
-                  Ver todo
-                </button>
+            setPaletteOpen(true);
+          }}
+        >
+          Ctrl K
+        </button>
+
+        {open && canSearch ? (
+          <div className="absolute left-0 right-0 top-[calc(100%+0.5rem)] z-50">
+            <Card className="overflow-hidden">
+              <div className="border-b px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-medium">
+                    {loading ? "Buscando..." : "Resultados rápidos"}
+                  </p>
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:underline"
+                    onClick={goFullSearch}
+                  >
+                    Ver todo
+                  </button>
+                </div>
+                {err ? (
+                  <p className="mt-1 text-xs text-destructive">{err}</p>
+                ) : (
+                  <p className="mt-1 text-[11px] text-muted-foreground">
+                    Enter abre el seleccionado · Esc cierra
+                  </p>
+                )}
               </div>
-              {err ? (
-                <p className="mt-1 text-xs text-destructive">{err}</p>
-              ) : (
-                <p className="mt-1 text-[11px] text-muted-foreground">
-                  Enter abre el seleccionado · Esc cierra
-                </p>
-              )}
-            </div>
-
-            <div className="max-h-[22rem] overflow-auto">
-              {my.length ? (
-                <div className="px-3 pt-3">
-                  <p className="text-[11px] font-medium text-muted-foreground">Mis proyectos</p>
-                  <div className="mt-2 space-y-1 pb-2">
-                    {my.map((p) => {
-                      const key = `my:${p.id}`;
-                      const active = key === activeKey;
-
-                      return (
-                        <button
-                          key={p.id}
-                          type="button"
-                          className={[
-                            "w-full rounded-md px-2 py-2 text-left",
-                            "hover:bg-muted/60",
-                            active ? "bg-muted" : "",
-                          ].join(" ")}
-                          onMouseEnter={() => setActiveKey(key)}
-                          onClick={() => {
-                            setOpen(false);
-                            router.push(projHref(p.id));
-                          }}
-                        >
-                          <div className="flex items-center justify-between gap-2">
-                            <p className="truncate text-sm font-medium">{p.title}</p>
-                            <span className="text-[10px] text-muted-foreground">
-                              {roleLabel(p.role) ?? ""}
-                            </span>
-                          </div>
-                          <p className="mt-0.5 text-[11px] text-muted-foreground">
-                            {p.visibility} · {formatDateTimeCL(p.updated_at)}
-                          </p>
-                        </button>
-                      );
-                    })}
+
+              <div className="max-h-[22rem] overflow-auto">
+                {my.length ? (
+                  <div className="px-3 pt-3">
+                    <p className="text-[11px] font-medium text-muted-foreground">Mis proyectos</p>
+                    <div className="mt-2 space-y-1 pb-2">
+                      {my.map((p) => {
+                        const key = `my:${p.id}`;
+                        const active = key === activeKey;
+
+                        return (
+                          <button
+                            key={p.id}
+                            type="button"
+                            className={[
+                              "w-full rounded-md px-2 py-2 text-left",
+                              "hover:bg-muted/60",
+                              active ? "bg-muted" : "",
+                            ].join(" ")}
+                            onMouseEnter={() => setActiveKey(key)}
+                            onClick={() => {
+                              setOpen(false);
+                              router.push(projHref(p.id));
+                            }}
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="truncate text-sm font-medium">{p.title}</p>
+                              <span className="text-[10px] text-muted-foreground">
+                                {roleLabel(p.role) ?? ""}
+                              </span>
+                            </div>
+                            <p className="mt-0.5 text-[11px] text-muted-foreground">
+                              {p.visibility} · {formatDateTimeCL(p.updated_at)}
+                            </p>
+                          </button>
+                        );
+                      })}
+                    </div>
                   </div>
-                </div>
-              ) : null}
-
-              {community.length ? (
-                <div className="px-3 pb-3">
-                  <p className="text-[11px] font-medium text-muted-foreground">Comunidad</p>
-                  <div className="mt-2 space-y-1">
-                    {community.map((p) => {
-                      const key = `c:${p.id}`;
-                      const active = key === activeKey;
-
-                      return (
-                        <button
-                          key={p.id}
-                          type="button"
-                          className={[
-                            "w-full rounded-md px-2 py-2 text-left",
-                            "hover:bg-muted/60",
-                            active ? "bg-muted" : "",
-                          ].join(" ")}
-                          onMouseEnter={() => setActiveKey(key)}
-                          onClick={() => {
-                            setOpen(false);
-                            router.push(projHref(p.id));
-                          }}
-                        >
-                          <div className="flex items-center justify-between gap-2">
-                            <p className="truncate text-sm font-medium">{p.title}</p>
-                            <span className="text-[10px] text-muted-foreground">
-                              {p.visibility}
-                            </span>
-                          </div>
-                          <p className="mt-0.5 text-[11px] text-muted-foreground">
-                            {formatDateTimeCL(p.updated_at)}
-                          </p>
-                        </button>
-                      );
-                    })}
+                ) : null}
+
+                {community.length ? (
+                  <div className="px-3 pb-3">
+                    <p className="text-[11px] font-medium text-muted-foreground">Comunidad</p>
+                    <div className="mt-2 space-y-1">
+                      {community.map((p) => {
+                        const key = `c:${p.id}`;
+                        const active = key === activeKey;
+
+                        return (
+                          <button
+                            key={p.id}
+                            type="button"
+                            className={[
+                              "w-full rounded-md px-2 py-2 text-left",
+                              "hover:bg-muted/60",
+                              active ? "bg-muted" : "",
+                            ].join(" ")}
+                            onMouseEnter={() => setActiveKey(key)}
+                            onClick={() => {
+                              setOpen(false);
+                              router.push(projHref(p.id));
+                            }}
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="truncate text-sm font-medium">{p.title}</p>
+                              <span className="text-[10px] text-muted-foreground">
+                                {p.visibility}
+                              </span>
+                            </div>
+                            <p className="mt-0.5 text-[11px] text-muted-foreground">
+                              {formatDateTimeCL(p.updated_at)}
+                            </p>
+                          </button>
+                        );
+                      })}
+                    </div>
                   </div>
-                </div>
-              ) : null}
-
-              {!loading && !err && my.length === 0 && community.length === 0 ? (
-                <div className="px-3 py-6">
-                  <p className="text-sm font-medium">Sin coincidencias</p>
-                  <p className="mt-1 text-xs text-muted-foreground">
-                    Prueba con otro término o usa “Ver todo”.
-                  </p>
-                  <div className="mt-3">
-                    <Link
-                      href={`/protected/search?q=${encodeURIComponent(trimmed)}`}
-                      className="text-sm underline"
-                      onClick={() => setOpen(false)}
-                    >
-                      Ver resultados completos
-                    </Link>
+                ) : null}
+
+                {content.length ? (
+                  <div className="px-3 pb-3">
+                    <p className="text-[11px] font-medium text-muted-foreground">Contenido</p>
+                    <div className="mt-2 space-y-1">
+                      {content.map((h) => {
+                        const key = contentKey(h);
+                        const active = key === activeKey;
+
+                        return (
+                          <button
+                            key={key}
+                            type="button"
+                            className={[
+                              "w-full rounded-md px-2 py-2 text-left",
+                              "hover:bg-muted/60",
+                              active ? "bg-muted" : "",
+                            ].join(" ")}
+                            onMouseEnter={() => setActiveKey(key)}
+                            onClick={() => {
+                              setOpen(false);
+                              router.push(contentHitHref(h));
+                            }}
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="truncate text-[11px] text-muted-foreground">{h.project_title}</p>
+                              <span className="text-[10px] text-muted-foreground">
+                                {CONTENT_KIND_LABEL[h.kind]}
+                              </span>
+                            </div>
+                            <HighlightedSnippet snippet={h.snippet} className="mt-0.5 line-clamp-2 text-xs" />
+                          </button>
+                        );
+                      })}
+                    </div>
                   </div>
-                </div>
-              ) : null}
-            </div>
-          </Card>
-        </div>
-      ) : null}
-    </div>
+                ) : null}
+
+                {!loading && !err && flatItems.length === 0 ? (
+                  <div className="px-3 py-6">
+                    <p className="text-sm font-medium">Sin coincidencias</p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Prueba con otro término o usa “Ver todo”.
+                    </p>
+                    <div className="mt-3">
+                      <Link
+                        href={`/protected/search?q=${encodeURIComponent(trimmed)}`}
+                        className="text-sm underline"
+                        onClick={() => setOpen(false)}
+                      >
+                        Ver resultados completos
+                      </Link>
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+            </Card>
+          </div>
+        ) : null}
+      </div>
+
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
+    </>
   );
 }
@@ -16,6 +16,8 @@ const BASE_NAV: NavItem[] = [
   { label: "Inicio", href: "/protected", match: "exact" },
   { label: "Proyectos", href: "/protected/projects", match: "prefix" },
   { label: "Agenda", href: "/protected/agenda", match: "prefix" },
+  { label: "Estadísticas", href: "/protected/stats", match: "prefix" },
+  { label: "Clases", href: "/protected/cohorts", match: "prefix" },
   { label: "Comunidad", href: "/protected/community", match: "prefix" },
   { label: "Perfil", href: "/protected/profile", match: "prefix" },
 ];
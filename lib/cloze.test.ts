@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { clozeAnswers, clozeMarkdown, clozeOrdinals, parseCloze, practiceOrdinals } from "./cloze";
+
+const TEXT = "{{c1::Santiago::ciudad}} es la capital de {{c2::Chile}}; {{c1::Valparaíso}} tiene el Congreso";
+
+describe("parseCloze", () => {
+  it("separa texto y huecos con pista opcional", () => {
+    expect(parseCloze("La capital es {{c1::Santiago::ciudad}}.")).toEqual([
+      { kind: "text", text: "La capital es " },
+      { kind: "cloze", ordinal: 1, answer: "Santiago", hint: "ciudad" },
+      { kind: "text", text: "." },
+    ]);
+  });
+
+  it("sin huecos devuelve el texto completo", () => {
+    expect(parseCloze("sin huecos")).toEqual([{ kind: "text", text: "sin huecos" }]);
+  });
+});
+
+describe("ordinales", () => {
+  it("únicos, ordenados y dentro del rango", () => {
+    expect(clozeOrdinals(TEXT)).toEqual([1, 2]);
+    expect(clozeOrdinals("{{c3::a}} {{c0::b}} {{c51::c}} {{c1::d}}")).toEqual([1, 3]);
+  });
+
+  it("básica practica un solo ordinal 0", () => {
+    expect(practiceOrdinals("basic", TEXT)).toEqual([0]);
+    expect(practiceOrdinals("cloze", TEXT)).toEqual([1, 2]);
+  });
+});
+
+describe("clozeMarkdown / clozeAnswers", () => {
+  it("oculta solo el ordinal pedido", () => {
+    expect(clozeMarkdown(TEXT, 2, false)).toBe("Santiago es la capital de **[…]**; Valparaíso tiene el Congreso");
+    expect(clozeMarkdown(TEXT, 1, false)).toBe("**[ciudad]** es la capital de Chile; **[…]** tiene el Congreso");
+  });
+
+  it("revela en negrita", () => {
+    expect(clozeMarkdown(TEXT, 2, true)).toBe("Santiago es la capital de **Chile**; Valparaíso tiene el Congreso");
+  });
+
+  it("respuestas del ordinal en orden", () => {
+    expect(clozeAnswers(TEXT, 1)).toEqual(["Santiago", "Valparaíso"]);
+    expect(clozeAnswers(TEXT, 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+// lib/cloze.ts
+import type { FlashcardKind } from "@/lib/types/study";
+
+/* ---------------------------------------
+   CLOZE
+   "La capital de Chile es {{c1::Santiago}}"
+   "{{c1::Santiago::ciudad}}" => pista opcional
+   Cada cN distinto es una tarjeta hermana (ordinal N)
+   con su propio flashcard_review_state.
+----------------------------------------*/
+
+export const MAX_CLOZE_ORDINAL = 50;
+
+const CLOZE_RE = /\{\{c(\d+)::([\s\S]*?)(?:::([^}]*?))?\}\}/g;
+
+export type ClozeSegment =
+  | { kind: "text"; text: string }
+  | { kind: "cloze"; ordinal: number; answer: string; hint: string | null };
+
+export function parseCloze(text: string): ClozeSegment[] {
+  const out: ClozeSegment[] = [];
+  let last = 0;
+
+  for (const m of text.matchAll(CLOZE_RE)) {
+    const at = m.index ?? 0;
+    if (at > last) out.push({ kind: "text", text: text.slice(last, at) });
+
+    const hint = (m[3] ?? "").trim();
+    out.push({ kind: "cloze", ordinal: Number(m[1]), answer: m[2], hint: hint || null });
+    last = at + m[0].length;
+  }
+
+  if (last < text.length) out.push({ kind: "text", text: text.slice(last) });
+  return out;
+}
+
+/** Ordinales válidos (1..MAX_CLOZE_ORDINAL), únicos y ordenados. */
+export function clozeOrdinals(text: string): number[] {
+  const set = new Set<number>();
+  for (const s of parseCloze(text)) {
+    if (s.kind === "cloze" && s.ordinal >= 1 && s.ordinal <= MAX_CLOZE_ORDINAL) set.add(s.ordinal);
+  }
+  return [...set].sort((a, b) => a - b);
+}
+
+/**
+ * Ordinales que se practican para una carta:
+ * básica => [0]; cloze => uno por cada cN.
+ */
+export function practiceOrdinals(kind: FlashcardKind | null | undefined, front: string): number[] {
+  return kind === "cloze" ? clozeOrdinals(front) : [0];
+}
+
+/**
+ * Markdown de una hermana: el hueco del ordinal se oculta (o se revela en negrita);
+ * los demás huecos se muestran como texto normal. ordinal null => todos los huecos.
+ */
+export function clozeMarkdown(text: string, ordinal: number | null, reveal: boolean): string {
+  return parseCloze(text)
+    .map((s) => {
+      if (s.kind === "text") return s.text;
+      if (ordinal !== null && s.ordinal !== ordinal) return s.answer;
+      if (reveal) return `**${s.answer}**`;
+      return `**[${s.hint ?? "…"}]**`;
+    })
+    .join("");
+}
+
+/** Respuestas ocultas de una hermana (para comparar en modo escritura). */
+export function clozeAnswers(text: string, ordinal: number): string[] {
+  const out: string[] = [];
+  for (const s of parseCloze(text)) {
+    if (s.kind === "cloze" && s.ordinal === ordinal) out.push(s.answer);
+  }
+  return out;
+}
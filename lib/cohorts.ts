@@ -0,0 +1,130 @@
+// lib/cohorts.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CohortAssignmentRow, CohortAssignmentTarget } from "@/lib/types/study";
+
+/* ---------------------------------------
+   CLASES (cohorts) Y TAREAS
+   Requiere tablas:
+     public.cohorts (ver CohortRow), join_code unique.
+     public.cohort_members (cohort_id, user_id) PK, FK on delete cascade.
+     public.cohort_assignments (ver CohortAssignmentRow), FK on delete
+       cascade a cohorts y projects.
+   RLS: el profesor (cohorts.owner_user_id) lee/escribe todo lo de su
+   clase; el alumno lee la clase, su fila en cohort_members y las tareas
+   de sus clases, y puede borrar su membresía (salir).
+   Progreso: se cuenta por tarjeta (cualquier ordinal/dirección).
+     reviewed_once: la tarjeta tiene algún repaso (last_review_at).
+     graduated:     la tarjeta tiene algún estado en 'review'.
+   El alumno ve el suyo con
+   Requiere RPC SQL (security invoker): public.my_assignment_progress(p_assignment_ids uuid[])
+     returns table (assignment_id uuid, done int, total int)
+     total: cartas del proyecto en un grupo (solo los group_ids de la tarea,
+     si tiene); done: las que cumplen la meta con los estados de auth.uid().
+   El profesor usa
+   Requiere RPC SQL (security definer): public.cohort_assignment_progress(p_assignment_id uuid)
+     returns table (user_id, hidden boolean, done int, total int, last_review_at)
+     solo para el dueño de la clase, con el mismo criterio. Respeta
+     project_members.hide_progress del proyecto de la tarea: esas filas
+     van con hidden = true y done/total/last_review_at en null.
+----------------------------------------*/
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+export const ASSIGNMENT_TARGET_LABEL: Record<CohortAssignmentTarget, string> = {
+  reviewed_once: "Todas repasadas al menos una vez",
+  graduated: "Todas graduadas (en repaso)",
+};
+
+export function isAssignmentTarget(v: unknown): v is CohortAssignmentTarget {
+  return v === "reviewed_once" || v === "graduated";
+}
+
+export type AssignmentProgress = {
+  assignment_id: string;
+  cohort_id: string;
+  cohort_name: string;
+  project_id: string;
+  project_title: string;
+  title: string | null;
+  group_count: number | null; // null = todo el proyecto
+  target: CohortAssignmentTarget;
+  due_at: string;
+  done: number;
+  total: number;
+};
+
+export const MAX_MY_ASSIGNMENTS = 50;
+
+/**
+ * Tareas de las clases del usuario con su propio progreso, por fecha de
+ * entrega. sinceIso: omite las vencidas antes de esa fecha.
+ */
+export async function loadMyAssignments(
+  supabase: SupabaseClient,
+  userId: string,
+  opts: { cohortId?: string; sinceIso?: string; limit?: number } = {}
+): Promise<Result<AssignmentProgress[]>> {
+  const limit = Math.min(opts.limit ?? MAX_MY_ASSIGNMENTS, MAX_MY_ASSIGNMENTS);
+
+  let memQuery = supabase.from("cohort_members").select("cohort_id").eq("user_id", userId);
+  if (opts.cohortId) memQuery = memQuery.eq("cohort_id", opts.cohortId);
+  const { data: mems, error: memErr } = await memQuery.limit(200).returns<{ cohort_id: string }[]>();
+  if (memErr) return { ok: false, error: memErr.message };
+
+  const cohortIds = (mems ?? []).map((m) => m.cohort_id);
+  if (!cohortIds.length) return { ok: true, data: [] };
+
+  let aQuery = supabase
+    .from("cohort_assignments")
+    .select("id,cohort_id,project_id,group_ids,title,target,due_at")
+    .in("cohort_id", cohortIds);
+  if (opts.sinceIso) aQuery = aQuery.gte("due_at", opts.sinceIso);
+
+  const [{ data: assignments, error: aErr }, { data: cohorts }] = await Promise.all([
+    aQuery
+      .order("due_at", { ascending: true })
+      .limit(limit)
+      .returns<Pick<CohortAssignmentRow, "id" | "cohort_id" | "project_id" | "group_ids" | "title" | "target" | "due_at">[]>(),
+    supabase.from("cohorts").select("id,name").in("id", cohortIds).returns<{ id: string; name: string }[]>(),
+  ]);
+  if (aErr) return { ok: false, error: aErr.message };
+  if (!assignments?.length) return { ok: true, data: [] };
+
+  const cohortName = new Map((cohorts ?? []).map((c) => [c.id, c.name]));
+  const projectIds = [...new Set(assignments.map((a) => String(a.project_id)))];
+
+  // el avance se cuenta en SQL: una sola llamada para todas las tareas
+  const [{ data: projects }, { data: progress, error: prErr }] = await Promise.all([
+    supabase.from("projects").select("id,title").in("id", projectIds).returns<{ id: string | number; title: string }[]>(),
+    supabase.rpc("my_assignment_progress", { p_assignment_ids: assignments.map((a) => a.id) }),
+  ]);
+  if (prErr) return { ok: false, error: prErr.message };
+
+  const projectTitle = new Map((projects ?? []).map((p) => [String(p.id), p.title]));
+  const progressById = new Map(
+    ((Array.isArray(progress) ? progress : []) as Array<Record<string, unknown>>).map((r) => [
+      String(r.assignment_id),
+      { done: Number(r.done ?? 0) || 0, total: Number(r.total ?? 0) || 0 },
+    ])
+  );
+
+  return {
+    ok: true,
+    data: assignments.map((a) => {
+      const p = progressById.get(a.id);
+      return {
+        assignment_id: a.id,
+        cohort_id: a.cohort_id,
+        cohort_name: cohortName.get(a.cohort_id) ?? "Clase",
+        project_id: String(a.project_id),
+        project_title: projectTitle.get(String(a.project_id)) ?? "Proyecto",
+        title: a.title,
+        group_count: a.group_ids?.length ? new Set(a.group_ids).size : null,
+        target: a.target,
+        due_at: a.due_at,
+        done: p?.done ?? 0,
+        total: p?.total ?? 0,
+      };
+    }),
+  };
+}
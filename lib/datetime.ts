@@ -51,3 +51,36 @@ export function formatDayLabelCL(dayYYYYMMDD: string | null | undefined): string
   // Para este label, normalmente fmt.format(d) es suficiente:
   return fmt.format(d);
 }
+
+/** Inicio del día (00:00) en America/Santiago para el instante dado. */
+export function startOfDayCL(now: Date = new Date()): Date {
+  const fmt = new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/Santiago",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+
+  const parts = fmt.formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  // "24" aparece en algunos runtimes para medianoche
+  const hh = get("hour") % 24;
+  const elapsedMs = ((hh * 60 + get("minute")) * 60 + get("second")) * 1000 + now.getMilliseconds();
+
+  return new Date(now.getTime() - elapsedMs);
+}
+
+/** Fin del día (23:59:59) en America/Santiago para una fecha YYYY-MM-DD. */
+export function endOfDayCL(dayYYYYMMDD: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dayYYYYMMDD)) return null;
+
+  // 12:00 UTC cae el mismo día calendario en Santiago (UTC-3/-4)
+  const noon = new Date(`${dayYYYYMMDD}T12:00:00Z`);
+  if (Number.isNaN(noon.getTime())) return null;
+
+  const nextStart = startOfDayCL(new Date(noon.getTime() + 24 * 60 * 60 * 1000));
+  return new Date(nextStart.getTime() - 1000);
+}
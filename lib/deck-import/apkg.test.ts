@@ -0,0 +1,40 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { writeZip } from "@/lib/zip";
+import { parseApkg } from "./apkg";
+import { recordsToItems } from "./common";
+
+/*
+  mini.apkg: colección con esquema antiguo (col.models / col.decks en JSON).
+  - nota básica en "Geografía::Chile"
+  - nota básica con HTML y un reverso de 6000 caracteres (páginas de overflow)
+  - nota cloze con tarjetas en dos mazos (gana la de menor ord)
+*/
+const fixture = readFileSync(new URL("./__fixtures__/mini.apkg", import.meta.url));
+
+describe("parseApkg", () => {
+  it("lee notas, campos, mazos y tipo cloze", () => {
+    const deck = parseApkg(fixture);
+
+    expect(deck.columns).toEqual(["Anverso", "Reverso"]);
+    expect(deck.records.map((r) => [r.fields[0], r.deck, r.cloze])).toEqual([
+      ["Capital de Chile", "Geografía::Chile", false],
+      ["<b>Río</b> más largo&nbsp;de Chile<br>Loa", "Default", false],
+      ["{{c1::Ojos del Salado}} es el volcán más alto", "Geografía::Chile", true],
+    ]);
+    expect(deck.records[1].fields[1]).toBe("x".repeat(6000));
+  });
+
+  it("con el mapeo HTML queda listo para importar", () => {
+    const items = recordsToItems(parseApkg(fixture), { frontCol: 0, backCol: 1, html: true });
+    expect(items[1].front).toBe("Río más largo de Chile\nLoa");
+    expect(items[2].kind).toBe("cloze");
+  });
+
+  it("explica los paquetes que no puede leer", () => {
+    const only = (name: string) => writeZip([{ name, data: Buffer.from("x") }]);
+    expect(() => parseApkg(only("collection.anki21b"))).toThrow(/formato nuevo/);
+    expect(() => parseApkg(only("media"))).toThrow(/no contiene una colección/);
+    expect(() => parseApkg(only("collection.anki2"))).toThrow(/SQLite/);
+  });
+});
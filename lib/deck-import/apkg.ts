@@ -0,0 +1,117 @@
+// lib/deck-import/apkg.ts
+import { MAX_IMPORT_BYTES, type RawDeck, type RawDeckRecord } from "./common";
+import { openSqlite, type SqlRow } from "./sqlite";
+import { readZip } from "@/lib/zip";
+
+/* ---------------------------------------
+   ANKI .apkg
+   ZIP con collection.anki21 (o .anki2 en exports antiguos).
+   - notes.flds: campos separados por \x1f
+   - cards.did: mazo de cada tarjeta (se usa la de menor ord)
+   - mazos: col.decks (JSON) o tabla decks (esquema 18+, "a\x1fb")
+   collection.anki21b (zstd) no se soporta: pedir export "compatible".
+----------------------------------------*/
+
+const FIELD_SEP = "\u001f";
+
+// La colección puede ser bastante más grande que el .apkg comprimido
+const MAX_COLLECTION_BYTES = MAX_IMPORT_BYTES * 8;
+
+function jsonObj(v: unknown): Record<string, unknown> {
+  if (typeof v !== "string" || !v.trim()) return {};
+  try {
+    const parsed: unknown = JSON.parse(v);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function obj(v: unknown): Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v) ? (v as Record<string, unknown>) : {};
+}
+
+function deckNames(col: SqlRow | undefined, tableDecks: SqlRow[] | null): Map<number, string> {
+  const out = new Map<number, string>();
+
+  for (const [id, d] of Object.entries(jsonObj(col?.decks))) {
+    const name = obj(d).name;
+    if (typeof name === "string") out.set(Number(id), name);
+  }
+
+  for (const d of tableDecks ?? []) {
+    if (typeof d.name === "string") out.set(Number(d.id), d.name.split(FIELD_SEP).join("::"));
+  }
+
+  return out;
+}
+
+/** Nombres de campos y si el tipo de nota es cloze (solo esquema JSON). */
+function noteTypes(col: SqlRow | undefined): Map<number, { fields: string[]; cloze: boolean }> {
+  const out = new Map<number, { fields: string[]; cloze: boolean }>();
+
+  for (const [id, m] of Object.entries(jsonObj(col?.models))) {
+    const model = obj(m);
+    const flds = Array.isArray(model.flds) ? model.flds : [];
+    out.set(Number(id), {
+      fields: flds.map((f) => String(obj(f).name ?? "")),
+      cloze: model.type === 1,
+    });
+  }
+
+  return out;
+}
+
+export function parseApkg(buf: Buffer): RawDeck {
+  const zip = readZip(buf, MAX_COLLECTION_BYTES);
+  const entry = zip.get("collection.anki21") ?? zip.get("collection.anki2");
+
+  if (!entry) {
+    if (zip.has("collection.anki21b")) {
+      throw new Error('Este .apkg usa el formato nuevo de Anki. Expórtalo con "Compatibilidad con versiones anteriores".');
+    }
+    throw new Error("El .apkg no contiene una colección de Anki.");
+  }
+
+  const db = openSqlite(entry.read());
+
+  const col = db.readTable("col")[0];
+  const decks = deckNames(col, db.hasTable("decks") ? db.readTable("decks") : null);
+  const models = noteTypes(col);
+
+  // mazo por nota: el de su primera tarjeta
+  const deckByNote = new Map<number, { ord: number; did: number }>();
+  for (const c of db.readTable("cards")) {
+    const nid = Number(c.nid);
+    const ord = Number(c.ord);
+    const cur = deckByNote.get(nid);
+    if (!cur || ord < cur.ord) deckByNote.set(nid, { ord, did: Number(c.did) });
+  }
+
+  const records: RawDeckRecord[] = [];
+  let width = 0;
+  let firstModel: number | null = null;
+
+  for (const n of db.readTable("notes")) {
+    if (typeof n.flds !== "string") continue;
+
+    const fields = n.flds.split(FIELD_SEP);
+    const mid = Number(n.mid);
+    const did = deckByNote.get(Number(n.id))?.did;
+    const model = models.get(mid);
+
+    width = Math.max(width, fields.length);
+    if (firstModel === null) firstModel = mid;
+
+    records.push({
+      fields,
+      deck: did !== undefined ? (decks.get(did) ?? null) : null,
+      cloze: model ? model.cloze : /\{\{c\d+::/.test(fields[0] ?? ""),
+    });
+  }
+
+  const named = firstModel !== null ? (models.get(firstModel)?.fields ?? []) : [];
+  const columns = Array.from({ length: width }, (_, i) => named[i] || `Campo ${i + 1}`);
+
+  return { columns, records };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { deckFormatFromName, duplicateKey, htmlToText, recordsToItems } from "./common";
+
+describe("deckFormatFromName", () => {
+  it("por extensión, sin importar mayúsculas", () => {
+    expect(deckFormatFromName("Mazo.APKG")).toBe("apkg");
+    expect(deckFormatFromName("a.colpkg")).toBe("apkg");
+    expect(deckFormatFromName("notas.txt")).toBe("tsv");
+    expect(deckFormatFromName("a.csv")).toBe("csv");
+    expect(deckFormatFromName("a.xlsx")).toBeNull();
+  });
+});
+
+describe("duplicateKey", () => {
+  it("ignora mayúsculas y espacios repetidos", () => {
+    expect(duplicateKey("  Capital   de\nChile ")).toBe(duplicateKey("capital de chile"));
+  });
+});
+
+describe("htmlToText", () => {
+  it("pasa HTML de Anki a texto plano y conserva los huecos", () => {
+    const html = '<div>Hola&nbsp;<b>mundo</b></div><div>{{c1::x &lt; y}}</div>[sound:a.mp3]<img src="a.png"><script>x()</script>';
+    expect(htmlToText(html)).toBe("Hola mundo\n{{c1::x < y}}");
+    expect(htmlToText("&#233;&#xE9;&desconocida;")).toBe("éé&desconocida;");
+  });
+});
+
+describe("recordsToItems", () => {
+  const deck = {
+    columns: ["A", "B", "C"],
+    records: [
+      { fields: ["  frente ", "reverso", "extra"], deck: "Mazo", cloze: false },
+      { fields: ["{{c1::hueco}}"], deck: null, cloze: false },
+      { fields: ["nota cloze", "x"], deck: null, cloze: true },
+    ],
+  };
+
+  it("aplica el mapeo y detecta cloze", () => {
+    expect(recordsToItems(deck, { frontCol: 0, backCol: 2, html: false })).toEqual([
+      { kind: "basic", front: "frente", back: "extra", deck: "Mazo" },
+      { kind: "cloze", front: "{{c1::hueco}}", back: "", deck: null },
+      { kind: "cloze", front: "nota cloze", back: "", deck: null },
+    ]);
+  });
+
+  it("backCol -1 deja el reverso vacío", () => {
+    expect(recordsToItems(deck, { frontCol: 1, backCol: -1, html: false })[0]).toEqual({
+      kind: "basic",
+      front: "reverso",
+      back: "",
+      deck: "Mazo",
+    });
+  });
+});
@@ -0,0 +1,101 @@
+// lib/deck-import/common.ts
+import type { FlashcardKind } from "@/lib/types/study";
+import { clozeOrdinals } from "@/lib/cloze";
+
+/* ---------------------------------------
+   IMPORTACIÓN DE MAZOS (CSV / TSV / Anki .apkg)
+   Todo se parsea en el servidor; el cliente solo ve la vista previa.
+----------------------------------------*/
+
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+export const MAX_IMPORT_CARDS = 5000;
+
+export type DeckImportFormat = "csv" | "tsv" | "apkg";
+
+/** Registro crudo: campos en orden + sub-mazo (solo Anki). */
+export type RawDeckRecord = {
+  fields: string[];
+  deck: string | null;
+  cloze: boolean;
+};
+
+export type RawDeck = {
+  columns: string[];
+  records: RawDeckRecord[];
+};
+
+export type DeckImportItem = {
+  kind: FlashcardKind;
+  front: string;
+  back: string;
+  deck: string | null;
+};
+
+/** Formato por extensión del archivo. */
+export function deckFormatFromName(name: string): DeckImportFormat | null {
+  const ext = name.toLowerCase().split(".").pop() ?? "";
+  if (ext === "apkg" || ext === "colpkg") return "apkg";
+  if (ext === "tsv" || ext === "txt") return "tsv";
+  if (ext === "csv") return "csv";
+  return null;
+}
+
+/** Clave para detectar duplicados: sin mayúsculas ni espacios repetidos. */
+export function duplicateKey(front: string): string {
+  return front.normalize("NFC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+const ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : m;
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+/**
+ * Campos de Anki vienen en HTML: se pasa a texto plano (saltos de línea,
+ * sin audio/imágenes). Los huecos {{cN::...}} se conservan tal cual.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/\[sound:[^\]]*\]/gi, "")
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(div|p|li|h[1-6]|tr)>/gi, "\n")
+      .replace(/<[^>]*>/g, "")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export type DeckMapping = {
+  frontCol: number;
+  backCol: number;
+  html: boolean;
+};
+
+/** Aplica el mapeo de columnas; cloze si el tipo de nota lo es o el frente trae huecos. */
+export function recordsToItems(deck: RawDeck, map: DeckMapping): DeckImportItem[] {
+  const clean = (v: string | undefined) => (map.html ? htmlToText(v ?? "") : (v ?? "").trim());
+
+  return deck.records.map((r) => {
+    const front = clean(r.fields[map.frontCol]);
+    const back = map.backCol >= 0 ? clean(r.fields[map.backCol]) : "";
+    const cloze = r.cloze || clozeOrdinals(front).length > 0;
+    return { kind: cloze ? "cloze" : "basic", front, back, deck: r.deck };
+  });
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { parseDelimited } from "./delimited";
+
+const fields = (text: string, opts = { tsv: false, hasHeader: false }) =>
+  parseDelimited(text, opts).records.map((r) => r.fields);
+
+describe("parseDelimited", () => {
+  it("comillas, comillas escapadas, saltos dentro de un campo y CRLF", () => {
+    const csv = 'frente,reverso\r\n"a, b","dijo ""hola"""\r\n"dos\nlíneas",x\r\n';
+    expect(fields(csv, { tsv: false, hasHeader: true })).toEqual([
+      ["a, b", 'dijo "hola"'],
+      ["dos\nlíneas", "x"],
+    ]);
+  });
+
+  it("usa la cabecera para nombrar columnas y rellena las que faltan", () => {
+    const out = parseDelimited("Pregunta\nuno,dos,tres\n", { tsv: false, hasHeader: true });
+    expect(out.columns).toEqual(["Pregunta", "Columna 2", "Columna 3"]);
+  });
+
+  it("adivina el separador y omite filas vacías", () => {
+    expect(fields("\uFEFFuno;dos\n\n;\ntres;cuatro")).toEqual([
+      ["uno", "dos"],
+      ["tres", "cuatro"],
+    ]);
+    expect(fields("sin separador", { tsv: true, hasHeader: false })).toEqual([["sin separador"]]);
+  });
+
+  it("respeta las directivas de un export de Anki", () => {
+    const out = parseDelimited("#separator:tab\n#html:true\n<b>a,b</b>\tc\n", { tsv: false, hasHeader: false });
+    expect(out.html).toBe(true);
+    expect(out.records.map((r) => r.fields)).toEqual([["<b>a,b</b>", "c"]]);
+  });
+});
@@ -0,0 +1,105 @@
+// lib/deck-import/delimited.ts
+import type { RawDeck } from "./common";
+
+/* ---------------------------------------
+   CSV / TSV
+   - comillas dobles con "" como escape
+   - cabeceras de Anki (#separator:tab, #html:true, ...) se respetan
+----------------------------------------*/
+
+type Delimiter = "," | "\t" | ";";
+
+const ANKI_SEPARATORS: Record<string, Delimiter> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+};
+
+function parseRows(text: string, delim: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === "") quoted = true;
+    else if (ch === delim) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function guessDelimiter(sample: string, fallback: Delimiter): Delimiter {
+  const line = sample.split(/\r?\n/).find((l) => l.trim() !== "") ?? "";
+  const counts: [Delimiter, number][] = (["\t", ",", ";"] as Delimiter[]).map((d) => [d, line.split(d).length - 1]);
+  counts.sort((a, b) => b[1] - a[1]);
+  return counts[0][1] > 0 ? counts[0][0] : fallback;
+}
+
+/**
+ * Parsea CSV/TSV. hasHeader => la primera fila da los nombres de columna.
+ * Con `#html:true` (export de Anki) los campos se dejan como HTML.
+ */
+export function parseDelimited(
+  raw: string,
+  opts: { tsv: boolean; hasHeader: boolean }
+): RawDeck & { html: boolean } {
+  let text = raw.replace(/^\uFEFF/, "");
+  let delim: Delimiter | null = null;
+  let html = false;
+
+  // directivas de Anki al inicio del archivo
+  for (;;) {
+    const m = /^#([a-z ]+):(.*)(?:\r?\n|$)/i.exec(text);
+    if (!m) break;
+    const key = m[1].trim().toLowerCase();
+    const val = m[2].trim().toLowerCase();
+    if (key === "separator") delim = ANKI_SEPARATORS[val] ?? (val.length === 1 ? (val as Delimiter) : null);
+    if (key === "html") html = val === "true";
+    text = text.slice(m[0].length);
+  }
+
+  const rows = parseRows(text, delim ?? guessDelimiter(text.slice(0, 4096), opts.tsv ? "\t" : ","));
+
+  const width = rows.reduce((w, r) => Math.max(w, r.length), 0);
+  const header = opts.hasHeader ? (rows.shift() ?? []) : [];
+  const columns = Array.from({ length: width }, (_, i) => header[i]?.trim() || `Columna ${i + 1}`);
+
+  return {
+    columns,
+    records: rows.map((fields) => ({ fields, deck: null, cloze: false })),
+    html,
+  };
+}
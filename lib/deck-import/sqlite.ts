@@ -0,0 +1,232 @@
+// lib/deck-import/sqlite.ts
+
+/* ---------------------------------------
+   SQLITE (solo lectura)
+   Lector mínimo de tablas rowid: recorre el b-tree de la tabla y
+   decodifica los registros. Alcanza para leer colecciones de Anki
+   sin depender de un binario nativo.
+----------------------------------------*/
+
+export type SqlValue = string | number | Uint8Array | null;
+export type SqlRow = Record<string, SqlValue>;
+
+const PAGE_LEAF_TABLE = 0x0d;
+const PAGE_INTERIOR_TABLE = 0x05;
+
+type Db = {
+  buf: Buffer;
+  pageSize: number;
+  usable: number;
+  decoder: TextDecoder;
+};
+
+function openDb(buf: Buffer): Db {
+  if (buf.length < 100 || buf.toString("latin1", 0, 16) !== "SQLite format 3\u0000") {
+    throw new Error("La colección no es una base SQLite válida.");
+  }
+
+  const rawSize = buf.readUInt16BE(16);
+  const pageSize = rawSize === 1 ? 65536 : rawSize;
+  const reserved = buf.readUInt8(20);
+  const enc = buf.readUInt32BE(56);
+  const decoder = new TextDecoder(enc === 2 ? "utf-16le" : enc === 3 ? "utf-16be" : "utf-8");
+
+  return { buf, pageSize, usable: pageSize - reserved, decoder };
+}
+
+function pageOffset(db: Db, page: number): number {
+  const at = (page - 1) * db.pageSize;
+  if (page < 1 || at + db.pageSize > db.buf.length) throw new Error("SQLite corrupto (página fuera de rango).");
+  return at;
+}
+
+/** Varint de SQLite (1-9 bytes, big-endian). */
+function readVarint(buf: Buffer, at: number): [number, number] {
+  let v = BigInt(0);
+  for (let i = 0; i < 9; i++) {
+    const b = buf[at + i];
+    if (i === 8) {
+      v = (v << BigInt(8)) | BigInt(b);
+      return [Number(BigInt.asIntN(64, v)), 9];
+    }
+    v = (v << BigInt(7)) | BigInt(b & 0x7f);
+    if (b < 0x80) return [Number(BigInt.asIntN(64, v)), i + 1];
+  }
+  return [Number(v), 9];
+}
+
+/** Payload completo de una celda (local + páginas de overflow). */
+function readPayload(db: Db, at: number, size: number): Buffer {
+  const x = db.usable - 35;
+  if (size <= x) return db.buf.subarray(at, at + size);
+
+  const m = Math.floor(((db.usable - 12) * 32) / 255) - 23;
+  const k = m + ((size - m) % (db.usable - 4));
+  const local = k <= x ? k : m;
+
+  const parts: Buffer[] = [db.buf.subarray(at, at + local)];
+  let remaining = size - local;
+  let next = db.buf.readUInt32BE(at + local);
+  const seen = new Set<number>();
+
+  while (remaining > 0 && next !== 0) {
+    if (seen.has(next)) throw new Error("SQLite corrupto (overflow cíclico).");
+    seen.add(next);
+
+    const po = pageOffset(db, next);
+    const take = Math.min(remaining, db.usable - 4);
+    parts.push(db.buf.subarray(po + 4, po + 4 + take));
+    remaining -= take;
+    next = db.buf.readUInt32BE(po);
+  }
+
+  return Buffer.concat(parts);
+}
+
+function decodeRecord(db: Db, rec: Buffer): SqlValue[] {
+  const [headerSize, n0] = readVarint(rec, 0);
+  const types: number[] = [];
+  for (let p = n0; p < headerSize; ) {
+    const [t, n] = readVarint(rec, p);
+    types.push(t);
+    p += n;
+  }
+
+  const out: SqlValue[] = [];
+  let p = headerSize;
+
+  for (const t of types) {
+    if (t === 0) out.push(null);
+    else if (t >= 1 && t <= 6) {
+      const len = [0, 1, 2, 3, 4, 6, 8][t];
+      let v = BigInt(0);
+      for (let i = 0; i < len; i++) v = (v << BigInt(8)) | BigInt(rec[p + i]);
+      out.push(Number(BigInt.asIntN(len * 8, v)));
+      p += len;
+    } else if (t === 7) {
+      out.push(rec.readDoubleBE(p));
+      p += 8;
+    } else if (t === 8 || t === 9) {
+      out.push(t - 8);
+    } else if (t >= 12 && t % 2 === 0) {
+      const len = (t - 12) / 2;
+      out.push(new Uint8Array(rec.subarray(p, p + len)));
+      p += len;
+    } else if (t >= 13) {
+      const len = (t - 13) / 2;
+      out.push(db.decoder.decode(rec.subarray(p, p + len)));
+      p += len;
+    } else {
+      throw new Error("SQLite corrupto (tipo de columna inválido).");
+    }
+  }
+
+  return out;
+}
+
+/** Recorre un b-tree de tabla entregando (rowid, valores). */
+function walkTable(db: Db, root: number, visit: (rowid: number, values: SqlValue[]) => void): void {
+  const stack = [root];
+  const seen = new Set<number>();
+
+  while (stack.length) {
+    const page = stack.pop() as number;
+    if (seen.has(page)) throw new Error("SQLite corrupto (b-tree cíclico).");
+    seen.add(page);
+
+    const po = pageOffset(db, page);
+    const hdr = page === 1 ? po + 100 : po;
+    const type = db.buf[hdr];
+    const cells = db.buf.readUInt16BE(hdr + 3);
+
+    if (type === PAGE_LEAF_TABLE) {
+      for (let i = 0; i < cells; i++) {
+        let at = po + db.buf.readUInt16BE(hdr + 8 + i * 2);
+        const [size, n1] = readVarint(db.buf, at);
+        at += n1;
+        const [rowid, n2] = readVarint(db.buf, at);
+        at += n2;
+        visit(rowid, decodeRecord(db, readPayload(db, at, size)));
+      }
+    } else if (type === PAGE_INTERIOR_TABLE) {
+      // se apilan al revés para visitar en orden de rowid
+      stack.push(db.buf.readUInt32BE(hdr + 8));
+      for (let i = cells - 1; i >= 0; i--) {
+        const at = po + db.buf.readUInt16BE(hdr + 12 + i * 2);
+        stack.push(db.buf.readUInt32BE(at));
+      }
+    } else {
+      throw new Error("SQLite corrupto (página de tabla inválida).");
+    }
+  }
+}
+
+/** Columnas de un CREATE TABLE; marca la que es alias de rowid. */
+function columnsFromSql(sql: string): { names: string[]; rowidAlias: number } {
+  const body = sql.slice(sql.indexOf("(") + 1, sql.lastIndexOf(")"));
+
+  const defs: string[] = [];
+  let depth = 0;
+  let cur = "";
+  for (const ch of body) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (ch === "," && depth === 0) {
+      defs.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  defs.push(cur);
+
+  const names: string[] = [];
+  let rowidAlias = -1;
+  for (const d of defs) {
+    const def = d.trim();
+    if (/^(primary|unique|check|foreign|constraint)\b/i.test(def)) continue;
+    const name = (def.match(/^("[^"]+"|`[^`]+`|\[[^\]]+\]|\S+)/)?.[1] ?? "").replace(/^["`[]|["`\]]$/g, "");
+    if (/^\S+\s+integer\s+primary\s+key\b/i.test(def)) rowidAlias = names.length;
+    names.push(name);
+  }
+
+  return { names, rowidAlias };
+}
+
+export type SqliteReader = {
+  hasTable: (name: string) => boolean;
+  readTable: (name: string) => SqlRow[];
+};
+
+export function openSqlite(buf: Buffer): SqliteReader {
+  const db = openDb(buf);
+
+  // sqlite_master: type, name, tbl_name, rootpage, sql
+  const tables = new Map<string, { root: number; sql: string }>();
+  walkTable(db, 1, (_rowid, v) => {
+    if (v[0] === "table" && typeof v[1] === "string") {
+      tables.set(v[1].toLowerCase(), { root: Number(v[3]), sql: String(v[4] ?? "") });
+    }
+  });
+
+  return {
+    hasTable: (name) => tables.has(name.toLowerCase()),
+    readTable: (name) => {
+      const t = tables.get(name.toLowerCase());
+      if (!t) throw new Error(`Falta la tabla "${name}".`);
+
+      const { names, rowidAlias } = columnsFromSql(t.sql);
+      const rows: SqlRow[] = [];
+
+      walkTable(db, t.root, (rowid, values) => {
+        const row: SqlRow = {};
+        names.forEach((n, i) => {
+          row[n] = i === rowidAlias ? rowid : (values[i] ?? null);
+        });
+        rows.push(row);
+      });
+
+      return rows;
+    },
+  };
+}
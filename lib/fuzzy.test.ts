@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { foldText, fuzzyScore } from "./fuzzy";
+
+describe("fuzzyScore", () => {
+  it("ignora tildes y mayúsculas", () => {
+    expect(foldText("Árbol Ñandú")).toBe("arbol nandu");
+    expect(fuzzyScore("arbol", "Árbol genealógico")).not.toBeNull();
+  });
+
+  it("consulta vacía calza con 0 y letras fuera de orden no calzan", () => {
+    expect(fuzzyScore("  ", "lo que sea")).toBe(0);
+    expect(fuzzyScore("zy", "yz")).toBeNull();
+  });
+
+  it("subcadena exacta gana a subsecuencia, e inicio de palabra a mitad", () => {
+    const exact = fuzzyScore("quim", "Química orgánica") as number;
+    const middle = fuzzyScore("mica", "Química orgánica") as number;
+    const subseq = fuzzyScore("qorg", "Química orgánica") as number;
+    expect(exact).toBeGreaterThan(middle);
+    expect(middle).toBeGreaterThan(subseq);
+  });
+
+  it("en subsecuencias premia letras seguidas e inicios de palabra", () => {
+    const words = fuzzyScore("qo", "Química orgánica") as number;
+    const scattered = fuzzyScore("qo", "Química ecológica") as number;
+    expect(words).toBeGreaterThan(scattered);
+  });
+});
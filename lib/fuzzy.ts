@@ -0,0 +1,47 @@
+// lib/fuzzy.ts
+
+/* ---------------------------------------
+   BÚSQUEDA DIFUSA (cliente)
+   Sin tildes ni mayúsculas. Subcadena exacta gana; si no, las letras
+   de la consulta deben aparecer en orden (subsecuencia), premiando
+   inicios de palabra y letras seguidas.
+----------------------------------------*/
+
+export function foldText(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function isWordStart(t: string, i: number): boolean {
+  return i === 0 || /[^a-z0-9]/.test(t[i - 1] ?? "");
+}
+
+/** Puntaje (mayor = mejor) o null si no calza. Consulta vacía = 0. */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = foldText(query).replace(/\s+/g, " ").trim();
+  if (!q) return 0;
+  const t = foldText(text);
+
+  const at = t.indexOf(q);
+  if (at >= 0) return 1000 + (isWordStart(t, at) ? 200 : 0) - at - t.length / 100;
+
+  let score = 0;
+  let ti = 0;
+  let prev = -2;
+  for (const ch of q.replace(/ /g, "")) {
+    const found = t.indexOf(ch, ti);
+    if (found < 0) return null;
+
+    score += 10;
+    if (found === prev + 1) score += 15;
+    if (isWordStart(t, found)) score += 20;
+    score -= Math.min(found - ti, 10);
+
+    prev = found;
+    ti = found + 1;
+  }
+
+  return score - t.length / 100;
+}
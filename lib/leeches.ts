@@ -0,0 +1,98 @@
+// lib/leeches.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { startOfDayCL } from "@/lib/datetime";
+import type { FlashcardUserFlagRow, LeechAction } from "@/lib/types/study";
+
+/* ---------------------------------------
+   SANGUIJUELAS, SUSPENDER Y ENTERRAR (por usuario y carta)
+   Requiere tabla: public.flashcard_user_flags (
+     user_id uuid, card_id uuid FK flashcards on delete cascade,
+     suspended_at timestamptz null, buried_until timestamptz null,
+     leech_at timestamptz null, updated_at timestamptz default now(),
+     PK (user_id, card_id)
+   ) con RLS user_id = auth.uid() para select/insert/update/delete.
+   Requiere columnas en public.profiles:
+     leech_threshold int default 8 (0 = sin detección),
+     leech_action text default 'tag' ('tag' | 'suspend').
+   Las RPC/vistas de agenda (agenda_group_counts, agenda_due_by_day,
+   agenda_forecast, agenda_new_count, agenda_project_summary) deben excluir
+   cartas con suspended_at is not null o buried_until > now().
+----------------------------------------*/
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+const ID_CHUNK = 200; // .in() va en la URL
+
+export const DEFAULT_LEECH_THRESHOLD = 8;
+export const MAX_LEECH_THRESHOLD = 99;
+export const DEFAULT_LEECH_ACTION: LeechAction = "tag";
+
+export type LeechSettings = { threshold: number; action: LeechAction };
+
+export type CardFlags = { suspended: boolean; buried: boolean; leech: boolean };
+
+export function isLeechAction(v: unknown): v is LeechAction {
+  return v === "tag" || v === "suspend";
+}
+
+export function leechSettingsFrom(row: { leech_threshold?: unknown; leech_action?: unknown } | null): LeechSettings {
+  const n = Number(row?.leech_threshold);
+  const threshold =
+    row?.leech_threshold == null || !Number.isFinite(n)
+      ? DEFAULT_LEECH_THRESHOLD
+      : Math.max(0, Math.min(MAX_LEECH_THRESHOLD, Math.floor(n)));
+  return { threshold, action: isLeechAction(row?.leech_action) ? row.leech_action : DEFAULT_LEECH_ACTION };
+}
+
+/**
+ * Estilo Anki: marca al llegar al umbral de lapsos y vuelve a avisar cada
+ * medio umbral (p. ej. 8, 12, 16…), por si se reactivó sin reescribirla.
+ */
+export function isLeechLapse(lapses: number, threshold: number): boolean {
+  if (threshold <= 0 || lapses < threshold) return false;
+  const step = Math.max(1, Math.ceil(threshold / 2));
+  return (lapses - threshold) % step === 0;
+}
+
+/** Enterrar: hasta el inicio del día siguiente (America/Santiago). */
+export function buryUntil(now: Date = new Date()): Date {
+  return startOfDayCL(new Date(startOfDayCL(now).getTime() + 36 * 60 * 60 * 1000));
+}
+
+export function flagsFromRow(
+  row: Pick<FlashcardUserFlagRow, "suspended_at" | "buried_until" | "leech_at"> | null | undefined,
+  now: Date = new Date()
+): CardFlags {
+  return {
+    suspended: !!row?.suspended_at,
+    buried: !!row?.buried_until && new Date(row.buried_until).getTime() > now.getTime(),
+    leech: !!row?.leech_at,
+  };
+}
+
+/**
+ * Flags del usuario para un conjunto de cartas (sin fila = sin flags).
+ * Si la lectura falla devuelve error: sin flags, lo suspendido volvería a la práctica.
+ */
+export async function loadCardFlags(
+  supabase: SupabaseClient,
+  userId: string,
+  cardIds: string[],
+  now: Date = new Date()
+): Promise<Result<Map<string, CardFlags>>> {
+  const out = new Map<string, CardFlags>();
+
+  // PK (user_id, card_id): cada chunk trae a lo más ID_CHUNK filas, bajo el corte de PostgREST
+  for (let i = 0; i < cardIds.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("flashcard_user_flags")
+      .select("card_id,suspended_at,buried_until,leech_at")
+      .eq("user_id", userId)
+      .in("card_id", cardIds.slice(i, i + ID_CHUNK))
+      .returns<Pick<FlashcardUserFlagRow, "card_id" | "suspended_at" | "buried_until" | "leech_at">[]>();
+
+    if (error) return { ok: false, error: error.message };
+    for (const r of data ?? []) out.set(r.card_id, flagsFromRow(r, now));
+  }
+  return { ok: true, data: out };
+}
@@ -0,0 +1,266 @@
+// lib/member-progress.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProjectId, ProjectRole } from "@/lib/types/study";
+
+/* ---------------------------------------
+   PROGRESO POR MIEMBRO (solo dueño)
+   El dueño no puede leer el progreso ajeno por RLS, así que:
+   Requiere RPC SQL (security definer): public.project_member_progress(p_project_id, p_days int)
+     returns table (user_id, group_id, cards_seen int, mastered int,
+       overdue int, reviews int, passed int, last_review_at timestamptz)
+     - solo si auth.uid() es el dueño del proyecto;
+     - omite a quienes tienen project_members.hide_progress = true;
+     - por tarjeta (cualquier ordinal/dirección) desde flashcard_review_state:
+       cards_seen: algún last_review_at; mastered: algún estado 'review'
+       con interval_days >= MASTERED_INTERVAL_DAYS; overdue: algún
+       due_at < now() con estado distinto de 'new';
+     - reviews/passed: flashcard_review_log de los últimos p_days días,
+       sin deshechas (reverted_at null); passed = rating <> 'again';
+     - last_review_at: último log (sin ventana).
+   Opt-out: columna project_members.hide_progress boolean default false,
+   que el miembro cambia con
+   Requiere RPC SQL (security definer): public.set_project_progress_privacy(p_project_id, p_hidden boolean)
+----------------------------------------*/
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+export const MASTERED_INTERVAL_DAYS = 21;
+export const PROGRESS_WINDOW_DAYS = 30;
+
+// PostgREST corta en 1000 filas por request
+const PAGE = 1000;
+const ID_CHUNK = 200; // .in() va en la URL
+
+export type ProgressCounts = {
+  cards: number;
+  seen: number;
+  mastered: number;
+  overdue: number;
+  reviews: number;
+  passed: number;
+  last_review_at: string | null;
+};
+
+export type MemberProgress = {
+  user_id: string;
+  username: string | null;
+  role: ProjectRole;
+  // true = el miembro no comparte su progreso
+  hidden: boolean;
+  total: ProgressCounts;
+  groups: Array<ProgressCounts & { group_id: string }>;
+};
+
+export type ProjectProgressGroup = { id: string; title: string; cards: number };
+
+export type ProjectProgress = {
+  groups: ProjectProgressGroup[];
+  members: MemberProgress[];
+};
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function maxIso(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+function emptyCounts(cards: number): ProgressCounts {
+  return { cards, seen: 0, mastered: 0, overdue: 0, reviews: 0, passed: 0, last_review_at: null };
+}
+
+/** Retención (0..1) o null sin repasos en la ventana. */
+export function retentionRate(c: Pick<ProgressCounts, "reviews" | "passed">): number | null {
+  return c.reviews > 0 ? c.passed / c.reviews : null;
+}
+
+/** Carga grupos, miembros y progreso. No valida permisos: el RPC lo hace. */
+export async function loadProjectProgress(
+  supabase: SupabaseClient,
+  projectId: ProjectId,
+  ownerUserId: string
+): Promise<Result<ProjectProgress>> {
+  const [{ data: rows, error: rpcErr }, { data: mems, error: memErr }, { data: blocks, error: bErr }] =
+    await Promise.all([
+      supabase.rpc("project_member_progress", { p_project_id: projectId, p_days: PROGRESS_WINDOW_DAYS }),
+      supabase
+        .from("project_members")
+        .select("user_id,role,hide_progress")
+        .eq("project_id", projectId)
+        .limit(1000)
+        .returns<{ user_id: string; role: ProjectRole; hide_progress: boolean | null }[]>(),
+      supabase
+        .from("project_blocks")
+        .select("id")
+        .eq("project_id", projectId)
+        .eq("type", "flashcards")
+        .order("order_index", { ascending: true })
+        .returns<{ id: string }[]>(),
+    ]);
+
+  if (rpcErr) return { ok: false, error: rpcErr.message };
+  if (memErr) return { ok: false, error: memErr.message };
+  if (bErr) return { ok: false, error: bErr.message };
+
+  const blockIds = (blocks ?? []).map((b) => b.id);
+  const { data: groupRows, error: gErr } = blockIds.length
+    ? await supabase
+        .from("flashcard_groups")
+        .select("id,title,block_id,order_index")
+        .in("block_id", blockIds)
+        .order("order_index", { ascending: true })
+        .returns<{ id: string; title: string; block_id: string }[]>()
+    : { data: [] as { id: string; title: string; block_id: string }[], error: null };
+  if (gErr) return { ok: false, error: gErr.message };
+
+  // orden de bloques, luego orden dentro del bloque
+  const blockOrder = new Map(blockIds.map((id, i) => [id, i]));
+  const orderedGroups = [...(groupRows ?? [])].sort(
+    (a, b) => (blockOrder.get(a.block_id) ?? 0) - (blockOrder.get(b.block_id) ?? 0)
+  );
+
+  const cardsPerGroup = new Map<string, number>();
+  for (let from = 0; ; from += PAGE) {
+    const { data: cards, error: cErr } = await supabase
+      .from("flashcards")
+      .select("group_id")
+      .eq("project_id", projectId)
+      .not("group_id", "is", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE - 1)
+      .returns<{ group_id: string }[]>();
+    if (cErr) return { ok: false, error: cErr.message };
+    for (const c of cards ?? []) cardsPerGroup.set(c.group_id, (cardsPerGroup.get(c.group_id) ?? 0) + 1);
+    if ((cards?.length ?? 0) < PAGE) break;
+  }
+
+  const groups: ProjectProgressGroup[] = orderedGroups.map((g) => ({
+    id: g.id,
+    title: g.title,
+    cards: cardsPerGroup.get(g.id) ?? 0,
+  }));
+  const totalCards = groups.reduce((acc, g) => acc + g.cards, 0);
+
+  // miembros + dueño
+  const people = new Map<string, { role: ProjectRole; hidden: boolean }>();
+  people.set(ownerUserId, { role: "owner", hidden: false });
+  for (const m of mems ?? []) {
+    if (m.user_id === ownerUserId) continue;
+    people.set(m.user_id, { role: m.role, hidden: !!m.hide_progress });
+  }
+
+  const userIds = [...people.keys()];
+  const usernames = new Map<string, string | null>();
+  for (let i = 0; i < userIds.length; i += ID_CHUNK) {
+    const { data: profs } = await supabase
+      .from("profiles")
+      .select("id,username")
+      .in("id", userIds.slice(i, i + ID_CHUNK))
+      .returns<{ id: string; username: string | null }[]>();
+    for (const p of profs ?? []) usernames.set(p.id, p.username);
+  }
+
+  const byUserGroup = new Map<string, ProgressCounts>();
+  for (const r of (Array.isArray(rows) ? rows : []) as Array<Record<string, unknown>>) {
+    const gid = String(r.group_id ?? "");
+    byUserGroup.set(`${String(r.user_id)}:${gid}`, {
+      cards: cardsPerGroup.get(gid) ?? 0,
+      seen: num(r.cards_seen),
+      mastered: num(r.mastered),
+      overdue: num(r.overdue),
+      reviews: num(r.reviews),
+      passed: num(r.passed),
+      last_review_at: r.last_review_at == null ? null : String(r.last_review_at),
+    });
+  }
+
+  const members: MemberProgress[] = userIds.map((uid) => {
+    const info = people.get(uid)!;
+    const perGroup = info.hidden
+      ? []
+      : groups.map((g) => ({ group_id: g.id, ...(byUserGroup.get(`${uid}:${g.id}`) ?? emptyCounts(g.cards)) }));
+
+    const total = perGroup.reduce<ProgressCounts>(
+      (acc, g) => ({
+        cards: acc.cards,
+        seen: acc.seen + g.seen,
+        mastered: acc.mastered + g.mastered,
+        overdue: acc.overdue + g.overdue,
+        reviews: acc.reviews + g.reviews,
+        passed: acc.passed + g.passed,
+        last_review_at: maxIso(acc.last_review_at, g.last_review_at),
+      }),
+      emptyCounts(totalCards)
+    );
+
+    return { user_id: uid, username: usernames.get(uid) ?? null, role: info.role, hidden: info.hidden, total, groups: perGroup };
+  });
+
+  // más activos primero; los que no comparten al final
+  members.sort((a, b) => {
+    if (a.hidden !== b.hidden) return a.hidden ? 1 : -1;
+    return (b.total.last_review_at ?? "").localeCompare(a.total.last_review_at ?? "");
+  });
+
+  return { ok: true, data: { groups, members } };
+}
+
+/* ---------------------------------------
+   CSV
+----------------------------------------*/
+
+function csvCell(v: string | number | null): string {
+  let s = v == null ? "" : String(v);
+  // evita que Excel/Sheets lo interprete como fórmula (p. ej. un título "=HYPERLINK(...)")
+  if (typeof v === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\n\r;]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const CSV_HEADER = [
+  "usuario",
+  "rol",
+  "grupo",
+  "tarjetas",
+  "vistas",
+  "dominadas",
+  "vencidas",
+  `repasos_${PROGRESS_WINDOW_DAYS}d`,
+  `retencion_${PROGRESS_WINDOW_DAYS}d`,
+  "ultima_actividad",
+];
+
+/** Una fila por miembro y grupo, más una fila "(total)". Omite a quienes no comparten. */
+export function progressToCsv(progress: ProjectProgress): string {
+  const groupTitle = new Map(progress.groups.map((g) => [g.id, g.title]));
+  const lines = [CSV_HEADER.join(",")];
+
+  const row = (m: MemberProgress, group: string, c: ProgressCounts) => {
+    const rate = retentionRate(c);
+    return [
+      m.username ?? m.user_id,
+      m.role,
+      group,
+      c.cards,
+      c.seen,
+      c.mastered,
+      c.overdue,
+      c.reviews,
+      rate == null ? "" : rate.toFixed(3),
+      c.last_review_at ?? "",
+    ]
+      .map(csvCell)
+      .join(",");
+  };
+
+  for (const m of progress.members) {
+    if (m.hidden) continue;
+    lines.push(row(m, "(total)", m.total));
+    for (const g of m.groups) lines.push(row(m, groupTitle.get(g.group_id) ?? g.group_id, g));
+  }
+
+  return lines.join("\r\n") + "\r\n";
+}
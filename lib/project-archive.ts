@@ -0,0 +1,196 @@
+// lib/project-archive.ts
+import type {
+  CardDirection,
+  FlashcardKind,
+  FlashcardReviewStateRow,
+  ProjectBlockType,
+  ReviewState,
+} from "@/lib/types/study";
+import { publicQuiz, quizFromBlockData } from "@/lib/quiz";
+
+/* ---------------------------------------
+   ARCHIVO DE PROYECTO (export/import)
+   ZIP con project.json (o el JSON suelto).
+   Los ids del archivo son locales: al importar se generan nuevos
+   y se remapean las referencias (bloque -> grupo -> carta -> estado).
+   Subir PROJECT_ARCHIVE_VERSION si cambia la forma del JSON.
+----------------------------------------*/
+
+export const PROJECT_ARCHIVE_FORMAT = "rutalabs-project";
+export const PROJECT_ARCHIVE_VERSION = 1;
+export const PROJECT_ARCHIVE_FILE = "project.json";
+
+export const MAX_ARCHIVE_BYTES = 20 * 1024 * 1024;
+export const MAX_ARCHIVE_BLOCKS = 500;
+export const MAX_ARCHIVE_CARDS = 20000;
+
+export type ArchiveBlock = { id: string; type: ProjectBlockType; order_index: number; data: unknown };
+export type ArchiveGroup = { id: string; block_id: string; title: string; bidirectional: boolean; order_index: number };
+export type ArchiveCard = { id: string; group_id: string; kind: FlashcardKind; front: string; back: string; order_index: number };
+export type ArchiveReviewState = Omit<FlashcardReviewStateRow, "user_id" | "created_at" | "updated_at">;
+
+export type ProjectArchive = {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  project: { title: string; description_md: string | null };
+  blocks: ArchiveBlock[];
+  groups: ArchiveGroup[];
+  cards: ArchiveCard[];
+  // solo si quien exporta eligió incluir su progreso
+  review_state?: ArchiveReviewState[];
+};
+
+type Parsed<T> = { ok: true; data: T } | { ok: false; error: string };
+
+const BLOCK_TYPES: ProjectBlockType[] = ["text", "flashcards", "quiz"];
+const REVIEW_STATES: ReviewState[] = ["new", "learning", "review", "relearning"];
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function num(v: unknown, fallback = 0): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+}
+
+function isoOrNull(v: unknown): string | null {
+  return typeof v === "string" && !Number.isNaN(Date.parse(v)) ? v : null;
+}
+
+/** Datos de bloque que se exportan/importan según el tipo (quiz: con solución si se tiene). */
+export function archiveBlockData(type: ProjectBlockType, data: unknown): unknown {
+  if (type === "text") return { md: isObj(data) ? str(data.md) : "" };
+  if (type === "quiz") return quizFromBlockData(data);
+  return { note: "flashcards_block" };
+}
+
+/** Lo que se guarda en project_blocks.data: el quiz sin solución (va en quiz_answer_keys). */
+export function blockRowData(b: ArchiveBlock): unknown {
+  return b.type === "quiz" ? publicQuiz(quizFromBlockData(b.data)) : b.data;
+}
+
+/**
+ * Valida y normaliza el JSON de un archivo. Rechaza versiones futuras
+ * y referencias rotas (grupos sin bloque, cartas sin grupo, etc.).
+ */
+export function parseProjectArchive(raw: unknown): Parsed<ProjectArchive> {
+  if (!isObj(raw) || raw.format !== PROJECT_ARCHIVE_FORMAT) {
+    return { ok: false, error: "No es un archivo de proyecto válido." };
+  }
+
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: "Versión de archivo inválida." };
+  }
+  if (version > PROJECT_ARCHIVE_VERSION) {
+    return { ok: false, error: `El archivo es de una versión más nueva (v${version}); esta instancia soporta hasta v${PROJECT_ARCHIVE_VERSION}.` };
+  }
+
+  const project = isObj(raw.project) ? raw.project : {};
+  const title = str(project.title).trim().slice(0, 200);
+  if (!title) return { ok: false, error: "El proyecto no tiene título." };
+  const description = str(project.description_md).trim();
+
+  const rawBlocks = Array.isArray(raw.blocks) ? raw.blocks : [];
+  const rawGroups = Array.isArray(raw.groups) ? raw.groups : [];
+  const rawCards = Array.isArray(raw.cards) ? raw.cards : [];
+
+  if (rawBlocks.length > MAX_ARCHIVE_BLOCKS) return { ok: false, error: `Máximo ${MAX_ARCHIVE_BLOCKS} bloques.` };
+  if (rawCards.length > MAX_ARCHIVE_CARDS) return { ok: false, error: `Máximo ${MAX_ARCHIVE_CARDS} cartas.` };
+
+  const blocks: ArchiveBlock[] = [];
+  const blockTypes = new Map<string, ProjectBlockType>();
+  for (const b of rawBlocks) {
+    if (!isObj(b)) return { ok: false, error: "Bloque inválido." };
+    const id = str(b.id);
+    const type = b.type as ProjectBlockType;
+    if (!id || blockTypes.has(id)) return { ok: false, error: "Bloque con id vacío o repetido." };
+    if (!BLOCK_TYPES.includes(type)) return { ok: false, error: `Tipo de bloque desconocido: ${String(b.type)}.` };
+    blockTypes.set(id, type);
+    blocks.push({ id, type, order_index: num(b.order_index, blocks.length), data: archiveBlockData(type, b.data) });
+  }
+
+  const groups: ArchiveGroup[] = [];
+  const groupIds = new Set<string>();
+  for (const g of rawGroups) {
+    if (!isObj(g)) return { ok: false, error: "Grupo inválido." };
+    const id = str(g.id);
+    const blockId = str(g.block_id);
+    if (!id || groupIds.has(id)) return { ok: false, error: "Grupo con id vacío o repetido." };
+    if (blockTypes.get(blockId) !== "flashcards") return { ok: false, error: "Grupo sin bloque de flashcards." };
+    groupIds.add(id);
+    groups.push({
+      id,
+      block_id: blockId,
+      title: str(g.title).trim().slice(0, 200) || "General",
+      bidirectional: g.bidirectional === true,
+      order_index: num(g.order_index, groups.length),
+    });
+  }
+
+  const cards: ArchiveCard[] = [];
+  const cardIds = new Set<string>();
+  for (const c of rawCards) {
+    if (!isObj(c)) return { ok: false, error: "Carta inválida." };
+    const id = str(c.id);
+    const groupId = str(c.group_id);
+    if (!id || cardIds.has(id)) return { ok: false, error: "Carta con id vacío o repetido." };
+    if (!groupIds.has(groupId)) return { ok: false, error: "Carta sin grupo." };
+    cardIds.add(id);
+    cards.push({
+      id,
+      group_id: groupId,
+      kind: c.kind === "cloze" ? "cloze" : "basic",
+      front: str(c.front),
+      back: str(c.back),
+      order_index: num(c.order_index, cards.length),
+    });
+  }
+
+  let review_state: ArchiveReviewState[] | undefined;
+  if (Array.isArray(raw.review_state)) {
+    review_state = [];
+    for (const s of raw.review_state) {
+      // el progreso es opcional: filas rotas se descartan en vez de abortar
+      if (!isObj(s) || !cardIds.has(str(s.card_id))) continue;
+      const due = isoOrNull(s.due_at);
+      const state = s.state as ReviewState;
+      if (!due || !REVIEW_STATES.includes(state)) continue;
+
+      review_state.push({
+        card_id: str(s.card_id),
+        ordinal: Math.max(0, Math.floor(num(s.ordinal))),
+        direction: (s.direction === "reverse" ? "reverse" : "forward") as CardDirection,
+        due_at: due,
+        state,
+        interval_days: num(s.interval_days),
+        ease: num(s.ease, 2.5),
+        reps: Math.max(0, Math.floor(num(s.reps))),
+        lapses: Math.max(0, Math.floor(num(s.lapses))),
+        stability: typeof s.stability === "number" ? s.stability : null,
+        difficulty: typeof s.difficulty === "number" ? s.difficulty : null,
+        learning_step: Math.max(0, Math.floor(num(s.learning_step))),
+        last_review_at: isoOrNull(s.last_review_at),
+      });
+    }
+  }
+
+  return {
+    ok: true,
+    data: {
+      format: PROJECT_ARCHIVE_FORMAT,
+      version,
+      exported_at: isoOrNull(raw.exported_at) ?? new Date().toISOString(),
+      project: { title, description_md: description || null },
+      blocks,
+      groups,
+      cards,
+      review_state,
+    },
+  };
+}
@@ -0,0 +1,335 @@
+// lib/project-copy.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FlashcardGroupRow, FlashcardRow, ProjectBlockRow, ProjectId } from "@/lib/types/study";
+import {
+  archiveBlockData,
+  blockRowData,
+  PROJECT_ARCHIVE_FORMAT,
+  PROJECT_ARCHIVE_VERSION,
+  type ArchiveReviewState,
+  type ProjectArchive,
+} from "@/lib/project-archive";
+import { upstreamBase, type LocalCopy } from "@/lib/project-upstream";
+import { quizAnswerKey, quizFromBlockData, withAnswerKey } from "@/lib/quiz";
+import { loadQuizKeys } from "@/lib/quiz-keys";
+
+/* ---------------------------------------
+   COPIA DE PROYECTOS (export / import / fork)
+   load: proyecto -> ProjectArchive (ids originales)
+   create: ProjectArchive -> proyecto privado nuevo (ids nuevos)
+   fork: además guarda upstream_id en cada fila copiada, la revisión
+   (updated_at) del original y la base del diff (forked_from_base), para
+   ofrecer actualizaciones después.
+----------------------------------------*/
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+// PostgREST corta en 1000 filas por request
+const PAGE = 1000;
+const ID_CHUNK = 200; // .in() va en la URL
+const INSERT_CHUNK = 500;
+
+type PageQuery<T> = (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+async function fetchAll<T>(query: PageQuery<T>): Promise<T[]> {
+  const out: T[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await query(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...(data ?? []));
+    if ((data?.length ?? 0) < PAGE) return out;
+  }
+}
+
+/**
+ * Lee el contenido del proyecto (sin validar permisos: eso lo hace quien llama).
+ * reviewUserId => incluye el progreso de ese usuario.
+ * answerKeys => incluye la solución de los quiz (solo dueño/editor: quien llama lo decide).
+ */
+export async function loadProjectArchive(
+  supabase: SupabaseClient,
+  projectId: ProjectId,
+  opts: { reviewUserId?: string | null; answerKeys?: boolean } = {}
+): Promise<Result<ProjectArchive>> {
+  try {
+    const { data: project, error: pErr } = await supabase
+      .from("projects")
+      .select("title,description_md")
+      .eq("id", projectId)
+      .single<{ title: string; description_md: string | null }>();
+
+    if (pErr || !project) return { ok: false, error: pErr?.message ?? "Proyecto no encontrado." };
+
+    const blocks = await fetchAll<Pick<ProjectBlockRow, "id" | "type" | "order_index" | "data">>((from, to) =>
+      supabase
+        .from("project_blocks")
+        .select("id,type,order_index,data")
+        .eq("project_id", projectId)
+        .order("order_index", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+
+    const quizIds = opts.answerKeys ? blocks.filter((b) => b.type === "quiz").map((b) => b.id) : [];
+    const keys = await loadQuizKeys(supabase, quizIds);
+    if (!keys.ok) return keys;
+
+    const flashBlockIds = blocks.filter((b) => b.type === "flashcards").map((b) => b.id);
+
+    const groups = flashBlockIds.length
+      ? await fetchAll<Pick<FlashcardGroupRow, "id" | "block_id" | "title" | "bidirectional" | "order_index">>((from, to) =>
+          supabase
+            .from("flashcard_groups")
+            .select("id,block_id,title,bidirectional,order_index")
+            .in("block_id", flashBlockIds)
+            .order("order_index", { ascending: true })
+            .order("id", { ascending: true })
+            .range(from, to)
+        )
+      : [];
+
+    const groupIds = new Set(groups.map((g) => g.id));
+
+    const cards = (
+      await fetchAll<Pick<FlashcardRow, "id" | "group_id" | "kind" | "front" | "back" | "order_index">>((from, to) =>
+        supabase
+          .from("flashcards")
+          .select("id,group_id,kind,front,back,order_index")
+          .eq("project_id", projectId)
+          .order("order_index", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      )
+    ).filter((c) => c.group_id && groupIds.has(c.group_id));
+
+    const archive: ProjectArchive = {
+      format: PROJECT_ARCHIVE_FORMAT,
+      version: PROJECT_ARCHIVE_VERSION,
+      exported_at: new Date().toISOString(),
+      project: { title: project.title, description_md: project.description_md },
+      blocks: blocks.map((b) => ({
+        id: b.id,
+        type: b.type,
+        order_index: b.order_index,
+        data: archiveBlockData(b.type, b.type === "quiz" ? withAnswerKey(b.data, keys.data.get(b.id)) : b.data),
+      })),
+      groups: groups.map((g) => ({
+        id: g.id,
+        block_id: g.block_id,
+        title: g.title,
+        bidirectional: Boolean(g.bidirectional),
+        order_index: g.order_index,
+      })),
+      cards: cards.map((c) => ({
+        id: c.id,
+        group_id: c.group_id as string,
+        kind: c.kind ?? "basic",
+        front: c.front,
+        back: c.back,
+        order_index: c.order_index,
+      })),
+    };
+
+    if (opts.reviewUserId) {
+      const states: ArchiveReviewState[] = [];
+      for (let i = 0; i < cards.length; i += ID_CHUNK) {
+        const ids = cards.slice(i, i + ID_CHUNK).map((c) => c.id);
+        states.push(
+          ...(await fetchAll<ArchiveReviewState>((from, to) =>
+            supabase
+              .from("flashcard_review_state")
+              .select(
+                "card_id,ordinal,direction,due_at,state,interval_days,ease,reps,lapses,stability,difficulty,learning_step,last_review_at"
+              )
+              .eq("user_id", opts.reviewUserId as string)
+              .in("card_id", ids)
+              .order("card_id", { ascending: true })
+              .order("ordinal", { ascending: true })
+              .order("direction", { ascending: true })
+              .range(from, to)
+          ))
+        );
+      }
+      archive.review_state = states;
+    }
+
+    return { ok: true, data: archive };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "No se pudo leer el proyecto." };
+  }
+}
+
+async function insertChunked(
+  supabase: SupabaseClient,
+  table: string,
+  rows: Record<string, unknown>[]
+): Promise<string | null> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_CHUNK));
+    if (error) return error.message;
+  }
+  return null;
+}
+
+/**
+ * Crea un proyecto PRIVADO de userId con el contenido del archivo.
+ * Todos los ids se regeneran; si algo falla a medio camino se borra lo creado.
+ * Requiere (fork): projects.forked_from_project_id, projects.forked_from_owner_user_id,
+ * projects.forked_from_revision, projects.forked_from_base jsonb y upstream_id en
+ * project_blocks, flashcard_groups y flashcards.
+ */
+export async function createProjectFromArchive(
+  supabase: SupabaseClient,
+  userId: string,
+  archive: ProjectArchive,
+  opts: {
+    withReview?: boolean;
+    forkedFrom?: { projectId: ProjectId; ownerUserId: string; revision: string } | null;
+  } = {}
+): Promise<Result<{ id: string }>> {
+  const fork = opts.forkedFrom ?? null;
+
+  const { data: project, error: insErr } = await supabase
+    .from("projects")
+    .insert({
+      owner_user_id: userId,
+      title: archive.project.title,
+      description_md: archive.project.description_md,
+      visibility: "private",
+      ...(fork
+        ? {
+            forked_from_project_id: fork.projectId,
+            forked_from_owner_user_id: fork.ownerUserId,
+            forked_from_revision: fork.revision,
+            forked_from_base: upstreamBase(archive),
+          }
+        : {}),
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (insErr || !project?.id) return { ok: false, error: insErr?.message ?? "Error creando proyecto" };
+
+  // id del archivo -> id nuevo
+  const ids = new Map<string, string>();
+  const newId = (old: string) => {
+    const id = crypto.randomUUID();
+    ids.set(old, id);
+    return id;
+  };
+  const upstream = (old: string) => (fork ? { upstream_id: old } : {});
+
+  const blocks = [...archive.blocks]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map((b, i) => ({ id: newId(b.id), project_id: project.id, type: b.type, order_index: i, data: blockRowData(b), ...upstream(b.id) }));
+
+  // la solución de los quiz va aparte de data (ver lib/quiz-keys)
+  const quizKeys = archive.blocks
+    .filter((b) => b.type === "quiz")
+    .map((b) => ({ block_id: ids.get(b.id), project_id: project.id, key: quizAnswerKey(quizFromBlockData(b.data)) }));
+
+  const groups = archive.groups.map((g) => ({
+    id: newId(g.id),
+    block_id: ids.get(g.block_id),
+    title: g.title,
+    bidirectional: g.bidirectional,
+    order_index: g.order_index,
+    ...upstream(g.id),
+  }));
+
+  const cards = archive.cards.map((c) => ({
+    id: newId(c.id),
+    project_id: project.id,
+    group_id: ids.get(c.group_id),
+    kind: c.kind,
+    front: c.front,
+    back: c.back,
+    order_index: c.order_index,
+    ...upstream(c.id),
+  }));
+
+  const states =
+    opts.withReview && archive.review_state
+      ? archive.review_state.map((s) => ({ ...s, user_id: userId, card_id: ids.get(s.card_id) }))
+      : [];
+
+  const failed =
+    (await insertChunked(supabase, "project_blocks", blocks)) ??
+    (await insertChunked(supabase, "quiz_answer_keys", quizKeys)) ??
+    (await insertChunked(supabase, "flashcard_groups", groups)) ??
+    (await insertChunked(supabase, "flashcards", cards)) ??
+    (await insertChunked(supabase, "flashcard_review_state", states));
+
+  if (failed) {
+    const cardIds = cards.map((c) => c.id);
+    for (let i = 0; i < cardIds.length; i += ID_CHUNK) {
+      await supabase.from("flashcard_review_state").delete().eq("user_id", userId).in("card_id", cardIds.slice(i, i + ID_CHUNK));
+    }
+    await supabase.from("flashcards").delete().eq("project_id", project.id);
+    for (let i = 0; i < groups.length; i += ID_CHUNK) {
+      await supabase.from("flashcard_groups").delete().in("id", groups.slice(i, i + ID_CHUNK).map((g) => g.id));
+    }
+    await supabase.from("project_blocks").delete().eq("project_id", project.id);
+    await supabase.from("projects").delete().eq("id", project.id);
+    return { ok: false, error: failed };
+  }
+
+  return { ok: true, data: { id: project.id } };
+}
+
+/** Contenido de una copia con sus upstream_id (datos de bloque normalizados como en el archivo). */
+export async function loadLocalCopy(supabase: SupabaseClient, projectId: ProjectId): Promise<Result<LocalCopy>> {
+  try {
+    const blocks = await fetchAll<Pick<ProjectBlockRow, "id" | "type" | "order_index" | "data"> & { upstream_id: string | null }>(
+      (from, to) =>
+        supabase
+          .from("project_blocks")
+          .select("id,type,order_index,data,upstream_id")
+          .eq("project_id", projectId)
+          .order("order_index", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+    );
+
+    const flashBlockIds = blocks.filter((b) => b.type === "flashcards").map((b) => b.id);
+
+    const groups = flashBlockIds.length
+      ? await fetchAll<
+          Pick<FlashcardGroupRow, "id" | "block_id" | "title" | "bidirectional" | "order_index"> & { upstream_id: string | null }
+        >((from, to) =>
+          supabase
+            .from("flashcard_groups")
+            .select("id,block_id,title,bidirectional,order_index,upstream_id")
+            .in("block_id", flashBlockIds)
+            .order("order_index", { ascending: true })
+            .order("id", { ascending: true })
+            .range(from, to)
+        )
+      : [];
+
+    const cards = await fetchAll<
+      Pick<FlashcardRow, "id" | "group_id" | "kind" | "front" | "back" | "order_index"> & { upstream_id: string | null }
+    >((from, to) =>
+      supabase
+        .from("flashcards")
+        .select("id,group_id,kind,front,back,order_index,upstream_id")
+        .eq("project_id", projectId)
+        .order("order_index", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+
+    return {
+      ok: true,
+      data: {
+        blocks: blocks.map((b) => ({ ...b, data: archiveBlockData(b.type, b.data) })),
+        groups: groups.map((g) => ({ ...g, bidirectional: Boolean(g.bidirectional) })),
+        cards: cards
+          .filter((c) => c.group_id)
+          .map((c) => ({ ...c, group_id: c.group_id as string, kind: c.kind ?? "basic" })),
+      },
+    };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "No se pudo leer el proyecto." };
+  }
+}
@@ -0,0 +1,188 @@
+// lib/project-tags.ts
+
+/* ---------------------------------------
+   ETIQUETAS DE PROYECTO
+   Se guardan en projects.tags (text[], índice GIN) con prefijo:
+     subject:<clave>  materia (vocabulario controlado, varias)
+     level:<clave>    nivel (una)
+     lang:<clave>     idioma (una)
+     tag:<slug>       etiqueta libre
+   Filtrar = .contains("tags", [...]) (todas las elegidas).
+----------------------------------------*/
+
+export type TagFacet = "subject" | "level" | "lang" | "tag";
+
+export type TagOption = { key: string; label: string };
+
+export const TAG_SUBJECTS: TagOption[] = [
+  { key: "matematicas", label: "Matemáticas" },
+  { key: "fisica", label: "Física" },
+  { key: "quimica", label: "Química" },
+  { key: "biologia", label: "Biología" },
+  { key: "medicina", label: "Medicina y salud" },
+  { key: "historia", label: "Historia" },
+  { key: "geografia", label: "Geografía" },
+  { key: "lenguaje", label: "Lenguaje y literatura" },
+  { key: "idiomas", label: "Idiomas" },
+  { key: "programacion", label: "Programación" },
+  { key: "economia", label: "Economía" },
+  { key: "derecho", label: "Derecho" },
+  { key: "filosofia", label: "Filosofía" },
+  { key: "arte", label: "Arte y música" },
+  { key: "otros", label: "Otros" },
+];
+
+export const TAG_LEVELS: TagOption[] = [
+  { key: "basica", label: "Básica" },
+  { key: "media", label: "Media" },
+  { key: "universitaria", label: "Universitaria" },
+  { key: "profesional", label: "Profesional" },
+  { key: "general", label: "Público general" },
+];
+
+export const TAG_LANGS: TagOption[] = [
+  { key: "es", label: "Español" },
+  { key: "en", label: "Inglés" },
+  { key: "pt", label: "Portugués" },
+  { key: "fr", label: "Francés" },
+  { key: "de", label: "Alemán" },
+  { key: "it", label: "Italiano" },
+  { key: "otro", label: "Otro idioma" },
+];
+
+export const MAX_SUBJECTS = 3;
+export const MAX_FREE_TAGS = 8;
+const MAX_FREE_TAG_CHARS = 30;
+
+export const FACET_LABELS: Record<TagFacet, string> = {
+  subject: "Materia",
+  level: "Nivel",
+  lang: "Idioma",
+  tag: "Etiquetas",
+};
+
+const VOCAB: Record<Exclude<TagFacet, "tag">, TagOption[]> = {
+  subject: TAG_SUBJECTS,
+  level: TAG_LEVELS,
+  lang: TAG_LANGS,
+};
+
+/** "Álgebra Lineal" -> "algebra-lineal" ("" si no queda nada). */
+export function freeTagSlug(raw: string): string {
+  return raw
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_FREE_TAG_CHARS);
+}
+
+export function tagFacet(tag: string): TagFacet | null {
+  const facet = tag.slice(0, tag.indexOf(":"));
+  return facet === "subject" || facet === "level" || facet === "lang" || facet === "tag" ? facet : null;
+}
+
+/** Etiqueta válida (vocabulario o libre bien formada); null si no. */
+export function normalizeTag(raw: string): string | null {
+  const s = String(raw ?? "").trim();
+  const facet = tagFacet(s);
+  if (!facet) return null;
+
+  const value = s.slice(facet.length + 1);
+  if (facet === "tag") {
+    const slug = freeTagSlug(value);
+    return slug ? `tag:${slug}` : null;
+  }
+  return VOCAB[facet].some((o) => o.key === value) ? `${facet}:${value}` : null;
+}
+
+export function tagLabel(tag: string): string {
+  const facet = tagFacet(tag);
+  if (!facet) return tag;
+
+  const value = tag.slice(facet.length + 1);
+  if (facet === "tag") return `#${value}`;
+  return VOCAB[facet].find((o) => o.key === value)?.label ?? value;
+}
+
+export type ProjectTagsInput = {
+  subjects: string[];
+  level: string | null;
+  lang: string | null;
+  free: string[];
+};
+
+/** Arma projects.tags desde el formulario (descarta lo que no es válido). */
+export function buildProjectTags(input: ProjectTagsInput): string[] {
+  const out: string[] = [];
+
+  for (const s of input.subjects) {
+    const t = normalizeTag(`subject:${s}`);
+    if (t && !out.includes(t) && out.length < MAX_SUBJECTS) out.push(t);
+  }
+
+  const level = input.level ? normalizeTag(`level:${input.level}`) : null;
+  if (level) out.push(level);
+
+  const lang = input.lang ? normalizeTag(`lang:${input.lang}`) : null;
+  if (lang) out.push(lang);
+
+  const free: string[] = [];
+  for (const f of input.free) {
+    const t = normalizeTag(`tag:${f}`);
+    if (t && !free.includes(t) && free.length < MAX_FREE_TAGS) free.push(t);
+  }
+
+  return [...out, ...free];
+}
+
+export function splitProjectTags(tags: string[] | null | undefined): ProjectTagsInput {
+  const out: ProjectTagsInput = { subjects: [], level: null, lang: null, free: [] };
+
+  for (const t of tags ?? []) {
+    const facet = tagFacet(t);
+    const value = t.slice((facet?.length ?? 0) + 1);
+    if (facet === "subject") out.subjects.push(value);
+    else if (facet === "level") out.level = value;
+    else if (facet === "lang") out.lang = value;
+    else if (facet === "tag") out.free.push(value);
+  }
+
+  return out;
+}
+
+/** Filtros ?tag=... de la URL: válidos y sin repetir. */
+export function parseTagFilters(raw: string | string[] | null | undefined): string[] {
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  const out: string[] = [];
+  for (const r of list) {
+    const t = normalizeTag(r);
+    if (t && !out.includes(t)) out.push(t);
+  }
+  return out.slice(0, 10);
+}
+
+export type FacetCount = { tag: string; label: string; count: number };
+
+/** Conteos por faceta sobre las etiquetas de los proyectos que calzan. */
+export function countFacets(rows: Array<{ tags: string[] | null }>): Record<TagFacet, FacetCount[]> {
+  const counts = new Map<string, number>();
+  for (const r of rows) {
+    for (const t of new Set(r.tags ?? [])) counts.set(t, (counts.get(t) ?? 0) + 1);
+  }
+
+  const out: Record<TagFacet, FacetCount[]> = { subject: [], level: [], lang: [], tag: [] };
+  for (const [tag, count] of counts) {
+    const facet = tagFacet(tag);
+    if (!facet || !normalizeTag(tag)) continue;
+    out[facet].push({ tag, label: tagLabel(tag), count });
+  }
+
+  for (const facet of Object.keys(out) as TagFacet[]) {
+    out[facet].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+  out.tag = out.tag.slice(0, 20);
+
+  return out;
+}
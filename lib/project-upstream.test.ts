@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { PROJECT_ARCHIVE_FORMAT, PROJECT_ARCHIVE_VERSION, type ProjectArchive } from "./project-archive";
+import {
+  diffUpstream,
+  mergedBase,
+  upstreamBase,
+  upstreamKey,
+  withRequired,
+  withoutDependents,
+  type LocalCopy,
+  type UpstreamChange,
+} from "./project-upstream";
+
+/* Original: b1 > g1 > (c1, c2). La copia tiene ids propios enlazados por upstream_id. */
+
+function upstream(over: Partial<ProjectArchive> = {}): ProjectArchive {
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exported_at: "2026-03-01T00:00:00Z",
+    project: { title: "Original", description_md: null },
+    blocks: [{ id: "b1", type: "flashcards", order_index: 0, data: {} }],
+    groups: [{ id: "g1", block_id: "b1", title: "Capitales", bidirectional: false, order_index: 0 }],
+    cards: [
+      { id: "c1", group_id: "g1", kind: "basic", front: "Chile", back: "Santiago", order_index: 0 },
+      { id: "c2", group_id: "g1", kind: "basic", front: "Perú", back: "Lima", order_index: 1 },
+    ],
+    ...over,
+  };
+}
+
+function forkOf(up: ProjectArchive): LocalCopy {
+  return {
+    blocks: up.blocks.map((b) => ({ ...b, id: `l-${b.id}`, upstream_id: b.id })),
+    groups: up.groups.map((g) => ({ ...g, id: `l-${g.id}`, block_id: `l-${g.block_id}`, upstream_id: g.id })),
+    cards: up.cards.map((c) => ({ ...c, id: `l-${c.id}`, group_id: `l-${c.group_id}`, upstream_id: c.id })),
+  };
+}
+
+const ORIGINAL = upstream();
+const BASE = upstreamBase(ORIGINAL);
+
+function editCard(up: ProjectArchive, id: string, back: string): ProjectArchive {
+  return { ...up, cards: up.cards.map((c) => (c.id === id ? { ...c, back } : c)) };
+}
+
+function editLocalCard(local: LocalCopy, upstreamId: string, back: string): LocalCopy {
+  return { ...local, cards: local.cards.map((c) => (c.upstream_id === upstreamId ? { ...c, back } : c)) };
+}
+
+const summary = (changes: UpstreamChange[]) => changes.map((c) => [c.key, c.conflict]);
+
+describe("diffUpstream", () => {
+  it("sin cambios no hay nada que aplicar", () => {
+    expect(diffUpstream(ORIGINAL, forkOf(ORIGINAL), BASE)).toEqual([]);
+  });
+
+  it("cambio solo en el original: changed sin conflicto", () => {
+    const changes = diffUpstream(editCard(ORIGINAL, "c1", "Stgo."), forkOf(ORIGINAL), BASE);
+    expect(summary(changes)).toEqual([[upstreamKey("card", "changed", "c1"), false]]);
+    expect(changes[0].local_id).toBe("l-c1");
+    expect(changes[0].before).toBe("Chile → Santiago");
+    expect(changes[0].after).toBe("Chile → Stgo.");
+  });
+
+  it("cambio solo en la copia: no aparece", () => {
+    expect(diffUpstream(ORIGINAL, editLocalCard(forkOf(ORIGINAL), "c1", "mío"), BASE)).toEqual([]);
+  });
+
+  it("ambos lados cambiaron: conflicto", () => {
+    const changes = diffUpstream(editCard(ORIGINAL, "c1", "Stgo."), editLocalCard(forkOf(ORIGINAL), "c1", "mío"), BASE);
+    expect(summary(changes)).toEqual([[upstreamKey("card", "changed", "c1"), true]]);
+  });
+
+  it("mover una carta de grupo en el original es un cambio", () => {
+    const up = upstream({
+      groups: [...ORIGINAL.groups, { id: "g2", block_id: "b1", title: "Otras", bidirectional: false, order_index: 1 }],
+      cards: ORIGINAL.cards.map((c) => (c.id === "c2" ? { ...c, group_id: "g2" } : c)),
+    });
+    const changes = diffUpstream(up, forkOf(ORIGINAL), BASE);
+    expect(changes.map((c) => c.key)).toEqual([upstreamKey("group", "added", "g2"), upstreamKey("card", "changed", "c2")]);
+  });
+
+  it("lo nuevo en el original requiere a sus padres nuevos", () => {
+    const up = upstream({
+      blocks: [...ORIGINAL.blocks, { id: "b2", type: "flashcards", order_index: 1, data: {} }],
+      groups: [...ORIGINAL.groups, { id: "g2", block_id: "b2", title: "Ríos", bidirectional: true, order_index: 0 }],
+      cards: [...ORIGINAL.cards, { id: "c3", group_id: "g2", kind: "basic", front: "Loa", back: "Norte", order_index: 0 }],
+    });
+    const changes = diffUpstream(up, forkOf(ORIGINAL), BASE);
+    const card = changes.find((c) => c.key === upstreamKey("card", "added", "c3"));
+    expect(card?.requires).toEqual([upstreamKey("group", "added", "g2")]);
+
+    expect([...withRequired(changes, [upstreamKey("card", "added", "c3")])].sort()).toEqual(
+      [upstreamKey("block", "added", "b2"), upstreamKey("card", "added", "c3"), upstreamKey("group", "added", "g2")].sort()
+    );
+    const all = new Set(changes.map((c) => c.key));
+    expect([...withoutDependents(changes, all, upstreamKey("block", "added", "b2"))]).toEqual([]);
+  });
+
+  it("borrado en la copia y sin cambios arriba: no se vuelve a ofrecer", () => {
+    const local = forkOf(ORIGINAL);
+    local.cards = local.cards.filter((c) => c.upstream_id !== "c1");
+    expect(diffUpstream(ORIGINAL, local, BASE)).toEqual([]);
+
+    // si el original lo cambió después, vuelve como added en conflicto
+    expect(summary(diffUpstream(editCard(ORIGINAL, "c1", "Stgo."), local, BASE))).toEqual([
+      [upstreamKey("card", "added", "c1"), true],
+    ]);
+  });
+
+  it("borrado en el original: deleted, en conflicto si la copia lo editó", () => {
+    const up = upstream({ cards: ORIGINAL.cards.filter((c) => c.id !== "c2") });
+    expect(summary(diffUpstream(up, forkOf(ORIGINAL), BASE))).toEqual([[upstreamKey("card", "deleted", "c2"), false]]);
+    expect(summary(diffUpstream(up, editLocalCard(forkOf(ORIGINAL), "c2", "mío"), BASE))).toEqual([
+      [upstreamKey("card", "deleted", "c2"), true],
+    ]);
+  });
+
+  it("borrar un grupo arrastra el borrado de sus cartas", () => {
+    const up = upstream({ groups: [], cards: [] });
+    const changes = diffUpstream(up, forkOf(ORIGINAL), BASE);
+    const group = changes.find((c) => c.key === upstreamKey("group", "deleted", "g1"));
+    expect(group?.requires).toEqual([upstreamKey("card", "deleted", "c1"), upstreamKey("card", "deleted", "c2")]);
+
+    const all = new Set(changes.map((c) => c.key));
+    const kept = withoutDependents(changes, all, upstreamKey("card", "deleted", "c1"));
+    expect(kept.has(upstreamKey("group", "deleted", "g1"))).toBe(false);
+    expect(kept.has(upstreamKey("card", "deleted", "c2"))).toBe(true);
+  });
+
+  it("lo creado solo en la copia nunca aparece", () => {
+    const local = forkOf(ORIGINAL);
+    local.cards.push({ id: "l-nueva", group_id: "l-g1", kind: "basic", front: "Bolivia", back: "Sucre", order_index: 2, upstream_id: null });
+    expect(diffUpstream(ORIGINAL, local, BASE)).toEqual([]);
+  });
+
+  it("sin base (forks antiguos) cualquier diferencia es conflicto", () => {
+    expect(diffUpstream(ORIGINAL, forkOf(ORIGINAL), null)).toEqual([]);
+    expect(summary(diffUpstream(editCard(ORIGINAL, "c1", "Stgo."), forkOf(ORIGINAL), null))).toEqual([
+      [upstreamKey("card", "changed", "c1"), true],
+    ]);
+  });
+
+  it("la solución de un quiz no cuenta como cambio", () => {
+    const quiz = (correct: "a" | "b", explanation: string) =>
+      upstream({
+        blocks: [
+          ...ORIGINAL.blocks,
+          {
+            id: "q1",
+            type: "quiz",
+            order_index: 1,
+            data: {
+              questions: [
+                {
+                  id: "p1",
+                  kind: "single",
+                  prompt: "¿2+2?",
+                  options: [
+                    { id: "a", text: "3", correct: correct === "a", explanation },
+                    { id: "b", text: "4", correct: correct === "b", explanation: "" },
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+      });
+    const base = upstreamBase(quiz("b", ""));
+    expect(diffUpstream(quiz("a", "otra"), forkOf(quiz("b", "")), base)).toEqual([]);
+  });
+});
+
+describe("mergedBase", () => {
+  it("tras aplicar, el mismo original ya no muestra cambios y lo no aplicado se conserva", () => {
+    const up = editCard(editCard(ORIGINAL, "c1", "Stgo."), "c2", "Lima, Perú");
+    const local = forkOf(ORIGINAL);
+    const changes = diffUpstream(up, local, BASE);
+    const applied = changes.filter((c) => c.upstream_id === "c1");
+
+    const merged = editLocalCard(local, "c1", "Stgo.");
+    const base = mergedBase(BASE, up, merged, applied);
+
+    expect(summary(diffUpstream(up, merged, base))).toEqual([[upstreamKey("card", "changed", "c2"), false]]);
+  });
+
+  it("un borrado aplicado sale de la base", () => {
+    const up = upstream({ cards: ORIGINAL.cards.filter((c) => c.id !== "c2") });
+    const local = forkOf(ORIGINAL);
+    const base = mergedBase(BASE, up, local, diffUpstream(up, local, BASE));
+    expect(base["card:c2"]).toBeUndefined();
+    expect(base["card:c1"]).toBe(BASE["card:c1"]);
+  });
+
+  it("sin base previa toma lo que ya coincide", () => {
+    const up = editCard(ORIGINAL, "c1", "Stgo.");
+    const local = forkOf(ORIGINAL);
+    const base = mergedBase(null, up, local, []);
+    expect(base["card:c1"]).toBeUndefined();
+    expect(base["card:c2"]).toBe(BASE["card:c2"]);
+    expect(base["group:g1"]).toBe(BASE["group:g1"]);
+  });
+});
@@ -0,0 +1,373 @@
+// lib/project-upstream.ts
+import { blockRowData, type ArchiveBlock, type ArchiveCard, type ArchiveGroup, type ProjectArchive } from "@/lib/project-archive";
+
+/* ---------------------------------------
+   ACTUALIZACIONES DEL ORIGINAL (fork)
+   Cada bloque/grupo/carta copiado guarda upstream_id (id en el original).
+   Diff en tres vías contra la base: el contenido del original en la última
+   sincronización (fork o merge), guardado como hash por entidad en
+   projects.forked_from_base jsonb ({ "card:<upstream_id>": hash, ... }).
+   - added: existe en el original y no estaba en la base
+   - changed: el original cambió respecto de la base
+   - deleted: la copia apunta a algo que ya no existe en el original
+   Lo editado o borrado solo en la copia no aparece. Si ambos lados cambiaron
+   (o no hay base: forks antiguos) el cambio se marca como conflicto.
+   Lo creado localmente (upstream_id null) nunca aparece.
+----------------------------------------*/
+
+export type Linked<T> = T & { upstream_id: string | null };
+
+export type LocalCopy = {
+  blocks: Linked<ArchiveBlock>[];
+  groups: Linked<ArchiveGroup>[];
+  cards: Linked<ArchiveCard>[];
+};
+
+/** "<entity>:<upstream_id>" -> hash del contenido del original al sincronizar. */
+export type UpstreamBase = Record<string, string>;
+
+export type UpstreamEntity = "block" | "group" | "card";
+export type UpstreamChangeKind = "added" | "changed" | "deleted";
+
+export type UpstreamChange = {
+  key: string;
+  entity: UpstreamEntity;
+  kind: UpstreamChangeKind;
+  upstream_id: string | null;
+  local_id: string | null;
+  label: string;
+  before: string | null;
+  after: string | null;
+  // también cambió (o se borró) en la copia: aplicarlo pisa lo local
+  conflict: boolean;
+  // keys que se aplican sí o sí junto a esta (padre a crear / hijos a borrar)
+  requires: string[];
+};
+
+const SNIPPET = 160;
+
+export function upstreamKey(entity: UpstreamEntity, kind: UpstreamChangeKind, id: string): string {
+  return `${entity}:${kind}:${id}`;
+}
+
+function baseKey(entity: UpstreamEntity, upstreamId: string): string {
+  return `${entity}:${upstreamId}`;
+}
+
+function snippet(s: string): string {
+  const t = s.replace(/\s+/g, " ").trim();
+  return t.length > SNIPPET ? `${t.slice(0, SNIPPET)}…` : t;
+}
+
+/** Hash corto y estable (cyrb53); solo para comparar contenido. */
+function hashContent(s: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// quiz: solo la parte pública (la solución no siempre se lee y nunca se sincroniza)
+function blockHash(b: ArchiveBlock): string {
+  return hashContent(JSON.stringify(blockRowData(b) ?? null));
+}
+
+function groupHash(g: ArchiveGroup): string {
+  return hashContent(JSON.stringify([g.title, g.bidirectional]));
+}
+
+// groupUpstreamId: grupo en términos del original (moverla de grupo es un cambio)
+function cardHash(c: ArchiveCard, groupUpstreamId: string | null): string {
+  return hashContent(JSON.stringify([c.kind, c.front, c.back, groupUpstreamId]));
+}
+
+/** Base completa de un original (al hacer fork). */
+export function upstreamBase(upstream: ProjectArchive): UpstreamBase {
+  const out: UpstreamBase = {};
+  for (const b of upstream.blocks) out[baseKey("block", b.id)] = blockHash(b);
+  for (const g of upstream.groups) out[baseKey("group", g.id)] = groupHash(g);
+  for (const c of upstream.cards) out[baseKey("card", c.id)] = cardHash(c, c.group_id);
+  return out;
+}
+
+function blockLabel(b: ArchiveBlock): string {
+  if (b.type === "flashcards") return "Bloque de flashcards";
+  if (b.type === "quiz") return "Quiz";
+  return "Bloque de texto";
+}
+
+function blockPreview(b: ArchiveBlock): string | null {
+  if (b.type !== "text") return null;
+  const md = (b.data as { md?: unknown } | null)?.md;
+  return typeof md === "string" ? snippet(md) : null;
+}
+
+function cardPreview(c: ArchiveCard): string {
+  return c.kind === "cloze" ? snippet(c.front) : `${snippet(c.front)} → ${snippet(c.back)}`;
+}
+
+type Verdict = { kind: UpstreamChangeKind; conflict: boolean } | null;
+
+/**
+ * Tres vías para una entidad. up/local: hash o null si no existe;
+ * baseHash undefined = sin base conocida.
+ */
+function classify(up: string | null, local: string | null, baseHash: string | undefined, hasBase: boolean): Verdict {
+  const known = baseHash !== undefined;
+
+  if (up && !local) {
+    if (!known) return { kind: "added", conflict: false };
+    // estaba en la base y ya no está en la copia: se borró localmente
+    return up === baseHash ? null : { kind: "added", conflict: true };
+  }
+
+  if (up && local) {
+    if (up === local) return null;
+    if (!known) return { kind: "changed", conflict: true };
+    if (up === baseHash) return null; // solo cambió la copia
+    return { kind: "changed", conflict: local !== baseHash };
+  }
+
+  if (!up && local) {
+    if (!known) return { kind: "deleted", conflict: !hasBase };
+    return { kind: "deleted", conflict: local !== baseHash };
+  }
+
+  return null;
+}
+
+/** Cambios del original respecto de la copia, en orden bloque → grupo → carta. */
+export function diffUpstream(upstream: ProjectArchive, local: LocalCopy, base: UpstreamBase | null): UpstreamChange[] {
+  const out: UpstreamChange[] = [];
+  const hasBase = base != null;
+  const baseOf = (entity: UpstreamEntity, id: string) => base?.[baseKey(entity, id)];
+
+  const localBlocks = new Map(local.blocks.filter((b) => b.upstream_id).map((b) => [b.upstream_id as string, b]));
+  const localGroups = new Map(local.groups.filter((g) => g.upstream_id).map((g) => [g.upstream_id as string, g]));
+  const localCards = new Map(local.cards.filter((c) => c.upstream_id).map((c) => [c.upstream_id as string, c]));
+  const localGroupUp = new Map(local.groups.map((g) => [g.id, g.upstream_id]));
+  const localCardHash = (c: ArchiveCard) => cardHash(c, localGroupUp.get(c.group_id) ?? null);
+
+  const upBlocks = new Set(upstream.blocks.map((b) => b.id));
+  const upGroups = new Set(upstream.groups.map((g) => g.id));
+  const upCards = new Set(upstream.cards.map((c) => c.id));
+
+  // bloques
+  for (const ub of upstream.blocks) {
+    const lb = localBlocks.get(ub.id);
+    const v = classify(blockHash(ub), lb ? blockHash(lb) : null, baseOf("block", ub.id), hasBase);
+    if (!v) continue;
+    out.push({
+      key: upstreamKey("block", v.kind, ub.id),
+      entity: "block",
+      kind: v.kind,
+      upstream_id: ub.id,
+      local_id: lb?.id ?? null,
+      label: blockLabel(ub),
+      before: lb ? blockPreview(lb) : null,
+      after: blockPreview(ub),
+      conflict: v.conflict,
+      requires: [],
+    });
+  }
+
+  // grupos
+  for (const ug of upstream.groups) {
+    const lg = localGroups.get(ug.id);
+    const v = classify(groupHash(ug), lg ? groupHash(lg) : null, baseOf("group", ug.id), hasBase);
+    if (!v) continue;
+    out.push({
+      key: upstreamKey("group", v.kind, ug.id),
+      entity: "group",
+      kind: v.kind,
+      upstream_id: ug.id,
+      local_id: lg?.id ?? null,
+      label: ug.title,
+      before: lg ? `${lg.title}${lg.bidirectional ? " (bidireccional)" : ""}` : null,
+      after: lg ? `${ug.title}${ug.bidirectional ? " (bidireccional)" : ""}` : ug.bidirectional ? "Bidireccional" : null,
+      conflict: v.conflict,
+      requires: lg || localBlocks.has(ug.block_id) ? [] : [upstreamKey("block", "added", ug.block_id)],
+    });
+  }
+
+  // cartas
+  for (const uc of upstream.cards) {
+    const lc = localCards.get(uc.id);
+    const v = classify(cardHash(uc, uc.group_id), lc ? localCardHash(lc) : null, baseOf("card", uc.id), hasBase);
+    if (!v) continue;
+
+    // moverse de grupo solo cuenta si el grupo destino existe en la copia
+    const target = localGroups.get(uc.group_id);
+    const moved = !!lc && !!target && target.id !== lc.group_id;
+
+    out.push({
+      key: upstreamKey("card", v.kind, uc.id),
+      entity: "card",
+      kind: v.kind,
+      upstream_id: uc.id,
+      local_id: lc?.id ?? null,
+      label: snippet(uc.front),
+      before: lc ? cardPreview(lc) : null,
+      after: moved ? `${cardPreview(uc)} (movida a “${target.title}”)` : cardPreview(uc),
+      conflict: v.conflict,
+      requires: lc || localGroups.has(uc.group_id) ? [] : [upstreamKey("group", "added", uc.group_id)],
+    });
+  }
+
+  // borrados: al borrar un padre se borran sus hijos
+  const deleted = <T extends { upstream_id: string | null }>(
+    entity: UpstreamEntity,
+    rows: T[],
+    upIds: Set<string>,
+    hash: (row: T) => string
+  ) =>
+    rows.flatMap((row) => {
+      if (!row.upstream_id || upIds.has(row.upstream_id)) return [];
+      const v = classify(null, hash(row), baseOf(entity, row.upstream_id), hasBase);
+      return v ? [{ row, conflict: v.conflict }] : [];
+    });
+
+  const deletedCards = deleted("card", local.cards, upCards, localCardHash);
+  const deletedGroups = deleted("group", local.groups, upGroups, groupHash);
+  const deletedBlocks = deleted("block", local.blocks, upBlocks, blockHash);
+
+  const groupDeleteKey = new Map(
+    deletedGroups.map(({ row: g }) => [g.id, upstreamKey("group", "deleted", g.upstream_id as string)])
+  );
+
+  for (const { row: lb, conflict } of deletedBlocks) {
+    out.push({
+      key: upstreamKey("block", "deleted", lb.upstream_id as string),
+      entity: "block",
+      kind: "deleted",
+      upstream_id: lb.upstream_id,
+      local_id: lb.id,
+      label: blockLabel(lb),
+      before: blockPreview(lb),
+      after: null,
+      conflict,
+      requires: deletedGroups.filter(({ row: g }) => g.block_id === lb.id).map(({ row: g }) => groupDeleteKey.get(g.id) as string),
+    });
+  }
+
+  for (const { row: lg, conflict } of deletedGroups) {
+    out.push({
+      key: groupDeleteKey.get(lg.id) as string,
+      entity: "group",
+      kind: "deleted",
+      upstream_id: lg.upstream_id,
+      local_id: lg.id,
+      label: lg.title,
+      before: null,
+      after: null,
+      conflict,
+      requires: deletedCards
+        .filter(({ row: c }) => c.group_id === lg.id)
+        .map(({ row: c }) => upstreamKey("card", "deleted", c.upstream_id as string)),
+    });
+  }
+
+  for (const { row: lc, conflict } of deletedCards) {
+    out.push({
+      key: upstreamKey("card", "deleted", lc.upstream_id as string),
+      entity: "card",
+      kind: "deleted",
+      upstream_id: lc.upstream_id,
+      local_id: lc.id,
+      label: snippet(lc.front),
+      before: cardPreview(lc),
+      after: null,
+      conflict,
+      requires: [],
+    });
+  }
+
+  // Lo que cuelga de un padre borrado en la copia (y sin cambios arriba) no se puede aplicar
+  const dropped = new Set<string>();
+  for (let changed = true; changed; ) {
+    changed = false;
+    const keys = new Set(out.filter((c) => !dropped.has(c.key)).map((c) => c.key));
+    for (const c of out) {
+      if (!dropped.has(c.key) && c.kind === "added" && c.requires.some((k) => !keys.has(k))) {
+        dropped.add(c.key);
+        changed = true;
+      }
+    }
+  }
+
+  return out.filter((c) => !dropped.has(c.key));
+}
+
+/**
+ * Base tras un merge: lo aplicado queda sincronizado con el original
+ * (borrado => sale de la base). Sin base previa se arma con lo que ya coincide.
+ */
+export function mergedBase(
+  base: UpstreamBase | null,
+  upstream: ProjectArchive,
+  local: LocalCopy,
+  applied: UpstreamChange[]
+): UpstreamBase {
+  const full = upstreamBase(upstream);
+  const out: UpstreamBase = { ...(base ?? {}) };
+
+  if (!base) {
+    const localGroupUp = new Map(local.groups.map((g) => [g.id, g.upstream_id]));
+    for (const b of local.blocks) {
+      if (b.upstream_id && full[baseKey("block", b.upstream_id)] === blockHash(b)) out[baseKey("block", b.upstream_id)] = blockHash(b);
+    }
+    for (const g of local.groups) {
+      if (g.upstream_id && full[baseKey("group", g.upstream_id)] === groupHash(g)) out[baseKey("group", g.upstream_id)] = groupHash(g);
+    }
+    for (const c of local.cards) {
+      const h = cardHash(c, localGroupUp.get(c.group_id) ?? null);
+      if (c.upstream_id && full[baseKey("card", c.upstream_id)] === h) out[baseKey("card", c.upstream_id)] = h;
+    }
+  }
+
+  for (const c of applied) {
+    if (!c.upstream_id) continue;
+    const k = baseKey(c.entity, c.upstream_id);
+    if (c.kind === "deleted") delete out[k];
+    else if (full[k]) out[k] = full[k];
+  }
+
+  return out;
+}
+
+/** keys + todo lo que requieren (transitivo). Ignora keys desconocidas. */
+export function withRequired(changes: UpstreamChange[], keys: Iterable<string>): Set<string> {
+  const byKey = new Map(changes.map((c) => [c.key, c]));
+  const out = new Set<string>();
+  const stack = [...keys];
+
+  while (stack.length) {
+    const k = stack.pop() as string;
+    const c = byKey.get(k);
+    if (!c || out.has(k)) continue;
+    out.add(k);
+    stack.push(...c.requires);
+  }
+
+  return out;
+}
+
+/** keys sin las que dependen de `removed` (transitivo). */
+export function withoutDependents(changes: UpstreamChange[], keys: Set<string>, removed: string): Set<string> {
+  const out = new Set(keys);
+  const stack = [removed];
+
+  while (stack.length) {
+    const k = stack.pop() as string;
+    if (!out.delete(k) && k !== removed) continue;
+    for (const c of changes) if (c.requires.includes(k) && out.has(c.key)) stack.push(c.key);
+  }
+
+  return out;
+}
@@ -0,0 +1,66 @@
+// lib/quiz-keys.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProjectId } from "@/lib/types/study";
+import { answerKeyFrom, publicQuiz, quizAnswerKey, type QuizAnswerKey, type QuizData } from "@/lib/quiz";
+
+/* ---------------------------------------
+   QUIZ: SOLUCIONES (fuera de project_blocks.data)
+   Requiere tabla: public.quiz_answer_keys (
+     block_id uuid PK FK project_blocks on delete cascade,
+     project_id FK projects on delete cascade,
+     key jsonb (QuizAnswerKey), updated_at timestamptz default now()
+   )
+   RLS: select/insert/update/delete solo dueño o editor del proyecto.
+   Quien solo ve el proyecto corrige vía RPC quiz_submit_attempt (quiz-actions).
+   Migración: mover correct/explanation de los project_blocks.data de tipo
+   quiz a esta tabla y dejar en data solo QuizPublicData.
+----------------------------------------*/
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+const ID_CHUNK = 200; // .in() va en la URL
+
+/** Soluciones visibles para el usuario (por RLS: vacío si no es dueño/editor). */
+export async function loadQuizKeys(
+  supabase: SupabaseClient,
+  blockIds: string[]
+): Promise<Result<Map<string, QuizAnswerKey>>> {
+  const out = new Map<string, QuizAnswerKey>();
+  for (let i = 0; i < blockIds.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("quiz_answer_keys")
+      .select("block_id,key")
+      .in("block_id", blockIds.slice(i, i + ID_CHUNK))
+      .returns<{ block_id: string; key: unknown }[]>();
+    if (error) return { ok: false, error: error.message };
+    for (const r of data ?? []) out.set(r.block_id, answerKeyFrom(r.key));
+  }
+  return { ok: true, data: out };
+}
+
+/**
+ * Guarda un quiz completo: la parte pública en project_blocks.data y la
+ * solución en quiz_answer_keys. null si todo salió bien.
+ */
+export async function saveQuizBlock(
+  supabase: SupabaseClient,
+  projectId: ProjectId,
+  blockId: string,
+  quiz: QuizData,
+  updatedAt: string
+): Promise<string | null> {
+  const { error: kErr } = await supabase
+    .from("quiz_answer_keys")
+    .upsert(
+      { block_id: blockId, project_id: projectId, key: quizAnswerKey(quiz), updated_at: updatedAt },
+      { onConflict: "block_id" }
+    );
+  if (kErr) return kErr.message;
+
+  const { error } = await supabase
+    .from("project_blocks")
+    .update({ data: publicQuiz(quiz), updated_at: updatedAt })
+    .eq("id", blockId)
+    .eq("project_id", projectId);
+  return error?.message ?? null;
+}
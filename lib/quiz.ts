@@ -0,0 +1,197 @@
+// lib/quiz.ts
+
+/* ---------------------------------------
+   QUIZ (bloque "quiz")
+   project_blocks.data = QuizPublicData (sin solución: lo lee cualquiera que vea el proyecto)
+   la solución va aparte en quiz_answer_keys (ver lib/quiz-keys)
+   - single: una opción correcta
+   - multiple: una o más correctas (todo o nada)
+   - truefalse: opciones fijas Verdadero/Falso
+----------------------------------------*/
+
+export type QuizQuestionKind = "single" | "multiple" | "truefalse";
+
+export type QuizOption = {
+  id: string;
+  text: string;
+  correct: boolean;
+  explanation: string;
+};
+
+export type QuizQuestion = {
+  id: string;
+  kind: QuizQuestionKind;
+  prompt: string;
+  options: QuizOption[];
+};
+
+export type QuizData = { questions: QuizQuestion[] };
+
+/** Lo que ve quien responde: sin opciones correctas ni explicaciones. */
+export type QuizPublicQuestion = Omit<QuizQuestion, "options"> & { options: Pick<QuizOption, "id" | "text">[] };
+export type QuizPublicData = { questions: QuizPublicQuestion[] };
+
+/** Solución por pregunta: se entrega recién al corregir un intento. */
+export type QuizAnswerKey = Record<string, { correct: string[]; explanations: Record<string, string> }>;
+
+/** Respuestas de un intento: question_id -> option_ids elegidas. */
+export type QuizAnswers = Record<string, string[]>;
+
+export type QuizQuestionResult = {
+  question_id: string;
+  selected: string[];
+  correct: boolean;
+};
+
+export type QuizGrade = {
+  score: number;
+  max_score: number;
+  results: QuizQuestionResult[];
+};
+
+export const MAX_QUIZ_QUESTIONS = 100;
+export const MAX_QUIZ_OPTIONS = 10;
+
+const KINDS: QuizQuestionKind[] = ["single", "multiple", "truefalse"];
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function newId(): string {
+  return crypto.randomUUID();
+}
+
+export function trueFalseOptions(): QuizOption[] {
+  return [
+    { id: newId(), text: "Verdadero", correct: true, explanation: "" },
+    { id: newId(), text: "Falso", correct: false, explanation: "" },
+  ];
+}
+
+export function emptyQuestion(kind: QuizQuestionKind = "single"): QuizQuestion {
+  return {
+    id: newId(),
+    kind,
+    prompt: "",
+    options:
+      kind === "truefalse"
+        ? trueFalseOptions()
+        : [
+            { id: newId(), text: "", correct: true, explanation: "" },
+            { id: newId(), text: "", correct: false, explanation: "" },
+          ],
+  };
+}
+
+/** Lee block.data de forma tolerante (bloques viejos o incompletos). */
+export function quizFromBlockData(data: unknown): QuizData {
+  if (!isObj(data) || !Array.isArray(data.questions)) return { questions: [] };
+
+  // ids de respaldo deterministas: la corrección en servidor debe coincidir con el cliente
+  const questions: QuizQuestion[] = [];
+  for (const [i, q] of data.questions.entries()) {
+    if (!isObj(q)) continue;
+    const qid = str(q.id) || `q${i}`;
+    const kind = KINDS.includes(q.kind as QuizQuestionKind) ? (q.kind as QuizQuestionKind) : "single";
+    const options: QuizOption[] = [];
+    for (const [j, o] of (Array.isArray(q.options) ? q.options : []).entries()) {
+      if (!isObj(o)) continue;
+      options.push({
+        id: str(o.id) || `${qid}_o${j}`,
+        text: str(o.text),
+        correct: o.correct === true,
+        explanation: str(o.explanation),
+      });
+    }
+    questions.push({ id: qid, kind, prompt: str(q.prompt), options });
+  }
+  return { questions };
+}
+
+export function publicQuiz(quiz: QuizData): QuizPublicData {
+  return {
+    questions: quiz.questions.map((q) => ({
+      id: q.id,
+      kind: q.kind,
+      prompt: q.prompt,
+      options: q.options.map((o) => ({ id: o.id, text: o.text })),
+    })),
+  };
+}
+
+export function quizAnswerKey(quiz: QuizData): QuizAnswerKey {
+  const key: QuizAnswerKey = {};
+  for (const q of quiz.questions) {
+    key[q.id] = {
+      correct: q.options.filter((o) => o.correct).map((o) => o.id),
+      explanations: Object.fromEntries(q.options.filter((o) => o.explanation).map((o) => [o.id, o.explanation])),
+    };
+  }
+  return key;
+}
+
+/** Junta el quiz público (project_blocks.data) con su solución (editor, resultados, export). */
+export function withAnswerKey(data: unknown, key: QuizAnswerKey | null | undefined): QuizData {
+  const quiz = quizFromBlockData(data);
+  if (!key) return quiz;
+  return {
+    questions: quiz.questions.map((q) => {
+      const k = key[q.id];
+      if (!k) return q;
+      return {
+        ...q,
+        options: q.options.map((o) => ({
+          ...o,
+          correct: k.correct.includes(o.id),
+          explanation: k.explanations[o.id] ?? "",
+        })),
+      };
+    }),
+  };
+}
+
+/** Lee una solución guardada (jsonb) de forma tolerante. */
+export function answerKeyFrom(raw: unknown): QuizAnswerKey {
+  const key: QuizAnswerKey = {};
+  if (!isObj(raw)) return key;
+  for (const [qid, v] of Object.entries(raw)) {
+    if (!isObj(v)) continue;
+    const explanations: Record<string, string> = {};
+    if (isObj(v.explanations)) {
+      for (const [oid, e] of Object.entries(v.explanations)) if (typeof e === "string" && e) explanations[oid] = e;
+    }
+    key[qid] = {
+      correct: Array.isArray(v.correct) ? v.correct.filter((x): x is string => typeof x === "string") : [],
+      explanations,
+    };
+  }
+  return key;
+}
+
+/** Valida un quiz antes de guardarlo. null si es válido. */
+export function quizError(quiz: QuizData): string | null {
+  if (quiz.questions.length > MAX_QUIZ_QUESTIONS) return `Máximo ${MAX_QUIZ_QUESTIONS} preguntas.`;
+
+  const ids = new Set<string>();
+  for (const [i, q] of quiz.questions.entries()) {
+    const n = i + 1;
+    if (ids.has(q.id)) return `Pregunta ${n}: id duplicado.`;
+    ids.add(q.id);
+
+    if (!q.prompt.trim()) return `Pregunta ${n}: falta el enunciado.`;
+    if (q.options.length < 2) return `Pregunta ${n}: necesita al menos 2 opciones.`;
+    if (q.options.length > MAX_QUIZ_OPTIONS) return `Pregunta ${n}: máximo ${MAX_QUIZ_OPTIONS} opciones.`;
+    if (q.options.some((o) => !o.text.trim())) return `Pregunta ${n}: hay opciones vacías.`;
+
+    const correct = q.options.filter((o) => o.correct).length;
+    if (correct === 0) return `Pregunta ${n}: marca al menos una opción correcta.`;
+    if (q.kind !== "multiple" && correct !== 1) return `Pregunta ${n}: debe tener exactamente una opción correcta.`;
+    if (q.kind === "truefalse" && q.options.length !== 2) return `Pregunta ${n}: verdadero/falso usa 2 opciones.`;
+  }
+  return null;
+}
@@ -0,0 +1,169 @@
+// lib/review-stats.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ReviewRating, ReviewState } from "@/lib/types/study";
+import { MASTERED_INTERVAL_DAYS } from "@/lib/member-progress";
+
+/* ---------------------------------------
+   ESTADÍSTICAS DE RETENCIÓN (usuario actual)
+   Requiere RPC SQL: public.review_stats_answers(p_user_id uuid, p_project_id uuid, p_group_id uuid,
+     p_from timestamptz, p_to timestamptz)
+     returns table(prev_state text, rating text, mature boolean, total int)
+     - agrupa flashcard_review_log del usuario (reverted_at is null) por prev_state/rating
+     - mature = prev_state = 'review' and prev_interval_days >= 21
+     - p_project_id / p_group_id / p_from / p_to null = sin filtro
+   Requiere RPC SQL: public.review_stats_cards(p_user_id uuid, p_project_id uuid, p_group_id uuid)
+     returns table(state text, interval_days int, ease numeric, total int)
+     - flashcards accesibles (dueño o miembro) con su flashcard_review_state;
+       las que no tienen fila cuentan como state 'new' (interval 0, ease null)
+     - ease redondeado a 2 decimales
+----------------------------------------*/
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+// mismo umbral que "Dominadas" en el progreso del proyecto
+export const MATURE_INTERVAL_DAYS = MASTERED_INTERVAL_DAYS;
+
+export const STATS_RANGES = ["7", "30", "90", "365", "all"] as const;
+export type StatsRange = (typeof STATS_RANGES)[number];
+
+export type AnswerStatRow = { prev_state: ReviewState; rating: ReviewRating; mature: boolean; total: number };
+export type CardStatRow = { state: ReviewState; interval_days: number; ease: number | null; total: number };
+
+export type ReviewStats = { answers: AnswerStatRow[]; cards: CardStatRow[] };
+
+export type CardMaturity = { new: number; learning: number; young: number; mature: number };
+export type Bucket = { label: string; total: number };
+
+const RATINGS: ReviewRating[] = ["again", "hard", "good", "easy"];
+const STATES: ReviewState[] = ["new", "learning", "review", "relearning"];
+
+export function isStatsRange(v: string): v is StatsRange {
+  return (STATS_RANGES as readonly string[]).includes(v);
+}
+
+function num(v: unknown): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function asState(v: unknown): ReviewState {
+  return STATES.includes(v as ReviewState) ? (v as ReviewState) : "new";
+}
+
+export async function loadReviewStats(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: { projectId: string | null; groupId: string | null; fromIso: string | null; toIso: string | null }
+): Promise<Result<ReviewStats>> {
+  const [aRes, cRes] = await Promise.all([
+    supabase.rpc("review_stats_answers", {
+      p_user_id: userId,
+      p_project_id: filters.projectId,
+      p_group_id: filters.groupId,
+      p_from: filters.fromIso,
+      p_to: filters.toIso,
+    }),
+    supabase.rpc("review_stats_cards", {
+      p_user_id: userId,
+      p_project_id: filters.projectId,
+      p_group_id: filters.groupId,
+    }),
+  ]);
+
+  if (aRes.error) return { ok: false, error: aRes.error.message };
+  if (cRes.error) return { ok: false, error: cRes.error.message };
+
+  const answers: AnswerStatRow[] = [];
+  for (const r of (Array.isArray(aRes.data) ? aRes.data : []) as Array<Record<string, unknown>>) {
+    const rating = String(r.rating ?? "") as ReviewRating;
+    if (!RATINGS.includes(rating)) continue;
+    answers.push({ prev_state: asState(r.prev_state), rating, mature: r.mature === true, total: num(r.total) });
+  }
+
+  const cards: CardStatRow[] = [];
+  for (const r of (Array.isArray(cRes.data) ? cRes.data : []) as Array<Record<string, unknown>>) {
+    cards.push({
+      state: asState(r.state),
+      interval_days: num(r.interval_days),
+      ease: r.ease == null ? null : num(r.ease),
+      total: num(r.total),
+    });
+  }
+
+  return { ok: true, data: { answers, cards } };
+}
+
+/** Tasa de respuestas distintas de "Otra vez" (null sin datos). */
+function passRate(rows: AnswerStatRow[]): { rate: number | null; total: number } {
+  const total = rows.reduce((acc, r) => acc + r.total, 0);
+  const passed = rows.filter((r) => r.rating !== "again").reduce((acc, r) => acc + r.total, 0);
+  return { rate: total > 0 ? passed / total : null, total };
+}
+
+/** Retención real: aprobadas sobre repasos de tarjetas maduras. */
+export function trueRetention(answers: AnswerStatRow[]) {
+  return passRate(answers.filter((r) => r.prev_state === "review" && r.mature));
+}
+
+export function youngRetention(answers: AnswerStatRow[]) {
+  return passRate(answers.filter((r) => r.prev_state === "review" && !r.mature));
+}
+
+/** Respuestas por botón según el estado previo de la tarjeta. */
+export function buttonBreakdown(answers: AnswerStatRow[]): Record<ReviewState, Record<ReviewRating, number>> {
+  const out = Object.fromEntries(
+    STATES.map((s) => [s, { again: 0, hard: 0, good: 0, easy: 0 }])
+  ) as Record<ReviewState, Record<ReviewRating, number>>;
+  for (const r of answers) out[r.prev_state][r.rating] += r.total;
+  return out;
+}
+
+export function cardMaturity(cards: CardStatRow[]): CardMaturity {
+  const out: CardMaturity = { new: 0, learning: 0, young: 0, mature: 0 };
+  for (const c of cards) {
+    if (c.state === "new") out.new += c.total;
+    else if (c.state === "learning" || c.state === "relearning") out.learning += c.total;
+    else if (c.interval_days >= MATURE_INTERVAL_DAYS) out.mature += c.total;
+    else out.young += c.total;
+  }
+  return out;
+}
+
+const INTERVAL_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: "1d", max: 1 },
+  { label: "2–3d", max: 3 },
+  { label: "4–7d", max: 7 },
+  { label: "1–2sem", max: 14 },
+  { label: "15–30d", max: 30 },
+  { label: "1–3m", max: 90 },
+  { label: "3–6m", max: 180 },
+  { label: "6–12m", max: 365 },
+  { label: "1a+", max: Infinity },
+];
+
+/** Intervalos de tarjetas en repaso. */
+export function intervalDistribution(cards: CardStatRow[]): Bucket[] {
+  const out = INTERVAL_BUCKETS.map((b) => ({ label: b.label, total: 0 }));
+  for (const c of cards) {
+    if (c.state !== "review") continue;
+    const i = INTERVAL_BUCKETS.findIndex((b) => c.interval_days <= b.max);
+    out[i < 0 ? out.length - 1 : i].total += c.total;
+  }
+  return out;
+}
+
+/** Ease de tarjetas en repaso, en tramos de 0.2 desde 1.3 (SM-2). */
+export function easeDistribution(cards: CardStatRow[]): Bucket[] {
+  const edges = [1.3, 1.5, 1.7, 1.9, 2.1, 2.3, 2.5, 2.7, 2.9];
+  const out = edges.map((e, i) => ({
+    label: i === edges.length - 1 ? `${e.toFixed(1)}+` : `${e.toFixed(1)}–${edges[i + 1].toFixed(1)}`,
+    total: 0,
+  }));
+  for (const c of cards) {
+    if (c.state !== "review" || c.ease == null) continue;
+    let i = edges.length - 1;
+    while (i > 0 && c.ease < edges[i]) i--;
+    out[i].total += c.total;
+  }
+  return out;
+}
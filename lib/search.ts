@@ -0,0 +1,285 @@
+// lib/search.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/* ---------------------------------------
+   BÚSQUEDA DE CONTENIDO (full-text)
+   Requiere columnas generadas tsvector (config "spanish_unaccent" =
+   spanish + unaccent) con índice GIN en:
+     project_blocks.search_tsv   (data->>'md', solo type = 'text')
+     flashcard_groups.search_tsv (title)
+     flashcards.search_tsv       (front || ' ' || back)
+   Requiere RPC SQL: public.search_content(p_query text, p_limit int)
+     security invoker (aplica RLS: solo proyectos que el usuario ve,
+     y de comunidad solo publicados y no ocultos),
+     websearch_to_tsquery + ts_rank_cd, orden por rank desc,
+     ts_headline con StartSel = E'\u0002', StopSel = E'\u0003'.
+     returns table (project_id, project_title, kind text
+       ('block' | 'group' | 'card'), block_id, group_id, card_id,
+       snippet text, rank real)
+----------------------------------------*/
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+export const SEARCH_HL_START = "\u0002";
+export const SEARCH_HL_STOP = "\u0003";
+
+export type ContentHitKind = "block" | "group" | "card";
+
+export type ContentHit = {
+  project_id: string;
+  project_title: string;
+  kind: ContentHitKind;
+  block_id: string | null;
+  group_id: string | null;
+  card_id: string | null;
+  snippet: string;
+  rank: number;
+};
+
+export type HighlightPart = { text: string; hit: boolean };
+
+function isKind(v: unknown): v is ContentHitKind {
+  return v === "block" || v === "group" || v === "card";
+}
+
+function idOrNull(v: unknown): string | null {
+  return v == null || v === "" ? null : String(v);
+}
+
+/** Filas del RPC -> ContentHit (descarta las mal formadas). */
+export function normalizeContentHits(data: unknown): ContentHit[] {
+  if (!Array.isArray(data)) return [];
+
+  const out: ContentHit[] = [];
+  for (const raw of data) {
+    const r = (raw ?? {}) as Record<string, unknown>;
+    if (!r.project_id || !isKind(r.kind)) continue;
+
+    out.push({
+      project_id: String(r.project_id),
+      project_title: String(r.project_title ?? ""),
+      kind: r.kind,
+      block_id: idOrNull(r.block_id),
+      group_id: idOrNull(r.group_id),
+      card_id: idOrNull(r.card_id),
+      snippet: String(r.snippet ?? ""),
+      rank: Number(r.rank) || 0,
+    });
+  }
+
+  return out.sort((a, b) => b.rank - a.rank);
+}
+
+export async function searchContent(
+  supabase: SupabaseClient,
+  query: string,
+  limit: number
+): Promise<Result<ContentHit[]>> {
+  const { data, error } = await supabase.rpc("search_content", { p_query: query, p_limit: limit });
+  if (error) return { ok: false, error: error.message };
+  return { ok: true, data: normalizeContentHits(data) };
+}
+
+/** Snippet de ts_headline -> tramos normales / resaltados. */
+export function splitHighlight(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  const clean = snippet.replace(/\s+/g, " ").trim();
+
+  let hit = false;
+  let buf = "";
+  for (const ch of clean) {
+    if (ch === SEARCH_HL_START || ch === SEARCH_HL_STOP) {
+      if (buf) parts.push({ text: buf, hit });
+      buf = "";
+      hit = ch === SEARCH_HL_START;
+      continue;
+    }
+    buf += ch;
+  }
+  if (buf) parts.push({ text: buf, hit });
+
+  return parts;
+}
+
+export function contentHitAnchor(hit: ContentHit): string | null {
+  if (hit.kind === "card" && hit.card_id) return `card-${hit.card_id}`;
+  if (hit.kind === "group" && hit.group_id) return `group-${hit.group_id}`;
+  if (hit.block_id) return `block-${hit.block_id}`;
+  return null;
+}
+
+/** Abre el proyecto en "Ver" y salta al bloque/grupo/carta. */
+export function contentHitHref(hit: ContentHit): string {
+  const anchor = contentHitAnchor(hit);
+  const base = `/protected/projects/${encodeURIComponent(hit.project_id)}?tab=view`;
+  return anchor ? `${base}#${anchor}` : base;
+}
+
+export const CONTENT_KIND_LABEL: Record<ContentHitKind, string> = {
+  block: "Texto",
+  group: "Grupo",
+  card: "Carta",
+};
+
+/* ---------------------------------------
+   BÚSQUEDA DE PROYECTOS (trigramas)
+   Requiere extensiones pg_trgm y unaccent, función immutable
+   public.search_fold(text) = lower(unaccent(text)) e índice GIN
+   gin_trgm_ops sobre search_fold(title || ' ' || coalesce(description_md, '')).
+   Requiere RPC SQL: public.search_projects(
+     p_query text, p_scope text, p_tags text[], p_owner_ids uuid[],
+     p_limit int, p_after_score real, p_after_updated timestamptz, p_after_id uuid
+   ) returns table (id uuid, score real, updated_at timestamptz)
+     security invoker; p_scope:
+       'mine'      dueño o project_members del usuario
+       'others'    public/unlisted no ocultos, sin los de 'mine'
+       'community' public no ocultos (listado de comunidad)
+     p_query vacío = todos (score 0); si no, word_similarity sobre el
+     texto plegado (tolera tildes y errores de tipeo), título pesa más.
+     p_tags: contiene todas; p_owner_ids null = cualquiera.
+     Orden score desc, updated_at desc, id desc; el cursor (p_after_*)
+     es la última fila de la página anterior (keyset).
+----------------------------------------*/
+
+export type ProjectSearchScope = "mine" | "others" | "community";
+
+export type ProjectMatch = { id: string; score: number; updated_at: string };
+
+type SearchCursor = { s: number; u: string; id: string };
+
+// página máxima del API; la comunidad pide hasta MAX_RANKED de una vez
+export const MAX_SEARCH_PAGE = 50;
+export const MAX_RANKED = 200;
+
+function encodeSearchCursor(m: ProjectMatch): string {
+  const c: SearchCursor = { s: m.score, u: m.updated_at, id: m.id };
+  return Buffer.from(JSON.stringify(c)).toString("base64url");
+}
+
+function decodeSearchCursor(raw: string | null | undefined): SearchCursor | null {
+  if (!raw) return null;
+  try {
+    const c = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as Partial<SearchCursor>;
+    if (typeof c.s !== "number" || typeof c.u !== "string" || typeof c.id !== "string") return null;
+    return { s: c.s, u: c.u, id: c.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Una página de coincidencias rankeadas. next_cursor null = no hay más.
+ * Un cursor inválido se trata como primera página.
+ */
+export async function searchProjects(
+  supabase: SupabaseClient,
+  args: {
+    query: string;
+    scope: ProjectSearchScope;
+    tags?: string[];
+    ownerIds?: string[] | null;
+    limit: number;
+    cursor?: string | null;
+  }
+): Promise<Result<{ matches: ProjectMatch[]; next_cursor: string | null }>> {
+  const limit = Math.min(Math.max(1, Math.floor(args.limit) || 1), MAX_RANKED);
+  const after = decodeSearchCursor(args.cursor);
+
+  const { data, error } = await supabase.rpc("search_projects", {
+    p_query: args.query,
+    p_scope: args.scope,
+    p_tags: args.tags?.length ? args.tags : null,
+    p_owner_ids: args.ownerIds ?? null,
+    // una fila extra para saber si hay más
+    p_limit: limit + 1,
+    p_after_score: after?.s ?? null,
+    p_after_updated: after?.u ?? null,
+    p_after_id: after?.id ?? null,
+  });
+  if (error) return { ok: false, error: error.message };
+
+  const rows = (Array.isArray(data) ? data : []) as Array<Record<string, unknown>>;
+  const matches: ProjectMatch[] = rows
+    .filter((r) => r.id && r.updated_at)
+    .map((r) => ({ id: String(r.id), score: Number(r.score) || 0, updated_at: String(r.updated_at) }));
+
+  const page = matches.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    ok: true,
+    data: { matches: page, next_cursor: matches.length > limit && last ? encodeSearchCursor(last) : null },
+  };
+}
+
+export type ProjectSearchRole = "owner" | "editor" | "guest";
+
+export type ProjectSearchHit = {
+  id: string;
+  title: string;
+  visibility: string;
+  is_hidden: boolean;
+  updated_at: string;
+  tags: string[];
+  role?: ProjectSearchRole;
+};
+
+type ProjectHitRow = {
+  id: string;
+  owner_user_id: string;
+  title: string;
+  visibility: string | null;
+  is_hidden: boolean | null;
+  updated_at: string;
+  tags: string[] | null;
+};
+
+function isSearchRole(v: unknown): v is ProjectSearchRole {
+  return v === "owner" || v === "editor" || v === "guest";
+}
+
+/** Filas de projects (+ rol del usuario) en el orden de las coincidencias. */
+export async function loadProjectHits(
+  supabase: SupabaseClient,
+  userId: string,
+  matches: ProjectMatch[]
+): Promise<Result<ProjectSearchHit[]>> {
+  if (matches.length === 0) return { ok: true, data: [] };
+  const ids = matches.map((m) => m.id);
+
+  const [{ data: rows, error }, { data: mems, error: memErr }] = await Promise.all([
+    supabase
+      .from("projects")
+      .select("id,owner_user_id,title,visibility,is_hidden,updated_at,tags")
+      .in("id", ids)
+      .returns<ProjectHitRow[]>(),
+    supabase
+      .from("project_members")
+      .select("project_id,role")
+      .eq("user_id", userId)
+      .in("project_id", ids)
+      .returns<{ project_id: string; role: string | null }[]>(),
+  ]);
+
+  if (error) return { ok: false, error: error.message };
+  if (memErr) return { ok: false, error: memErr.message };
+
+  const byId = new Map((rows ?? []).map((r) => [String(r.id), r]));
+  const roleById = new Map((mems ?? []).map((m) => [String(m.project_id), isSearchRole(m.role) ? m.role : "guest"]));
+
+  const out: ProjectSearchHit[] = [];
+  for (const id of ids) {
+    const r = byId.get(id);
+    if (!r) continue;
+    out.push({
+      id,
+      title: r.title,
+      visibility: r.visibility ?? "private",
+      is_hidden: Boolean(r.is_hidden),
+      updated_at: r.updated_at,
+      tags: r.tags ?? [],
+      role: r.owner_user_id === userId ? "owner" : roleById.get(id),
+    });
+  }
+
+  return { ok: true, data: out };
+}
@@ -0,0 +1,85 @@
+// lib/srs/common.ts
+import type { ReviewRating, ReviewState } from "@/lib/types/study";
+import type { SchedulerPreset } from "./presets";
+
+/** Estado de repaso que necesita cualquier algoritmo para calcular el siguiente. */
+export type SchedulerInput = {
+  rating: ReviewRating;
+  state: ReviewState;
+  interval_days: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  stability: number | null;
+  difficulty: number | null;
+  last_review_at: string | null;
+  // índice del paso actual dentro de learning/relearning steps
+  learning_step: number;
+  preset: SchedulerPreset;
+  now: Date;
+};
+
+export type SchedulerOutput = {
+  nextState: ReviewState;
+  interval_days: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  stability: number | null;
+  difficulty: number | null;
+  learning_step: number;
+  nextDue: Date;
+};
+
+export function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+export function addMinutes(d: Date, minutes: number) {
+  const x = new Date(d);
+  x.setMinutes(x.getMinutes() + minutes);
+  return x;
+}
+
+export function addDays(d: Date, days: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + days);
+  return x;
+}
+
+export type StepOutcome =
+  | { kind: "step"; step: number; delayMinutes: number }
+  | { kind: "graduate"; easy: boolean };
+
+/**
+ * Avance dentro de los pasos de (re)aprendizaje, igual para SM-2 y FSRS:
+ * - again: vuelve al primer paso
+ * - hard: repite el paso (en el primero, promedio con el siguiente; si es único, ×1.5),
+ *   salvo que el preset fije hardMinutes
+ * - good: pasa al siguiente paso o se gradúa
+ * - easy: se gradúa de inmediato
+ */
+export function learningStepOutcome(
+  steps: number[],
+  step: number,
+  rating: ReviewRating,
+  hardMinutes: number | null = null
+): StepOutcome {
+  if (steps.length === 0 || rating === "easy") return { kind: "graduate", easy: rating === "easy" };
+
+  const i = clamp(Math.floor(step || 0), 0, steps.length - 1);
+
+  if (rating === "again") return { kind: "step", step: 0, delayMinutes: steps[0] };
+
+  if (rating === "hard") {
+    if (hardMinutes != null) return { kind: "step", step: i, delayMinutes: hardMinutes };
+    let delay = steps[i];
+    if (i === 0 && steps.length > 1) delay = (steps[0] + steps[1]) / 2;
+    else if (steps.length === 1) delay = Math.min(steps[0] * 1.5, steps[0] + 1440);
+    return { kind: "step", step: i, delayMinutes: Math.round(delay) };
+  }
+
+  // good
+  if (i + 1 < steps.length) return { kind: "step", step: i + 1, delayMinutes: steps[i + 1] };
+  return { kind: "graduate", easy: false };
+}
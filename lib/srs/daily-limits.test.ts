@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { capDueByDay, dailyCapFor, type DailyLimits } from "./daily-limits";
+
+const limits: DailyLimits = {
+  newPerDay: 20,
+  reviewsPerDay: 10,
+  newDone: 0,
+  reviewsDone: 5,
+  newLeft: 20,
+  reviewsLeft: 5,
+};
+
+describe("dailyCapFor", () => {
+  it("solo new y review consumen cupo", () => {
+    expect(dailyCapFor("new")).toBe("new");
+    expect(dailyCapFor("review")).toBe("review");
+    expect(dailyCapFor("learning")).toBeNull();
+    expect(dailyCapFor("relearning")).toBeNull();
+  });
+});
+
+describe("capDueByDay", () => {
+  it("hoy usa lo que queda y el exceso pasa al día siguiente", () => {
+    const days = [
+      { day: "2026-03-10", due_learning: 3, due_review: 8 },
+      { day: "2026-03-11", due_learning: 0, due_review: 9 },
+      { day: "2026-03-12", due_learning: 0, due_review: 0 },
+    ];
+    expect(capDueByDay(days, limits).map((d) => d.due_review)).toEqual([5, 10, 2]);
+  });
+
+  it("no toca learning", () => {
+    const [today] = capDueByDay([{ due_learning: 40, due_review: 0 }], limits);
+    expect(today.due_learning).toBe(40);
+  });
+});
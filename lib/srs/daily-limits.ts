@@ -0,0 +1,104 @@
+// lib/srs/daily-limits.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { startOfDayCL } from "@/lib/datetime";
+
+/* ---------------------------------------
+   LÍMITES DIARIOS (por usuario, todos los proyectos)
+   - nuevas: tarjetas que salen de "new" hoy
+   - repasos: respuestas a tarjetas en "review" hoy
+   - learning/relearning no consumen cupo
+   - respuestas deshechas (reverted_at) no cuentan
+----------------------------------------*/
+
+export const DEFAULT_NEW_PER_DAY = 20;
+export const DEFAULT_REVIEWS_PER_DAY = 200;
+export const MAX_DAILY_LIMIT = 9999;
+
+export type DailyLimits = {
+  newPerDay: number;
+  reviewsPerDay: number;
+  newDone: number;
+  reviewsDone: number;
+  newLeft: number;
+  reviewsLeft: number;
+};
+
+function limitFrom(v: unknown, fallback: number): number {
+  const n = typeof v === "number" ? v : Number(v);
+  if (v == null || !Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(MAX_DAILY_LIMIT, Math.floor(n)));
+}
+
+/**
+ * Lee límites del perfil (profiles.daily_new_limit / daily_review_limit)
+ * y lo consumido hoy desde flashcard_review_log.
+ */
+export async function loadDailyLimits(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<DailyLimits> {
+  const sinceIso = startOfDayCL(now).toISOString();
+
+  const [{ data: prof }, newRes, reviewRes] = await Promise.all([
+    supabase
+      .from("profiles")
+      .select("daily_new_limit,daily_review_limit")
+      .eq("id", userId)
+      .maybeSingle<{ daily_new_limit: number | null; daily_review_limit: number | null }>(),
+    supabase
+      .from("flashcard_review_log")
+      .select("card_id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("prev_state", "new")
+      .is("reverted_at", null)
+      .gte("created_at", sinceIso),
+    supabase
+      .from("flashcard_review_log")
+      .select("card_id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("prev_state", "review")
+      .is("reverted_at", null)
+      .gte("created_at", sinceIso),
+  ]);
+
+  const newPerDay = limitFrom(prof?.daily_new_limit, DEFAULT_NEW_PER_DAY);
+  const reviewsPerDay = limitFrom(prof?.daily_review_limit, DEFAULT_REVIEWS_PER_DAY);
+
+  const newDone = newRes.count ?? 0;
+  const reviewsDone = reviewRes.count ?? 0;
+
+  return {
+    newPerDay,
+    reviewsPerDay,
+    newDone,
+    reviewsDone,
+    newLeft: Math.max(0, newPerDay - newDone),
+    reviewsLeft: Math.max(0, reviewsPerDay - reviewsDone),
+  };
+}
+
+/** Cupo que consume responder una tarjeta en este estado (null = ninguno). */
+export function dailyCapFor(state: string): "new" | "review" | null {
+  if (state === "new") return "new";
+  if (state === "review") return "review";
+  return null;
+}
+
+/**
+ * Aplica los límites a conteos de agenda por día (hoy = índice 0):
+ * hoy usa lo que queda; días futuros el límite completo. Lo que no cabe
+ * en un día pasa al siguiente (sigue vencido hasta repasarse).
+ */
+export function capDueByDay<T extends { due_learning: number; due_review: number }>(
+  days: T[],
+  limits: DailyLimits
+): T[] {
+  let carry = 0;
+  return days.map((d, i) => {
+    const pending = Math.max(0, d.due_review ?? 0) + carry;
+    const due_review = Math.min(pending, i === 0 ? limits.reviewsLeft : limits.reviewsPerDay);
+    carry = pending - due_review;
+    return { ...d, due_review };
+  });
+}
@@ -0,0 +1,100 @@
+// lib/srs/forecast.ts
+import { addDays } from "@/lib/streaks";
+import { DEFAULT_PRESET, type SchedulerPreset } from "./presets";
+
+/* ---------------------------------------
+   PRONÓSTICO DE CARGA
+   - scheduled: vencimientos ya programados (agenda_forecast), hoy
+     incluye lo atrasado
+   - simulación: introduce nuevas al ritmo diario configurado y
+     supone que cada una se responde "Bien" (sin lapsos), así que es
+     una estimación a la baja
+----------------------------------------*/
+
+export const FORECAST_RANGES = [30, 60, 90] as const;
+export type ForecastRange = (typeof FORECAST_RANGES)[number];
+
+export type ForecastDay = {
+  day: string; // YYYY-MM-DD
+  due_learning: number;
+  due_review: number;
+};
+
+export type SimulatedDay = {
+  day: string;
+  scheduled: number; // learning + review ya programados
+  new_cards: number; // nuevas introducidas ese día
+  from_new: number; // repasos que generan las nuevas simuladas
+  total: number;
+};
+
+export function isForecastRange(v: number): v is ForecastRange {
+  return (FORECAST_RANGES as readonly number[]).includes(v);
+}
+
+/**
+ * Días (desde la introducción) en que una nueva vuelve a tocar si siempre
+ * se responde "Bien": intervalo de graduación y luego ×starting_ease.
+ */
+export function newCardReviewOffsets(horizon: number, preset: SchedulerPreset = DEFAULT_PRESET): number[] {
+  const out: number[] = [];
+  let interval = Math.max(1, preset.graduating_interval_days);
+  let offset = interval;
+  while (offset < horizon) {
+    out.push(offset);
+    interval = Math.min(preset.max_interval_days, Math.max(interval + 1, Math.floor(interval * preset.starting_ease)));
+    offset += interval;
+  }
+  return out;
+}
+
+/**
+ * Rellena los días sin filas (el RPC solo devuelve días con vencimientos)
+ * y, con simulate, suma nuevas a newPerDay (hoy: newLeftToday) hasta
+ * agotar newPool.
+ */
+export function simulateForecast(
+  days: ForecastDay[],
+  opts: {
+    today: string;
+    horizon: number;
+    simulate: boolean;
+    newPool: number;
+    newPerDay: number;
+    newLeftToday: number;
+    preset?: SchedulerPreset;
+  }
+): SimulatedDay[] {
+  const scheduled = new Map<string, number>();
+  for (const d of days) {
+    scheduled.set(d.day, (scheduled.get(d.day) ?? 0) + Math.max(0, d.due_learning) + Math.max(0, d.due_review));
+  }
+
+  const out: SimulatedDay[] = [];
+  for (let i = 0; i < opts.horizon; i++) {
+    const day = addDays(opts.today, i);
+    const s = scheduled.get(day) ?? 0;
+    out.push({ day, scheduled: s, new_cards: 0, from_new: 0, total: s });
+  }
+  if (!opts.simulate) return out;
+
+  const offsets = newCardReviewOffsets(opts.horizon, opts.preset);
+  let pool = Math.max(0, opts.newPool);
+
+  for (let i = 0; i < out.length && pool > 0; i++) {
+    const rate = i === 0 ? opts.newLeftToday : opts.newPerDay;
+    const n = Math.min(pool, Math.max(0, rate));
+    if (n <= 0) continue;
+    pool -= n;
+    out[i].new_cards = n;
+
+    for (const off of offsets) {
+      const j = i + off;
+      if (j >= out.length) break;
+      out[j].from_new += n;
+    }
+  }
+
+  for (const d of out) d.total = d.scheduled + d.new_cards + d.from_new;
+  return out;
+}
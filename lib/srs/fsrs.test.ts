@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { computeNextFsrs, retrievability } from "./fsrs";
+import { DEFAULT_PRESET, normalizePreset } from "./presets";
+import type { SchedulerInput } from "./common";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const MIN = 60 * 1000;
+const DAY = 24 * 60 * MIN;
+
+function input(over: Partial<SchedulerInput>): SchedulerInput {
+  return {
+    rating: "good",
+    state: "new",
+    interval_days: 0,
+    ease: 2.5,
+    reps: 0,
+    lapses: 0,
+    stability: null,
+    difficulty: null,
+    last_review_at: null,
+    learning_step: 0,
+    preset: DEFAULT_PRESET,
+    now: NOW,
+    ...over,
+  };
+}
+
+function review(over: Partial<SchedulerInput>): SchedulerInput {
+  return input({
+    state: "review",
+    interval_days: 10,
+    reps: 3,
+    stability: 10,
+    difficulty: 5,
+    last_review_at: new Date(NOW.getTime() - 10 * DAY).toISOString(),
+    ...over,
+  });
+}
+
+describe("retrievability", () => {
+  it("es 1 recién repasada y 0.9 al cumplirse la estabilidad", () => {
+    expect(retrievability(0, 5)).toBe(1);
+    expect(retrievability(5, 5)).toBeCloseTo(0.9, 10);
+    expect(retrievability(20, 5)).toBeLessThan(0.9);
+  });
+});
+
+describe("computeNextFsrs: nueva", () => {
+  it("good inicializa S/D y el intervalo sale de S (retención 90%)", () => {
+    const out = computeNextFsrs(input({ rating: "good" }));
+    expect(out.nextState).toBe("review");
+    expect(out.stability).toBeCloseTo(3.7145);
+    expect(out.difficulty).toBeCloseTo(5.1618);
+    expect(out.interval_days).toBe(4);
+    expect(out.reps).toBe(1);
+    expect(out.nextDue.getTime() - NOW.getTime()).toBe(4 * DAY);
+  });
+
+  it("again queda en aprendizaje con S baja y D alta", () => {
+    const out = computeNextFsrs(input({ rating: "again" }));
+    expect(out.nextState).toBe("learning");
+    expect(out.interval_days).toBe(0);
+    expect(out.nextDue.getTime() - NOW.getTime()).toBe(10 * MIN);
+    expect(out.stability).toBeCloseTo(0.4872);
+    expect(out.difficulty).toBeGreaterThan(5.1618);
+  });
+});
+
+describe("computeNextFsrs: repaso", () => {
+  it("good a tiempo aumenta la estabilidad y el intervalo", () => {
+    const out = computeNextFsrs(review({ rating: "good" }));
+    expect(out.nextState).toBe("review");
+    expect(out.stability).toBeGreaterThan(10);
+    expect(out.interval_days).toBeGreaterThan(10);
+    expect(out.reps).toBe(4);
+  });
+
+  it("easy > good > hard", () => {
+    const hard = computeNextFsrs(review({ rating: "hard" }));
+    const good = computeNextFsrs(review({ rating: "good" }));
+    const easy = computeNextFsrs(review({ rating: "easy" }));
+    expect(hard.interval_days).toBeLessThan(good.interval_days);
+    expect(good.interval_days).toBeLessThan(easy.interval_days);
+    expect(hard.reps).toBe(3);
+  });
+
+  it("again baja la estabilidad y pasa a relearning", () => {
+    const out = computeNextFsrs(review({ rating: "again" }));
+    expect(out.nextState).toBe("relearning");
+    expect(out.lapses).toBe(1);
+    expect(out.stability).toBeLessThan(10);
+    expect(out.nextDue.getTime() - NOW.getTime()).toBe(10 * MIN);
+  });
+
+  it("sin S/D (venía de SM-2) estima desde el intervalo en vez de reiniciar", () => {
+    const out = computeNextFsrs(review({ rating: "good", stability: null, difficulty: null, interval_days: 30 }));
+    expect(out.stability).toBeGreaterThan(30);
+    expect(out.interval_days).toBeGreaterThan(30);
+  });
+
+  it("respeta max_interval_days del preset", () => {
+    const preset = normalizePreset({ max_interval_days: 7 });
+    expect(computeNextFsrs(review({ rating: "easy", preset })).interval_days).toBe(7);
+  });
+});
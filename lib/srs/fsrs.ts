@@ -0,0 +1,165 @@
+// lib/srs/fsrs.ts
+import type { ReviewRating, ReviewState } from "@/lib/types/study";
+import {
+  addDays,
+  addMinutes,
+  clamp,
+  learningStepOutcome,
+  type SchedulerInput,
+  type SchedulerOutput,
+} from "./common";
+
+/* ---------------------------------------
+   FSRS (v4.5)
+   Modelo de memoria con tres variables:
+   - stability (S): días hasta que R cae a 90%
+   - difficulty (D): 1..10
+   - retrievability (R): prob. de recordar hoy
+----------------------------------------*/
+
+/** Pesos por defecto publicados para FSRS-4.5. */
+const W = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246,
+  1.587, 0.2272, 2.8755,
+] as const;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const REQUEST_RETENTION = 0.9;
+const MAX_INTERVAL_DAYS = 36500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function grade(rating: ReviewRating): 1 | 2 | 3 | 4 {
+  if (rating === "again") return 1;
+  if (rating === "hard") return 2;
+  if (rating === "good") return 3;
+  return 4;
+}
+
+function initStability(g: number) {
+  return Math.max(W[g - 1], 0.1);
+}
+
+function initDifficulty(g: number) {
+  return clamp(W[4] - (g - 3) * W[5], 1, 10);
+}
+
+function nextDifficulty(d: number, g: number) {
+  const next = d - W[6] * (g - 3);
+  // mean reversion hacia D0(good)
+  return clamp(W[7] * initDifficulty(3) + (1 - W[7]) * next, 1, 10);
+}
+
+export function retrievability(elapsedDays: number, stability: number) {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+function recallStability(d: number, s: number, r: number, g: number) {
+  const hardPenalty = g === 2 ? W[15] : 1;
+  const easyBonus = g === 4 ? W[16] : 1;
+  return (
+    s *
+    (Math.exp(W[8]) * (11 - d) * Math.pow(s, -W[9]) * (Math.exp(W[10] * (1 - r)) - 1) * hardPenalty * easyBonus + 1)
+  );
+}
+
+function forgetStability(d: number, s: number, r: number) {
+  const next = W[11] * Math.pow(d, -W[12]) * (Math.pow(s + 1, W[13]) - 1) * Math.exp(W[14] * (1 - r));
+  return Math.min(next, s);
+}
+
+function intervalFromStability(s: number) {
+  const raw = (s / FACTOR) * (Math.pow(REQUEST_RETENTION, 1 / DECAY) - 1);
+  return clamp(Math.round(raw), 1, MAX_INTERVAL_DAYS);
+}
+
+/**
+ * Si la tarjeta viene de SM-2 (sin stability/difficulty), estimamos la memoria
+ * desde interval/ease para no reiniciar el progreso.
+ */
+function seedMemory(input: SchedulerInput): { s: number; d: number } {
+  const s = input.interval_days > 0 ? input.interval_days : initStability(3);
+  const d = clamp(initDifficulty(3) + (input.preset.starting_ease - (input.ease ?? 2.5)) * 5, 1, 10);
+  return { s, d };
+}
+
+/**
+ * Siguiente estado con FSRS:
+ * - new: inicializa S/D según el primer rating
+ * - learning/relearning siguen los pasos del preset (compartidos con SM-2)
+ * - al graduarse/en review el intervalo sale de S (retención 90%),
+ *   con tope max_interval_days
+ */
+export function computeNextFsrs(input: SchedulerInput): SchedulerOutput {
+  const { rating, state, preset, now } = input;
+  const g = grade(rating);
+
+  let reps = input.reps ?? 0;
+  let lapses = input.lapses ?? 0;
+  const ease = state === "new" ? preset.starting_ease : input.ease ?? preset.starting_ease;
+
+  let s: number;
+  let d: number;
+
+  if (state === "new") {
+    s = initStability(g);
+    d = initDifficulty(g);
+  } else {
+    const seeded =
+      input.stability != null && input.difficulty != null
+        ? { s: Number(input.stability), d: Number(input.difficulty) }
+        : seedMemory(input);
+
+    const elapsedDays = input.last_review_at
+      ? (now.getTime() - new Date(input.last_review_at).getTime()) / DAY_MS
+      : Math.max(0, input.interval_days ?? 0);
+
+    const r = retrievability(elapsedDays, seeded.s);
+
+    d = nextDifficulty(seeded.d, g);
+    s = g === 1 ? forgetStability(seeded.d, seeded.s, r) : recallStability(seeded.d, seeded.s, r, g);
+  }
+
+  if (rating === "again") lapses += 1;
+
+  const memory = { stability: s, difficulty: d };
+
+  if (state !== "review" || rating === "again") {
+    const relearning = state === "review" || state === "relearning";
+    const steps = relearning ? preset.relearning_steps : preset.learning_steps;
+    const step = state === "review" ? 0 : input.learning_step;
+
+    const outcome = learningStepOutcome(steps, step, rating, preset.hard_step_minutes);
+
+    if (outcome.kind === "step") {
+      const nextState: ReviewState = relearning ? "relearning" : "learning";
+      return {
+        ...memory,
+        nextState,
+        interval_days: 0,
+        ease,
+        reps,
+        lapses,
+        learning_step: outcome.step,
+        nextDue: addMinutes(now, outcome.delayMinutes),
+      };
+    }
+  }
+
+  if (rating !== "hard" && rating !== "again") reps += 1;
+
+  const interval_days = Math.min(intervalFromStability(s), preset.max_interval_days);
+
+  return {
+    ...memory,
+    nextState: "review",
+    interval_days,
+    ease,
+    reps,
+    lapses,
+    learning_step: 0,
+    nextDue: addDays(now, interval_days),
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRESET, MAX_STEPS, formatSteps, normalizePreset, parseSteps } from "./presets";
+
+describe("normalizePreset", () => {
+  it("sin datos usa los valores por defecto con la regla de Anki para hard", () => {
+    expect(normalizePreset(null)).toEqual({ ...DEFAULT_PRESET, hard_step_minutes: null });
+  });
+
+  it("acota valores fuera de rango", () => {
+    const p = normalizePreset({
+      learning_steps: [0, 5, "15", 99999, "x"],
+      graduating_interval_days: 4,
+      easy_interval_days: 2,
+      easy_bonus: 10,
+      max_interval_days: 0,
+      starting_ease: 9,
+    });
+    expect(p.learning_steps).toEqual([5, 15]);
+    expect(p.easy_interval_days).toBe(4); // nunca menor que graduating
+    expect(p.easy_bonus).toBe(3);
+    expect(p.max_interval_days).toBe(1);
+    expect(p.starting_ease).toBe(3);
+  });
+});
+
+describe("parseSteps / formatSteps", () => {
+  it("acepta unidades m/h/d y minutos sin unidad", () => {
+    expect(parseSteps("1m 10 1h, 1d")).toEqual([1, 10, 60, 1440]);
+    expect(parseSteps("")).toEqual([]);
+  });
+
+  it("rechaza texto inválido, pasos fuera de rango o demasiados", () => {
+    expect(parseSteps("10x")).toBeNull();
+    expect(parseSteps("0")).toBeNull();
+    expect(parseSteps("8d")).toBeNull();
+    expect(parseSteps(Array.from({ length: MAX_STEPS + 1 }, () => "1m").join(" "))).toBeNull();
+  });
+
+  it("formatSteps es el inverso de parseSteps", () => {
+    const steps = [1, 90, 120, 2880];
+    expect(formatSteps(steps)).toBe("1m 90m 2h 2d");
+    expect(parseSteps(formatSteps(steps))).toEqual(steps);
+  });
+});
@@ -0,0 +1,108 @@
+// lib/srs/presets.ts
+import { clamp } from "./common";
+
+/**
+ * Opciones de programación (estilo "deck options" de Anki).
+ * Los pasos se guardan en minutos; los intervalos en días.
+ */
+export type SchedulerPreset = {
+  learning_steps: number[];
+  relearning_steps: number[];
+  graduating_interval_days: number;
+  easy_interval_days: number;
+  easy_bonus: number;
+  max_interval_days: number;
+  starting_ease: number;
+  // "Difícil" dentro de los pasos; null = regla de Anki (ver learningStepOutcome)
+  hard_step_minutes: number | null;
+};
+
+export const DEFAULT_PRESET: SchedulerPreset = {
+  learning_steps: [10],
+  relearning_steps: [10],
+  graduating_interval_days: 1,
+  easy_interval_days: 3,
+  easy_bonus: 1.3,
+  max_interval_days: 36500,
+  starting_ease: 2.5,
+  // igual que el scheduler original: "Difícil" en aprendizaje reprograma a 1 hora
+  hard_step_minutes: 60,
+};
+
+export const MAX_STEPS = 10;
+export const MAX_STEP_MINUTES = 60 * 24 * 7; // 1 semana
+
+export const MIN_EASE = 1.3;
+export const MAX_EASE = 3.0;
+
+function num(v: unknown, fallback: number): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function stepsFrom(v: unknown, fallback: number[]): number[] {
+  if (!Array.isArray(v)) return fallback;
+  return v
+    .map((x) => Math.round(num(x, NaN)))
+    .filter((x) => Number.isFinite(x) && x >= 1 && x <= MAX_STEP_MINUTES)
+    .slice(0, MAX_STEPS);
+}
+
+/** Normaliza una fila de scheduler_presets (o cualquier objeto parcial) a un preset válido. */
+export function normalizePreset(raw: unknown): SchedulerPreset {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const d = DEFAULT_PRESET;
+
+  const graduating = Math.round(clamp(num(r.graduating_interval_days, d.graduating_interval_days), 1, 365));
+  const easy = Math.round(clamp(num(r.easy_interval_days, d.easy_interval_days), graduating, 3650));
+
+  return {
+    learning_steps: stepsFrom(r.learning_steps, d.learning_steps),
+    relearning_steps: stepsFrom(r.relearning_steps, d.relearning_steps),
+    graduating_interval_days: graduating,
+    easy_interval_days: easy,
+    easy_bonus: clamp(num(r.easy_bonus, d.easy_bonus), 1, 3),
+    max_interval_days: Math.round(clamp(num(r.max_interval_days, d.max_interval_days), 1, 36500)),
+    starting_ease: clamp(num(r.starting_ease, d.starting_ease), MIN_EASE, MAX_EASE),
+    // los presets del usuario no lo exponen: usan la regla de Anki
+    hard_step_minutes: null,
+  };
+}
+
+/**
+ * Parsea pasos escritos por el usuario: "1m 10m 1h 1d" o "10 60".
+ * Sin unidad se asume minutos. Retorna null si algo no es válido.
+ */
+export function parseSteps(text: string): number[] | null {
+  const parts = text
+    .trim()
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+  if (parts.length > MAX_STEPS) return null;
+
+  const out: number[] = [];
+  for (const p of parts) {
+    const m = /^(\d+(?:\.\d+)?)([mhd]?)$/i.exec(p);
+    if (!m) return null;
+
+    const n = Number(m[1]);
+    const unit = m[2].toLowerCase();
+    const minutes = Math.round(unit === "d" ? n * 1440 : unit === "h" ? n * 60 : n);
+
+    if (minutes < 1 || minutes > MAX_STEP_MINUTES) return null;
+    out.push(minutes);
+  }
+  return out;
+}
+
+/** Inverso de parseSteps: [10, 60, 1440] => "10m 1h 1d". */
+export function formatSteps(steps: number[]): string {
+  return steps
+    .map((m) => {
+      if (m % 1440 === 0) return `${m / 1440}d`;
+      if (m % 60 === 0) return `${m / 60}h`;
+      return `${m}m`;
+    })
+    .join(" ");
+}
@@ -0,0 +1,47 @@
+// lib/srs/scheduler.ts
+import type { SrsAlgorithm } from "@/lib/types/study";
+import { addDays, type SchedulerInput, type SchedulerOutput } from "./common";
+import { computeNextSm2 } from "./sm2";
+import { computeNextFsrs } from "./fsrs";
+
+export type { SchedulerInput, SchedulerOutput } from "./common";
+
+export const DEFAULT_SRS_ALGORITHM: SrsAlgorithm = "sm2";
+
+export function isSrsAlgorithm(v: unknown): v is SrsAlgorithm {
+  return v === "sm2" || v === "fsrs";
+}
+
+/** Normaliza el valor guardado en profiles.srs_algorithm (fallback SM-2). */
+export function srsAlgorithmFrom(v: unknown): SrsAlgorithm {
+  return isSrsAlgorithm(v) ? v : DEFAULT_SRS_ALGORITHM;
+}
+
+/** Calcula el siguiente estado con el algoritmo indicado. */
+export function computeNext(algorithm: SrsAlgorithm, input: SchedulerInput): SchedulerOutput {
+  if (algorithm === "fsrs") return computeNextFsrs(input);
+  return computeNextSm2(input);
+}
+
+/**
+ * Rango de fuzz (en días) para un intervalo de review, estilo Anki:
+ * < 2.5d sin fuzz; luego ±15% (hasta 7d), ±10% (hasta 20d) y ±5%, mínimo ±1 día.
+ * Evita que tarjetas introducidas juntas venzan siempre el mismo día.
+ */
+export function fuzzRange(intervalDays: number, maxIntervalDays: number): [number, number] {
+  if (intervalDays < 2.5) return [intervalDays, intervalDays];
+
+  let delta = 1;
+  delta += 0.15 * Math.max(0, Math.min(intervalDays, 7) - 2.5);
+  delta += 0.1 * Math.max(0, Math.min(intervalDays, 20) - 7);
+  delta += 0.05 * Math.max(0, intervalDays - 20);
+
+  const lo = Math.max(2, Math.round(intervalDays - delta));
+  const hi = Math.min(maxIntervalDays, Math.round(intervalDays + delta));
+  return [Math.min(lo, hi), hi];
+}
+
+/** Reemplaza el intervalo de un resultado (p.ej. tras fuzz/balanceo). */
+export function withInterval(out: SchedulerOutput, intervalDays: number, now: Date): SchedulerOutput {
+  return { ...out, interval_days: intervalDays, nextDue: addDays(now, intervalDays) };
+}
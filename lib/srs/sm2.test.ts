@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { computeNextSm2 } from "./sm2";
+import { DEFAULT_PRESET, normalizePreset } from "./presets";
+import type { SchedulerInput } from "./common";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const MIN = 60 * 1000;
+const DAY = 24 * 60 * MIN;
+
+function input(over: Partial<SchedulerInput>): SchedulerInput {
+  return {
+    rating: "good",
+    state: "new",
+    interval_days: 0,
+    ease: 2.5,
+    reps: 0,
+    lapses: 0,
+    stability: null,
+    difficulty: null,
+    last_review_at: null,
+    learning_step: 0,
+    preset: DEFAULT_PRESET,
+    now: NOW,
+    ...over,
+  };
+}
+
+const after = (d: Date) => d.getTime() - NOW.getTime();
+
+describe("computeNextSm2: aprendizaje", () => {
+  it("good en una nueva con un solo paso se gradúa con graduating_interval_days", () => {
+    const out = computeNextSm2(input({ rating: "good" }));
+    expect(out.nextState).toBe("review");
+    expect(out.interval_days).toBe(1);
+    expect(out.reps).toBe(1);
+    expect(after(out.nextDue)).toBe(DAY);
+  });
+
+  it("easy se gradúa con easy_interval_days y sube la facilidad", () => {
+    const out = computeNextSm2(input({ rating: "easy" }));
+    expect(out.nextState).toBe("review");
+    expect(out.interval_days).toBe(3);
+    expect(out.ease).toBeCloseTo(2.65);
+  });
+
+  it("hard usa hard_step_minutes del preset", () => {
+    const out = computeNextSm2(input({ rating: "hard" }));
+    expect(out.nextState).toBe("learning");
+    expect(after(out.nextDue)).toBe(60 * MIN);
+  });
+
+  it("recorre los pasos del preset", () => {
+    const preset = normalizePreset({ learning_steps: [1, 10] });
+
+    const first = computeNextSm2(input({ rating: "good", preset }));
+    expect(first.nextState).toBe("learning");
+    expect(first.learning_step).toBe(1);
+    expect(after(first.nextDue)).toBe(10 * MIN);
+
+    // sin hard_step_minutes: promedio del primer y segundo paso, redondeado
+    const hard = computeNextSm2(input({ rating: "hard", preset }));
+    expect(after(hard.nextDue)).toBe(6 * MIN);
+
+    const again = computeNextSm2(input({ rating: "again", state: "learning", learning_step: 1, preset }));
+    expect(again.learning_step).toBe(0);
+    expect(after(again.nextDue)).toBe(MIN);
+  });
+});
+
+describe("computeNextSm2: repaso", () => {
+  const review = (over: Partial<SchedulerInput>) =>
+    computeNextSm2(input({ state: "review", interval_days: 10, reps: 3, ...over }));
+
+  it("good multiplica por la facilidad", () => {
+    const out = review({ rating: "good" });
+    expect(out.interval_days).toBe(25);
+    expect(out.reps).toBe(4);
+    expect(out.ease).toBe(2.5);
+  });
+
+  it("hard ×1.2, baja la facilidad y no cuenta repetición", () => {
+    const out = review({ rating: "hard" });
+    expect(out.interval_days).toBe(12);
+    expect(out.ease).toBeCloseTo(2.35);
+    expect(out.reps).toBe(3);
+  });
+
+  it("easy aplica easy_bonus", () => {
+    const out = review({ rating: "easy" });
+    expect(out.ease).toBeCloseTo(2.65);
+    expect(out.interval_days).toBe(Math.floor(10 * 2.65 * 1.3));
+  });
+
+  it("again pasa a relearning y cuenta un lapso", () => {
+    const out = review({ rating: "again" });
+    expect(out.nextState).toBe("relearning");
+    expect(out.interval_days).toBe(0);
+    expect(out.lapses).toBe(1);
+    expect(out.ease).toBeCloseTo(2.3);
+    expect(after(out.nextDue)).toBe(10 * MIN);
+  });
+
+  it("respeta max_interval_days y el mínimo de facilidad", () => {
+    const preset = normalizePreset({ max_interval_days: 30 });
+    expect(review({ rating: "good", interval_days: 20, preset }).interval_days).toBe(30);
+    expect(review({ rating: "again", ease: 1.3 }).ease).toBe(1.3);
+  });
+
+  it("no guarda stability/difficulty (FSRS los re-estima)", () => {
+    const out = review({ rating: "good", stability: 12, difficulty: 5 });
+    expect(out.stability).toBeNull();
+    expect(out.difficulty).toBeNull();
+  });
+});
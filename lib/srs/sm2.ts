@@ -0,0 +1,96 @@
+// lib/srs/sm2.ts
+import type { ReviewState } from "@/lib/types/study";
+import {
+  addDays,
+  addMinutes,
+  clamp,
+  learningStepOutcome,
+  type SchedulerInput,
+  type SchedulerOutput,
+} from "./common";
+import { MAX_EASE, MIN_EASE } from "./presets";
+
+/**
+ * Algoritmo SR (4 ratings) estilo Anki simplificado:
+ * - new/learning/relearning: recorre los pasos del preset y se gradúa
+ *   con graduating_interval_days (good) o easy_interval_days (easy)
+ * - review: hard ×1.2, good ×ease, easy ×ease×easy_bonus (tope max_interval_days)
+ * - again: lapses++, ease -0.2 y vuelve a (re)aprendizaje
+ *
+ * No usa stability/difficulty: los deja en null para que FSRS los
+ * vuelva a estimar desde interval/ease si el usuario cambia de algoritmo.
+ */
+export function computeNextSm2(input: SchedulerInput): SchedulerOutput {
+  const { rating, state, preset, now } = input;
+
+  let ease = state === "new" ? preset.starting_ease : input.ease ?? preset.starting_ease;
+  const reps = input.reps ?? 0;
+  let lapses = input.lapses ?? 0;
+
+  const base = { stability: null, difficulty: null };
+
+  function graduate(interval: number, nextEase: number, countRep = true): SchedulerOutput {
+    const interval_days = clamp(Math.round(interval), 1, preset.max_interval_days);
+    return {
+      ...base,
+      nextState: "review",
+      interval_days,
+      ease: nextEase,
+      reps: countRep ? reps + 1 : reps,
+      lapses,
+      learning_step: 0,
+      nextDue: addDays(now, interval_days),
+    };
+  }
+
+  if (rating === "again") {
+    lapses += 1;
+    ease = clamp(ease - 0.2, MIN_EASE, MAX_EASE);
+  }
+
+  if (state === "review" && rating !== "again") {
+    let interval_days = input.interval_days > 0 ? input.interval_days : 1;
+
+    if (rating === "hard") {
+      ease = clamp(ease - 0.15, MIN_EASE, MAX_EASE);
+      interval_days = Math.max(1, Math.floor(interval_days * 1.2));
+    } else if (rating === "good") {
+      interval_days = Math.max(1, Math.floor(interval_days * ease));
+    } else {
+      ease = clamp(ease + 0.15, MIN_EASE, MAX_EASE);
+      interval_days = Math.max(1, Math.floor(interval_days * ease * preset.easy_bonus));
+    }
+
+    // hard no cuenta como repetición exitosa
+    return graduate(interval_days, ease, rating !== "hard");
+  }
+
+  // again en review => relearning desde el primer paso
+  const relearning = state === "review" || state === "relearning";
+  const steps = relearning ? preset.relearning_steps : preset.learning_steps;
+  const step = state === "review" ? 0 : input.learning_step;
+
+  const outcome = learningStepOutcome(steps, step, rating, preset.hard_step_minutes);
+
+  if (outcome.kind === "graduate") {
+    if (outcome.easy) {
+      return graduate(preset.easy_interval_days, clamp(ease + 0.15, MIN_EASE, MAX_EASE));
+    }
+    return graduate(preset.graduating_interval_days, ease);
+  }
+
+  if (rating === "hard") ease = clamp(ease - 0.15, MIN_EASE, MAX_EASE);
+
+  const nextState: ReviewState = relearning ? "relearning" : "learning";
+
+  return {
+    ...base,
+    nextState,
+    interval_days: 0,
+    ease,
+    reps,
+    lapses,
+    learning_step: outcome.step,
+    nextDue: addMinutes(now, outcome.delayMinutes),
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { addDays, computeStreakStats, heatmapWeeks, todayInTimeZone } from "./streaks";
+
+const days = (...list: [string, number][]) => list.map(([day, total]) => ({ day, total }));
+
+describe("computeStreakStats", () => {
+  it("sin actividad todo en cero", () => {
+    expect(computeStreakStats([], "2026-03-10")).toEqual({
+      current: 0,
+      longest: 0,
+      activeDays: 0,
+      daysMissed: 0,
+      dailyAverage: 0,
+      totalReviews: 0,
+    });
+  });
+
+  it("la racha sigue viva si hoy aún no se estudia", () => {
+    const stats = computeStreakStats(days(["2026-03-08", 5], ["2026-03-09", 3]), "2026-03-10");
+    expect(stats.current).toBe(2);
+    expect(stats.daysMissed).toBe(0);
+  });
+
+  it("racha actual, más larga, días perdidos y promedio", () => {
+    const stats = computeStreakStats(
+      days(["2026-03-01", 10], ["2026-03-02", 10], ["2026-03-03", 10], ["2026-03-05", 0], ["2026-03-09", 4], ["2026-03-10", 6]),
+      "2026-03-10"
+    );
+    expect(stats).toEqual({
+      current: 2,
+      longest: 3,
+      activeDays: 5,
+      daysMissed: 5,
+      dailyAverage: 40 / 10,
+      totalReviews: 40,
+    });
+  });
+
+  it("ignora días futuros", () => {
+    expect(computeStreakStats(days(["2026-03-11", 9]), "2026-03-10").totalReviews).toBe(0);
+  });
+});
+
+describe("fechas", () => {
+  it("addDays cruza meses y años bisiestos", () => {
+    expect(addDays("2028-02-28", 1)).toBe("2028-02-29");
+    expect(addDays("2026-01-01", -1)).toBe("2025-12-31");
+  });
+
+  it("todayInTimeZone usa la zona dada", () => {
+    const now = new Date("2026-03-10T02:00:00Z");
+    expect(todayInTimeZone("UTC", now)).toBe("2026-03-10");
+    expect(todayInTimeZone("America/Santiago", now)).toBe("2026-03-09");
+  });
+});
+
+describe("heatmapWeeks", () => {
+  it("columnas lunes a domingo con días futuros en null y niveles por cuartil", () => {
+    // 2026-03-11 es miércoles
+    const cols = heatmapWeeks(days(["2026-03-09", 8], ["2026-03-10", 2]), "2026-03-11", 2);
+    expect(cols).toHaveLength(2);
+    const week = cols[1];
+    expect(week[0]).toEqual({ day: "2026-03-09", total: 8, level: 4 });
+    expect(week[1]).toEqual({ day: "2026-03-10", total: 2, level: 1 });
+    expect(week[2]).toEqual({ day: "2026-03-11", total: 0, level: 0 });
+    expect(week.slice(3)).toEqual([null, null, null, null]);
+    expect(cols[0][0]?.day).toBe("2026-03-02");
+  });
+});
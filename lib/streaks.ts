@@ -0,0 +1,150 @@
+// lib/streaks.ts
+
+/* ---------------------------------------
+   RACHAS Y HEATMAP
+   Trabaja con días calendario YYYY-MM-DD ya agrupados en la zona del
+   usuario (agenda_history con p_tz), así que la aritmética de fechas es
+   en UTC puro y no depende de la zona del servidor.
+----------------------------------------*/
+
+export const DEFAULT_TIME_ZONE = "America/Santiago";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DayTotal = { day: string; total: number };
+
+export type StreakStats = {
+  current: number;
+  longest: number;
+  activeDays: number;
+  daysMissed: number; // desde el primer día con actividad
+  dailyAverage: number; // repasos / días desde el primer día con actividad
+  totalReviews: number;
+};
+
+export type HeatmapCell = { day: string; total: number; level: 0 | 1 | 2 | 3 | 4 } | null;
+
+export function isValidTimeZone(tz: string): boolean {
+  if (!tz || tz.length > 64) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Zona IANA del navegador (cliente) o la predeterminada. */
+export function browserTimeZone(): string {
+  try {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return tz && isValidTimeZone(tz) ? tz : DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+/** Hoy (YYYY-MM-DD) en la zona dada. */
+export function todayInTimeZone(tz: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(tz) ? tz : DEFAULT_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+function dayToMs(day: string): number {
+  return Date.UTC(Number(day.slice(0, 4)), Number(day.slice(5, 7)) - 1, Number(day.slice(8, 10)));
+}
+
+export function addDays(day: string, n: number): string {
+  return new Date(dayToMs(day) + n * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((dayToMs(to) - dayToMs(from)) / DAY_MS);
+}
+
+/**
+ * Racha actual: días seguidos con repasos que terminan hoy, o ayer si hoy
+ * aún no se estudia (la racha no se corta hasta que termina el día).
+ */
+export function computeStreakStats(days: DayTotal[], today: string): StreakStats {
+  const totals = new Map<string, number>();
+  for (const d of days) {
+    if (d.day > today) continue;
+    totals.set(d.day, (totals.get(d.day) ?? 0) + Math.max(0, d.total));
+  }
+
+  const active = [...totals.entries()].filter(([, t]) => t > 0).map(([day]) => day).sort();
+  const totalReviews = [...totals.values()].reduce((acc, t) => acc + t, 0);
+
+  if (!active.length) {
+    return { current: 0, longest: 0, activeDays: 0, daysMissed: 0, dailyAverage: 0, totalReviews };
+  }
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < active.length; i++) {
+    run = daysBetween(active[i - 1], active[i]) === 1 ? run + 1 : 1;
+    if (run > longest) longest = run;
+  }
+
+  const activeSet = new Set(active);
+  let current = 0;
+  let cursor = activeSet.has(today) ? today : addDays(today, -1);
+  while (activeSet.has(cursor)) {
+    current += 1;
+    cursor = addDays(cursor, -1);
+  }
+
+  const span = daysBetween(active[0], today) + 1;
+  // hoy no cuenta como perdido mientras no termine
+  const daysMissed = span - active.length - (activeSet.has(today) ? 0 : 1);
+
+  return {
+    current,
+    longest,
+    activeDays: active.length,
+    daysMissed: Math.max(0, daysMissed),
+    dailyAverage: totalReviews / span,
+    totalReviews,
+  };
+}
+
+/**
+ * Columnas de 7 días (lunes a domingo) que terminan en la semana de hoy.
+ * Los días futuros quedan en null. level: 0 sin repasos, 1..4 por cuartil
+ * del máximo del periodo.
+ */
+export function heatmapWeeks(days: DayTotal[], today: string, weeks = 53): HeatmapCell[][] {
+  const totals = new Map<string, number>();
+  for (const d of days) totals.set(d.day, (totals.get(d.day) ?? 0) + Math.max(0, d.total));
+
+  // getUTCDay: 0 = domingo
+  const dow = (new Date(dayToMs(today)).getUTCDay() + 6) % 7;
+  const start = addDays(today, -dow - (weeks - 1) * 7);
+
+  let max = 0;
+  for (const [day, t] of totals) if (day >= start && day <= today && t > max) max = t;
+
+  const cols: HeatmapCell[][] = [];
+  for (let w = 0; w < weeks; w++) {
+    const col: HeatmapCell[] = [];
+    for (let i = 0; i < 7; i++) {
+      const day = addDays(start, w * 7 + i);
+      if (day > today) {
+        col.push(null);
+        continue;
+      }
+      const total = totals.get(day) ?? 0;
+      const level = total <= 0 || max <= 0 ? 0 : (Math.min(4, Math.ceil((total / max) * 4)) as 1 | 2 | 3 | 4);
+      col.push({ day, total, level });
+    }
+    cols.push(col);
+  }
+  return cols;
+}
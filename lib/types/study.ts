@@ -3,12 +3,21 @@ export type ProjectId = string | number;
 export type ProjectVisibility = "private" | "unlisted" | "public";
 export type ProjectRole = "owner" | "editor" | "guest";
 
-export type ProjectBlockType = "text" | "flashcards";
+export type ProjectBlockType = "text" | "flashcards" | "quiz";
 
 export type ReviewRating = "again" | "hard" | "good" | "easy";
 
 export type ReviewState = "new" | "learning" | "review" | "relearning";
 
+/** basic: front/back. cloze: front con {{cN::...}}, back = extra opcional. */
+export type FlashcardKind = "basic" | "cloze";
+
+/** forward: frente→reverso; reverse: reverso→frente (grupos bidireccionales). */
+export type CardDirection = "forward" | "reverse";
+
+/** Algoritmo de repaso elegido por el usuario (profiles.srs_algorithm). */
+export type SrsAlgorithm = "sm2" | "fsrs";
+
 export type ProjectRow = {
   id: ProjectId;
   owner_user_id: string;
@@ -34,6 +43,8 @@ export type FlashcardGroupRow = {
   id: string;
   block_id: string;
   title: string;
+  // practica cada carta básica en ambas direcciones
+  bidirectional: boolean;
   order_index: number;
   created_at: string;
 };
@@ -42,6 +53,7 @@ export type FlashcardRow = {
   id: string;
   project_id: ProjectId;
   group_id: string | null;
+  kind: FlashcardKind;
   front: string;
   back: string;
   order_index: number;
@@ -52,19 +64,46 @@ export type FlashcardRow = {
 export type FlashcardReviewStateRow = {
   user_id: string;
   card_id: string;
+  // 0 = básica; N = hueco cN de una cloze
+  ordinal: number;
+  // PK: user_id, card_id, ordinal, direction
+  direction: CardDirection;
   due_at: string;
   state: ReviewState;
   interval_days: number;
   ease: number;
   reps: number;
   lapses: number;
+  // memoria FSRS (null si la tarjeta solo se ha repasado con SM-2)
+  stability: number | null;
+  difficulty: number | null;
+  // paso actual dentro de learning/relearning steps del preset
+  learning_step: number;
   last_review_at: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type SchedulerPresetRow = {
+  id: string;
+  owner_user_id: string;
+  name: string;
+  learning_steps: number[]; // minutos
+  relearning_steps: number[]; // minutos
+  graduating_interval_days: number;
+  easy_interval_days: number;
+  easy_bonus: number;
+  max_interval_days: number;
+  starting_ease: number;
+  created_at: string;
+  updated_at: string;
+};
+
 export type PracticeCard = {
   id: string;
+  kind: FlashcardKind;
+  ordinal: number;
+  direction: CardDirection;
   front: string;
   back: string;
   order_index: number;
@@ -75,5 +114,114 @@ export type PracticeCard = {
   state: ReviewState;
   interval_days: number;
   ease: number;
+  // marcada como sanguijuela (demasiados lapsos)
+  leech?: boolean;
+};
+
+/** Al llegar al umbral de lapsos: solo marcar o además suspender. */
+export type LeechAction = "tag" | "suspend";
+
+/** Flags personales por carta (PK: user_id, card_id). */
+export type FlashcardUserFlagRow = {
+  user_id: string;
+  card_id: string;
+  suspended_at: string | null;
+  // enterrada: fuera de la práctica hasta esta fecha
+  buried_until: string | null;
+  leech_at: string | null;
+  updated_at: string;
+};
+
+export type QuizAttemptRow = {
+  id: string;
+  user_id: string;
+  project_id: ProjectId;
+  block_id: string;
+  answers: Record<string, string[]>; // question_id -> option_ids
+  results: { question_id: string; selected: string[]; correct: boolean }[];
+  score: number;
+  max_score: number;
+  created_at: string;
+};
+
+/** Reseña de un proyecto de comunidad (una por usuario). */
+export type ProjectReviewRow = {
+  id: string;
+  project_id: ProjectId;
+  user_id: string;
+  rating: number; // 1..5
+  body: string;
+  created_at: string;
+  updated_at: string;
 };
 
+export type ProjectInviteKind = "user" | "link";
+export type ProjectInviteStatus = "pending" | "accepted" | "declined" | "revoked";
+
+export type ProjectInviteRow = {
+  id: string;
+  project_id: ProjectId;
+  invited_by: string;
+  kind: ProjectInviteKind;
+  // kind = "user": usuario existente o correo (aún sin cuenta)
+  invitee_user_id: string | null;
+  invitee_email: string | null;
+  role: Exclude<ProjectRole, "owner">;
+  // kind = "link"
+  token: string | null;
+  max_uses: number | null; // null = sin límite
+  uses: number;
+  expires_at: string | null;
+  status: ProjectInviteStatus;
+  created_at: string;
+  responded_at: string | null;
+};
+
+export type ProjectAccessRequestStatus = "pending" | "approved" | "rejected";
+
+export type ProjectAccessRequestRow = {
+  id: string;
+  project_id: ProjectId;
+  user_id: string;
+  message: string | null;
+  status: ProjectAccessRequestStatus;
+  // rol otorgado al aprobar
+  role: Exclude<ProjectRole, "owner"> | null;
+  created_at: string;
+  decided_at: string | null;
+  decided_by: string | null;
+  // el solicitante ya vio la decisión
+  seen_at: string | null;
+};
+
+/** Meta de una tarea de clase (ver lib/cohorts.ts). */
+export type CohortAssignmentTarget = "reviewed_once" | "graduated";
+
+export type CohortRow = {
+  id: string;
+  owner_user_id: string;
+  name: string;
+  description: string | null;
+  join_code: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CohortMemberRow = {
+  cohort_id: string;
+  user_id: string;
+  joined_at: string;
+};
+
+export type CohortAssignmentRow = {
+  id: string;
+  cohort_id: string;
+  project_id: ProjectId;
+  // null = todo el proyecto
+  group_ids: string[] | null;
+  title: string | null;
+  target: CohortAssignmentTarget;
+  due_at: string;
+  created_by: string;
+  created_at: string;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { readZip, writeZip } from "./zip";
+
+describe("writeZip / readZip", () => {
+  const files = [
+    { name: "project.json", data: Buffer.from(JSON.stringify({ a: 1, texto: "ñandú" })) },
+    { name: "carpeta/vacío.txt", data: Buffer.alloc(0) },
+    { name: "grande.bin", data: Buffer.alloc(50_000, 7) },
+  ];
+
+  it("lee lo que escribe, con nombres UTF-8", () => {
+    const zip = readZip(writeZip(files), 1024 * 1024);
+    expect([...zip.keys()]).toEqual(files.map((f) => f.name));
+    for (const f of files) {
+      const entry = zip.get(f.name);
+      expect(entry?.size).toBe(f.data.length);
+      expect(entry?.read().equals(f.data)).toBe(true);
+    }
+  });
+
+  it("no descomprime entradas sobre el máximo", () => {
+    const zip = readZip(writeZip(files), 1000);
+    expect(() => zip.get("grande.bin")?.read()).toThrow(/demasiado grande/);
+    expect(zip.get("project.json")?.read().toString("utf8")).toContain("ñandú");
+  });
+
+  it("rechaza lo que no es ZIP o está truncado", () => {
+    expect(() => readZip(Buffer.from("hola, no soy un zip"), 1000)).toThrow(/no es un ZIP/);
+
+    const buf = writeZip(files);
+    const eocd = buf.length - 22;
+    // directorio central apuntando fuera del archivo
+    buf.writeUInt32LE(buf.length, eocd + 16);
+    expect(() => readZip(buf, 1000)).toThrow(/corrupto/);
+  });
+});